@@ -0,0 +1,63 @@
+// A local stand-in for the few Matrix client-server API endpoints that the bot uses. It accepts
+// any access token, lets the bot join any room, and prints the messages instead of storing them.
+// Usage: node dev-matrix-homeserver.js [port]
+const http = require('http');
+
+const port = Number(process.argv[2]) || 8008;
+const userId = '@woofbot:localhost';
+const sentTransactionIds = new Set();
+let roomsCounter = 0;
+
+function reply(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+http.createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => {
+    body += chunk.toString('utf8');
+  });
+  req.on('end', () => {
+    if (!/^Bearer \S+$/.test(req.headers.authorization ?? '')) {
+      reply(res, 401, { errcode: 'M_MISSING_TOKEN', error: 'Missing access token' });
+      return;
+    }
+    const path = decodeURIComponent(new URL(req.url, 'http://localhost').pathname)
+      .replace(/^\/_matrix\/client\/v3/, '');
+    let match;
+    if ((req.method === 'GET') && (path === '/account/whoami')) {
+      reply(res, 200, { user_id: userId });
+    } else if ((req.method === 'POST') && (match = path.match(/^\/join\/(.+)$/))) {
+      const room = match[1];
+      // Aliases are "resolved" to a fake room id
+      reply(res, 200, { room_id: room.startsWith('#') ? `!${room.slice(1)}` : room });
+    } else if ((req.method === 'POST') && (path === '/createRoom')) {
+      roomsCounter += 1;
+      const { invite = [] } = JSON.parse(body || '{}');
+      const roomId = `!room${roomsCounter}:localhost`;
+      console.log(`----- Created room ${roomId} and invited ${invite.join(', ')} -----`);
+      reply(res, 200, { room_id: roomId });
+    } else if ((req.method === 'POST') && (match = path.match(/^\/rooms\/(.+)\/leave$/))) {
+      console.log(`----- Left room ${match[1]} -----`);
+      reply(res, 200, {});
+    } else if (
+      (req.method === 'PUT')
+      && (match = path.match(/^\/rooms\/(.+)\/send\/m\.room\.message\/(.+)$/))
+    ) {
+      const [, roomId, transactionId] = match;
+      if (!sentTransactionIds.has(transactionId)) {
+        sentTransactionIds.add(transactionId);
+        const content = JSON.parse(body || '{}');
+        console.log(`----- Message to ${roomId} (transaction ${transactionId}) -----`);
+        console.log(content.body);
+        console.log(`HTML: ${content.formatted_body}`);
+      }
+      reply(res, 200, { event_id: `$${transactionId}` });
+    } else {
+      reply(res, 404, { errcode: 'M_UNRECOGNIZED', error: `Unrecognized ${req.method} ${path}` });
+    }
+  });
+}).listen(port, () => {
+  console.log(`Matrix homeserver stand-in is listening on port ${port}`);
+});
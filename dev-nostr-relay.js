@@ -0,0 +1,199 @@
+// A local Nostr relay stand-in that prints the published events and verifies their signatures.
+// It keeps the events in memory and serves subscriptions, so a Nostr client can connect to it too.
+// When NOSTR_SECRET_KEY (hex or nsec) is set, the direct messages to that key are decrypted.
+// Usage: [NOSTR_SECRET_KEY=<key>] node dev-nostr-relay.js [port]
+const {
+  createDecipheriv, createHash, createHmac, timingSafeEqual,
+} = require('crypto');
+const { schnorr, secp256k1 } = require('@noble/curves/secp256k1');
+const { bech32 } = require('@scure/base');
+const { WebSocketServer } = require('ws');
+
+const port = Number(process.argv[2]) || 7000;
+const secretKey = (() => {
+  const value = process.env.NOSTR_SECRET_KEY;
+  if (!value) {
+    return undefined;
+  }
+  if (value.startsWith('nsec1')) {
+    return Buffer.from(bech32.fromWords(bech32.decode(value).words));
+  }
+  return Buffer.from(value, 'hex');
+})();
+const publicKey = secretKey && Buffer.from(schnorr.getPublicKey(secretKey)).toString('hex');
+
+const events = [];
+const subscriptions = new Map(); // socket => Map<subscriptionId, filters>
+
+function getEventId(event) {
+  return createHash('sha256').update(JSON.stringify([
+    0, event.pubkey, event.created_at, event.kind, event.tags, event.content,
+  ])).digest('hex');
+}
+
+function isValidEvent(event) {
+  try {
+    return (getEventId(event) === event.id) && schnorr.verify(event.sig, event.id, event.pubkey);
+  } catch (error) {
+    return false;
+  }
+}
+
+function getSharedX(otherPublicKey) {
+  return Buffer.from(secp256k1.getSharedSecret(secretKey, `02${otherPublicKey}`).subarray(1, 33));
+}
+
+function nip04Decrypt(otherPublicKey, content) {
+  const [ciphertext, iv] = content.split('?iv=');
+  const decipher = createDecipheriv(
+    'aes-256-cbc',
+    getSharedX(otherPublicKey),
+    Buffer.from(iv, 'base64'),
+  );
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final(),
+  ]).toString('utf8');
+}
+
+function nip44Decrypt(otherPublicKey, content) {
+  const payload = Buffer.from(content, 'base64');
+  if (payload[0] !== 2) {
+    throw new Error(`Unknown NIP-44 version ${payload[0]}`);
+  }
+  const nonce = payload.subarray(1, 33);
+  const ciphertext = payload.subarray(33, payload.length - 32);
+  const mac = payload.subarray(payload.length - 32);
+  const conversationKey = createHmac('sha256', 'nip44-v2').update(
+    getSharedX(otherPublicKey),
+  ).digest();
+  const blocks = [];
+  let previousBlock = Buffer.alloc(0);
+  for (let counter = 1; counter <= 3; counter += 1) {
+    previousBlock = createHmac('sha256', conversationKey).update(
+      Buffer.concat([previousBlock, nonce, Buffer.from([counter])]),
+    ).digest();
+    blocks.push(previousBlock);
+  }
+  const keys = Buffer.concat(blocks);
+  const expectedMac = createHmac('sha256', keys.subarray(44, 76)).update(
+    Buffer.concat([nonce, ciphertext]),
+  ).digest();
+  if (!timingSafeEqual(mac, expectedMac)) {
+    throw new Error('Invalid NIP-44 mac');
+  }
+  const decipher = createDecipheriv(
+    'chacha20',
+    keys.subarray(0, 32),
+    Buffer.concat([Buffer.alloc(4), keys.subarray(32, 44)]),
+  );
+  const padded = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  return padded.subarray(2, 2 + padded.readUInt16BE()).toString('utf8');
+}
+
+function decryptDirectMessage(event) {
+  if (!secretKey || !event.tags.some(([name, value]) => (name === 'p') && (value === publicKey))) {
+    return undefined;
+  }
+  if (event.kind === 4) {
+    return `NIP-04 from ${event.pubkey}:\n${nip04Decrypt(event.pubkey, event.content)}`;
+  }
+  if (event.kind === 1059) {
+    const seal = JSON.parse(nip44Decrypt(event.pubkey, event.content));
+    if (!isValidEvent(seal)) {
+      return 'NIP-17 seal has an INVALID signature';
+    }
+    const rumor = JSON.parse(nip44Decrypt(seal.pubkey, seal.content));
+    return `NIP-17 from ${rumor.pubkey}:\n${rumor.content}`;
+  }
+  return undefined;
+}
+
+function matchesFilter(event, filter) {
+  return (!filter.ids || filter.ids.includes(event.id))
+    && (!filter.authors || filter.authors.includes(event.pubkey))
+    && (!filter.kinds || filter.kinds.includes(event.kind))
+    && (!filter['#p'] || event.tags.some(
+      ([name, value]) => (name === 'p') && filter['#p'].includes(value),
+    ))
+    && (!filter.since || (event.created_at >= filter.since))
+    && (!filter.until || (event.created_at <= filter.until));
+}
+
+function send(socket, message) {
+  socket.send(JSON.stringify(message));
+}
+
+function handleEvent(socket, event) {
+  if (!isValidEvent(event)) {
+    console.log(`Event ${event.id} has an INVALID signature`);
+    send(socket, ['OK', event.id, false, 'invalid: bad signature']);
+    return;
+  }
+  if (events.some(({ id }) => id === event.id)) {
+    send(socket, ['OK', event.id, true, 'duplicate: already have this event']);
+    return;
+  }
+  events.push(event);
+  send(socket, ['OK', event.id, true, '']);
+  console.log(`Event ${event.id} kind ${event.kind} from ${event.pubkey}, signature valid`);
+  try {
+    const text = decryptDirectMessage(event);
+    if (text !== undefined) {
+      console.log(text);
+    }
+  } catch (error) {
+    console.log(`Failed to decrypt event ${event.id}: ${error}`);
+  }
+  for (const [subscriber, subscriberSubscriptions] of subscriptions.entries()) {
+    for (const [subscriptionId, filters] of subscriberSubscriptions.entries()) {
+      if (filters.some((filter) => matchesFilter(event, filter))) {
+        send(subscriber, ['EVENT', subscriptionId, event]);
+      }
+    }
+  }
+}
+
+const server = new WebSocketServer({ port });
+
+server.on('connection', (socket) => {
+  subscriptions.set(socket, new Map());
+  socket.on('close', () => subscriptions.delete(socket));
+  socket.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch (error) {
+      send(socket, ['NOTICE', 'invalid: could not parse message']);
+      return;
+    }
+    const [type, ...args] = Array.isArray(message) ? message : [];
+    switch (type) {
+      case 'EVENT':
+        handleEvent(socket, args[0]);
+        break;
+      case 'REQ': {
+        const [subscriptionId, ...filters] = args;
+        subscriptions.get(socket).set(subscriptionId, filters);
+        const matches = events.filter(
+          (event) => filters.some((filter) => matchesFilter(event, filter)),
+        );
+        for (const event of matches) {
+          send(socket, ['EVENT', subscriptionId, event]);
+        }
+        send(socket, ['EOSE', subscriptionId]);
+        break;
+      }
+      case 'CLOSE':
+        subscriptions.get(socket).delete(args[0]);
+        break;
+      default:
+        send(socket, ['NOTICE', `invalid: unknown message type ${type}`]);
+    }
+  });
+});
+
+server.on('listening', () => {
+  console.log(`Nostr relay stand-in is listening on port ${port}${
+    publicKey ? `, decrypting direct messages to ${publicKey}` : ''
+  }`);
+});
@@ -0,0 +1,83 @@
+// A local SMTP server that accepts every email and prints it, instead of delivering it.
+// Any username and password are accepted, TLS is not supported (leave "Use TLS" unchecked).
+// Usage: node dev-smtp-sink.js [port]
+const net = require('net');
+
+const port = Number(process.argv[2]) || 2525;
+
+net.createServer((socket) => {
+  let buffer = '';
+  let isReadingData = false;
+  let envelope = { from: '', to: [] };
+  const reply = (line) => socket.write(`${line}\r\n`);
+
+  reply('220 localhost dev-smtp-sink');
+  socket.on('data', (chunk) => {
+    buffer += chunk.toString('utf8');
+    for (;;) {
+      if (isReadingData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) {
+          return;
+        }
+        const data = buffer.slice(0, end).replaceAll('\r\n..', '\r\n.');
+        buffer = buffer.slice(end + 5);
+        isReadingData = false;
+        console.log(`----- Email from ${envelope.from} to ${envelope.to.join(', ')} -----`);
+        console.log(data);
+        reply('250 OK: queued');
+        envelope = { from: '', to: [] };
+        continue;
+      }
+      const lineEnd = buffer.indexOf('\r\n');
+      if (lineEnd < 0) {
+        return;
+      }
+      const line = buffer.slice(0, lineEnd);
+      buffer = buffer.slice(lineEnd + 2);
+      const command = line.split(' ')[0].toUpperCase();
+      switch (command) {
+        case 'EHLO':
+          reply('250-localhost');
+          reply('250-AUTH PLAIN');
+          reply('250 8BITMIME');
+          break;
+        case 'HELO':
+          reply('250 localhost');
+          break;
+        case 'AUTH':
+          // Accepts any username and password without checking them
+          reply('235 Authentication successful');
+          break;
+        case 'MAIL':
+          envelope.from = line.slice(line.indexOf(':') + 1).trim();
+          reply('250 OK');
+          break;
+        case 'RCPT':
+          envelope.to.push(line.slice(line.indexOf(':') + 1).trim());
+          reply('250 OK');
+          break;
+        case 'DATA':
+          isReadingData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+          break;
+        case 'RSET':
+          envelope = { from: '', to: [] };
+          reply('250 OK');
+          break;
+        case 'NOOP':
+          reply('250 OK');
+          break;
+        case 'QUIT':
+          reply('221 Bye');
+          socket.end();
+          return;
+        default:
+          reply('502 Command not implemented');
+      }
+    }
+  });
+  socket.on('error', (error) => console.log(`Socket error: ${error.message}`));
+}).listen(port, () => {
+  console.log(`SMTP sink is listening on port ${port}`);
+});
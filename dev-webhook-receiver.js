@@ -0,0 +1,38 @@
+// A local http server that prints the webhook requests and verifies their signatures.
+// Usage: WEBHOOK_SECRET=<secret> node dev-webhook-receiver.js [port]
+const { createHmac, timingSafeEqual } = require('crypto');
+const http = require('http');
+
+const port = Number(process.argv[2]) || 9000;
+const secret = process.env.WEBHOOK_SECRET;
+
+function isValidSignature(timestamp, body, signatureHeader) {
+  if (!secret || !timestamp || !signatureHeader) {
+    return false;
+  }
+  const expected = Buffer.from(
+    `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`,
+  );
+  const actual = Buffer.from(signatureHeader);
+  return (expected.length === actual.length) && timingSafeEqual(expected, actual);
+}
+
+http.createServer((req, res) => {
+  const chunks = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString();
+    const timestamp = req.headers['x-woofbot-timestamp'];
+    const signature = req.headers['x-woofbot-signature'];
+    console.log(`${req.method} ${req.url} event ${req.headers['x-woofbot-event']} delivery ${
+      req.headers['x-woofbot-delivery']
+    }, signature ${
+      secret ? (isValidSignature(timestamp, body, signature) ? 'valid' : 'INVALID') : 'not checked'
+    }`);
+    console.log(body);
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end('{"ok":true}');
+  });
+}).listen(port, () => {
+  console.log(`Webhook receiver is listening on port ${port}`);
+});
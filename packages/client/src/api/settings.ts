@@ -9,6 +9,7 @@ import { errorToast, successToast } from '../utils/toast';
 export interface TelegramSettingsInterface {
   status: TelegramStatus;
   numberOfUsers: number;
+  numberOfChats: number;
   botUsername?: string;
   botName?: string;
 }
@@ -43,6 +44,161 @@ export const useMutationSettingsTelegram = () => {
   return mutation;
 };
 
+export interface NostrSettingsInterface {
+  npub: string;
+  relays: string[];
+  numberOfUsers: number;
+}
+
+export const useGetSettingsNostr = () => useAuthQuery<NostrSettingsInterface>(
+  apiRoutes.settingsNostr,
+  () => api.get(apiRoutes.settingsNostr),
+);
+
+export interface NostrSettingsMutation {
+  relays: string[];
+}
+
+export const useMutationSettingsNostr = () => {
+  const queryClient = useQueryClient();
+  const mutation = useMutation(
+    (options: NostrSettingsMutation) => api.post(apiRoutes.settingsNostr, options),
+    {
+      onSuccess: () => {
+        successToast('Nostr settings were saved successfully');
+      },
+      onError: (error) => {
+        errorToast(
+          ((error instanceof HttpError) && error.message) || 'Internal error',
+        );
+      },
+      onSettled: () => {
+        queryClient.invalidateQueries(apiRoutes.settingsNostr);
+      },
+    },
+  );
+  return mutation;
+};
+
+export interface SmtpSettingsInterface {
+  host?: string;
+  port?: number;
+  secure?: boolean;
+  username?: string;
+  hasPassword?: boolean;
+  fromAddress?: string;
+  numberOfUsers: number;
+}
+
+export const useGetSettingsSmtp = () => useAuthQuery<SmtpSettingsInterface>(
+  apiRoutes.settingsSmtp,
+  () => api.get(apiRoutes.settingsSmtp),
+);
+
+export interface SmtpSettingsMutation {
+  host?: string;
+  port?: number;
+  secure?: boolean;
+  username?: string;
+  password?: string;
+  fromAddress?: string;
+}
+
+export const useMutationSettingsSmtp = () => {
+  const queryClient = useQueryClient();
+  const mutation = useMutation(
+    (options: SmtpSettingsMutation) => api.post(apiRoutes.settingsSmtp, options),
+    {
+      onSuccess: () => {
+        successToast('Email settings were saved successfully');
+      },
+      onError: (error) => {
+        errorToast(
+          ((error instanceof HttpError) && error.message) || 'Internal error',
+        );
+      },
+      onSettled: () => {
+        queryClient.invalidateQueries(apiRoutes.settingsSmtp);
+      },
+    },
+  );
+  return mutation;
+};
+
+export interface SmtpTestMutation {
+  emailAddress: string;
+}
+
+export const useMutationSettingsSmtpTest = () => useMutation(
+  (options: SmtpTestMutation) => api.post(apiRoutes.settingsSmtpTest, options),
+  {
+    onSuccess: () => {
+      successToast('A test email was queued');
+    },
+    onError: (error) => {
+      errorToast(
+        ((error instanceof HttpError) && error.message) || 'Internal error',
+      );
+    },
+  },
+);
+
+export interface MatrixSettingsInterface {
+  homeserverUrl?: string;
+  userId?: string;
+  rooms?: string[];
+  roomEvents?: string[];
+  availableRoomEvents: string[];
+  numberOfUsers: number;
+}
+
+export const useGetSettingsMatrix = () => useAuthQuery<MatrixSettingsInterface>(
+  apiRoutes.settingsMatrix,
+  () => api.get(apiRoutes.settingsMatrix),
+);
+
+export interface MatrixSettingsMutation {
+  homeserverUrl?: string;
+  accessToken?: string;
+  rooms?: string[];
+  roomEvents?: string[];
+}
+
+export const useMutationSettingsMatrix = () => {
+  const queryClient = useQueryClient();
+  const mutation = useMutation(
+    (options: MatrixSettingsMutation) => api.post(apiRoutes.settingsMatrix, options),
+    {
+      onSuccess: () => {
+        successToast('Matrix settings were saved successfully');
+      },
+      onError: (error) => {
+        errorToast(
+          ((error instanceof HttpError) && error.message) || 'Internal error',
+        );
+      },
+      onSettled: () => {
+        queryClient.invalidateQueries(apiRoutes.settingsMatrix);
+      },
+    },
+  );
+  return mutation;
+};
+
+export const useMutationSettingsMatrixTest = () => useMutation(
+  () => api.post(apiRoutes.settingsMatrixTest, {}),
+  {
+    onSuccess: () => {
+      successToast('A test message was queued for every room');
+    },
+    onError: (error) => {
+      errorToast(
+        ((error instanceof HttpError) && error.message) || 'Internal error',
+      );
+    },
+  },
+);
+
 interface WithMaxUsers {
   maxUsers: number;
   usersWhitelist: undefined;
@@ -57,6 +213,7 @@ interface GeneralSettingsRequiredFields {
   bestBlockHeight: number;
   bestBlockId: string;
   bitcoindWatcherTasks: number;
+  pendingNotifications: number;
   mempoolWeight: number;
   mempoolUrlPrefix: string;
 }
@@ -0,0 +1,100 @@
+import { useMutation, useQueryClient } from 'react-query';
+
+import { errorToast, successToast } from '../utils/toast';
+import { apiRoutes } from '../routes';
+import { api, HttpError } from '../utils/api';
+import { useAuthQuery } from '../utils/query-hooks';
+
+export enum TelegramChatStatus {
+  Pending = 'pending',
+  Approved = 'approved',
+  Rejected = 'rejected',
+}
+
+export interface TelegramChatAttributes {
+  telegramChatId: number;
+  type: string;
+  title: string;
+  status: TelegramChatStatus;
+  addedByFromId?: number;
+  subscriberId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface TelegramChatsBody {
+  data: {
+    type: 'telegram-chats';
+    id: string;
+    attributes: TelegramChatAttributes;
+  }[];
+}
+
+export const useTelegramChats = () => useAuthQuery<TelegramChatsBody>(
+  apiRoutes.telegramChats,
+  () => api.get(apiRoutes.telegramChats),
+);
+
+interface TelegramChatPatch {
+  id: string;
+  status: TelegramChatStatus.Approved | TelegramChatStatus.Rejected;
+}
+
+export const useMutationPatchTelegramChat = () => {
+  const queryClient = useQueryClient();
+  const mutation = useMutation(
+    ({ id, ...attributes }: TelegramChatPatch) => api.patch(
+      `${apiRoutes.telegramChats}/${encodeURIComponent(id)}`,
+      {
+        data: {
+          id,
+          type: 'telegram-chats',
+          attributes,
+        },
+      },
+    ),
+    {
+      onSuccess: (_data, { status }) => {
+        successToast(`Chat was ${status} successfully`);
+      },
+      onError: (error) => {
+        errorToast(
+          ((error instanceof HttpError) && error.message) || 'Internal error',
+        );
+      },
+      onSettled: () => {
+        queryClient.invalidateQueries(apiRoutes.settingsTelegram);
+        queryClient.invalidateQueries(apiRoutes.telegramChats);
+      },
+    },
+  );
+  return mutation;
+};
+
+interface TelegramChatDelete {
+  id: string;
+}
+
+export const useMutationDeleteTelegramChat = () => {
+  const queryClient = useQueryClient();
+  const mutation = useMutation(
+    ({ id }: TelegramChatDelete) => api.delete(
+      `${apiRoutes.telegramChats}/${encodeURIComponent(id)}`,
+    ),
+    {
+      onSuccess: () => {
+        successToast('Chat was deleted successfully');
+      },
+      onError: (error) => {
+        errorToast(
+          ((error instanceof HttpError) && error.message) || 'Internal error',
+        );
+      },
+      onSettled: () => {
+        queryClient.invalidateQueries(apiRoutes.settingsTelegram);
+        queryClient.invalidateQueries(apiRoutes.telegramChats);
+      },
+    },
+  );
+  return mutation;
+};
@@ -12,14 +12,40 @@ interface UserAttributes {
   telegramChatId: string;
   watchReboot: boolean;
   watchNewBlocks: boolean;
+  watchNewBlocksPools: string[];
+  watchReorg: boolean;
+  watchDifficulty: boolean;
+  watchHalving: boolean;
   watchPriceChange?: number;
   watchMempoolClear: boolean;
+  watchFeeRateBelow?: number;
+  watchFeeRateAbove?: number;
+  watchWhaleAmountSats?: number;
+  watchWhaleFeeSats?: number;
+  watchWhaleFeeRate?: number;
+  watchNodeHealth?: number;
   watchLightningChannelsOpened: boolean;
   watchLightningChannelsClosed: boolean;
   watchLightningForwards: boolean;
   watchLightningInvoicesCreated: boolean;
   watchLightningInvoicesPaid: boolean;
+  watchLightningLiquidityBelow?: number;
+  watchLightningLiquidityAbove?: number;
+  watchLightningChannelsLiquidity: {
+    channelId: string;
+    below?: number;
+    above?: number;
+  }[];
   permissionGroups: string[];
+  nostrPublicKey?: string;
+  nostrEncryption?: string;
+  emailAddress?: string;
+  matrixUserId?: string;
+  telegramChatType?: string;
+  language?: string;
+  timeZone?: string;
+  locale?: string;
+  numberFormat?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -27,6 +53,9 @@ interface UserAttributes {
 export interface WatchedAddressAttributes {
   address: string;
   nickname?: string;
+  confirmedBalanceSats?: number;
+  balanceAboveSats?: number;
+  balanceBelowSats?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -38,6 +67,39 @@ export interface WatchedTransactionAttributes {
   blockHashes?: string[];
   confirmations: number;
   conflictingTransactions?: string[];
+  confirmationTargets?: number[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WatchedWalletAttributes {
+  extendedKey: string;
+  scriptType: string;
+  nickname?: string;
+  derivedAddresses: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WatchedOutpointAttributes {
+  outpoint: string;
+  nickname?: string;
+  valueSats: number;
+  spendingTxid?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WatchedTimelockAttributes {
+  type: 'height' | 'time' | 'csv' | 'coinbase';
+  lock: string;
+  nickname?: string;
+  relativeBlocks?: number;
+  relativeSeconds?: number;
+  maturityHeight?: number;
+  maturityTime?: number;
+  warningBlocks: number;
+  matured: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -54,9 +116,13 @@ export const useUsers = () => useInfiniteAuthQuery<CursorPaginationBody<UserAttr
 
 export const useUser = (userId: string) => useAuthQuery<BodyWithRelationships<
   UserAttributes, 'users',
-  'watchedTransactions' | 'watchedAddresses',
+  'watchedTransactions' | 'watchedAddresses' | 'watchedWallets' | 'watchedOutpoints'
+  | 'watchedTimelocks',
   WatchedAddressAttributes, 'watched-addresses',
-  WatchedTransactionAttributes, 'watched-transactions'
+  WatchedTransactionAttributes, 'watched-transactions',
+  WatchedWalletAttributes, 'watched-wallets',
+  WatchedOutpointAttributes, 'watched-outpoints',
+  WatchedTimelockAttributes, 'watched-timelocks'
 >>(
   [apiRoutes.users, userId],
   () => api.get(`${apiRoutes.users}/${userId}`),
@@ -0,0 +1,92 @@
+import { useMutation, useQueryClient } from 'react-query';
+
+import { errorToast, successToast } from '../utils/toast';
+import { apiRoutes } from '../routes';
+import { api, HttpError } from '../utils/api';
+import { useAuthQuery } from '../utils/query-hooks';
+
+export interface WebhookAttributes {
+  url: string;
+  userId?: string;
+  telegramUsername?: string;
+  secret?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface WebhooksBody {
+  data: {
+    type: 'webhooks';
+    id: string;
+    attributes: WebhookAttributes;
+  }[];
+}
+
+export const useWebhooks = () => useAuthQuery<WebhooksBody>(
+  apiRoutes.webhooks,
+  () => api.get(apiRoutes.webhooks),
+);
+
+interface WebhookCreate {
+  url: string;
+}
+
+export const useMutationCreateWebhook = () => {
+  const queryClient = useQueryClient();
+  const mutation = useMutation(
+    (options: WebhookCreate) => api.post(apiRoutes.webhooks, options),
+    {
+      onSuccess: () => {
+        successToast('Webhook was added successfully');
+      },
+      onError: (error) => {
+        errorToast(
+          ((error instanceof HttpError) && error.message) || 'Internal error',
+        );
+      },
+      onSettled: () => {
+        queryClient.invalidateQueries(apiRoutes.webhooks);
+      },
+    },
+  );
+  return mutation;
+};
+
+interface WebhookAction {
+  id: string;
+}
+
+export const useMutationDeleteWebhook = () => {
+  const queryClient = useQueryClient();
+  const mutation = useMutation(
+    ({ id }: WebhookAction) => api.delete(`${apiRoutes.webhooks}/${encodeURIComponent(id)}`),
+    {
+      onSuccess: () => {
+        successToast('Webhook was deleted successfully');
+      },
+      onError: (error) => {
+        errorToast(
+          ((error instanceof HttpError) && error.message) || 'Internal error',
+        );
+      },
+      onSettled: () => {
+        queryClient.invalidateQueries(apiRoutes.webhooks);
+      },
+    },
+  );
+  return mutation;
+};
+
+export const useMutationTestWebhook = () => useMutation(
+  ({ id }: WebhookAction) => api.post(`${apiRoutes.webhooks}/${encodeURIComponent(id)}/test`, {}),
+  {
+    onSuccess: () => {
+      successToast('A test event was sent to the webhook');
+    },
+    onError: (error) => {
+      errorToast(
+        ((error instanceof HttpError) && error.message) || 'Internal error',
+      );
+    },
+  },
+);
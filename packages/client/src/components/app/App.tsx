@@ -9,6 +9,7 @@ import Logout from '../logout/Logout';
 import HomeContent from '../dashboard/HomeContent';
 import UsersContent from '../dashboard/UsersContent';
 import UserContent from '../dashboard/UserContent';
+import ChatsContent from '../dashboard/ChatsContent';
 
 export default function App() {
   return (
@@ -20,6 +21,7 @@ export default function App() {
         <Route index element={<HomeContent />} />
         <Route path={pageRoutes.users} element={<UsersContent />} />
         <Route path={`${pageRoutes.users}/:userId`} element={<UserContent />} />
+        <Route path={pageRoutes.chats} element={<ChatsContent />} />
       </Route>
       <Route path="*" element={<Navigate to={pageRoutes.home} replace />} />
     </Routes>
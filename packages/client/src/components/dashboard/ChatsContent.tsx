@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import Grid from '@mui/material/Grid';
+import Paper from '@mui/material/Paper';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Button from '@mui/material/Button';
+import DeleteIcon from '@mui/icons-material/Delete';
+import IconButton from '@mui/material/IconButton';
+import CircularProgressIcon from '@mui/material/CircularProgress';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogContentText from '@mui/material/DialogContentText';
+import DialogTitle from '@mui/material/DialogTitle';
+import Typography from '@mui/material/Typography';
+import { prettyDate } from '@woofbot/common';
+import { Link } from 'react-router-dom';
+
+import {
+  TelegramChatStatus, useMutationDeleteTelegramChat, useMutationPatchTelegramChat,
+  useTelegramChats,
+} from '../../api/telegram-chats';
+import { pageRoutes } from '../../routes';
+import Copyright from '../copyright/Copyright';
+import Title from './Title';
+import { emptyTableCell } from './emptyTableCell';
+
+export default function ChatsContent() {
+  const { data } = useTelegramChats();
+  const [deleteChatId, setDeleteChatId] = useState<string | undefined>();
+  const [promptDeleteChatId, setPromptDeleteChatId] = useState('');
+  const { mutate: mutatePatchChat, isLoading: isPatchLoading } = useMutationPatchTelegramChat();
+  const { mutate: mutateDeleteChat } = useMutationDeleteTelegramChat();
+  useEffect(() => {
+    if (deleteChatId) {
+      // keep the last defined id
+      setPromptDeleteChatId(deleteChatId);
+    }
+  }, [deleteChatId]);
+  const onDeleteClick = (event: React.MouseEvent<HTMLElement>) => {
+    const chatId = event.currentTarget.getAttribute('data-chatid');
+    setDeleteChatId(chatId ?? undefined);
+  };
+  const deleteChat = () => {
+    if (!deleteChatId) {
+      return;
+    }
+    mutateDeleteChat({ id: deleteChatId });
+    setDeleteChatId(undefined);
+  };
+  return (
+    <>
+      <Grid container spacing={3}>
+        <Grid item xs={12}>
+          <Paper sx={{ p: 2, display: 'flex', flexDirection: 'column' }}>
+            <Title>Chats</Title>
+            <Typography color="text.secondary" variant="body2">
+              Groups and channels that added the bot. Once approved, the administrators of a chat
+              can subscribe it to watches, according to their own permission groups.
+            </Typography>
+            {
+              !data && (
+                <CircularProgressIcon sx={{ margin: 'auto' }} />
+              )
+            }
+            {
+              data && (data.data.length === 0) && (
+                <Typography component="p" sx={{ mt: 1 }}>
+                  No chats were found
+                </Typography>
+              )
+            }
+            {
+              data && (data.data.length > 0) && (
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Title</TableCell>
+                      <TableCell>Type</TableCell>
+                      <TableCell>Telegram Id</TableCell>
+                      <TableCell>Added By</TableCell>
+                      <TableCell>Status</TableCell>
+                      <TableCell>Created At</TableCell>
+                      <TableCell align="right" />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {
+                      data.data.map(({ id, attributes }) => (
+                        <TableRow key={id}>
+                          <TableCell>
+                            {
+                              attributes.subscriberId ? (
+                                <Typography
+                                  component={Link}
+                                  to={`${pageRoutes.users}/${
+                                    encodeURIComponent(attributes.subscriberId)
+                                  }`}
+                                  color="primary"
+                                >
+                                  {attributes.title}
+                                </Typography>
+                              ) : attributes.title
+                            }
+                          </TableCell>
+                          <TableCell>
+                            {attributes.type}
+                          </TableCell>
+                          <TableCell>
+                            {attributes.telegramChatId}
+                          </TableCell>
+                          <TableCell>
+                            {attributes.addedByFromId ?? emptyTableCell}
+                          </TableCell>
+                          <TableCell>
+                            {attributes.status}
+                          </TableCell>
+                          <TableCell>
+                            {prettyDate(attributes.createdAt)}
+                          </TableCell>
+                          <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                            {
+                              (attributes.status !== TelegramChatStatus.Approved) && (
+                                <Button
+                                  variant="outlined"
+                                  size="small"
+                                  disabled={isPatchLoading}
+                                  onClick={() => mutatePatchChat({
+                                    id, status: TelegramChatStatus.Approved,
+                                  })}
+                                >
+                                  Approve
+                                </Button>
+                              )
+                            }
+                            {
+                              (attributes.status !== TelegramChatStatus.Rejected) && (
+                                <Button
+                                  variant="outlined"
+                                  size="small"
+                                  color="warning"
+                                  disabled={isPatchLoading}
+                                  onClick={() => mutatePatchChat({
+                                    id, status: TelegramChatStatus.Rejected,
+                                  })}
+                                  sx={{ ml: 1 }}
+                                >
+                                  Reject
+                                </Button>
+                              )
+                            }
+                            <IconButton
+                              onClick={onDeleteClick}
+                              data-chatid={id}
+                              color="error"
+                            >
+                              <DeleteIcon />
+                            </IconButton>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    }
+                  </TableBody>
+                </Table>
+              )
+            }
+          </Paper>
+        </Grid>
+      </Grid>
+      <Copyright />
+      <Dialog
+        open={Boolean(deleteChatId)}
+        onClose={() => setDeleteChatId(undefined)}
+        aria-labelledby="alert-dialog-title"
+        aria-describedby="alert-dialog-description"
+      >
+        <DialogTitle id="alert-dialog-title">
+          Delete Chat
+          {' '}
+          {promptDeleteChatId}
+          ?
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText id="alert-dialog-description">
+            Are you sure you want to delete this chat? Its watches will be removed and the bot will
+            leave it.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Typography component="div" color="text.secondary">
+            <Button
+              onClick={() => setDeleteChatId(undefined)}
+              color="inherit"
+              variant="text"
+              sx={{ mx: 1, my: 1 }}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={deleteChat}
+              color="error"
+              variant="contained"
+              sx={{ mx: 1, my: 1 }}
+            >
+              Delete
+            </Button>
+          </Typography>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
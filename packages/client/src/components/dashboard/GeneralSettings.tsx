@@ -188,11 +188,16 @@ export default function GeneralSettings() {
             {data.mempoolUrlPrefix}
           </ExternalLink>
         </Typography>
-        <Typography component="p" sx={{ flex: 1 }}>
+        <Typography component="p">
           Bitcoind-Watcher queued tasks:
           {' '}
           {data.bitcoindWatcherTasks}
         </Typography>
+        <Typography component="p" sx={{ flex: 1 }}>
+          Pending notifications:
+          {' '}
+          {data.pendingNotifications}
+        </Typography>
         <Box>
           <Button
             variant="outlined"
@@ -7,6 +7,10 @@ import Copyright from '../copyright/Copyright';
 import TelegramSettings from './TelegramSettings';
 import GeneralSettings from './GeneralSettings';
 import CommandsList from './CommandsList';
+import WebhooksSettings from './WebhooksSettings';
+import NostrSettings from './NostrSettings';
+import SmtpSettings from './SmtpSettings';
+import MatrixSettings from './MatrixSettings';
 
 export default function HomeContent() {
   return (
@@ -41,6 +45,62 @@ export default function HomeContent() {
         </Grid>
         <Grid xs={0} md={1} lg={1} />
         <Grid xs={0} md={1} lg={1} />
+        <Grid item xs={12} md={10} lg={10}>
+          <Paper
+            sx={{
+              p: 2,
+              display: 'flex',
+              flexDirection: 'column',
+            }}
+          >
+            <Title>Webhooks</Title>
+            <WebhooksSettings />
+          </Paper>
+        </Grid>
+        <Grid xs={0} md={1} lg={1} />
+        <Grid xs={0} md={1} lg={1} />
+        <Grid item xs={12} md={10} lg={10}>
+          <Paper
+            sx={{
+              p: 2,
+              display: 'flex',
+              flexDirection: 'column',
+            }}
+          >
+            <Title>Nostr</Title>
+            <NostrSettings />
+          </Paper>
+        </Grid>
+        <Grid xs={0} md={1} lg={1} />
+        <Grid xs={0} md={1} lg={1} />
+        <Grid item xs={12} md={10} lg={10}>
+          <Paper
+            sx={{
+              p: 2,
+              display: 'flex',
+              flexDirection: 'column',
+            }}
+          >
+            <Title>Email</Title>
+            <SmtpSettings />
+          </Paper>
+        </Grid>
+        <Grid xs={0} md={1} lg={1} />
+        <Grid xs={0} md={1} lg={1} />
+        <Grid item xs={12} md={10} lg={10}>
+          <Paper
+            sx={{
+              p: 2,
+              display: 'flex',
+              flexDirection: 'column',
+            }}
+          >
+            <Title>Matrix</Title>
+            <MatrixSettings />
+          </Paper>
+        </Grid>
+        <Grid xs={0} md={1} lg={1} />
+        <Grid xs={0} md={1} lg={1} />
         <Grid item xs={12} md={10} lg={10}>
           <Paper sx={{ p: 2, display: 'flex', flexDirection: 'column' }}>
             <CommandsList />
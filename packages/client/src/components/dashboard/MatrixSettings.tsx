@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import Typography from '@mui/material/Typography';
+import CircularProgressIcon from '@mui/material/CircularProgress';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import FormGroup from '@mui/material/FormGroup';
+import Checkbox from '@mui/material/Checkbox';
+import { BotCommandName } from '@woofbot/common';
+import { MuiChipsInput } from 'mui-chips-input';
+
+import {
+  useGetSettingsMatrix, useMutationSettingsMatrix, useMutationSettingsMatrixTest,
+} from '../../api/settings';
+
+const accessTokenTextFieldHelper = 'Leave empty to keep the current access token.';
+
+export default function MatrixSettings() {
+  const { data, isLoading: isGetSettingsLoading } = useGetSettingsMatrix();
+  const { mutate, isLoading: isMutationLoading } = useMutationSettingsMatrix();
+  const { mutate: mutateTest, isLoading: isTestLoading } = useMutationSettingsMatrixTest();
+  const [isEditing, setIsEditing] = useState(false);
+  const [rooms, setRooms] = useState<string[]>([]);
+  const [roomEvents, setRoomEvents] = useState<string[]>([]);
+
+  const openEditing = () => {
+    setRooms(data?.rooms ?? []);
+    setRoomEvents(data?.roomEvents ?? data?.availableRoomEvents ?? []);
+    setIsEditing(true);
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formData = new FormData(event.currentTarget);
+    const homeserverUrl = `${formData.get('matrixHomeserverUrl')}`.trim();
+    if (!homeserverUrl) {
+      // Without a homeserver the Matrix settings are removed
+      mutate({});
+      setIsEditing(false);
+      return;
+    }
+    const accessToken = `${formData.get('matrixAccessToken')}`.trim();
+    mutate({
+      homeserverUrl,
+      ...accessToken && { accessToken },
+      rooms,
+      roomEvents,
+    });
+    setIsEditing(false);
+  };
+
+  const handleReset = async () => {
+    setIsEditing(false);
+  };
+
+  const updateRooms = (newRooms: string[]) => {
+    setRooms([...new Set(newRooms.map((room) => room.trim()))]);
+  };
+
+  const toggleRoomEvent = (roomEvent: string, checked: boolean) => {
+    setRoomEvents(
+      checked
+        ? [...roomEvents, roomEvent]
+        : roomEvents.filter((otherRoomEvent) => otherRoomEvent !== roomEvent),
+    );
+  };
+
+  if (isGetSettingsLoading || !data) {
+    return (
+      <CircularProgressIcon sx={{ margin: 'auto' }} />
+    );
+  }
+
+  if (!isEditing) {
+    return (
+      <>
+        <Typography color="text.secondary" variant="body2">
+          The bot posts the server-wide notifications to the configured rooms. Users can also
+          receive their own notifications in a direct chat room with the &quot;/
+          {BotCommandName.Matrix}
+          {' '}
+          set &lt;@user:homeserver&gt;&quot; command.
+        </Typography>
+        {
+          data.homeserverUrl ? (
+            <>
+              <Typography component="p" sx={{ mt: 1, wordBreak: 'break-all' }}>
+                Bot user:
+                {' '}
+                {data.userId}
+                {' on '}
+                {data.homeserverUrl}
+              </Typography>
+              <Typography component="p" sx={{ wordBreak: 'break-all' }}>
+                Rooms:
+                {' '}
+                {(data.rooms ?? []).length === 0 ? 'none' : data.rooms?.join(', ')}
+              </Typography>
+              <Typography component="p" sx={{ wordBreak: 'break-all' }}>
+                Events posted to the rooms:
+                {' '}
+                {(data.roomEvents ?? []).length === 0 ? 'none' : data.roomEvents?.join(', ')}
+              </Typography>
+            </>
+          ) : (
+            <Typography component="p" sx={{ mt: 1 }}>
+              Matrix is not configured
+            </Typography>
+          )
+        }
+        <Typography component="p" sx={{ flex: 1 }}>
+          Users with a direct chat room:
+          {' '}
+          {data.numberOfUsers}
+        </Typography>
+        <Box>
+          <Button
+            variant="outlined"
+            onClick={openEditing}
+            sx={{ mt: 1 }}
+          >
+            Edit
+          </Button>
+          {
+            data.homeserverUrl && (
+              <Button
+                variant="outlined"
+                onClick={() => mutateTest()}
+                sx={{ mt: 1, ml: 1 }}
+                disabled={isTestLoading || ((data.rooms ?? []).length === 0)}
+              >
+                Test Rooms
+              </Button>
+            )
+          }
+        </Box>
+      </>
+    );
+  }
+
+  return (
+    <Box
+      component="form"
+      noValidate
+      onSubmit={handleSubmit}
+      onReset={handleReset}
+      sx={{
+        flex: 1,
+        display: 'flex',
+        flexDirection: 'column',
+      }}
+    >
+      <TextField
+        margin="dense"
+        name="matrixHomeserverUrl"
+        label="Homeserver URL"
+        defaultValue={data.homeserverUrl}
+        placeholder="Leave empty to disable Matrix"
+        disabled={isMutationLoading}
+        sx={{ maxWidth: 420 }}
+      />
+      <TextField
+        margin="dense"
+        name="matrixAccessToken"
+        label="Access token"
+        type="password"
+        helperText={data.homeserverUrl ? accessTokenTextFieldHelper : undefined}
+        disabled={isMutationLoading}
+        sx={{ maxWidth: 420 }}
+      />
+      <Box sx={{
+        display: 'flex', flexDirection: 'row', alignItems: 'center', mt: 1,
+      }}
+      >
+        <Typography sx={{ width: 120 }}>Rooms:</Typography>
+        <MuiChipsInput
+          disabled={isMutationLoading}
+          clearInputOnBlur
+          value={rooms}
+          onChange={updateRooms}
+          addOnWhichKey={[' ', 'Enter']}
+          placeholder="!roomid:homeserver or #alias:homeserver"
+          sx={{ minWidth: 420, maxWidth: 600 }}
+        />
+      </Box>
+      <Typography sx={{ mt: 2 }}>Events posted to the rooms:</Typography>
+      <FormGroup>
+        {
+          data.availableRoomEvents.map((roomEvent) => (
+            <FormControlLabel
+              key={roomEvent}
+              control={
+                <Checkbox
+                  checked={roomEvents.includes(roomEvent)}
+                  onChange={(event) => toggleRoomEvent(roomEvent, event.target.checked)}
+                  disabled={isMutationLoading}
+                />
+              }
+              label={roomEvent}
+            />
+          ))
+        }
+      </FormGroup>
+      <Box sx={{ mt: 2 }}>
+        <Button
+          type="submit"
+          variant="contained"
+          disabled={isMutationLoading}
+        >
+          Save
+        </Button>
+        <Button
+          type="reset"
+          variant="outlined"
+          disabled={isMutationLoading}
+          sx={{ ml: 1 }}
+        >
+          Cancel
+        </Button>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import Typography from '@mui/material/Typography';
+import CircularProgressIcon from '@mui/material/CircularProgress';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import { BotCommandName } from '@woofbot/common';
+import { MuiChipsInput } from 'mui-chips-input';
+
+import { useGetSettingsNostr, useMutationSettingsNostr } from '../../api/settings';
+
+export default function NostrSettings() {
+  const { data, isLoading: isGetSettingsLoading } = useGetSettingsNostr();
+  const { mutate, isLoading: isMutationLoading } = useMutationSettingsNostr();
+  const [isEditing, setIsEditing] = useState(false);
+  const [relays, setRelays] = useState<string[]>([]);
+
+  const openEditing = () => {
+    setRelays(data?.relays ?? []);
+    setIsEditing(true);
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    mutate({ relays });
+    setIsEditing(false);
+  };
+
+  const handleReset = async () => {
+    setIsEditing(false);
+  };
+
+  const updateRelays = (newRelays: string[]) => {
+    setRelays([...new Set(newRelays.map((relay) => relay.trim()))]);
+  };
+
+  if (isGetSettingsLoading || !data) {
+    return (
+      <CircularProgressIcon sx={{ margin: 'auto' }} />
+    );
+  }
+
+  if (!isEditing) {
+    return (
+      <>
+        <Typography color="text.secondary" variant="body2">
+          Users can receive their notifications as encrypted Nostr direct messages by linking their
+          public key with the &quot;/
+          {BotCommandName.Nostr}
+          {' '}
+          set &lt;npub&gt;&quot; command.
+        </Typography>
+        <Typography component="p" sx={{ mt: 1, wordBreak: 'break-all' }}>
+          Bot public key:
+          {' '}
+          {data.npub}
+        </Typography>
+        <Typography component="p">
+          Users with a linked public key:
+          {' '}
+          {data.numberOfUsers}
+        </Typography>
+        <Typography component="p" sx={{ flex: 1, wordBreak: 'break-all' }}>
+          Relays:
+          {' '}
+          {(data.relays.length === 0) ? 'none' : data.relays.join(', ')}
+        </Typography>
+        <Box>
+          <Button
+            variant="outlined"
+            onClick={openEditing}
+            sx={{ mt: 1 }}
+          >
+            Edit
+          </Button>
+        </Box>
+      </>
+    );
+  }
+
+  return (
+    <Box
+      component="form"
+      noValidate
+      onSubmit={handleSubmit}
+      onReset={handleReset}
+      sx={{
+        flex: 1,
+        display: 'flex',
+        flexDirection: 'column',
+      }}
+    >
+      <Box sx={{ display: 'flex', flexDirection: 'row', alignItems: 'center' }}>
+        <Typography sx={{ width: 120 }}>Relays:</Typography>
+        <MuiChipsInput
+          disabled={isMutationLoading}
+          clearInputOnBlur
+          value={relays}
+          onChange={updateRelays}
+          addOnWhichKey={[' ', 'Enter']}
+          placeholder="wss://"
+          sx={{ minWidth: 420, maxWidth: 600 }}
+        />
+      </Box>
+      <Box sx={{ mt: 2 }}>
+        <Button
+          type="submit"
+          variant="contained"
+          disabled={isMutationLoading}
+        >
+          Save
+        </Button>
+        <Button
+          type="reset"
+          variant="outlined"
+          disabled={isMutationLoading}
+          sx={{ ml: 1 }}
+        >
+          Cancel
+        </Button>
+      </Box>
+    </Box>
+  );
+}
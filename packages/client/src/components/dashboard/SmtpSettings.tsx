@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import Typography from '@mui/material/Typography';
+import CircularProgressIcon from '@mui/material/CircularProgress';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Checkbox from '@mui/material/Checkbox';
+import { BotCommandName } from '@woofbot/common';
+
+import {
+  useGetSettingsSmtp, useMutationSettingsSmtp, useMutationSettingsSmtpTest,
+} from '../../api/settings';
+import { errorToast } from '../../utils/toast';
+
+const passwordTextFieldHelper = 'Leave empty to keep the current password.';
+
+export default function SmtpSettings() {
+  const { data, isLoading: isGetSettingsLoading } = useGetSettingsSmtp();
+  const { mutate, isLoading: isMutationLoading } = useMutationSettingsSmtp();
+  const { mutate: mutateTest, isLoading: isTestLoading } = useMutationSettingsSmtpTest();
+  const [isEditing, setIsEditing] = useState(false);
+  const [secure, setSecure] = useState(false);
+
+  const openEditing = () => {
+    setSecure(data?.secure ?? false);
+    setIsEditing(true);
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formData = new FormData(event.currentTarget);
+    const host = `${formData.get('smtpHost')}`.trim();
+    if (!host) {
+      // Without a host the SMTP settings are removed
+      mutate({});
+      setIsEditing(false);
+      return;
+    }
+    const port = Number(formData.get('smtpPort'));
+    if (!Number.isSafeInteger(port) || (port <= 0) || (port > 65535)) {
+      errorToast('Port must be an integer between 1 and 65535');
+      return;
+    }
+    const username = `${formData.get('smtpUsername')}`.trim();
+    const password = `${formData.get('smtpPassword')}`;
+    mutate({
+      host,
+      port,
+      secure,
+      ...username && {
+        username,
+        ...password && { password },
+      },
+      fromAddress: `${formData.get('smtpFromAddress')}`.trim(),
+    });
+    setIsEditing(false);
+  };
+
+  const handleReset = async () => {
+    setIsEditing(false);
+  };
+
+  const handleTestSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formData = new FormData(event.currentTarget);
+    mutateTest({ emailAddress: `${formData.get('testEmailAddress')}`.trim() });
+  };
+
+  if (isGetSettingsLoading || !data) {
+    return (
+      <CircularProgressIcon sx={{ margin: 'auto' }} />
+    );
+  }
+
+  if (!isEditing) {
+    return (
+      <>
+        <Typography color="text.secondary" variant="body2">
+          Users can receive their notifications by email after verifying their address with the
+          &quot;/
+          {BotCommandName.Email}
+          {' '}
+          set &lt;address&gt;&quot; command.
+        </Typography>
+        {
+          data.host ? (
+            <>
+              <Typography component="p" sx={{ mt: 1 }}>
+                SMTP server:
+                {' '}
+                {data.host}
+                :
+                {data.port}
+                {data.secure ? ' (TLS)' : ' (STARTTLS when supported)'}
+              </Typography>
+              <Typography component="p">
+                Username:
+                {' '}
+                {data.username ?? 'none'}
+                {data.username && !data.hasPassword && ' (without password)'}
+              </Typography>
+              <Typography component="p">
+                From address:
+                {' '}
+                {data.fromAddress}
+              </Typography>
+            </>
+          ) : (
+            <Typography component="p" sx={{ mt: 1 }}>
+              SMTP is not configured
+            </Typography>
+          )
+        }
+        <Typography component="p" sx={{ flex: 1 }}>
+          Users with a verified email address:
+          {' '}
+          {data.numberOfUsers}
+        </Typography>
+        <Box>
+          <Button
+            variant="outlined"
+            onClick={openEditing}
+            sx={{ mt: 1 }}
+          >
+            Edit
+          </Button>
+        </Box>
+        {
+          data.host && (
+            <Box
+              component="form"
+              noValidate
+              onSubmit={handleTestSubmit}
+              sx={{ display: 'flex', flexDirection: 'row', mt: 1 }}
+            >
+              <TextField
+                required
+                margin="dense"
+                name="testEmailAddress"
+                label="Send a test email to"
+                type="email"
+                sx={{ flex: 1, maxWidth: 420 }}
+                disabled={isTestLoading}
+              />
+              <Button
+                type="submit"
+                variant="outlined"
+                sx={{ my: 2, ml: 1 }}
+                disabled={isTestLoading}
+              >
+                Test
+              </Button>
+            </Box>
+          )
+        }
+      </>
+    );
+  }
+
+  return (
+    <Box
+      component="form"
+      noValidate
+      onSubmit={handleSubmit}
+      onReset={handleReset}
+      sx={{
+        flex: 1,
+        display: 'flex',
+        flexDirection: 'column',
+        maxWidth: 420,
+      }}
+    >
+      <TextField
+        margin="dense"
+        name="smtpHost"
+        label="Host"
+        defaultValue={data.host}
+        placeholder="Leave empty to disable emails"
+        disabled={isMutationLoading}
+      />
+      <TextField
+        margin="dense"
+        name="smtpPort"
+        label="Port"
+        defaultValue={data.port ?? 587}
+        inputProps={{ inputMode: 'numeric', pattern: '[0-9]*' }}
+        disabled={isMutationLoading}
+      />
+      <FormControlLabel
+        control={
+          <Checkbox
+            checked={secure}
+            onChange={(event) => setSecure(event.target.checked)}
+            disabled={isMutationLoading}
+          />
+        }
+        label="Use TLS from the start of the connection (usually port 465)"
+      />
+      <TextField
+        margin="dense"
+        name="smtpUsername"
+        label="Username"
+        defaultValue={data.username}
+        disabled={isMutationLoading}
+      />
+      <TextField
+        margin="dense"
+        name="smtpPassword"
+        label="Password"
+        type="password"
+        helperText={data.hasPassword ? passwordTextFieldHelper : undefined}
+        disabled={isMutationLoading}
+      />
+      <TextField
+        margin="dense"
+        name="smtpFromAddress"
+        label="From address"
+        type="email"
+        defaultValue={data.fromAddress}
+        disabled={isMutationLoading}
+      />
+      <Box sx={{ mt: 2 }}>
+        <Button
+          type="submit"
+          variant="contained"
+          disabled={isMutationLoading}
+        >
+          Save
+        </Button>
+        <Button
+          type="reset"
+          variant="outlined"
+          disabled={isMutationLoading}
+          sx={{ ml: 1 }}
+        >
+          Cancel
+        </Button>
+      </Box>
+    </Box>
+  );
+}
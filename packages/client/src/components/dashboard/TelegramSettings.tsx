@@ -63,7 +63,8 @@ export default function TelegramSettings() {
   const queryClient = useQueryClient();
   const loadingRetryTimeoutMs = 5000;
   const finalTokenFormVisibility = (
-    (data?.status !== TelegramStatus.Running) && (data?.numberOfUsers === 0)
+    (data?.status !== TelegramStatus.Running)
+    && (data?.numberOfUsers === 0) && (data?.numberOfChats === 0)
   ) ? TokenFormVisibility.Show : tokenFormVisibility;
 
   useEffect(() => {
@@ -88,7 +89,8 @@ export default function TelegramSettings() {
 
   const handleChangeTokenClicked = () => {
     setTokenFormVisibility(
-      (data?.numberOfUsers === 0) ? TokenFormVisibility.Show : TokenFormVisibility.AreYouSure,
+      ((data?.numberOfUsers === 0) && (data?.numberOfChats === 0))
+        ? TokenFormVisibility.Show : TokenFormVisibility.AreYouSure,
     );
   };
   const handleYesClicked = () => setTokenFormVisibility(TokenFormVisibility.Show);
@@ -132,7 +134,8 @@ export default function TelegramSettings() {
       {(finalTokenFormVisibility === TokenFormVisibility.Hide) && (
         <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
           <Typography color="text.secondary" variant="body2">
-            To use the bot, start a chat and call the &quot;/start&quot; command.
+            To use the bot, start a chat and call the &quot;/start&quot; command. Groups and
+            channels that add the bot wait for your approval in the chats page.
           </Typography>
           <Typography sx={{ flex: 1 }}>
             Number of users:
@@ -145,6 +148,11 @@ export default function TelegramSettings() {
               )
             }
           </Typography>
+          <Typography>
+            Number of approved chats:
+            {' '}
+            {data.numberOfChats}
+          </Typography>
           <Box sx={{ mt: 1 }}>
             <Button
               variant="outlined"
@@ -160,11 +168,11 @@ export default function TelegramSettings() {
           sx={{ mt: 1 }}
         >
           <Typography variant="body2" color="warning.main">
-            It seems that there are existing users in your database.
+            It seems that there are existing users or chats in your database.
             <br />
             If you are only updating the token of an existing bot, that&apos;s ok.
             <br />
-            If you are switching to a new bot, please remove all existing users first.
+            If you are switching to a new bot, please remove all existing users and chats first.
             <br />
             Continue without removing users?
           </Typography>
@@ -17,7 +17,7 @@ import { Link, useParams } from 'react-router-dom';
 
 import {
   useMutationPatchUser, useUser, WatchedAddressAttributes, WatchedTransactionAttributes,
-  UserPatch,
+  WatchedWalletAttributes, WatchedOutpointAttributes, WatchedTimelockAttributes, UserPatch,
 } from '../../api/users';
 import { arraysEqual } from '../../utils/array-utils';
 import { HttpError } from '../../utils/api';
@@ -59,6 +59,25 @@ function WatchedAddressRow({
           watchedAddressAttributes.nickname ?? emptyTableCell
         }
       </TableCell>
+      <TableCell>
+        {
+          (watchedAddressAttributes.confirmedBalanceSats === undefined)
+            ? emptyTableCell
+            : `丰${watchedAddressAttributes.confirmedBalanceSats.toLocaleString('en-US')}`
+        }
+      </TableCell>
+      <TableCell>
+        {
+          [
+            ...(watchedAddressAttributes.balanceAboveSats === undefined) ? [] : [
+              `above 丰${watchedAddressAttributes.balanceAboveSats.toLocaleString('en-US')}`,
+            ],
+            ...(watchedAddressAttributes.balanceBelowSats === undefined) ? [] : [
+              `below 丰${watchedAddressAttributes.balanceBelowSats.toLocaleString('en-US')}`,
+            ],
+          ].join(', ') || emptyTableCell
+        }
+      </TableCell>
       <TableCell>
         {prettyDate(watchedAddressAttributes.createdAt)}
       </TableCell>
@@ -73,6 +92,173 @@ WatchedAddressRow.defaultProps = {
   watchedAddressAttributes: undefined,
 };
 
+interface WatchedWalletRowProperties {
+  watchedWalletAttributes?: WatchedWalletAttributes;
+}
+
+function WatchedWalletRow({ watchedWalletAttributes }: WatchedWalletRowProperties) {
+  if (!watchedWalletAttributes) {
+    return null;
+  }
+  return (
+    <>
+      <TableCell sx={{ wordBreak: 'break-all' }}>
+        {watchedWalletAttributes.extendedKey}
+      </TableCell>
+      <TableCell>
+        {watchedWalletAttributes.scriptType}
+      </TableCell>
+      <TableCell sx={{ wordBreak: 'break-all' }}>
+        {
+          watchedWalletAttributes.nickname ?? emptyTableCell
+        }
+      </TableCell>
+      <TableCell>
+        {watchedWalletAttributes.derivedAddresses}
+      </TableCell>
+      <TableCell>
+        {prettyDate(watchedWalletAttributes.createdAt)}
+      </TableCell>
+      <TableCell>
+        {prettyDate(watchedWalletAttributes.updatedAt)}
+      </TableCell>
+    </>
+  );
+}
+
+WatchedWalletRow.defaultProps = {
+  watchedWalletAttributes: undefined,
+};
+
+interface WatchedOutpointRowProperties {
+  watchedOutpointAttributes?: WatchedOutpointAttributes;
+  mempoolUrlPrefix: string;
+}
+
+function WatchedOutpointRow({
+  watchedOutpointAttributes,
+  mempoolUrlPrefix,
+}: WatchedOutpointRowProperties) {
+  if (!watchedOutpointAttributes) {
+    return null;
+  }
+  const [txid] = watchedOutpointAttributes.outpoint.split(':');
+  return (
+    <>
+      <TableCell sx={{ wordBreak: 'break-all' }}>
+        <ExternalLink href={`${mempoolUrlPrefix}/tx/${encodeURIComponent(txid)}`}>
+          {watchedOutpointAttributes.outpoint}
+        </ExternalLink>
+      </TableCell>
+      <TableCell sx={{ wordBreak: 'break-all' }}>
+        {
+          watchedOutpointAttributes.nickname ?? emptyTableCell
+        }
+      </TableCell>
+      <TableCell>
+        {`丰${watchedOutpointAttributes.valueSats.toLocaleString('en-US')}`}
+      </TableCell>
+      <TableCell sx={{ wordBreak: 'break-all' }}>
+        {
+          watchedOutpointAttributes.spendingTxid ? (
+            <ExternalLink
+              href={
+                `${mempoolUrlPrefix}/tx/${
+                  encodeURIComponent(watchedOutpointAttributes.spendingTxid)
+                }`
+              }
+            >
+              {watchedOutpointAttributes.spendingTxid}
+            </ExternalLink>
+          ) : emptyTableCell
+        }
+      </TableCell>
+      <TableCell>
+        {prettyDate(watchedOutpointAttributes.createdAt)}
+      </TableCell>
+      <TableCell>
+        {prettyDate(watchedOutpointAttributes.updatedAt)}
+      </TableCell>
+    </>
+  );
+}
+
+WatchedOutpointRow.defaultProps = {
+  watchedOutpointAttributes: undefined,
+};
+
+interface WatchedTimelockRowProperties {
+  watchedTimelockAttributes?: WatchedTimelockAttributes;
+  mempoolUrlPrefix: string;
+}
+
+function timelockMaturity(watchedTimelockAttributes: WatchedTimelockAttributes): string {
+  if (watchedTimelockAttributes.matured) {
+    return 'Matured';
+  }
+  if (watchedTimelockAttributes.maturityHeight !== undefined) {
+    return `Height ${watchedTimelockAttributes.maturityHeight.toLocaleString('en-US')}`;
+  }
+  if (watchedTimelockAttributes.maturityTime !== undefined) {
+    return `Median time ${
+      prettyDate(new Date(watchedTimelockAttributes.maturityTime * 1000).toJSON())
+    }`;
+  }
+  return 'Output unconfirmed';
+}
+
+function WatchedTimelockRow({
+  watchedTimelockAttributes,
+  mempoolUrlPrefix,
+}: WatchedTimelockRowProperties) {
+  if (!watchedTimelockAttributes) {
+    return null;
+  }
+  const { type, lock } = watchedTimelockAttributes;
+  let lockCell: React.ReactNode = lock;
+  if (type === 'time') {
+    lockCell = prettyDate(new Date(Number(lock) * 1000).toJSON());
+  } else if ((type === 'csv') || (type === 'coinbase')) {
+    const [txid] = lock.split(':');
+    lockCell = (
+      <ExternalLink href={`${mempoolUrlPrefix}/tx/${encodeURIComponent(txid)}`}>
+        {lock}
+      </ExternalLink>
+    );
+  }
+  return (
+    <>
+      <TableCell>
+        {type}
+      </TableCell>
+      <TableCell sx={{ wordBreak: 'break-all' }}>
+        {lockCell}
+      </TableCell>
+      <TableCell sx={{ wordBreak: 'break-all' }}>
+        {
+          watchedTimelockAttributes.nickname ?? emptyTableCell
+        }
+      </TableCell>
+      <TableCell>
+        {timelockMaturity(watchedTimelockAttributes)}
+      </TableCell>
+      <TableCell>
+        {watchedTimelockAttributes.warningBlocks}
+      </TableCell>
+      <TableCell>
+        {prettyDate(watchedTimelockAttributes.createdAt)}
+      </TableCell>
+      <TableCell>
+        {prettyDate(watchedTimelockAttributes.updatedAt)}
+      </TableCell>
+    </>
+  );
+}
+
+WatchedTimelockRow.defaultProps = {
+  watchedTimelockAttributes: undefined,
+};
+
 interface WatchedTransactionRowProperties {
   watchedTransactionAttributes?: WatchedTransactionAttributes;
   mempoolUrlPrefix: string;
@@ -87,6 +273,7 @@ function WatchedTransactionRow({
   }
   const blockHashes = watchedTransactionAttributes.blockHashes ?? [];
   const conflictingTransactions = watchedTransactionAttributes.conflictingTransactions ?? [];
+  const confirmationTargets = watchedTransactionAttributes.confirmationTargets ?? [];
   return (
     <>
       <TableCell sx={{ wordBreak: 'break-all' }}>
@@ -129,6 +316,11 @@ function WatchedTransactionRow({
       <TableCell>
         {watchedTransactionAttributes.confirmations}
       </TableCell>
+      <TableCell>
+        {
+          (confirmationTargets.length === 0) ? emptyTableCell : confirmationTargets.join(', ')
+        }
+      </TableCell>
       <TableCell sx={{ wordBreak: 'break-all' }}>
         {
           (conflictingTransactions.length === 0) && emptyTableCell
@@ -207,6 +399,21 @@ function UserContentByUserId({
     ).map((jsonApiData) => [jsonApiData.id,
       jsonApiData.attributes as WatchedTransactionAttributes]),
   );
+  const watchedWallets = data && new Map<string, WatchedWalletAttributes>(
+    data.included.filter(
+      (jsonApiData) => (jsonApiData.type === 'watched-wallets'),
+    ).map((jsonApiData) => [jsonApiData.id, jsonApiData.attributes as WatchedWalletAttributes]),
+  );
+  const watchedOutpoints = data && new Map<string, WatchedOutpointAttributes>(
+    data.included.filter(
+      (jsonApiData) => (jsonApiData.type === 'watched-outpoints'),
+    ).map((jsonApiData) => [jsonApiData.id, jsonApiData.attributes as WatchedOutpointAttributes]),
+  );
+  const watchedTimelocks = data && new Map<string, WatchedTimelockAttributes>(
+    data.included.filter(
+      (jsonApiData) => (jsonApiData.type === 'watched-timelocks'),
+    ).map((jsonApiData) => [jsonApiData.id, jsonApiData.attributes as WatchedTimelockAttributes]),
+  );
   const attributes = data && data.data.attributes;
   const hasChanges = Object.keys(patchData).length > 0;
   return (
@@ -305,6 +512,51 @@ function UserContentByUserId({
                       && ` (${attributes.telegramChatId})`
                     }
                   </Typography>
+                  {
+                    attributes.nostrPublicKey && (
+                      <Typography component="p" sx={{ wordBreak: 'break-all' }}>
+                        Nostr Public Key:
+                        {' '}
+                        {attributes.nostrPublicKey}
+                        {attributes.nostrEncryption && ` (${attributes.nostrEncryption})`}
+                      </Typography>
+                    )
+                  }
+                  {
+                    attributes.emailAddress && (
+                      <Typography component="p">
+                        Email:
+                        {' '}
+                        {attributes.emailAddress}
+                      </Typography>
+                    )
+                  }
+                  {
+                    attributes.matrixUserId && (
+                      <Typography component="p">
+                        Matrix User:
+                        {' '}
+                        {attributes.matrixUserId}
+                      </Typography>
+                    )
+                  }
+                  {
+                    attributes.language && (
+                      <Typography component="p">
+                        Language:
+                        {' '}
+                        {attributes.language}
+                      </Typography>
+                    )
+                  }
+                  <Typography component="p">
+                    Display Formats:
+                    {' '}
+                    {attributes.timeZone ?? 'UTC'}
+                    {', '}
+                    {attributes.locale ?? 'en-US'}
+                    {attributes.numberFormat && `, ${attributes.numberFormat} numbers`}
+                  </Typography>
                   <Typography component="p">
                     Created At:
                     {' '}
@@ -366,6 +618,30 @@ function UserContentByUserId({
                     {' '}
                     {data.data.attributes.watchNewBlocks ? 'On' : 'Off'}
                   </Typography>
+                  {
+                    (data.data.attributes.watchNewBlocksPools.length > 0) && (
+                      <Typography component="p">
+                        New block pools:
+                        {' '}
+                        {data.data.attributes.watchNewBlocksPools.join(', ')}
+                      </Typography>
+                    )
+                  }
+                  <Typography component="p">
+                    Chain reorganizations:
+                    {' '}
+                    {data.data.attributes.watchReorg ? 'On' : 'Off'}
+                  </Typography>
+                  <Typography component="p">
+                    Difficulty adjustments:
+                    {' '}
+                    {data.data.attributes.watchDifficulty ? 'On' : 'Off'}
+                  </Typography>
+                  <Typography component="p">
+                    Halvings:
+                    {' '}
+                    {data.data.attributes.watchHalving ? 'On' : 'Off'}
+                  </Typography>
                   <Typography component="p">
                     Watch price change:
                     {' '}
@@ -380,6 +656,50 @@ function UserContentByUserId({
                     {' '}
                     {data.data.attributes.watchMempoolClear ? 'On' : 'Off'}
                   </Typography>
+                  <Typography component="p">
+                    Watch fee rate:
+                    {' '}
+                    {
+                      [
+                        ...(data.data.attributes.watchFeeRateBelow === undefined) ? [] : [
+                          `Below ${data.data.attributes.watchFeeRateBelow} sat/vB`,
+                        ],
+                        ...(data.data.attributes.watchFeeRateAbove === undefined) ? [] : [
+                          `Above ${data.data.attributes.watchFeeRateAbove} sat/vB`,
+                        ],
+                      ].join(', ') || 'Off'
+                    }
+                  </Typography>
+                  <Typography component="p">
+                    Watch whales:
+                    {' '}
+                    {
+                      [
+                        ...(data.data.attributes.watchWhaleAmountSats === undefined) ? [] : [
+                          `Amount above 丰${
+                            data.data.attributes.watchWhaleAmountSats.toLocaleString('en-US')
+                          }`,
+                        ],
+                        ...(data.data.attributes.watchWhaleFeeSats === undefined) ? [] : [
+                          `Fee above 丰${
+                            data.data.attributes.watchWhaleFeeSats.toLocaleString('en-US')
+                          }`,
+                        ],
+                        ...(data.data.attributes.watchWhaleFeeRate === undefined) ? [] : [
+                          `Fee rate above ${data.data.attributes.watchWhaleFeeRate} sat/vB`,
+                        ],
+                      ].join(', ') || 'Off'
+                    }
+                  </Typography>
+                  <Typography component="p">
+                    Watch node health:
+                    {' '}
+                    {
+                      (data.data.attributes.watchNodeHealth === undefined)
+                        ? 'Off'
+                        : `At least ${data.data.attributes.watchNodeHealth} peers`
+                    }
+                  </Typography>
                   <Typography component="p">
                     Watch lightning channels:
                     {' '}
@@ -405,6 +725,24 @@ function UserContentByUserId({
                       ].join(' & ') || 'Never'
                     }
                   </Typography>
+                  <Typography component="p">
+                    Watch lightning liquidity:
+                    {' '}
+                    {
+                      [
+                        ...(data.data.attributes.watchLightningLiquidityBelow === undefined)
+                          ? [] : [`Below ${data.data.attributes.watchLightningLiquidityBelow}%`],
+                        ...(data.data.attributes.watchLightningLiquidityAbove === undefined)
+                          ? [] : [`Above ${data.data.attributes.watchLightningLiquidityAbove}%`],
+                        ...data.data.attributes.watchLightningChannelsLiquidity.flatMap(
+                          ({ channelId, below, above }) => [
+                            ...(below === undefined) ? [] : [`${channelId} below ${below}%`],
+                            ...(above === undefined) ? [] : [`${channelId} above ${above}%`],
+                          ],
+                        ),
+                      ].join(', ') || 'Off'
+                    }
+                  </Typography>
                 </Paper>
               </Grid>
               <Grid item xs={12}>
@@ -427,6 +765,8 @@ function UserContentByUserId({
                             <TableCell>Id</TableCell>
                             <TableCell>Address</TableCell>
                             <TableCell>Nickname</TableCell>
+                            <TableCell>Balance</TableCell>
+                            <TableCell>Balance Alerts</TableCell>
                             <TableCell>Created At</TableCell>
                             <TableCell>Updated At</TableCell>
                           </TableRow>
@@ -453,6 +793,148 @@ function UserContentByUserId({
                   }
                 </Paper>
               </Grid>
+              <Grid item xs={12}>
+                <Paper sx={{ p: 2, display: 'flex', flexDirection: 'column' }}>
+                  <Title>
+                    Watched Wallets
+                  </Title>
+                  {
+                    (data.data.relationships.watchedWallets.data.length === 0) && (
+                      <Typography component="p">
+                        No wallets were found
+                      </Typography>
+                    )
+                  }
+                  {
+                    (data.data.relationships.watchedWallets.data.length > 0) && (
+                      <Table size="small">
+                        <TableHead>
+                          <TableRow>
+                            <TableCell>Id</TableCell>
+                            <TableCell>Extended Public Key</TableCell>
+                            <TableCell>Script Type</TableCell>
+                            <TableCell>Nickname</TableCell>
+                            <TableCell>Derived Addresses</TableCell>
+                            <TableCell>Created At</TableCell>
+                            <TableCell>Updated At</TableCell>
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {
+                            data.data.relationships.watchedWallets.data.map((watchedWallet) => (
+                              <TableRow key={watchedWallet.id}>
+                                <TableCell sx={{ wordBreak: 'break-all' }}>
+                                  {watchedWallet.id}
+                                </TableCell>
+                                <WatchedWalletRow
+                                  watchedWalletAttributes={watchedWallets?.get(watchedWallet.id)}
+                                />
+                              </TableRow>
+                            ))
+                          }
+                        </TableBody>
+                      </Table>
+                    )
+                  }
+                </Paper>
+              </Grid>
+              <Grid item xs={12}>
+                <Paper sx={{ p: 2, display: 'flex', flexDirection: 'column' }}>
+                  <Title>
+                    Watched Outputs
+                  </Title>
+                  {
+                    (data.data.relationships.watchedOutpoints.data.length === 0) && (
+                      <Typography component="p">
+                        No outputs were found
+                      </Typography>
+                    )
+                  }
+                  {
+                    (data.data.relationships.watchedOutpoints.data.length > 0) && (
+                      <Table size="small">
+                        <TableHead>
+                          <TableRow>
+                            <TableCell>Id</TableCell>
+                            <TableCell>Output</TableCell>
+                            <TableCell>Nickname</TableCell>
+                            <TableCell>Value</TableCell>
+                            <TableCell>Spent By</TableCell>
+                            <TableCell>Created At</TableCell>
+                            <TableCell>Updated At</TableCell>
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {
+                            data.data.relationships.watchedOutpoints.data.map((watchedOutpoint) => (
+                              <TableRow key={watchedOutpoint.id}>
+                                <TableCell sx={{ wordBreak: 'break-all' }}>
+                                  {watchedOutpoint.id}
+                                </TableCell>
+                                <WatchedOutpointRow
+                                  watchedOutpointAttributes={
+                                    watchedOutpoints?.get(watchedOutpoint.id)
+                                  }
+                                  mempoolUrlPrefix={generalSettings?.mempoolUrlPrefix ?? ''}
+                                />
+                              </TableRow>
+                            ))
+                          }
+                        </TableBody>
+                      </Table>
+                    )
+                  }
+                </Paper>
+              </Grid>
+              <Grid item xs={12}>
+                <Paper sx={{ p: 2, display: 'flex', flexDirection: 'column' }}>
+                  <Title>
+                    Watched Timelocks
+                  </Title>
+                  {
+                    (data.data.relationships.watchedTimelocks.data.length === 0) && (
+                      <Typography component="p">
+                        No timelocks were found
+                      </Typography>
+                    )
+                  }
+                  {
+                    (data.data.relationships.watchedTimelocks.data.length > 0) && (
+                      <Table size="small">
+                        <TableHead>
+                          <TableRow>
+                            <TableCell>Id</TableCell>
+                            <TableCell>Type</TableCell>
+                            <TableCell>Lock</TableCell>
+                            <TableCell>Nickname</TableCell>
+                            <TableCell>Maturity</TableCell>
+                            <TableCell>Warning Blocks</TableCell>
+                            <TableCell>Created At</TableCell>
+                            <TableCell>Updated At</TableCell>
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {
+                            data.data.relationships.watchedTimelocks.data.map((watchedTimelock) => (
+                              <TableRow key={watchedTimelock.id}>
+                                <TableCell sx={{ wordBreak: 'break-all' }}>
+                                  {watchedTimelock.id}
+                                </TableCell>
+                                <WatchedTimelockRow
+                                  watchedTimelockAttributes={
+                                    watchedTimelocks?.get(watchedTimelock.id)
+                                  }
+                                  mempoolUrlPrefix={generalSettings?.mempoolUrlPrefix ?? ''}
+                                />
+                              </TableRow>
+                            ))
+                          }
+                        </TableBody>
+                      </Table>
+                    )
+                  }
+                </Paper>
+              </Grid>
               <Grid item xs={12}>
                 <Paper sx={{ p: 2, display: 'flex', flexDirection: 'column' }}>
                   <Title>
@@ -476,6 +958,7 @@ function UserContentByUserId({
                             <TableCell>Status</TableCell>
                             <TableCell>Block Hash</TableCell>
                             <TableCell>Confirmations</TableCell>
+                            <TableCell>Confirmation Targets</TableCell>
                             <TableCell>Conflicts</TableCell>
                             <TableCell>Created At</TableCell>
                             <TableCell>Updated At</TableCell>
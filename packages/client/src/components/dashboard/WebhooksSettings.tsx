@@ -0,0 +1,164 @@
+import React from 'react';
+import Typography from '@mui/material/Typography';
+import CircularProgressIcon from '@mui/material/CircularProgress';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import IconButton from '@mui/material/IconButton';
+import DeleteIcon from '@mui/icons-material/Delete';
+import SendIcon from '@mui/icons-material/Send';
+import { prettyDate } from '@woofbot/common';
+import { Link } from 'react-router-dom';
+
+import {
+  useMutationCreateWebhook, useMutationDeleteWebhook, useMutationTestWebhook, useWebhooks,
+} from '../../api/webhooks';
+import { pageRoutes } from '../../routes';
+import { emptyTableCell } from './emptyTableCell';
+
+export default function WebhooksSettings() {
+  const { data, isLoading: isDataLoading } = useWebhooks();
+  const { mutate: mutateCreate, isLoading: isCreateLoading } = useMutationCreateWebhook();
+  const { mutate: mutateDelete, isLoading: isDeleteLoading } = useMutationDeleteWebhook();
+  const { mutate: mutateTest, isLoading: isTestLoading } = useMutationTestWebhook();
+  const isLoading = isDataLoading || isCreateLoading || isDeleteLoading || isTestLoading;
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formData = new FormData(event.currentTarget);
+    mutateCreate({ url: `${formData.get('webhookUrl')}` });
+    event.currentTarget.reset();
+  };
+
+  const onDeleteClick = (event: React.MouseEvent<HTMLElement>) => {
+    const webhookId = event.currentTarget.getAttribute('data-webhookid');
+    if (webhookId) {
+      mutateDelete({ id: webhookId });
+    }
+  };
+
+  const onTestClick = (event: React.MouseEvent<HTMLElement>) => {
+    const webhookId = event.currentTarget.getAttribute('data-webhookid');
+    if (webhookId) {
+      mutateTest({ id: webhookId });
+    }
+  };
+
+  if (!data) {
+    return (
+      <CircularProgressIcon sx={{ margin: 'auto' }} />
+    );
+  }
+
+  return (
+    <>
+      <Typography color="text.secondary" variant="body2">
+        Webhooks that are added here receive all the raw events as signed JSON POST requests.
+        Users can add their own webhooks with the &quot;/webhooks&quot; command, and receive only
+        their notifications. Each request has an X-WoofBot-Signature header with the HMAC-SHA256
+        of &quot;&lt;X-WoofBot-Timestamp header&gt;.&lt;raw body&gt;&quot; using the webhook secret.
+      </Typography>
+      {
+        (data.data.length === 0) ? (
+          <Typography component="p" sx={{ mt: 1 }}>
+            No webhooks were found
+          </Typography>
+        ) : (
+          <Table size="small" sx={{ mt: 1 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>Url</TableCell>
+                <TableCell>User</TableCell>
+                <TableCell>Secret</TableCell>
+                <TableCell>Created At</TableCell>
+                <TableCell align="right" />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {
+                data.data.map(({ id, attributes }) => (
+                  <TableRow key={id}>
+                    <TableCell sx={{ wordBreak: 'break-all' }}>
+                      {attributes.url}
+                    </TableCell>
+                    <TableCell>
+                      {
+                        attributes.userId ? (
+                          <Typography
+                            component={Link}
+                            to={`${pageRoutes.users}/${encodeURIComponent(attributes.userId)}`}
+                            color="primary"
+                          >
+                            {attributes.telegramUsername ?? attributes.userId}
+                          </Typography>
+                        ) : 'Admin'
+                      }
+                    </TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                      {attributes.secret ?? emptyTableCell}
+                    </TableCell>
+                    <TableCell>
+                      {prettyDate(attributes.createdAt)}
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <IconButton
+                        onClick={onTestClick}
+                        data-webhookid={id}
+                        color="primary"
+                        disabled={isLoading}
+                        title="Send a test event"
+                      >
+                        <SendIcon />
+                      </IconButton>
+                      <IconButton
+                        onClick={onDeleteClick}
+                        data-webhookid={id}
+                        color="error"
+                        disabled={isLoading}
+                        title="Delete"
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))
+              }
+            </TableBody>
+          </Table>
+        )
+      }
+      <Box
+        component="form"
+        noValidate
+        onSubmit={handleSubmit}
+        sx={{ display: 'flex', flexDirection: 'row', mt: 1 }}
+      >
+        <TextField
+          required
+          margin="dense"
+          name="webhookUrl"
+          label="Webhook Url"
+          id="webhookUrl"
+          placeholder="https://"
+          sx={{ flex: 1 }}
+          disabled={isLoading}
+        />
+        <Button
+          type="submit"
+          variant="contained"
+          sx={{
+            my: 2, ml: 1, flex: 0,
+          }}
+          disabled={isLoading}
+        >
+          Add
+        </Button>
+      </Box>
+    </>
+  );
+}
@@ -4,6 +4,7 @@ import ListItemIcon from '@mui/material/ListItemIcon';
 import ListItemText from '@mui/material/ListItemText';
 import DashboardIcon from '@mui/icons-material/Dashboard';
 import PeopleIcon from '@mui/icons-material/People';
+import GroupsIcon from '@mui/icons-material/Groups';
 import { useResolvedPath, useLocation, Link } from 'react-router-dom';
 import { pageRoutes } from '../../routes';
 
@@ -38,5 +39,6 @@ export const mainListItems = (
   <>
     <NavListItemButton icon={<DashboardIcon />} primary="Home" to={pageRoutes.home} />
     <NavListItemButton icon={<PeopleIcon />} primary="Users" to={pageRoutes.users} />
+    <NavListItemButton icon={<GroupsIcon />} primary="Chats" to={pageRoutes.chats} />
   </>
 );
@@ -7,9 +7,16 @@ export const apiRoutes = {
   ping: '/api/ping',
   settingsGeneral: '/api/settings/general',
   settingsTelegram: '/api/settings/telegram',
+  settingsNostr: '/api/settings/nostr',
+  settingsSmtp: '/api/settings/smtp',
+  settingsSmtpTest: '/api/settings/smtp/test',
+  settingsMatrix: '/api/settings/matrix',
+  settingsMatrixTest: '/api/settings/matrix/test',
   settingsCommandsPermissionGroups: '/api/settings/commands-permission-groups',
   stats: '/api/stats',
   users: '/api/users',
+  webhooks: '/api/webhooks',
+  telegramChats: '/api/telegram-chats',
 };
 
 export const pageRoutes = {
@@ -18,4 +25,5 @@ export const pageRoutes = {
   logout: '/logout',
   changePassword: '/change-password',
   users: '/users',
+  chats: '/chats',
 };
@@ -36,11 +36,15 @@ export interface BodyWithRelationships<
   Attributes1 = never, T1 extends string = never,
   Attributes2 = never, T2 extends string = never,
   Attributes3 = never, T3 extends string = never,
+  Attributes4 = never, T4 extends string = never,
+  Attributes5 = never, T5 extends string = never,
 > {
-  data: JsonApiDataWithRelationships<Attributes, T, K, T1 | T2 | T3>;
+  data: JsonApiDataWithRelationships<Attributes, T, K, T1 | T2 | T3 | T4 | T5>;
   included: (
     JsonApiData<Attributes1, T1> |
     JsonApiData<Attributes2, T2> |
-    JsonApiData<Attributes3, T3>
+    JsonApiData<Attributes3, T3> |
+    JsonApiData<Attributes4, T4> |
+    JsonApiData<Attributes5, T5>
   )[],
 }
@@ -1,9 +1,39 @@
+import { defaultLocale, FormatOptions } from './format-options';
+
 const isoRegex = /^([^T]*)T([^Z]*)Z$/;
 
-export function prettyDate(isoString: string): string {
+function localDateParts(date: Date, timeZone: string): Record<string, string> {
+  return Object.fromEntries(
+    new Intl.DateTimeFormat(defaultLocale, {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(date).map(({ type, value }) => [type, value]),
+  );
+}
+
+export function prettyDate(isoString: string, options?: FormatOptions): string {
   const [, dateString, timeString] = isoString.match(isoRegex) ?? [];
   if (!dateString || !timeString) {
     return 'unknown date';
   }
+  if (options?.locale) {
+    return new Date(isoString).toLocaleString(options.locale, {
+      timeZone: options.timeZone ?? 'UTC',
+      dateStyle: 'medium',
+      timeStyle: 'long',
+    });
+  }
+  if (options?.timeZone) {
+    const {
+      year, month, day, hour, minute, second,
+    } = localDateParts(new Date(isoString), options.timeZone);
+    return `${year}-${month}-${day} ${hour}:${minute}:${second} ${options.timeZone}`;
+  }
   return `${dateString} ${timeString.replace(/\.000$/, '')} UTC`;
 }
@@ -0,0 +1,27 @@
+// Overrides the separators of the locale
+export enum NumberFormat {
+  Comma = 'comma', // 1,234,567.89
+  Period = 'period', // 1.234.567,89
+  Space = 'space', // 1 234 567,89
+}
+
+// How dates and amounts are rendered for a user, the defaults are UTC and en-US
+export interface FormatOptions {
+  timeZone?: string; // IANA timezone name
+  locale?: string; // BCP 47 language tag
+  numberFormat?: NumberFormat;
+}
+
+export const defaultLocale = 'en-US';
+
+const numberFormatLocales: Record<NumberFormat, string> = {
+  [NumberFormat.Comma]: 'en-US',
+  [NumberFormat.Period]: 'de-DE',
+  [NumberFormat.Space]: 'fr-FR',
+};
+
+export function numberLocale(options?: FormatOptions): string {
+  return (options?.numberFormat && numberFormatLocales[options.numberFormat])
+    || options?.locale
+    || defaultLocale;
+}
@@ -1,5 +1,7 @@
 export { prettyDate } from './date-utils';
-export { mSatsToSats } from './string-utils';
+export { defaultLocale, NumberFormat, numberLocale } from './format-options';
+export type { FormatOptions } from './format-options';
+export { formatNumber, mSatsToSats } from './string-utils';
 
 export const AppName = 'WoofBot';
 
@@ -16,28 +18,52 @@ export enum WatchName {
   Reboot = 'reboot',
   Transaction = 'transaction',
   Addresses = 'addresses',
+  Wallets = 'wallets',
+  Outpoints = 'outpoints',
+  Timelocks = 'timelocks',
   PriceChange = 'price-change',
   NewBlocks = 'new-blocks',
+  Reorg = 'reorg',
+  Difficulty = 'difficulty',
+  Halving = 'halving',
   MempoolClear = 'mempool-clear',
+  FeeRate = 'fee-rate',
+  Whales = 'whales',
+  NodeHealth = 'node-health',
   LightningChannelsOpened = 'lightning-channels-opened',
   LightningChannelsClosed = 'lightning-channels-closed',
   LightningForwards = 'lightning-forwards',
   LightningInvoicesCreated = 'lightning-invoices-created',
   LightningInvoicesPaid = 'lightning-invoices-paid',
+  LightningLiquidity = 'lightning-liquidity',
 }
 
 export enum PermissionKey {
   WatchReboot = 'watchreboot',
   WatchNewBlocks = 'watchnewblocks',
+  WatchReorg = 'watchreorg',
+  WatchDifficulty = 'watchdifficulty',
+  WatchHalving = 'watchhalving',
   WatchTransaction = 'watchtransaction',
   WatchAddresses = 'watchaddresses',
+  WatchWallets = 'watchwallets',
+  WatchOutpoints = 'watchoutpoints',
+  WatchTimelocks = 'watchtimelocks',
   WatchPriceChange = 'watchpricechange',
   WatchMempoolClear = 'watchmempoolclear',
+  WatchFeeRate = 'watchfeerate',
+  WatchWhales = 'watchwhales',
+  WatchNodeHealth = 'watchnodehealth',
   WatchLightningChannelsOpened = 'watchlightningchannelsopened',
   WatchLightningChannelsClosed = 'watchlightningchannelsclosed',
   WatchLightningForwards = 'watchlightningforwards',
   WatchLightningInvoicesCreated = 'watchlightninginvoicescreated',
   WatchLightningInvoicesPaid = 'watchlightninginvoicespaid',
+  WatchLightningLiquidity = 'watchlightningliquidity',
+  Webhooks = 'webhooks',
+  Nostr = 'nostr',
+  Email = 'email',
+  Matrix = 'matrix',
 }
 
 export interface Watch {
@@ -58,7 +84,7 @@ export const watches: Watch[] = [
     name: WatchName.Transaction,
     description: [
       'Get notifications when a transaction is found in the mempool, confirmed,',
-      'or is being double-spent.',
+      'fee-bumped (replace-by-fee or child-pays-for-parent), or is being double-spent.',
     ].join(' '),
     watchParametersRequestMessage: [
       'Which transaction-id do you want to watch? You can specify only the id like:',
@@ -66,6 +92,9 @@ export const watches: Watch[] = [
       'or you can add a nickname like:',
       '"pizza_order:a1075db55d416d3ca199f55b6084e2115b9345e16c5cf302fc80e9d5fbf5d48d".',
       'The nickname should not contain spaces.',
+      'To get notifications at specific confirmation counts instead of the default ones, add them',
+      'after a space, like:',
+      '"pizza_order:a1075db55d416d3ca199f55b6084e2115b9345e16c5cf302fc80e9d5fbf5d48d 1,3,6".',
     ].join(' '),
     unwatchParametersRequestMessage: [
       'Which transaction-ids or nicknames of the transactions do you no longer want',
@@ -77,9 +106,8 @@ export const watches: Watch[] = [
   {
     name: WatchName.Addresses,
     description: [
-      'Get notification when a transaction spending to the given addresses is added to the',
-      'mempool or confirmed. Get notification when a transaction spending from the given',
-      'addresses is confirmed (but not when it is only added to the mempool).',
+      'Get notification when a transaction spending to or from the given addresses is added to',
+      'the mempool or confirmed.',
     ].join(' '),
     watchParametersRequestMessage: [
       'Which addresses do you want to watch? You can specify only the address, like:',
@@ -95,6 +123,63 @@ export const watches: Watch[] = [
     ].join(' '),
     permissionKey: PermissionKey.WatchAddresses,
   },
+  {
+    name: WatchName.Wallets,
+    description: [
+      'Get notifications about the incoming and outgoing payments of a wallet, by its extended',
+      'public key or output descriptor. New addresses are followed as the wallet uses them.',
+    ].join(' '),
+    watchParametersRequestMessage: [
+      'Which wallet do you want to watch? You can specify an extended public key (xpub, ypub or',
+      'zpub) or a single-key output descriptor, like: "wpkh([d34db33f/84h/0h/0h]xpub.../<0;1>/*)",',
+      'and you can add a nickname like: "savings:zpub...".',
+      'The nickname should not contain spaces.',
+    ].join(' '),
+    unwatchParametersRequestMessage: [
+      'Which nicknames or extended public keys of the wallets do you no longer want to watch?',
+      'You can specify multiple values with spaces between them.',
+    ].join(' '),
+    permissionKey: PermissionKey.WatchWallets,
+  },
+  {
+    name: WatchName.Outpoints,
+    description: [
+      'Get notifications as soon as a transaction that spends the given outputs (i.e. cold-storage',
+      'coins) is added to the mempool or confirmed.',
+    ].join(' '),
+    watchParametersRequestMessage: [
+      'Which outputs do you want to watch? You can specify the transaction-id and the output',
+      'index, like: "a1075db55d416d3ca199f55b6084e2115b9345e16c5cf302fc80e9d5fbf5d48d:0",',
+      'or you can add a nickname like:',
+      '"vault:a1075db55d416d3ca199f55b6084e2115b9345e16c5cf302fc80e9d5fbf5d48d:0".',
+      'You can specify multiple values with spaces between them.',
+      'The nicknames should not contain spaces.',
+    ].join(' '),
+    unwatchParametersRequestMessage: [
+      'Which outputs or nicknames of outputs do you no longer want to watch?',
+      'You can specify multiple values with spaces between them.',
+    ].join(' '),
+    permissionKey: PermissionKey.WatchOutpoints,
+  },
+  {
+    name: WatchName.Timelocks,
+    description: [
+      'Get notifications when absolute (CLTV) or relative (CSV) timelocks mature, or when coinbase',
+      'outputs can be spent, with a warning some blocks ahead.',
+    ].join(' '),
+    watchParametersRequestMessage: [
+      'Which timelock do you want to watch? You can specify a block height like: "height 900000",',
+      'a unix time or a date like: "time 2030-01-01", an output with a relative lock in blocks or',
+      'as a duration like: "csv <txid>:0 144" or "csv <txid>:0 30d", or a coinbase output like:',
+      '"coinbase <txid>:0". You can add a nickname like: "height inheritance:900000", and the',
+      'number of blocks to warn you ahead at the end, like: "height 900000 12".',
+    ].join(' '),
+    unwatchParametersRequestMessage: [
+      'Which timelocks or nicknames of timelocks do you no longer want to watch?',
+      'You can specify multiple values with spaces between them.',
+    ].join(' '),
+    permissionKey: PermissionKey.WatchTimelocks,
+  },
   {
     name: WatchName.PriceChange,
     description: 'Watch changes in the price of Bitcoin (in USD).',
@@ -103,9 +188,37 @@ export const watches: Watch[] = [
   },
   {
     name: WatchName.NewBlocks,
-    description: 'Get notifications when new blocks are mined.',
+    description: [
+      'Get notifications when new blocks are mined, with the pool that probably mined them, their',
+      'fees, transaction count and fullness. Filter them by mining pools, "empty" or "unknown",',
+      'i.e. "/watch new-blocks foundryusa empty".',
+    ].join(' '),
     permissionKey: PermissionKey.WatchNewBlocks,
   },
+  {
+    name: WatchName.Reorg,
+    description: [
+      'Get notifications when blocks are replaced by a chain reorganization. The watched',
+      'transactions and addresses whose payments lose their confirmations are notified anyway.',
+    ].join(' '),
+    permissionKey: PermissionKey.WatchReorg,
+  },
+  {
+    name: WatchName.Difficulty,
+    description: [
+      'Get a countdown to the next difficulty adjustment with its projected change, one day and',
+      '100 blocks before it, and the actual change once it happens.',
+    ].join(' '),
+    permissionKey: PermissionKey.WatchDifficulty,
+  },
+  {
+    name: WatchName.Halving,
+    description: [
+      'Get a countdown to the next halving of the block subsidy, one day and 100 blocks before',
+      'it, and the new subsidy once it happens.',
+    ].join(' '),
+    permissionKey: PermissionKey.WatchHalving,
+  },
   {
     name: WatchName.MempoolClear,
     description: [
@@ -114,6 +227,39 @@ export const watches: Watch[] = [
     ].join(' '),
     permissionKey: PermissionKey.WatchMempoolClear,
   },
+  {
+    name: WatchName.FeeRate,
+    description: [
+      'Get notifications when the fee rate (in sat/vB) that is needed to get into the next block',
+      'drops below or rises above your targets.',
+    ].join(' '),
+    watchParametersRequestMessage: [
+      'Which fee rate (in sat/vB) do you want to watch? Specify "below" or "above" and the target,',
+      'like: "below 5" or "above 100".',
+    ].join(' '),
+    permissionKey: PermissionKey.WatchFeeRate,
+  },
+  {
+    name: WatchName.Whales,
+    description: [
+      'Get notifications when a mempool transaction moves a large amount, or pays an unusually',
+      'high fee or fee rate.',
+    ].join(' '),
+    watchParametersRequestMessage: [
+      'Which whales do you want to watch? Specify "amount" or "fee" and the BTC threshold, or',
+      '"fee-rate" and the sat/vB threshold, like: "amount 100", "fee 0.01" or "fee-rate 500".',
+    ].join(' '),
+    permissionKey: PermissionKey.WatchWhales,
+  },
+  {
+    name: WatchName.NodeHealth,
+    description: [
+      'Get notifications when your Bitcoin node has fewer peers than you want (4 by default),',
+      'falls behind the chain, stops getting new blocks or reports warnings, and when it is',
+      'healthy again.',
+    ].join(' '),
+    permissionKey: PermissionKey.WatchNodeHealth,
+  },
   {
     name: WatchName.LightningChannelsOpened,
     description: 'Get notifications when lightning channels are opened.',
@@ -139,6 +285,18 @@ export const watches: Watch[] = [
     description: 'Get notifications when your node\'s lightning invoices are paid.',
     permissionKey: PermissionKey.WatchLightningInvoicesPaid,
   },
+  {
+    name: WatchName.LightningLiquidity,
+    description: [
+      'Get notifications when the outbound liquidity of your lightning channels drops below or',
+      'rises above your targets, in percents of the channel capacity.',
+    ].join(' '),
+    watchParametersRequestMessage: [
+      'Which outbound liquidity (in percents) do you want to watch? Specify "below" or "above",',
+      'the target and optionally a channel id, like: "below 10" or "above 90 800000x1x0".',
+    ].join(' '),
+    permissionKey: PermissionKey.WatchLightningLiquidity,
+  },
 ];
 
 export const watchByName = new Map(watches.map((watch) => [watch.name, watch]));
@@ -151,7 +309,13 @@ export enum BotCommandName {
   Unwatch = 'unwatch',
   Quit = 'quit',
   ListWatches = 'listwatches',
+  Balance = 'balance',
   Links = 'links',
+  Webhooks = 'webhooks',
+  Nostr = 'nostr',
+  Email = 'email',
+  Matrix = 'matrix',
+  Settings = 'settings',
   About = 'about'
 }
 
@@ -190,6 +354,57 @@ export const telegramCommands: BotCommand[] = [
     name: BotCommandName.ListWatches,
     description: 'Lists all your configured watches.',
   },
+  {
+    name: BotCommandName.Balance,
+    description: [
+      'Lists the confirmed balances of your watched addresses. Call',
+      '"/balance <address-or-nickname> above <btc>" or "/balance <address-or-nickname> below <btc>"',
+      'to get alerts when a balance crosses a threshold, i.e. "below 0" when it drops to zero, or',
+      '"/balance <address-or-nickname> off" to remove the alerts.',
+    ].join(' '),
+    permissionKey: PermissionKey.WatchAddresses,
+  },
+  {
+    name: BotCommandName.Webhooks,
+    description: [
+      'Manage webhook urls that receive your notifications as signed JSON POST requests.',
+      'Call "/webhooks add <url>", "/webhooks remove <url>" or "/webhooks test".',
+    ].join(' '),
+    permissionKey: PermissionKey.Webhooks,
+  },
+  {
+    name: BotCommandName.Nostr,
+    description: [
+      'Receive your notifications also as encrypted Nostr direct messages.',
+      'Call "/nostr set <npub>", "/nostr remove" or "/nostr test".',
+    ].join(' '),
+    permissionKey: PermissionKey.Nostr,
+  },
+  {
+    name: BotCommandName.Email,
+    description: [
+      'Receive your notifications also by email.',
+      'Call "/email set <address>", "/email verify <code>", "/email remove" or "/email test".',
+    ].join(' '),
+    permissionKey: PermissionKey.Email,
+  },
+  {
+    name: BotCommandName.Matrix,
+    description: [
+      'Receive your notifications also in a Matrix direct chat room.',
+      'Call "/matrix set <@user:homeserver>", "/matrix remove" or "/matrix test".',
+    ].join(' '),
+    permissionKey: PermissionKey.Matrix,
+  },
+  {
+    name: BotCommandName.Settings,
+    description: [
+      'Shows and changes the language and how dates and amounts are displayed. Call',
+      '"/settings language <language>", "/settings timezone <timezone>",',
+      '"/settings locale <locale>" or "/settings numbers <comma|period|space>",',
+      'or use "reset" instead of a value.',
+    ].join(' '),
+  },
   {
     name: BotCommandName.WhoAmI,
     description: 'Replies with your username and ids.',
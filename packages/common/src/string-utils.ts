@@ -1,6 +1,16 @@
-export function mSatsToSats(mSats: string): string {
+import { FormatOptions, numberLocale } from './format-options';
+
+export function formatNumber(value: number, options?: FormatOptions): string {
+  return value.toLocaleString(numberLocale(options));
+}
+
+export function mSatsToSats(mSats: string, options?: FormatOptions): string {
   const fraction = mSats.slice(-3).replace(/0+$/, '');
-  return `${
-    Number(mSats.slice(0, -3)).toLocaleString('en-US')
-  }${fraction ? `.${fraction}` : ''}`;
+  if (!fraction) {
+    return formatNumber(Number(mSats.slice(0, -3)), options);
+  }
+  const decimalSeparator = new Intl.NumberFormat(numberLocale(options)).formatToParts(0.5).find(
+    ({ type }) => type === 'decimal',
+  )?.value ?? '.';
+  return `${formatNumber(Number(mSats.slice(0, -3)), options)}${decimalSeparator}${fraction}`;
 }
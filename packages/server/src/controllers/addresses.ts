@@ -1,5 +1,82 @@
-import { bitcoindWatcher } from '../helpers/bitcoind-watcher';
-import { WatchedAddressesModel } from '../models/watched-addresses';
+import { address as bitcoinjsAddress } from 'bitcoinjs-lib';
+
+import { isTransactionInMempool, scanTxOutSet } from '../helpers/bitcoin-rpc';
+import { bitcoindWatcher, networks, satsPerBitcoin } from '../helpers/bitcoind-watcher';
+import logger from '../helpers/logger';
+import { WatchedAddressDocument, WatchedAddressesModel } from '../models/watched-addresses';
+import { WatchedWalletsModel } from '../models/watched-wallets';
+
+// bitcoind refuses to start a scan while another one is in progress, so the scans are chained
+let lastBalancesScan: Promise<unknown> = Promise.resolve();
+
+async function scanConfirmedBalances(addresses: string[]): Promise<Map<string, number>> {
+  logger.info(`scanConfirmedBalances: scanning ${addresses.length} addresses`);
+  const scanResult = await scanTxOutSet(addresses);
+  if (!scanResult.success) {
+    throw new Error('The scan of the utxo set was aborted');
+  }
+  const network = networks[bitcoindWatcher.getChain()];
+  const balances = new Map(addresses.map((address) => [address, 0]));
+  for (const unspent of scanResult.unspents) {
+    let address: string | undefined;
+    try {
+      address = bitcoinjsAddress.fromOutputScript(Buffer.from(unspent.scriptPubKey, 'hex'), network);
+    } catch (error) { // ignore error
+      continue;
+    }
+    const balance = balances.get(address);
+    if (balance !== undefined) {
+      balances.set(address, balance + Math.round(unspent.amount * satsPerBitcoin));
+    }
+  }
+  return balances;
+}
+
+// Scans the utxo set, so funds that were received before the watch are counted too. Returns the
+// address documents as they were before the update, along with their new confirmed balances.
+export async function updateAddressBalances(
+  addresses: string[],
+): Promise<[WatchedAddressDocument, number][]> {
+  const scan = lastBalancesScan.then(() => scanConfirmedBalances(addresses));
+  lastBalancesScan = scan.catch(() => undefined);
+  const balances = await scan;
+  const watchedAddresses = await WatchedAddressesModel.find({
+    address: {
+      $in: addresses,
+    },
+  });
+  // Mempool payments that were confirmed, replaced or evicted are no longer unconfirmed
+  const leftMempoolTxids: string[] = [];
+  for await (const txid of new Set(watchedAddresses.flatMap(
+    ({ mempoolIncomes, mempoolOutcomes }) => [...mempoolIncomes, ...mempoolOutcomes].map(
+      (mempoolPayment) => mempoolPayment.txid,
+    ),
+  ))) {
+    if (!await isTransactionInMempool(txid)) {
+      leftMempoolTxids.push(txid);
+    }
+  }
+  const balanceUpdatedAt = new Date();
+  for await (const [address, confirmedBalanceSats] of balances) {
+    await WatchedAddressesModel.updateMany(
+      { address },
+      {
+        $set: {
+          confirmedBalanceSats,
+          balanceUpdatedAt,
+        },
+        $pull: {
+          mempoolIncomes: { txid: { $in: leftMempoolTxids } },
+          mempoolOutcomes: { txid: { $in: leftMempoolTxids } },
+        },
+      },
+    );
+  }
+  return watchedAddresses.map((watchedAddress) => [
+    watchedAddress,
+    balances.get(watchedAddress.address) ?? 0,
+  ]);
+}
 
 export async function unwatchUnusedAddresses(addresses: string[]) {
   const existingAddressDocs = await WatchedAddressesModel.find({
@@ -7,7 +84,19 @@ export async function unwatchUnusedAddresses(addresses: string[]) {
       $in: addresses,
     },
   });
-  const existingAddresses = new Set(existingAddressDocs.map(({ address }) => address));
+  // The derived addresses of the watched wallets are watched too
+  const existingWalletDocs = await WatchedWalletsModel.find({
+    $or: [
+      { receiveAddresses: { $in: addresses } },
+      { changeAddresses: { $in: addresses } },
+    ],
+  });
+  const existingAddresses = new Set([
+    ...existingAddressDocs.map(({ address }) => address),
+    ...existingWalletDocs.flatMap(
+      ({ receiveAddresses, changeAddresses }) => [...receiveAddresses, ...changeAddresses],
+    ),
+  ]);
   for (const address of addresses) {
     if (!existingAddresses.has(address)) {
       bitcoindWatcher.unwatchAddress(address);
@@ -0,0 +1,16 @@
+import logger from '../helpers/logger';
+import {
+  NotificationOutboxModel, OutboxStatus, OutboxTransport,
+} from '../models/notification-outbox';
+
+export async function clearPendingMessages(transport: OutboxTransport) {
+  const { deletedCount } = await NotificationOutboxModel.deleteMany({
+    transport,
+    status: OutboxStatus.Pending,
+  });
+  logger.info(`Cleared ${deletedCount} pending ${transport} messages`);
+}
+
+export async function countPendingMessages(): Promise<number> {
+  return NotificationOutboxModel.countDocuments({ status: OutboxStatus.Pending });
+}
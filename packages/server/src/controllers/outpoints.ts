@@ -0,0 +1,19 @@
+import { bitcoindWatcher } from '../helpers/bitcoind-watcher';
+import { WatchedOutpointsModel } from '../models/watched-outpoints';
+
+export async function unwatchUnusedOutpoints(outpoints: string[]) {
+  const existingOutpointDocs = await WatchedOutpointsModel.find({
+    outpoint: {
+      $in: outpoints,
+    },
+    spendingTxid: {
+      $exists: false,
+    },
+  });
+  const existingOutpoints = new Set(existingOutpointDocs.map(({ outpoint }) => outpoint));
+  for (const outpoint of outpoints) {
+    if (!existingOutpoints.has(outpoint)) {
+      bitcoindWatcher.unwatchOutpoint(outpoint);
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { FilterQuery } from 'mongoose';
+
+import {
+  TelegramChatDocument, TelegramChatsModel, TelegramChatStatus, TelegramChatType,
+} from '../models/telegram-chats';
+import { defaultUserProperties, UsersModel } from '../models/users';
+import { deleteUser } from './users';
+
+export async function registerTelegramChat({
+  telegramChatId, type, title, addedByFromId,
+}: {
+  telegramChatId: number;
+  type: TelegramChatType;
+  title: string;
+  addedByFromId?: number;
+}): Promise<TelegramChatDocument> {
+  return TelegramChatsModel.findOneAndUpdate(
+    {
+      telegramChatId,
+    },
+    {
+      $set: {
+        type,
+        title,
+      },
+      $setOnInsert: {
+        status: TelegramChatStatus.Pending,
+        ...(addedByFromId !== undefined) && { addedByFromId },
+      },
+    },
+    {
+      upsert: true,
+      new: true,
+    },
+  );
+}
+
+// The chat's watches are held by a users document, so the dispatcher notifies chats and users
+// alike.
+export async function approveTelegramChat(
+  chat: TelegramChatDocument,
+): Promise<TelegramChatDocument | null> {
+  const subscriber = await UsersModel.findOneAndUpdate(
+    {
+      telegramFromId: chat.telegramChatId,
+    },
+    {
+      $set: {
+        telegramUsername: chat.title,
+        telegramChatId: chat.telegramChatId,
+        telegramChatType: chat.type,
+      },
+      $setOnInsert: {
+        ...defaultUserProperties,
+      },
+    },
+    {
+      upsert: true,
+      new: true,
+    },
+  );
+  return TelegramChatsModel.findOneAndUpdate(
+    {
+      _id: chat._id,
+    },
+    {
+      $set: {
+        status: TelegramChatStatus.Approved,
+        subscriberId: subscriber._id,
+      },
+    },
+    {
+      new: true,
+    },
+  );
+}
+
+export async function rejectTelegramChat(
+  chat: TelegramChatDocument,
+): Promise<TelegramChatDocument | null> {
+  if (chat.subscriberId) {
+    await deleteUser({
+      _id: chat.subscriberId,
+    });
+  }
+  return TelegramChatsModel.findOneAndUpdate(
+    {
+      _id: chat._id,
+    },
+    {
+      $set: {
+        status: TelegramChatStatus.Rejected,
+      },
+      $unset: {
+        subscriberId: 1,
+      },
+    },
+    {
+      new: true,
+    },
+  );
+}
+
+export async function deleteTelegramChat(
+  filterQuery: FilterQuery<TelegramChatDocument>,
+): Promise<TelegramChatDocument | undefined> {
+  const chat = await TelegramChatsModel.findOneAndDelete(filterQuery);
+  if (!chat) {
+    return undefined;
+  }
+  if (chat.subscriberId) {
+    await deleteUser({
+      _id: chat.subscriberId,
+    });
+  }
+  return chat;
+}
+
+// Telegram changes the chat id when a group is upgraded to a supergroup
+export async function migrateTelegramChat(oldTelegramChatId: number, newTelegramChatId: number) {
+  const chat = await TelegramChatsModel.findOneAndUpdate(
+    {
+      telegramChatId: oldTelegramChatId,
+    },
+    {
+      $set: {
+        telegramChatId: newTelegramChatId,
+        type: TelegramChatType.Supergroup,
+      },
+    },
+    {
+      new: true,
+    },
+  );
+  if (!chat?.subscriberId) {
+    return;
+  }
+  await UsersModel.updateOne(
+    {
+      _id: chat.subscriberId,
+    },
+    {
+      $set: {
+        telegramFromId: newTelegramChatId,
+        telegramChatId: newTelegramChatId,
+        telegramChatType: TelegramChatType.Supergroup,
+      },
+    },
+  );
+}
@@ -0,0 +1,76 @@
+import { getBlockHash, getBlockHeader, getTxOut } from '../helpers/bitcoin-rpc';
+import { TimelockType } from '../models/watched-timelocks';
+
+export const coinbaseMaturityBlocks = 100;
+export const defaultTimelockWarningBlocks = 6;
+
+const targetBlockIntervalSeconds = 600;
+
+export interface TimelockMaturity {
+  maturityHeight?: number;
+  maturityTime?: number;
+}
+
+interface RelativeTimelock {
+  type: TimelockType;
+  lock: string;
+  relativeBlocks?: number;
+  relativeSeconds?: number;
+}
+
+// A spending transaction can be included in the block that follows the best block, so a lock
+// matures once the best block reaches the height before the first one that accepts the spend.
+export function absoluteTimelockMaturity(type: TimelockType, lock: number): TimelockMaturity {
+  if (type === TimelockType.Time) {
+    // nLockTime has to be strictly below the median-time-past
+    return { maturityTime: lock + 1 };
+  }
+  return { maturityHeight: lock };
+}
+
+// Undefined if the output is spent or does not exist, and empty while the output is unconfirmed
+export async function resolveRelativeTimelock({
+  type, lock, relativeBlocks, relativeSeconds,
+}: RelativeTimelock): Promise<TimelockMaturity | undefined> {
+  const [txid, vout] = lock.split(':');
+  const unspentTxOut = await getTxOut(txid, Number(vout));
+  if (!unspentTxOut) {
+    return undefined;
+  }
+  if (unspentTxOut.confirmations === 0) {
+    return {};
+  }
+  const bestBlockHeader = await getBlockHeader(unspentTxOut.bestblock);
+  if (!bestBlockHeader) {
+    throw new Error(`Failed to get block header ${unspentTxOut.bestblock}`);
+  }
+  const height = bestBlockHeader.height - unspentTxOut.confirmations + 1;
+  if (type === TimelockType.Coinbase) {
+    return { maturityHeight: height + coinbaseMaturityBlocks - 1 };
+  }
+  if (relativeBlocks !== undefined) {
+    return { maturityHeight: height + relativeBlocks - 1 };
+  }
+  // Time-based relative locks count from the median-time-past of the block before the output's
+  const previousBlockHash = await getBlockHash(height - 1);
+  const previousBlockHeader = previousBlockHash && await getBlockHeader(previousBlockHash);
+  if (!previousBlockHeader) {
+    throw new Error(`Failed to get block header at height ${height - 1}`);
+  }
+  return { maturityTime: previousBlockHeader.mediantime + (relativeSeconds ?? 0) };
+}
+
+// Time locks are estimated by the target block interval, zero or less once the lock matured
+export function timelockBlocksLeft(
+  { maturityHeight, maturityTime }: TimelockMaturity,
+  bestBlockHeight: number,
+  medianTime: number,
+): number | undefined {
+  if (maturityHeight !== undefined) {
+    return maturityHeight - bestBlockHeight;
+  }
+  if (maturityTime !== undefined) {
+    return Math.ceil((maturityTime - medianTime) / targetBlockIntervalSeconds);
+  }
+  return undefined;
+}
@@ -11,6 +11,7 @@ export async function unwatchUnusedTransactions(txids: string[]) {
   for (const txid of txids) {
     if (!existingTxids.has(txid)) {
       bitcoindWatcher.unwatchTransaction(txid);
+      bitcoindWatcher.unwatchConfirmations(txid);
     }
   }
 }
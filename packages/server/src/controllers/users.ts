@@ -1,9 +1,16 @@
 import { FilterQuery } from 'mongoose';
+import { bitcoindWatcher } from '../helpers/bitcoind-watcher';
 import { priceWatcher } from '../helpers/price-watcher';
+import { lndWatcher } from '../helpers/lnd-watcher';
 import { UserDocument, UsersModel } from '../models/users';
 import { WatchedAddressesModel } from '../models/watched-addresses';
+import { WatchedOutpointsModel } from '../models/watched-outpoints';
+import { WatchedTimelocksModel } from '../models/watched-timelocks';
 import { WatchedTransactionsModel } from '../models/watched-transactions';
+import { WatchedWalletsModel } from '../models/watched-wallets';
+import { WebhooksModel } from '../models/webhooks';
 import { unwatchUnusedAddresses } from './addresses';
+import { unwatchUnusedOutpoints } from './outpoints';
 import { unwatchUnusedTransactions } from './transactions';
 
 export async function deleteUser(
@@ -35,8 +42,43 @@ export async function deleteUser(
       addresses.map(({ address }) => address),
     );
   }
+  const wallets = await WatchedWalletsModel.find({
+    userId: user._id,
+  });
+  if (wallets.length) {
+    await WatchedWalletsModel.deleteMany({
+      userId: user._id,
+    });
+    await unwatchUnusedAddresses(
+      wallets.flatMap(({ receiveAddresses, changeAddresses }) => [
+        ...receiveAddresses,
+        ...changeAddresses,
+      ]),
+    );
+  }
+  const outpoints = await WatchedOutpointsModel.find({
+    userId: user._id,
+  });
+  if (outpoints.length) {
+    await WatchedOutpointsModel.deleteMany({
+      userId: user._id,
+    });
+    await unwatchUnusedOutpoints(
+      outpoints.map(({ outpoint }) => outpoint),
+    );
+  }
+  await WatchedTimelocksModel.deleteMany({
+    userId: user._id,
+  });
+  await WebhooksModel.deleteMany({
+    userId: user._id,
+  });
   if (user.watchPriceChange) {
     priceWatcher.unwatchPriceChange(user._id.toString());
   }
+  bitcoindWatcher.unwatchFeeRate(user._id.toString());
+  bitcoindWatcher.unwatchWhales(user._id.toString());
+  bitcoindWatcher.unwatchNodeHealth(user._id.toString());
+  lndWatcher.unwatchLiquidity(user._id.toString());
   return user;
 }
@@ -0,0 +1,66 @@
+import { bitcoindWatcher } from '../helpers/bitcoind-watcher';
+import logger from '../helpers/logger';
+import { deriveWalletAddresses, walletGapLimit, WalletBranch } from '../helpers/wallets';
+import { WatchedWalletDocument, WatchedWalletsModel } from '../models/watched-wallets';
+
+const walletBranchFields = {
+  [WalletBranch.Receive]: 'receiveAddresses',
+  [WalletBranch.Change]: 'changeAddresses',
+} as const;
+
+// Derives the first gap-limit window of both branches, the caller should save them
+export function deriveInitialWalletAddresses(
+  wallet: Pick<WatchedWalletDocument, 'extendedKey' | 'scriptType'>,
+): Pick<WatchedWalletDocument, 'receiveAddresses' | 'changeAddresses'> {
+  const chain = bitcoindWatcher.getChain();
+  return {
+    receiveAddresses: deriveWalletAddresses(wallet, chain, WalletBranch.Receive, 0, walletGapLimit),
+    changeAddresses: deriveWalletAddresses(wallet, chain, WalletBranch.Change, 0, walletGapLimit),
+  };
+}
+
+// Keeps a gap-limit of unused addresses after the given used address, and returns the new
+// addresses, which are already watched.
+export async function extendWalletAddresses(
+  wallet: WatchedWalletDocument,
+  usedAddress: string,
+): Promise<string[]> {
+  const newAddresses: string[] = [];
+  for (const branch of [WalletBranch.Receive, WalletBranch.Change]) {
+    const field = walletBranchFields[branch];
+    const addresses = wallet[field];
+    const usedIndex = addresses.indexOf(usedAddress);
+    if ((usedIndex < 0) || (usedIndex + walletGapLimit < addresses.length)) {
+      continue;
+    }
+    const branchAddresses = deriveWalletAddresses(
+      wallet,
+      bitcoindWatcher.getChain(),
+      branch,
+      addresses.length,
+      usedIndex + walletGapLimit + 1 - addresses.length,
+    );
+    // eslint-disable-next-line no-await-in-loop
+    const updateResult = await WatchedWalletsModel.updateOne(
+      {
+        _id: wallet._id,
+        // Another payment might have extended it in the meantime
+        [field]: { $size: addresses.length },
+      },
+      {
+        $push: {
+          [field]: { $each: branchAddresses },
+        },
+      },
+    );
+    if (updateResult.modifiedCount === 0) {
+      logger.info(`extendWalletAddresses: ${wallet.id} ${field} was already extended`);
+      continue;
+    }
+    newAddresses.push(...branchAddresses);
+  }
+  for (const newAddress of newAddresses) {
+    bitcoindWatcher.watchAddress(newAddress);
+  }
+  return newAddresses;
+}
@@ -33,7 +33,8 @@ export interface ChainInfo {
 interface NetworkInfo {
   version: string;
   subversion: string;
-  warnings?: string;
+  connections: number;
+  warnings?: string | string[]; // an array since bitcoind v28
 }
 
 interface TxInScriptSig {
@@ -108,6 +109,7 @@ export interface BlockTransaction {
   locktime: number;
   vin: TxIn[];
   vout: TxOut[];
+  hex: string; // serialized transaction
 }
 
 export interface RawTransaction extends BlockTransaction {
@@ -151,9 +153,16 @@ interface MempoolInfo {
   size: number;
   bytes: number;
   usage: number;
+  mempoolminfee: number; // BTC/kvB
   // There are more fields
 }
 
+interface SmartFeeEstimation {
+  feerate?: number; // BTC/kvB, missing when there is not enough data
+  errors?: string[];
+  blocks: number;
+}
+
 interface BitcoinRpcErrorJson {
   code: number;
   message: string;
@@ -199,6 +208,7 @@ const bitcoinRpcHttpOptions = {
 };
 
 const bitcoinRpcErrorNotFound = -5;
+const bitcoinRpcErrorInvalidParameter = -8;
 
 class BitcoinRpcError extends Error {
   code: number;
@@ -211,20 +221,30 @@ class BitcoinRpcError extends Error {
   isNotFound() {
     return (this.code === bitcoinRpcErrorNotFound);
   }
+
+  isInvalidParameter() {
+    return (this.code === bitcoinRpcErrorInvalidParameter);
+  }
 }
 
 interface RpcProperties {
   method: string;
   params?: unknown;
+  timeoutMs?: number;
 }
 
 const abortTimeoutMs = 90_000;
+// Scanning the whole utxo set of mainnet takes a few minutes
+const scanTxOutSetTimeoutMs = 15 * 60_000;
 
 async function rpc<T>(properties: RpcProperties): Promise<T> {
   const startTime = new Date();
   logger.info(`rpc: ${properties.method} started at ${startTime.toJSON()}`);
   const abortController = new AbortController();
-  const abortTimeout = setTimeout(() => abortController.abort(), abortTimeoutMs);
+  const abortTimeout = setTimeout(
+    () => abortController.abort(),
+    properties.timeoutMs ?? abortTimeoutMs,
+  );
   try {
     const rpcId = Math.random().toString(36).substring(2);
     const response = await fetch(
@@ -340,6 +360,60 @@ export async function getMempoolInfo(): Promise<MempoolInfo | undefined> {
   }
 }
 
+export async function estimateSmartFee(
+  confirmationTarget: number,
+): Promise<SmartFeeEstimation> {
+  const response: SmartFeeEstimation = await rpc({
+    method: 'estimatesmartfee',
+    params: [confirmationTarget, 'ECONOMICAL'],
+  });
+  return response;
+}
+
+export interface UnspentTxOut {
+  bestblock: string;
+  confirmations: number;
+  value: number;
+  scriptPubKey: TxOutScriptPubKey;
+  coinbase: boolean;
+}
+
+// Returns undefined if the output does not exist or is already spent, also by the mempool
+export async function getTxOut(txid: string, vout: number): Promise<UnspentTxOut | undefined> {
+  const response: UnspentTxOut | null = await rpc({
+    method: 'gettxout',
+    params: [txid, vout, true],
+  });
+  return response ?? undefined;
+}
+
+interface ScanTxOutSetUnspent {
+  txid: string;
+  vout: number;
+  scriptPubKey: string; // hex
+  desc: string;
+  amount: number;
+  height: number;
+}
+
+export interface ScanTxOutSetResult {
+  success: boolean;
+  height: number;
+  bestblock: string;
+  unspents: ScanTxOutSetUnspent[];
+  total_amount: number;
+}
+
+// Finds the confirmed unspent outputs of the addresses, bitcoind runs only one scan at a time
+export async function scanTxOutSet(addresses: string[]): Promise<ScanTxOutSetResult> {
+  const response: ScanTxOutSetResult = await rpc({
+    method: 'scantxoutset',
+    params: ['start', addresses.map((address) => `addr(${address})`)],
+    timeoutMs: scanTxOutSetTimeoutMs,
+  });
+  return response;
+}
+
 export async function getRawTransaction(txid: string): Promise<RawTransaction | undefined> {
   try {
     const response: RawTransaction = await rpc({
@@ -383,6 +457,56 @@ export async function getRawTransactionsBatch(txids: string[]): Promise<RawTrans
   return filteredTransactions;
 }
 
+export interface MempoolEntry {
+  vsize: number;
+  ancestorsize: number; // vsize of the transaction and its unconfirmed ancestors
+  fees: {
+    base: number; // BTC
+    ancestor: number; // BTC, of the transaction and its unconfirmed ancestors
+  };
+  time: number; // unix seconds when the transaction entered the mempool
+  // There are more fields
+}
+
+export async function getMempoolEntry(txid: string): Promise<MempoolEntry | undefined> {
+  try {
+    const response: MempoolEntry = await rpc({
+      method: 'getmempoolentry',
+      params: { txid },
+    });
+    return response;
+  } catch (error) {
+    if ((error instanceof BitcoinRpcError) && error.isNotFound()) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+// The entries are in the order of the txids, undefined for transactions not in the mempool
+export async function getMempoolEntriesBatch(
+  txids: string[],
+): Promise<(MempoolEntry | undefined)[]> {
+  if (txids.length === 0) {
+    return [];
+  }
+  const mempoolEntries: (MempoolEntry | BitcoinRpcError)[] = await rpcBatch(
+    txids.map((txid) => ({
+      method: 'getmempoolentry',
+      params: { txid },
+    })),
+  );
+  return mempoolEntries.map((mempoolEntry) => {
+    if (mempoolEntry instanceof BitcoinRpcError) {
+      if (!mempoolEntry.isNotFound()) {
+        throw mempoolEntry;
+      }
+      return undefined;
+    }
+    return mempoolEntry;
+  });
+}
+
 export async function isTransactionInMempool(txid: string) {
   try {
     await rpc({
@@ -456,6 +580,22 @@ export async function getBestBlockHash(): Promise<string | undefined> {
   }
 }
 
+export async function getBlockHash(height: number): Promise<string | undefined> {
+  try {
+    const response: string = await rpc({
+      method: 'getblockhash',
+      params: { height },
+    });
+    return response;
+  } catch (error) {
+    // Heights above the tip are out of range
+    if ((error instanceof BitcoinRpcError) && (error.isNotFound() || error.isInvalidParameter())) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
 export async function getZmqNotifications(): Promise<ZmqNotification[] | undefined> {
   try {
     const response: ZmqNotification[] = await rpc({
@@ -491,6 +631,31 @@ export async function getBlock(
   }
 }
 
+export interface BlockHeader {
+  hash: string;
+  confirmations: number; // -1 if the block is not on the main chain
+  height: number;
+  time: number;
+  mediantime: number;
+  difficulty: number;
+  previousblockhash?: string;
+}
+
+export async function getBlockHeader(blockhash: string): Promise<BlockHeader | undefined> {
+  try {
+    const response: BlockHeader = await rpc({
+      method: 'getblockheader',
+      params: [blockhash, true],
+    });
+    return response;
+  } catch (error) {
+    if ((error instanceof BitcoinRpcError) && error.isNotFound()) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
 export async function getBlockTransactions(
   blockHashes: string[],
   withPrevout = false,
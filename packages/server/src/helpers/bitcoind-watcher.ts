@@ -11,8 +11,10 @@ import {
   ChainInfo, BlockVerbosity2, getBestBlockHash, getBlock, getBlockchainInfo, getBlockTransactions,
   getNotificationAddresses, getRawMempool, getRawTransaction, getRawTransactionsBatch,
   isTransactionInMempool, TxInStandard, BlockTransaction, RawTransaction, getOutAddresses,
-  getNetworkInfo, getMempoolInfo,
+  getNetworkInfo, getMempoolInfo, estimateSmartFee, BlockHeader, getBlockHeader, getMempoolEntry,
+  getMempoolEntriesBatch, getBlockHash, getTxOut,
 } from './bitcoin-rpc';
+import { findMiningPool, MiningPoolSummary } from './mining-pools';
 import { TransactionStatus } from '../models/watched-transactions';
 
 export enum BitcoindWatcherEventName {
@@ -24,6 +26,18 @@ export enum BitcoindWatcherEventName {
   NewAddressPayment = 'newAddressPayment',
   AddressOverload = 'addressOverload',
   NewMempoolClearStatus = 'newMempoolClearStatus',
+  FeeRateThreshold = 'feeRateThreshold',
+  OutpointSpent = 'outpointSpent',
+  ChainReorganization = 'chainReorganization',
+  TransactionConfirmations = 'transactionConfirmations',
+  TransactionReplaced = 'transactionReplaced',
+  TransactionCpfp = 'transactionCpfp',
+  TransactionEvicted = 'transactionEvicted',
+  WhaleTransaction = 'whaleTransaction',
+  ChainCountdown = 'chainCountdown',
+  DifficultyAdjustment = 'difficultyAdjustment',
+  Halving = 'halving',
+  NodeHealth = 'nodeHealth',
 }
 
 export interface TransactionAnalysis {
@@ -41,10 +55,21 @@ export interface NewTransactionAnalysisEvent {
   oldAnalysis: TransactionAnalysis;
 }
 
+export interface NewBlockSummary {
+  hash: string;
+  height: number;
+  pool?: MiningPoolSummary;
+  transactions: number; // including the coinbase transaction
+  feesSats: number;
+  fullness: number; // percent of the maximal block weight
+}
+
 export interface NewBlockAnalyzedEvent {
   blockHashes: string[];
   bestBlockHeight: number;
+  medianTime: number; // median-time-past of the best block, in unix seconds
   newBlocks: number;
+  blocks: NewBlockSummary[];
 }
 
 export interface NewAddressPaymentEvent {
@@ -61,29 +86,357 @@ export interface NewMempoolClearStatusEvent {
   isClear: boolean;
 }
 
-const networks = {
+export interface ReorganizedAddressPayment {
+  address: string;
+  txid: string;
+}
+
+export interface ChainReorganizationEvent {
+  // The last block that is common to the old and the new chains
+  forkBlockHash: string;
+  forkBlockHeight: number;
+  oldTipHash: string;
+  oldTipHeight: number;
+  newTipHash: string;
+  newTipHeight: number;
+  disconnectedBlockHashes: string[]; // from the old tip down to the fork
+  connectedBlocks: number;
+  // Watched transactions and payments of watched addresses that were mined in the disconnected
+  // blocks, and were not mined again in the connected blocks
+  unconfirmedTransactions: string[];
+  unconfirmedAddressPayments: ReorganizedAddressPayment[];
+}
+
+export interface TransactionConfirmationsEvent {
+  txid: string;
+  confirmations: number;
+}
+
+export enum ReplacementType {
+  FeeBump = 'feeBump', // pays the same outputs, only with a higher fee
+  DoubleSpend = 'doubleSpend', // redirects the funds elsewhere
+  Unknown = 'unknown', // the transactions could not be compared
+}
+
+export interface TransactionReplacedEvent {
+  txid: string;
+  replacingTxid: string;
+  replacementType: ReplacementType;
+  // sat/vB, undefined when the prevouts of the inputs are not available
+  oldFeeRate?: number;
+  newFeeRate?: number;
+}
+
+export interface TransactionCpfpEvent {
+  txid: string;
+  childTxid: string;
+  feeRate: number; // sat/vB of the watched transaction on its own
+  effectiveFeeRate: number; // sat/vB of the child together with its unconfirmed ancestors
+}
+
+export enum EvictionReason {
+  Expiry = 'expiry', // stayed in the mempool longer than the mempool expiry
+  MinFee = 'minFee', // pays less than the minimal fee rate of a full mempool
+  Unknown = 'unknown',
+}
+
+export interface TransactionEvictedEvent {
+  txid: string;
+  reason: EvictionReason;
+  feeRate?: number; // sat/vB, undefined when the prevouts of the inputs are not available
+  minFeeRate?: number; // sat/vB, the minimal fee rate of the mempool after the eviction
+}
+
+interface ConfirmationTargetWatch {
+  target: number; // the highest confirmation target of all the watches of the transaction
+  confirmations: number;
+}
+
+export enum FeeRateDirection {
+  Below = 'below',
+  Above = 'above',
+}
+
+export interface FeeRateThresholdEvent {
+  id: string;
+  direction: FeeRateDirection;
+  threshold: number;
+  feeRate: number;
+}
+
+export interface TransactionOutputSummary {
+  address?: string;
+  valueSats: number;
+}
+
+export interface OutpointSpentEvent {
+  outpoint: string;
+  txid: string;
+  status: TransactionStatus;
+  confirmations: number;
+  outputs: TransactionOutputSummary[];
+}
+
+export enum ChainCountdownName {
+  DifficultyAdjustment = 'difficultyAdjustment',
+  Halving = 'halving',
+}
+
+export interface ChainCountdown {
+  name: ChainCountdownName;
+  targetHeight: number;
+  blocksLeft: number;
+  // Estimated with the average block interval of the current difficulty period
+  timeLeftMs: number;
+  estimatedTime: number; // ms since epoch
+  // Percent, only of difficulty adjustments
+  projectedDifficultyChange?: number;
+}
+
+export interface ChainCountdownEvent extends ChainCountdown {
+  milestone: string;
+  // Every reported milestone of the upcoming countdowns, to persist across restarts
+  reportedMilestones: string[];
+}
+
+export interface DifficultyAdjustmentEvent {
+  height: number;
+  oldDifficulty: number;
+  newDifficulty: number;
+  difficultyChange: number; // percent
+}
+
+export interface HalvingEvent {
+  height: number;
+  subsidySats: number;
+}
+
+interface ChainCountdownMilestone {
+  label: string;
+  blocksLeft?: number;
+  timeLeftMs?: number;
+}
+
+export enum WhaleThreshold {
+  Amount = 'amount', // sats of all the outputs
+  Fee = 'fee', // sats
+  FeeRate = 'fee-rate', // sat/vB
+}
+
+export interface WhaleTransactionEvent {
+  id: string;
+  txid: string;
+  amountSats: number;
+  feeSats: number;
+  feeRate: number;
+  // The thresholds of the watch that the transaction exceeds
+  exceededThresholds: WhaleThreshold[];
+}
+
+interface WhaleWatch {
+  id: string;
+  threshold: WhaleThreshold;
+  value: number;
+}
+
+interface FeeRateWatch {
+  id: string;
+  direction: FeeRateDirection;
+  threshold: number;
+  // Whether crossing the threshold should emit an event, undefined until the first fee check
+  isArmed?: boolean;
+}
+
+export enum NodeHealthProblem {
+  Unreachable = 'unreachable', // the rpc calls fail
+  FewPeers = 'fewPeers',
+  Syncing = 'syncing', // in initial block download, or behind the best known headers
+  StaleTip = 'staleTip', // no new block for an unusually long time
+  Warnings = 'warnings', // reported by getnetworkinfo, like low disk space or an old version
+}
+
+export interface NodeHealthStatus {
+  peers: number;
+  blocks: number;
+  headers: number;
+  initialBlockDownload: boolean;
+  minutesSinceNewBlock: number;
+  warnings: string;
+  version: string;
+}
+
+export interface NodeHealthEvent {
+  id: string;
+  problems: NodeHealthProblem[];
+  newProblems: NodeHealthProblem[];
+  resolvedProblems: NodeHealthProblem[];
+  status?: NodeHealthStatus; // undefined when the node is unreachable
+}
+
+interface NodeHealthWatch {
+  id: string;
+  minPeers: number;
+  // The problems that were already reported, undefined until the first health check
+  problems?: Set<NodeHealthProblem>;
+}
+
+export const networks = {
   [Network.mainnet]: bitcoinjsNetworks.bitcoin,
   [Network.testnet]: bitcoinjsNetworks.testnet,
   [Network.regtest]: bitcoinjsNetworks.regtest,
 };
 
 const rawTransactionsBatchSize = 100;
+
+// The mempool transactions whose prevouts are waiting to be resolved, beyond that they are dropped
+const maxMempoolSpendsToResolve = 10_000;
+const maxReportedMempoolSpends = 10_000;
+const maxReportedCpfps = 10_000;
+// The mempool transactions that wait for their fees to be checked, beyond that they are dropped
+const maxWhalesToCheck = 10_000;
 const maxAnalyzedBlocks = 5;
 const bitcoindWatcherErrorGraceMs = 10_000;
 const mempoolSizeRecheckIntervalMs = 600_000;
+// The default -mempoolexpiry of bitcoind, the actual value is not exposed by the rpc
+const mempoolExpiryMs = 336 * 3_600_000;
 const bestBlockRecheckIntervalMs = 60_000;
+const nodeHealthRecheckIntervalMs = 300_000;
+// Ninety minutes without a new block happen only a few times a year on mainnet
+const staleTipMs = 90 * 60_000;
+// The node may lag a couple of blocks behind the headers while it validates them
+const maxHeadersLead = 2;
 const delayedTriggerTimeoutMs = 1;
 const newBlockDebounceTimeoutMs = 3_000;
 
 const startAttempts = 6;
 const startGraceMs = 20_000;
 
-const satsPerBitcoin = 100_000_000;
+export const satsPerBitcoin = 100_000_000;
 
 const maxOngoingIncomeTransactions = 1000;
 
 const maxBlockWeight = 4_000_000;
 
+// Deeper reorganizations are not expected, and are only logged
+const maxReorganizationDepth = 100;
+
+const btcPerKvbToSatsPerVb = satsPerBitcoin / 1000;
+
+const difficultyAdjustmentInterval = 2016;
+const targetBlockIntervalSeconds = 600;
+// Each adjustment is limited to a factor of 4 in either direction
+const maxDifficultyIncrease = 300; // percent
+const maxDifficultyDecrease = -75; // percent
+const initialSubsidySats = 50 * satsPerBitcoin;
+const chainCountdownMilestones: ChainCountdownMilestone[] = [
+  { label: '1 day', timeLeftMs: 86_400_000 },
+  { label: '100 blocks', blocksLeft: 100 },
+];
+
+function chainMilestoneKey(
+  { name, targetHeight }: ChainCountdown,
+  { label }: ChainCountdownMilestone,
+): string {
+  return `${name}:${targetHeight}:${label}`;
+}
+
+function halvingInterval(chain: Network | undefined): number {
+  return (chain === Network.regtest) ? 150 : 210_000;
+}
+
+function blockSubsidySats(height: number, chain: Network | undefined): number {
+  return Math.floor(initialSubsidySats / (2 ** Math.floor(height / halvingInterval(chain))));
+}
+
+function newBlockSummary(block: BlockVerbosity2, chain: Network | undefined): NewBlockSummary {
+  const [coinbase] = block.tx;
+  const coinbaseSats = coinbase
+    ? coinbase.vout.reduce((sum, txOut) => sum + Math.round(txOut.value * satsPerBitcoin), 0)
+    : 0;
+  return {
+    hash: block.hash,
+    height: block.height,
+    pool: coinbase && findMiningPool(coinbase),
+    transactions: block.tx.length,
+    // Some miners claim less than the subsidy
+    feesSats: Math.max(0, coinbaseSats - blockSubsidySats(block.height, chain)),
+    fullness: Math.round((block.weight / maxBlockWeight) * 10_000) / 100,
+  };
+}
+
+// After a threshold is crossed, the fee rate has to get back past it by this margin before the
+// watch is armed again, so a fee rate that hovers around the threshold does not flap.
+const feeRateHysteresisRatio = 0.1;
+const minFeeRateHysteresis = 1; // sat/vB
+
+function isFeeRateBeyondThreshold(watch: FeeRateWatch, feeRate: number): boolean {
+  return (watch.direction === FeeRateDirection.Below)
+    ? (feeRate < watch.threshold)
+    : (feeRate > watch.threshold);
+}
+
+function isFeeRateBackFromThreshold(watch: FeeRateWatch, feeRate: number): boolean {
+  const margin = Math.max(minFeeRateHysteresis, watch.threshold * feeRateHysteresisRatio);
+  return (watch.direction === FeeRateDirection.Below)
+    ? (feeRate >= watch.threshold + margin)
+    : (feeRate <= watch.threshold - margin);
+}
+
+function roundFeeRate(feeRate: number): number {
+  return Math.round(feeRate * 10) / 10;
+}
+
+// In sat/vB, undefined when the prevout of one of the inputs is unknown
+function transactionFeeRate(
+  transaction: BlockTransaction,
+  parentByTxid: Map<string, BlockTransaction>,
+): number | undefined {
+  let inputsSats = 0;
+  for (const txIn of transaction.vin) {
+    if (!txIn.txid) {
+      return undefined;
+    }
+    const prevout = txIn.prevout ?? parentByTxid.get(txIn.txid)?.vout[txIn.vout];
+    if (!prevout) {
+      return undefined;
+    }
+    inputsSats += Math.round(prevout.value * satsPerBitcoin);
+  }
+  const outputsSats = transaction.vout.reduce(
+    (soFar, txOut) => soFar + Math.round(txOut.value * satsPerBitcoin),
+    0,
+  );
+  return roundFeeRate((inputsSats - outputsSats) / transaction.vsize);
+}
+
+function outputSatsByScript(transaction: BlockTransaction): Map<string, number> {
+  const satsByScript: Map<string, number> = new Map();
+  for (const txOut of transaction.vout) {
+    satsByScript.set(
+      txOut.scriptPubKey.hex,
+      (satsByScript.get(txOut.scriptPubKey.hex) ?? 0) + Math.round(txOut.value * satsPerBitcoin),
+    );
+  }
+  return satsByScript;
+}
+
+// A fee bump still pays every output script of the original transaction, and the fee may only
+// be taken from a single output (the change). Anything else redirects funds elsewhere.
+function isFeeBump(original: BlockTransaction, replacing: BlockTransaction): boolean {
+  const replacingSatsByScript = outputSatsByScript(replacing);
+  let decreasedOutputs = 0;
+  for (const [script, originalSats] of outputSatsByScript(original)) {
+    const replacingSats = replacingSatsByScript.get(script);
+    if (replacingSats === undefined) {
+      return false;
+    }
+    if (replacingSats < originalSats) {
+      decreasedOutputs += 1;
+    }
+  }
+  return decreasedOutputs <= 1;
+}
+
 function confirmationsToTransactionStatus(confirmations: number): TransactionStatus {
   if (confirmations === 0) {
     return TransactionStatus.Mempool;
@@ -108,6 +461,13 @@ function txInStandardKey(parameters: Pick<TxInStandard, 'txid' | 'vout'>): strin
   return `${parameters.txid}:${parameters.vout}`;
 }
 
+function blockTransactionOutputs(transaction: BlockTransaction): TransactionOutputSummary[] {
+  return transaction.vout.map((txOut) => ({
+    address: getOutAddresses(txOut.scriptPubKey)[0],
+    valueSats: Math.round(txOut.value * satsPerBitcoin),
+  }));
+}
+
 const monitorListener = (socketName: string, eventName: string) => (
   eventValue: number,
   address: string,
@@ -139,6 +499,8 @@ class BitcoindWatcher extends EventEmitter {
 
   private mempoolSizeRecheckInterval: ReturnType<typeof setInterval> | undefined;
 
+  private nodeHealthRecheckInterval: ReturnType<typeof setInterval> | undefined;
+
   // Full check of mempool conflicts and incomes (of watched transactions and addresses) is only
   // relevant after boot. After that, we check each transaction when it arrives on the sequence
   // socket.
@@ -157,6 +519,21 @@ class BitcoindWatcher extends EventEmitter {
 
   private transactionsToReanalyze: string[] = [];
 
+  // [watched-txid, conflicting-txid] to tell whether the conflict is a fee bump or not
+  private replacementsToClassify: [string, string][] = [];
+
+  // [watched-txid, child-txid] of mempool children that may bump the fee of a watched parent
+  private cpfpsToCheck: [string, string][] = [];
+
+  // `${txid}:${childTxid}` of the children that were already checked
+  private checkedCpfps: Set<string> = new Set();
+
+  // Watched mempool transactions that may have left the mempool without being mined
+  private mempoolRemovalsToCheck: Set<string> = new Set();
+
+  // maps watched-mempool-txid -> unix time (seconds) it entered the mempool, to tell expiries
+  private mempoolEntryTimes: Map<string, number> = new Map();
+
   private transactionPayloadsQueue: Buffer[] | undefined;
 
   private checkNewBlock = true;
@@ -165,11 +542,30 @@ class BitcoindWatcher extends EventEmitter {
 
   private checkMempoolSize = false;
 
+  private checkFeeRate = false;
+
+  // The node health is checked outside of the run queue, which stalls while bitcoind is unreachable
+  private isCheckingNodeHealth = false;
+
+  private shouldRecheckNodeHealth = false;
+
   // maps address -> income-txid
   private watchedAddresses: Map<string, Set<string>> = new Map();
 
   private overloadedAddresses = new Set();
 
+  // maps mempool-txid -> input-keys, to find the transactions that spend from watched addresses
+  private mempoolSpendsToResolve: Map<string, string[]> = new Map();
+
+  // `${address}:${txid}` of the mempool spends that were already reported
+  private reportedMempoolSpends: Set<string> = new Set();
+
+  // maps outpoint -> spending-txids that were already reported from the mempool. The outpoints
+  // share their keys with the inputs in transactionsByInput.
+  private watchedOutpoints: Map<string, Set<string>> = new Map();
+
+  private confirmationTargets: Map<string, ConfirmationTargetWatch> = new Map();
+
   private sequenceNotificationSocket: zeromq.Socket | undefined;
 
   private rawBlockSocket: zeromq.Socket | undefined;
@@ -184,6 +580,37 @@ class BitcoindWatcher extends EventEmitter {
 
   private mempoolWeight: number | undefined;
 
+  // Next-block fee rate in sat/vB
+  private feeRate: number | undefined;
+
+  // maps `${id}:${direction}` -> watch
+  private feeRateWatches: Map<string, FeeRateWatch> = new Map();
+
+  // Undefined until the first block is analyzed
+  private chainCountdowns: ChainCountdown[] | undefined;
+
+  private difficultyPeriodStart: { height: number, time: number } | undefined;
+
+  // The heights of the last difficulty adjustment and halving that were reported, or of the last
+  // analyzed block, undefined until the first block is analyzed by a new server
+  private reportedDifficultyAdjustmentHeight: number | undefined;
+
+  private reportedHalvingHeight: number | undefined;
+
+  // `${name}:${targetHeight}:${label}` of the milestones that were already reported
+  private reportedChainMilestones: Set<string> = new Set();
+
+  // maps `${id}:${threshold}` -> watch
+  private whaleWatches: Map<string, WhaleWatch> = new Map();
+
+  // maps mempool-txid -> amount-sats of the transactions that may exceed whale thresholds
+  private whalesToCheck: Map<string, number> = new Map();
+
+  private nodeHealthWatches: Map<string, NodeHealthWatch> = new Map();
+
+  // Local time of the last new best block, to tell a stale tip
+  private lastNewBlockTime = Date.now();
+
   constructor() {
     super();
     this.on(BitcoindWatcherEventName.Trigger, () => this.runSafe());
@@ -194,7 +621,11 @@ class BitcoindWatcher extends EventEmitter {
     eventName: string,
     value?: (
       NewTransactionAnalysisEvent | TransactionAnalysis | NewBlockAnalyzedEvent
-      | NewAddressPaymentEvent | NewMempoolClearStatusEvent | string
+      | NewAddressPaymentEvent | NewMempoolClearStatusEvent | FeeRateThresholdEvent
+      | OutpointSpentEvent | ChainReorganizationEvent | TransactionConfirmationsEvent
+      | TransactionReplacedEvent | TransactionCpfpEvent | TransactionEvictedEvent
+      | WhaleTransactionEvent
+      | ChainCountdownEvent | DifficultyAdjustmentEvent | HalvingEvent | NodeHealthEvent | string
     ),
   ) {
     // non-blocking
@@ -258,6 +689,7 @@ class BitcoindWatcher extends EventEmitter {
         const unwatchTxid = this.transactionsToUnwatch.shift() as string;
         const unwatchAnalysis = this.transactionAnalyses.get(unwatchTxid);
         this.transactionAnalyses.delete(unwatchTxid);
+        this.mempoolEntryTimes.delete(unwatchTxid);
         for (const inputKey of unwatchAnalysis?.transactionInputKeys ?? []) {
           const inputKeyTxids = this.transactionsByInput.get(inputKey);
           inputKeyTxids?.delete(unwatchTxid);
@@ -318,6 +750,14 @@ class BitcoindWatcher extends EventEmitter {
             this.handleNewTransactionPayload(transactionPayload);
           }
         }
+      } else if (this.replacementsToClassify.length > 0) {
+        logger.info('run: replacements to classify');
+        const [txid, replacingTxid] = this.replacementsToClassify.shift() as [string, string];
+        await this.classifyReplacement(txid, replacingTxid);
+      } else if (this.cpfpsToCheck.length > 0) {
+        logger.info('run: cpfps to check');
+        const [txid, childTxid] = this.cpfpsToCheck.shift() as [string, string];
+        await this.checkCpfp(txid, childTxid);
       } else if (this.checkNewBlock) {
         logger.info('run: check new block');
         this.checkNewBlock = false;
@@ -329,6 +769,7 @@ class BitcoindWatcher extends EventEmitter {
           const alreadyAnalyzed = this.analyzedBlockHashes.includes(bestBlockHash);
           logger.info(`run: best-block ${bestBlockHash} already analyzed: ${alreadyAnalyzed}`);
           if (!alreadyAnalyzed) {
+            this.lastNewBlockTime = Date.now();
             this.checkMempoolSize = true;
             const analysisComplete = await this.analyzeNewBlocks(bestBlockHash);
             if (!analysisComplete) {
@@ -339,6 +780,18 @@ class BitcoindWatcher extends EventEmitter {
           this.checkNewBlock = true;
           throw error;
         }
+      } else if (this.mempoolRemovalsToCheck.size > 0) {
+        // Checked after the new blocks, so mined transactions are no longer in the mempool status
+        logger.info('run: mempool removals to check');
+        const [txid] = this.mempoolRemovalsToCheck;
+        this.mempoolRemovalsToCheck.delete(txid);
+        await this.checkMempoolRemoval(txid);
+      } else if (this.mempoolSpendsToResolve.size > 0) {
+        logger.info('run: mempool spends to resolve');
+        await this.resolveMempoolSpends();
+      } else if (this.whalesToCheck.size > 0) {
+        logger.info('run: whales to check');
+        await this.checkWhales();
       } else if (Array.isArray(this.initialMempoolCheckState)) {
         logger.info('run: initial mempool transactions to check for conflicts');
         const recheckTxids = this.initialMempoolCheckState.slice(0, rawTransactionsBatchSize);
@@ -346,15 +799,20 @@ class BitcoindWatcher extends EventEmitter {
         const recheckTransactions = await getRawTransactionsBatch(recheckTxids);
         this.initialMempoolCheckState = leftTxids;
         for (const recheckTransaction of recheckTransactions) {
-          this.checkTransactionConflicts(
+          const txInKeys = recheckTransaction.vin
+            .filter((txIn) => txIn.txid)
+            .map((txIn) => txInStandardKey(txIn as TxInStandard));
+          this.checkTransactionConflicts(recheckTransaction.txid, txInKeys);
+          this.checkOutpointSpends(
             recheckTransaction.txid,
-            recheckTransaction.vin
-              .filter((txIn) => txIn.txid)
-              .map((txIn) => txInStandardKey(txIn as TxInStandard)),
+            txInKeys,
+            recheckTransaction.confirmations ?? 0,
+            () => blockTransactionOutputs(recheckTransaction),
           );
           if (!recheckTransaction.confirmations) {
             // report incomes for this mempool transactions
             this.reportIncomes(recheckTransaction, 0);
+            this.addMempoolSpendToResolve(recheckTransaction.txid, txInKeys);
           }
         }
         if (this.initialMempoolCheckState.length === 0) {
@@ -401,6 +859,9 @@ class BitcoindWatcher extends EventEmitter {
           this.checkRawMempool = true;
           throw error;
         }
+      } else if (this.checkFeeRate) {
+        this.checkFeeRate = false;
+        await this.runCheckFeeRate();
       } else {
         this.shouldRerun = false;
       }
@@ -420,6 +881,8 @@ class BitcoindWatcher extends EventEmitter {
   private async runCheckMempoolSize(): Promise<void> {
     try {
       this.mempoolSizeRecheckInterval?.refresh();
+      // Checked after the mempool, since the fee rate depends on whether it is clear
+      this.checkFeeRate = this.feeRateWatches.size > 0;
       logger.info('runCheckMempoolSize: getting mempool info');
       const mempoolInfo = await getMempoolInfo();
       if (!mempoolInfo) {
@@ -454,6 +917,121 @@ class BitcoindWatcher extends EventEmitter {
     }
   }
 
+  // When the mempool is clear, the next block has room for every transaction that pays the
+  // minimal fee rate of the mempool. Otherwise we rely on the estimation of bitcoind.
+  private static async getNextBlockFeeRate(isMempoolClear: boolean): Promise<number | undefined> {
+    if (isMempoolClear) {
+      const mempoolInfo = await getMempoolInfo();
+      return mempoolInfo && (mempoolInfo.mempoolminfee * btcPerKvbToSatsPerVb);
+    }
+    const estimation = await estimateSmartFee(1);
+    if (estimation.feerate === undefined) {
+      logger.info(`getNextBlockFeeRate: no estimation ${JSON.stringify(estimation.errors)}`);
+      return undefined;
+    }
+    return estimation.feerate * btcPerKvbToSatsPerVb;
+  }
+
+  private async runCheckFeeRate(): Promise<void> {
+    if (this.feeRateWatches.size === 0) {
+      logger.info('runCheckFeeRate: no fee-rate watches');
+      return;
+    }
+    const feeRate = await BitcoindWatcher.getNextBlockFeeRate(this.isMempoolClear() ?? false);
+    logger.info(`runCheckFeeRate: next-block fee rate ${feeRate}`);
+    if (feeRate === undefined) {
+      return;
+    }
+    this.feeRate = Math.round(feeRate * 10) / 10;
+    for (const feeRateWatch of this.feeRateWatches.values()) {
+      if (feeRateWatch.isArmed === undefined) {
+        feeRateWatch.isArmed = !isFeeRateBeyondThreshold(feeRateWatch, this.feeRate);
+      } else if (feeRateWatch.isArmed) {
+        if (isFeeRateBeyondThreshold(feeRateWatch, this.feeRate)) {
+          feeRateWatch.isArmed = false;
+          this.safeAsyncEmit(BitcoindWatcherEventName.FeeRateThreshold, {
+            id: feeRateWatch.id,
+            direction: feeRateWatch.direction,
+            threshold: feeRateWatch.threshold,
+            feeRate: this.feeRate,
+          });
+        }
+      } else if (isFeeRateBackFromThreshold(feeRateWatch, this.feeRate)) {
+        logger.info(`runCheckFeeRate: re-arming ${JSON.stringify(feeRateWatch)}`);
+        feeRateWatch.isArmed = true;
+      }
+    }
+  }
+
+  private async getNodeHealthStatus(): Promise<NodeHealthStatus | undefined> {
+    try {
+      const blockchainInfo = await getBlockchainInfo();
+      const networkInfo = await getNetworkInfo();
+      if (!blockchainInfo || !networkInfo) {
+        return undefined;
+      }
+      return {
+        peers: networkInfo.connections,
+        blocks: blockchainInfo.blocks,
+        headers: blockchainInfo.headers,
+        initialBlockDownload: blockchainInfo.initialblockdownload,
+        minutesSinceNewBlock: Math.floor((Date.now() - this.lastNewBlockTime) / 60_000),
+        warnings: [networkInfo.warnings ?? []].flat().join(' '),
+        version: networkInfo.subversion,
+      };
+    } catch (error) {
+      logger.error(`getNodeHealthStatus: failed ${errorString(error)}`);
+      return undefined;
+    }
+  }
+
+  // Every watch is notified about its new and resolved problems, the peers threshold is per watch
+  private async runCheckNodeHealth(): Promise<void> {
+    if (this.nodeHealthWatches.size === 0) {
+      return;
+    }
+    const status = await this.getNodeHealthStatus();
+    logger.info(`runCheckNodeHealth: ${JSON.stringify(status)}`);
+    const nodeProblems: NodeHealthProblem[] = [];
+    if (!status) {
+      nodeProblems.push(NodeHealthProblem.Unreachable);
+    } else {
+      if (status.initialBlockDownload || (status.headers - status.blocks > maxHeadersLead)) {
+        nodeProblems.push(NodeHealthProblem.Syncing);
+      }
+      // Blocks of the test chains are too irregular to expect them in time
+      if (
+        (this.chain === Network.mainnet)
+        && (status.minutesSinceNewBlock * 60_000 >= staleTipMs)
+      ) {
+        nodeProblems.push(NodeHealthProblem.StaleTip);
+      }
+      if (status.warnings) {
+        nodeProblems.push(NodeHealthProblem.Warnings);
+      }
+    }
+    for (const nodeHealthWatch of this.nodeHealthWatches.values()) {
+      const problems = new Set(nodeProblems);
+      if (status && (status.peers < nodeHealthWatch.minPeers)) {
+        problems.add(NodeHealthProblem.FewPeers);
+      }
+      const oldProblems = nodeHealthWatch.problems ?? new Set();
+      nodeHealthWatch.problems = problems;
+      const newProblems = [...problems].filter((problem) => !oldProblems.has(problem));
+      const resolvedProblems = [...oldProblems].filter((problem) => !problems.has(problem));
+      if ((newProblems.length === 0) && (resolvedProblems.length === 0)) {
+        continue;
+      }
+      this.safeAsyncEmit(BitcoindWatcherEventName.NodeHealth, {
+        id: nodeHealthWatch.id,
+        problems: [...problems],
+        newProblems,
+        resolvedProblems,
+        ...status && { status },
+      });
+    }
+  }
+
   private async analyzeTransaction(
     txid: string,
     findConflicts: boolean,
@@ -552,6 +1130,12 @@ class BitcoindWatcher extends EventEmitter {
       },
     };
     this.setTransactionAnalysis(txid, combinedAnalysis);
+    for (const conflictingTxid of combinedAnalysis.conflictingTransactions ?? []) {
+      if (!oldAnalysis.conflictingTransactions?.has(conflictingTxid)) {
+        this.replacementsToClassify.push([txid, conflictingTxid]);
+        this.delayedTriggerTimeout?.refresh();
+      }
+    }
     if (combinedAnalysis.status === TransactionStatus.FullConfirmation) {
       logger.info(`handleNewTransactionAnalysis: ${txid} is fully confirmed`);
       this.unwatchTransaction(txid);
@@ -603,7 +1187,10 @@ class BitcoindWatcher extends EventEmitter {
     const txid = transaction.getId();
     const analysis = this.transactionAnalyses.get(txid);
     if (
-      (analysis && !analysis.transactionInputKeys)
+      // Evicted transactions keep their inputs, and are reanalyzed when rebroadcast
+      (analysis && (
+        !analysis.transactionInputKeys || (analysis.status === TransactionStatus.Unpublished)
+      ))
       || transaction.outs.some((transactionOutput) => {
         const address = this.fromOutputScript(transactionOutput.script);
         return address && this.watchedAddresses.has(address);
@@ -617,6 +1204,320 @@ class BitcoindWatcher extends EventEmitter {
       vout: transactionInput.index,
     }));
     this.checkTransactionConflicts(txid, txInKeys);
+    this.checkOutpointSpends(
+      txid,
+      txInKeys,
+      0,
+      () => transaction.outs.map((transactionOutput) => ({
+        address: this.fromOutputScript(transactionOutput.script),
+        valueSats: transactionOutput.value,
+      })),
+    );
+    if (!transaction.isCoinbase()) {
+      this.addMempoolSpendToResolve(txid, txInKeys);
+      this.addCpfpsToCheck(txid, txInKeys);
+      this.addWhaleToCheck(
+        txid,
+        transaction.outs.reduce((soFar, transactionOutput) => soFar + transactionOutput.value, 0),
+      );
+    }
+  }
+
+  // The fee is unknown until the prevouts are resolved, so when there are fee watches, every
+  // transaction is checked.
+  private addWhaleToCheck(txid: string, amountSats: number) {
+    const mayExceedThreshold = [...this.whaleWatches.values()].some((whaleWatch) => (
+      (whaleWatch.threshold !== WhaleThreshold.Amount) || (amountSats > whaleWatch.value)
+    ));
+    if (!mayExceedThreshold) {
+      return;
+    }
+    if (this.whalesToCheck.size >= maxWhalesToCheck) {
+      logger.warn(`addWhaleToCheck: too many whales to check, dropping ${txid}`);
+      return;
+    }
+    this.whalesToCheck.set(txid, amountSats);
+    this.delayedTriggerTimeout?.refresh();
+  }
+
+  private async checkWhales() {
+    const whales = [...this.whalesToCheck].slice(0, rawTransactionsBatchSize);
+    for (const [txid] of whales) {
+      this.whalesToCheck.delete(txid);
+    }
+    const mempoolEntries = await getMempoolEntriesBatch(whales.map(([txid]) => txid));
+    for (const [index, [txid, amountSats]] of whales.entries()) {
+      const mempoolEntry = mempoolEntries[index];
+      if (!mempoolEntry) {
+        // Already mined, or the transaction of a block that arrived over zmq
+        continue;
+      }
+      const feeSats = Math.round(mempoolEntry.fees.base * satsPerBitcoin);
+      const feeRate = roundFeeRate(feeSats / mempoolEntry.vsize);
+      const exceededThresholdsById: Map<string, WhaleThreshold[]> = new Map();
+      for (const whaleWatch of this.whaleWatches.values()) {
+        const amount = {
+          [WhaleThreshold.Amount]: amountSats,
+          [WhaleThreshold.Fee]: feeSats,
+          [WhaleThreshold.FeeRate]: feeRate,
+        }[whaleWatch.threshold];
+        if (amount > whaleWatch.value) {
+          exceededThresholdsById.set(whaleWatch.id, [
+            ...exceededThresholdsById.get(whaleWatch.id) ?? [],
+            whaleWatch.threshold,
+          ]);
+        }
+      }
+      for (const [id, exceededThresholds] of exceededThresholdsById) {
+        logger.info(`checkWhales: ${txid} exceeds ${exceededThresholds.join(', ')} of ${id}`);
+        this.safeAsyncEmit(BitcoindWatcherEventName.WhaleTransaction, {
+          id,
+          txid,
+          amountSats,
+          feeSats,
+          feeRate,
+          exceededThresholds,
+        });
+      }
+    }
+  }
+
+  private addCpfpsToCheck(childTxid: string, txInKeys: string[]) {
+    for (const txInKey of txInKeys) {
+      const [txid] = txInKey.split(':');
+      const checkedKey = `${txid}:${childTxid}`;
+      if (
+        (this.transactionAnalyses.get(txid)?.status !== TransactionStatus.Mempool)
+        || this.checkedCpfps.has(checkedKey)
+      ) {
+        continue;
+      }
+      if (this.checkedCpfps.size >= maxReportedCpfps) {
+        this.checkedCpfps.clear();
+      }
+      this.checkedCpfps.add(checkedKey);
+      this.cpfpsToCheck.push([txid, childTxid]);
+      this.delayedTriggerTimeout?.refresh();
+    }
+  }
+
+  // The child bumps the parent when miners get a higher fee rate by mining both of them, than
+  // the fee rate of the parent on its own.
+  private async checkCpfp(txid: string, childTxid: string) {
+    const parentEntry = await getMempoolEntry(txid);
+    const childEntry = parentEntry && await getMempoolEntry(childTxid);
+    if (!parentEntry || !childEntry) {
+      logger.info(`checkCpfp: ${txid} or ${childTxid} is no longer in the mempool`);
+      return;
+    }
+    const feeRate = roundFeeRate((parentEntry.fees.base * satsPerBitcoin) / parentEntry.vsize);
+    const effectiveFeeRate = roundFeeRate(
+      (childEntry.fees.ancestor * satsPerBitcoin) / childEntry.ancestorsize,
+    );
+    logger.info(
+      `checkCpfp: ${txid} fee rate ${feeRate} child ${childTxid} effective ${effectiveFeeRate}`,
+    );
+    if (effectiveFeeRate <= feeRate) {
+      return;
+    }
+    this.safeAsyncEmit(BitcoindWatcherEventName.TransactionCpfp, {
+      txid,
+      childTxid,
+      feeRate,
+      effectiveFeeRate,
+    });
+  }
+
+  private addMempoolRemovalToCheck(txid: string) {
+    if (this.transactionAnalyses.get(txid)?.status !== TransactionStatus.Mempool) {
+      return;
+    }
+    this.mempoolRemovalsToCheck.add(txid);
+    this.delayedTriggerTimeout?.refresh();
+  }
+
+  // A transaction that left the mempool while its inputs are still unspent was neither mined nor
+  // replaced, so it was evicted. Otherwise, the block analysis and the conflicts report it.
+  private async checkMempoolRemoval(txid: string) {
+    const analysis = this.transactionAnalyses.get(txid);
+    if (analysis?.status !== TransactionStatus.Mempool) {
+      return;
+    }
+    const mempoolEntry = await getMempoolEntry(txid);
+    if (mempoolEntry) {
+      this.mempoolEntryTimes.set(txid, mempoolEntry.time);
+      return;
+    }
+    const { rawTransaction } = analysis;
+    if (!rawTransaction) {
+      logger.info(`checkMempoolRemoval: ${txid} left the mempool, but its inputs are unknown`);
+      return;
+    }
+    let inputsSats = 0;
+    for (const txIn of rawTransaction.vin) {
+      // eslint-disable-next-line no-await-in-loop
+      const txOut = txIn.txid && await getTxOut(txIn.txid, txIn.vout);
+      if (!txOut) {
+        logger.info(`checkMempoolRemoval: ${txid} left the mempool, and its inputs are spent`);
+        return;
+      }
+      inputsSats += Math.round(txOut.value * satsPerBitcoin);
+    }
+    const outputsSats = rawTransaction.vout.reduce(
+      (soFar, txOut) => soFar + Math.round(txOut.value * satsPerBitcoin),
+      0,
+    );
+    const feeRate = roundFeeRate((inputsSats - outputsSats) / rawTransaction.vsize);
+    const mempoolInfo = await getMempoolInfo();
+    const minFeeRate = mempoolInfo && roundFeeRate(
+      mempoolInfo.mempoolminfee * btcPerKvbToSatsPerVb,
+    );
+    const entryTime = this.mempoolEntryTimes.get(txid);
+    let reason = EvictionReason.Unknown;
+    if ((entryTime !== undefined) && (Date.now() - entryTime * 1000 >= mempoolExpiryMs)) {
+      reason = EvictionReason.Expiry;
+    } else if ((minFeeRate !== undefined) && (feeRate < minFeeRate)) {
+      reason = EvictionReason.MinFee;
+    }
+    logger.info(`checkMempoolRemoval: ${txid} was evicted from the mempool: ${reason}`);
+    this.mempoolEntryTimes.delete(txid);
+    this.handleNewTransactionAnalysis(txid, analysis, {
+      ...analysis,
+      status: TransactionStatus.Unpublished,
+      confirmations: 0,
+    });
+    this.safeAsyncEmit(BitcoindWatcherEventName.TransactionEvicted, {
+      txid,
+      reason,
+      feeRate,
+      ...(minFeeRate !== undefined) && { minFeeRate },
+    });
+  }
+
+  private async classifyReplacement(txid: string, replacingTxid: string) {
+    try {
+      // The replaced transaction is usually evicted from the mempool, so its last analysis is
+      // the only place left to find it.
+      const originalTransaction = this.transactionAnalyses.get(txid)?.rawTransaction
+        ?? await getRawTransaction(txid);
+      const [replacingTransaction] = await getRawTransactionsBatch([replacingTxid]);
+      if (!originalTransaction || !replacingTransaction) {
+        throw new Error('Transaction not found');
+      }
+      const parentTxids = new Set(
+        [...originalTransaction.vin, ...replacingTransaction.vin]
+          .filter((txIn) => txIn.txid)
+          .map((txIn) => txIn.txid as string),
+      );
+      const parentByTxid = new Map(
+        (await getRawTransactionsBatch([...parentTxids])).map(
+          (rawTransaction) => [rawTransaction.txid, rawTransaction],
+        ),
+      );
+      const replacementType = isFeeBump(originalTransaction, replacingTransaction)
+        ? ReplacementType.FeeBump
+        : ReplacementType.DoubleSpend;
+      logger.info(`classifyReplacement: ${txid} replaced by ${replacingTxid}: ${replacementType}`);
+      this.safeAsyncEmit(BitcoindWatcherEventName.TransactionReplaced, {
+        txid,
+        replacingTxid,
+        replacementType,
+        oldFeeRate: transactionFeeRate(originalTransaction, parentByTxid),
+        newFeeRate: transactionFeeRate(replacingTransaction, parentByTxid),
+      });
+    } catch (error) {
+      logger.error(
+        `classifyReplacement: failed ${txid} replaced by ${replacingTxid}: ${errorString(error)}`,
+      );
+      this.safeAsyncEmit(BitcoindWatcherEventName.TransactionReplaced, {
+        txid,
+        replacingTxid,
+        replacementType: ReplacementType.Unknown,
+      });
+    }
+  }
+
+  private addMempoolSpendToResolve(txid: string, txInKeys: string[]) {
+    if (this.watchedAddresses.size === 0) {
+      return;
+    }
+    if (this.mempoolSpendsToResolve.size >= maxMempoolSpendsToResolve) {
+      logger.warn(`addMempoolSpendToResolve: too many spends to resolve, dropping ${txid}`);
+      return;
+    }
+    this.mempoolSpendsToResolve.set(txid, txInKeys);
+    this.delayedTriggerTimeout?.refresh();
+  }
+
+  // The prevouts of the inputs are not part of the raw transactions that arrive from zmq, so they
+  // are fetched in batches along with the spending transactions, to skip the confirmed ones.
+  private async resolveMempoolSpends() {
+    const spends: [string, string[]][] = [];
+    const txids = new Set<string>();
+    for (const [txid, txInKeys] of this.mempoolSpendsToResolve) {
+      if ((spends.length > 0) && (txids.size + txInKeys.length + 1 > rawTransactionsBatchSize)) {
+        break;
+      }
+      spends.push([txid, txInKeys]);
+      txids.add(txid);
+      for (const txInKey of txInKeys) {
+        txids.add(txInKey.split(':')[0]);
+      }
+    }
+    for (const [txid] of spends) {
+      this.mempoolSpendsToResolve.delete(txid);
+    }
+    logger.info(`resolveMempoolSpends: ${spends.length} spends, ${txids.size} transactions`);
+    const rawTransactionByTxid = new Map(
+      (await getRawTransactionsBatch([...txids])).map(
+        (rawTransaction) => [rawTransaction.txid, rawTransaction],
+      ),
+    );
+    for (const [txid, txInKeys] of spends) {
+      if (rawTransactionByTxid.get(txid)?.confirmations) {
+        // Reported by the analysis of the block
+        continue;
+      }
+      const spendingByAddresses: Map<string, number> = new Map();
+      for (const txInKey of txInKeys) {
+        const [prevoutTxid, prevoutVout] = txInKey.split(':');
+        const prevout = rawTransactionByTxid.get(prevoutTxid)?.vout[Number(prevoutVout)];
+        if (!prevout) {
+          continue;
+        }
+        for (const spendingAddress of getOutAddresses(prevout.scriptPubKey)) {
+          if (this.watchedAddresses.has(spendingAddress)) {
+            spendingByAddresses.set(
+              spendingAddress,
+              (spendingByAddresses.get(spendingAddress) ?? 0)
+              + Math.round(prevout.value * satsPerBitcoin),
+            );
+          }
+        }
+      }
+      for (const [address, outcomeSats] of spendingByAddresses) {
+        const reportedKey = `${address}:${txid}`;
+        if (this.reportedMempoolSpends.has(reportedKey)) {
+          continue;
+        }
+        if (this.reportedMempoolSpends.size >= maxReportedMempoolSpends) {
+          this.reportedMempoolSpends.clear();
+        }
+        this.reportedMempoolSpends.add(reportedKey);
+        logger.info(`resolveMempoolSpends: ${address} is spent by ${txid}`);
+        this.safeAsyncEmit(
+          BitcoindWatcherEventName.NewAddressPayment,
+          {
+            address,
+            txid,
+            status: TransactionStatus.Mempool,
+            confirmations: 0,
+            multiAddress: false, // relevant only for incoming transactions
+            outcomeSats,
+          },
+        );
+      }
+    }
   }
 
   private checkTransactionConflicts(txid: string, txInKeys: string[]) {
@@ -652,6 +1553,37 @@ class BitcoindWatcher extends EventEmitter {
     }
   }
 
+  private checkOutpointSpends(
+    txid: string,
+    txInKeys: string[],
+    confirmations: number,
+    getOutputs: () => TransactionOutputSummary[],
+  ) {
+    for (const txInKey of txInKeys) {
+      const reportedTxids = this.watchedOutpoints.get(txInKey);
+      if (!reportedTxids) {
+        continue;
+      }
+      if (confirmations === 0) {
+        if (reportedTxids.has(txid)) {
+          continue;
+        }
+        reportedTxids.add(txid);
+      } else {
+        // An outpoint can only be spent once in the blockchain, so there is nothing left to watch
+        this.watchedOutpoints.delete(txInKey);
+      }
+      logger.info(`checkOutpointSpends: ${txInKey} spent by ${txid} (${confirmations})`);
+      this.safeAsyncEmit(BitcoindWatcherEventName.OutpointSpent, {
+        outpoint: txInKey,
+        txid,
+        status: confirmationsToTransactionStatus(confirmations),
+        confirmations,
+        outputs: getOutputs(),
+      });
+    }
+  }
+
   private reportIncomes(transaction: BlockTransaction, confirmations: number) {
     const matchingAddresses: Set<string> = new Set();
     for (const txOut of transaction.vout) {
@@ -772,6 +1704,10 @@ class BitcoindWatcher extends EventEmitter {
     if (hasWatchedAddresses) {
       this.analyzeBlockSpendingAddressesTask(transactions, false);
     }
+    for (const [transaction] of transactions) {
+      // zmq publishes the transactions of new blocks too, their spends are analyzed above
+      this.mempoolSpendsToResolve.delete(transaction.txid);
+    }
     logger.info(`analyzeNewBlocks: updating transaction analyses with ${
       transactions.length
     } new transactions`);
@@ -805,11 +1741,15 @@ class BitcoindWatcher extends EventEmitter {
     }
     logger.info('analyzeNewBlocks: checking transaction conflicts');
     for (const [transaction, block] of transactions) {
-      this.checkTransactionConflicts(
+      const txInKeys = transaction.vin
+        .filter((txIn) => txIn.txid)
+        .map((txIn) => txInStandardKey(txIn as TxInStandard));
+      this.checkTransactionConflicts(transaction.txid, txInKeys);
+      this.checkOutpointSpends(
         transaction.txid,
-        transaction.vin
-          .filter((txIn) => txIn.txid)
-          .map((txIn) => txInStandardKey(txIn as TxInStandard)),
+        txInKeys,
+        block.confirmations,
+        () => blockTransactionOutputs(transaction),
       );
       this.reportIncomes(transaction, block.confirmations);
     }
@@ -819,6 +1759,14 @@ class BitcoindWatcher extends EventEmitter {
     // lastAttachedBlockIndex is -1 if all existing block-hashes are detached
     const detachedBlockHashes = this.analyzedBlockHashes.slice(lastAttachedBlockIndex + 1);
     logger.info(`analyzeNewBlocks: detachedBlockHashes: ${detachedBlockHashes.join(', ')}`);
+    if (detachedBlockHashes.length > 0) {
+      // The old tip might also be detached only because some blocks were skipped
+      await this.detectChainReorganization(
+        detachedBlockHashes[detachedBlockHashes.length - 1],
+        newBlocks,
+        transactions,
+      );
+    }
     const attachedBlockHashes: string[] = [
       ...this.analyzedBlockHashes.slice(0, lastAttachedBlockIndex + 1),
       ...newBlocks.map((block) => block.hash),
@@ -828,8 +1776,15 @@ class BitcoindWatcher extends EventEmitter {
     this.safeAsyncEmit(BitcoindWatcherEventName.NewBlockAnalyzed, {
       blockHashes: this.analyzedBlockHashes,
       bestBlockHeight: newBlocks.slice(-1)[0]!.height,
+      medianTime: newBlocks.slice(-1)[0]!.mediantime,
       newBlocks: newBlocks.length,
+      blocks: newBlocks.map((block) => newBlockSummary(block, this.chain)),
     });
+    try {
+      await this.updateChainCountdowns(newBlocks[newBlocks.length - 1]);
+    } catch (error) {
+      logger.error(`analyzeNewBlocks: failed to update chain countdowns ${errorString(error)}`);
+    }
     const confirmedBlockHashes = attachedBlockHashes.slice(0, -maxAnalyzedBlocks).reverse();
     logger.info(`analyzeNewBlocks: confirmedBlockHashes: ${confirmedBlockHashes.join(', ')}`);
 
@@ -874,10 +1829,232 @@ class BitcoindWatcher extends EventEmitter {
         this.shouldRerun = true;
       }
     }
+    await this.checkConfirmationTargets();
     logger.info('analyzeNewBlocks: analysis complete');
     return true; // analysis complete
   }
 
+  // Confirmation targets might be far beyond maxAnalyzedBlocks, so the confirmations are fetched
+  // again on every new block instead of being derived from the analyzed blocks.
+  private async checkConfirmationTargets() {
+    if (this.confirmationTargets.size === 0) {
+      return;
+    }
+    const rawTransactions = await getRawTransactionsBatch([...this.confirmationTargets.keys()]);
+    for (const rawTransaction of rawTransactions) {
+      const confirmationTargetWatch = this.confirmationTargets.get(rawTransaction.txid);
+      const confirmations = rawTransaction.confirmations ?? 0;
+      if (
+        !confirmationTargetWatch || (confirmations === 0)
+        || (confirmations === confirmationTargetWatch.confirmations)
+      ) {
+        continue;
+      }
+      logger.info(`checkConfirmationTargets: ${rawTransaction.txid} has ${
+        confirmations
+      } confirmations, target ${confirmationTargetWatch.target}`);
+      confirmationTargetWatch.confirmations = confirmations;
+      if (confirmations >= confirmationTargetWatch.target) {
+        this.confirmationTargets.delete(rawTransaction.txid);
+      }
+      this.safeAsyncEmit(BitcoindWatcherEventName.TransactionConfirmations, {
+        txid: rawTransaction.txid,
+        confirmations,
+      });
+    }
+  }
+
+  private async updateChainCountdowns(tip: BlockVerbosity2) {
+    const periodStartHeight = tip.height - (tip.height % difficultyAdjustmentInterval);
+    if (this.difficultyPeriodStart?.height !== periodStartHeight) {
+      const periodStartHash = await getBlockHash(periodStartHeight);
+      const periodStartBlock = periodStartHash && await getBlock(periodStartHash);
+      if (!periodStartBlock) {
+        throw new Error(`Failed to get block at height ${periodStartHeight}`);
+      }
+      this.difficultyPeriodStart = { height: periodStartHeight, time: periodStartBlock.time };
+    }
+    const periodBlocks = tip.height - periodStartHeight;
+    const averageIntervalSeconds = (periodBlocks > 0)
+      ? Math.max(1, (tip.time - this.difficultyPeriodStart.time) / periodBlocks)
+      : targetBlockIntervalSeconds;
+    const projectedDifficultyChange = Math.min(
+      maxDifficultyIncrease,
+      Math.max(
+        maxDifficultyDecrease,
+        ((targetBlockIntervalSeconds / averageIntervalSeconds) - 1) * 100,
+      ),
+    );
+    const toChainCountdown = (name: ChainCountdownName, interval: number): ChainCountdown => {
+      const targetHeight = tip.height - (tip.height % interval) + interval;
+      const blocksLeft = targetHeight - tip.height;
+      const timeLeftMs = Math.round(blocksLeft * averageIntervalSeconds * 1000);
+      return {
+        name,
+        targetHeight,
+        blocksLeft,
+        timeLeftMs,
+        estimatedTime: (tip.time * 1000) + timeLeftMs,
+        ...(name === ChainCountdownName.DifficultyAdjustment) && {
+          projectedDifficultyChange: Math.round(projectedDifficultyChange * 100) / 100,
+        },
+      };
+    };
+    const chainCountdowns = [
+      toChainCountdown(ChainCountdownName.DifficultyAdjustment, difficultyAdjustmentInterval),
+      toChainCountdown(ChainCountdownName.Halving, halvingInterval(this.chain)),
+    ];
+    for (const chainCountdown of chainCountdowns) {
+      const oldChainCountdown = this.chainCountdowns?.find(
+        ({ name, targetHeight }) => (
+          (name === chainCountdown.name) && (targetHeight === chainCountdown.targetHeight)
+        ),
+      );
+      // Milestones are reached once their threshold is crossed, or already crossed after a restart.
+      // Only the last of the milestones reached at once is reported.
+      const reachedMilestones = chainCountdownMilestones.filter((milestone) => {
+        const [oldValue, newValue, threshold] = (milestone.blocksLeft !== undefined)
+          ? [oldChainCountdown?.blocksLeft, chainCountdown.blocksLeft, milestone.blocksLeft]
+          : [oldChainCountdown?.timeLeftMs, chainCountdown.timeLeftMs, milestone.timeLeftMs ?? 0];
+        return ((oldValue === undefined) || (oldValue > threshold)) && (newValue <= threshold)
+          && !this.reportedChainMilestones.has(
+            chainMilestoneKey(chainCountdown, milestone),
+          );
+      });
+      for (const milestone of reachedMilestones) {
+        this.reportedChainMilestones.add(chainMilestoneKey(chainCountdown, milestone));
+      }
+      const lastMilestone = reachedMilestones[reachedMilestones.length - 1];
+      if (lastMilestone) {
+        logger.info(`updateChainCountdowns: ${chainMilestoneKey(chainCountdown, lastMilestone)}`
+          + ' reached');
+        this.safeAsyncEmit(BitcoindWatcherEventName.ChainCountdown, {
+          ...chainCountdown,
+          milestone: lastMilestone.label,
+          reportedMilestones: [...this.reportedChainMilestones],
+        });
+      }
+    }
+    // The events of the adjustment and the halving are emitted once the tip passes them, also if
+    // the server was down at the time
+    if (
+      (this.reportedDifficultyAdjustmentHeight !== undefined)
+      && (periodStartHeight > 0)
+      && (this.reportedDifficultyAdjustmentHeight < periodStartHeight)
+    ) {
+      const previousHash = await getBlockHash(periodStartHeight - 1);
+      const previousHeader = previousHash && await getBlockHeader(previousHash);
+      if (!previousHeader) {
+        throw new Error(`Failed to get block header at height ${periodStartHeight - 1}`);
+      }
+      this.safeAsyncEmit(BitcoindWatcherEventName.DifficultyAdjustment, {
+        height: periodStartHeight,
+        oldDifficulty: previousHeader.difficulty,
+        newDifficulty: tip.difficulty,
+        difficultyChange: Math.round(
+          ((tip.difficulty / previousHeader.difficulty) - 1) * 10_000,
+        ) / 100,
+      });
+    }
+    this.reportedDifficultyAdjustmentHeight = periodStartHeight;
+    const interval = halvingInterval(this.chain);
+    const halvingHeight = tip.height - (tip.height % interval);
+    if (
+      (this.reportedHalvingHeight !== undefined)
+      && (halvingHeight > 0)
+      && (this.reportedHalvingHeight < halvingHeight)
+    ) {
+      this.safeAsyncEmit(BitcoindWatcherEventName.Halving, {
+        height: halvingHeight,
+        subsidySats: blockSubsidySats(halvingHeight, this.chain),
+      });
+    }
+    this.reportedHalvingHeight = halvingHeight;
+    this.chainCountdowns = chainCountdowns;
+    for (const reportedKey of this.reportedChainMilestones) {
+      if (Number(reportedKey.split(':')[1]) <= tip.height) {
+        this.reportedChainMilestones.delete(reportedKey);
+      }
+    }
+  }
+
+  private async detectChainReorganization(
+    oldTipHash: string,
+    newBlocks: BlockVerbosity2[],
+    connectedTransactions: [BlockTransaction, BlockVerbosity2][],
+  ) {
+    logger.info(`detectChainReorganization: old tip ${oldTipHash}`);
+    const disconnectedHeaders: BlockHeader[] = [];
+    let header = await getBlockHeader(oldTipHash);
+    while (
+      header && (header.confirmations === -1)
+      && (disconnectedHeaders.length < maxReorganizationDepth)
+    ) {
+      disconnectedHeaders.push(header);
+      header = header.previousblockhash
+        // eslint-disable-next-line no-await-in-loop
+        ? await getBlockHeader(header.previousblockhash)
+        : undefined;
+    }
+    if (disconnectedHeaders.length === 0) {
+      logger.info('detectChainReorganization: the old tip is still on the main chain');
+      return;
+    }
+    if (!header || (header.confirmations === -1)) {
+      logger.error(
+        `detectChainReorganization: fork not found within ${maxReorganizationDepth} blocks`,
+      );
+      return;
+    }
+    const newTip = newBlocks[newBlocks.length - 1];
+    if (!newTip) {
+      return;
+    }
+    const disconnectedBlockHashes = disconnectedHeaders.map(({ hash }) => hash);
+    logger.info(`detectChainReorganization: fork at ${header.hash}, disconnected ${
+      disconnectedBlockHashes.join(', ')
+    }`);
+    const connectedTxids = new Set(connectedTransactions.map(([transaction]) => transaction.txid));
+    const unconfirmedTransactions = [...this.transactionAnalyses].filter(
+      ([txid, analysis]) => !connectedTxids.has(txid) && disconnectedBlockHashes.some(
+        (blockHash) => analysis.blockHashes.has(blockHash),
+      ),
+    ).map(([txid]) => txid);
+    const unconfirmedAddressPayments: ReorganizedAddressPayment[] = [];
+    if (this.watchedAddresses.size > 0) {
+      // Bitcoind keeps the disconnected blocks, so their transactions can still be fetched
+      const disconnectedTransactions = await getBlockTransactions(disconnectedBlockHashes, true);
+      for (const [transaction] of disconnectedTransactions) {
+        if (connectedTxids.has(transaction.txid)) {
+          continue;
+        }
+        const addresses = new Set([
+          ...transaction.vout.flatMap((txOut) => getOutAddresses(txOut.scriptPubKey)),
+          ...transaction.vin.flatMap(
+            (txIn) => (txIn.prevout ? getOutAddresses(txIn.prevout.scriptPubKey) : []),
+          ),
+        ]);
+        for (const address of addresses) {
+          if (this.watchedAddresses.has(address)) {
+            unconfirmedAddressPayments.push({ address, txid: transaction.txid });
+          }
+        }
+      }
+    }
+    this.safeAsyncEmit(BitcoindWatcherEventName.ChainReorganization, {
+      forkBlockHash: header.hash,
+      forkBlockHeight: header.height,
+      oldTipHash,
+      oldTipHeight: disconnectedHeaders[0].height,
+      newTipHash: newTip.hash,
+      newTipHeight: newTip.height,
+      disconnectedBlockHashes,
+      connectedBlocks: newTip.height - header.height,
+      unconfirmedTransactions,
+      unconfirmedAddressPayments,
+    });
+  }
+
   private analyzeBlockSpendingAddressesTask(
     transactions: [RawTransaction, BlockVerbosity2][],
     fullConfirmation: boolean,
@@ -946,6 +2123,12 @@ class BitcoindWatcher extends EventEmitter {
     try {
       logger.info('mempoolSizeRecheck: started');
       this.checkMempoolSize = true;
+      // Polled as well, since the removals arrive only on the sequence socket
+      for (const [txid, analysis] of this.transactionAnalyses) {
+        if (analysis.status === TransactionStatus.Mempool) {
+          this.mempoolRemovalsToCheck.add(txid);
+        }
+      }
       this.delayedTriggerTimeout?.refresh();
       logger.info('mempoolSizeRecheck: finished');
     } catch (error) {
@@ -953,10 +2136,35 @@ class BitcoindWatcher extends EventEmitter {
     }
   }
 
+  private async nodeHealthRecheck(): Promise<void> {
+    if (this.isCheckingNodeHealth) {
+      this.shouldRecheckNodeHealth = true;
+      return;
+    }
+    this.isCheckingNodeHealth = true;
+    this.shouldRecheckNodeHealth = false;
+    try {
+      logger.info('nodeHealthRecheck: started');
+      await this.runCheckNodeHealth();
+      logger.info('nodeHealthRecheck: finished');
+    } catch (error) {
+      logger.error(`nodeHealthRecheck: failed to run ${errorString(error)}`);
+    }
+    this.isCheckingNodeHealth = false;
+    if (this.shouldRecheckNodeHealth) {
+      this.nodeHealthRecheck();
+    }
+  }
+
   async start(
     analyzedBlockHashes: string[],
     watchedTransactions: [string, TransactionAnalysis][],
     watchedAddresses: string[],
+    watchedOutpoints: string[],
+    confirmationTargets: [string, number][],
+    reportedChainMilestones: string[],
+    reportedDifficultyAdjustmentHeight: number | undefined,
+    reportedHalvingHeight: number | undefined,
   ) {
     let blockchainInfo: ChainInfo | undefined;
     for (let attempt = 0; attempt < startAttempts; attempt += 1) {
@@ -1002,12 +2210,21 @@ class BitcoindWatcher extends EventEmitter {
     }
 
     this.analyzedBlockHashes = analyzedBlockHashes;
+    this.reportedChainMilestones = new Set(reportedChainMilestones);
+    this.reportedDifficultyAdjustmentHeight = reportedDifficultyAdjustmentHeight;
+    this.reportedHalvingHeight = reportedHalvingHeight;
     for (const [txid, analysis] of watchedTransactions) {
       this.setTransactionAnalysis(txid, analysis);
     }
     for (const watchedAddress of watchedAddresses) {
       this.watchedAddresses.set(watchedAddress, new Set());
     }
+    for (const watchedOutpoint of watchedOutpoints) {
+      this.watchedOutpoints.set(watchedOutpoint, new Set());
+    }
+    for (const [txid, target] of confirmationTargets) {
+      this.watchConfirmations(txid, target);
+    }
 
     if (notificationAddresses.rawblock) {
       logger.info('BitcoindWatcher: subscribing to rawblock zmq notifications');
@@ -1022,7 +2239,8 @@ class BitcoindWatcher extends EventEmitter {
         this.newBlockDebounce();
       });
       monitorSocket('rawBlockSocket', this.rawBlockSocket);
-    } else if (notificationAddresses.sequence) {
+    }
+    if (notificationAddresses.sequence) {
       logger.info('BitcoindWatcher: subscribing to sequence zmq notifications');
       this.sequenceNotificationSocket = zeromq.socket('sub');
       this.sequenceNotificationSocket.connect(notificationAddresses.sequence);
@@ -1033,13 +2251,17 @@ class BitcoindWatcher extends EventEmitter {
           return;
         }
         const messageType = String.fromCharCode(message[32] ?? 0);
-        if (messageType === 'C') {
+        if ((messageType === 'C') && !this.rawBlockSocket) {
           logger.info('BitcoindWatcher: New block from zmq-sequence message');
           this.newBlockDebounce();
+        } else if (messageType === 'R') {
+          // Removals for any reason other than a new block: eviction, expiry or replacement
+          this.addMempoolRemovalToCheck(message.subarray(0, 32).toString('hex'));
         }
       });
       monitorSocket('sequenceNotificationSocket', this.sequenceNotificationSocket);
-    } else {
+    }
+    if (!notificationAddresses.rawblock && !notificationAddresses.sequence) {
       logger.info('BitcoindWatcher: starting best block recheck interval');
       const bestBlockRecheckInterval = setInterval(
         () => this.bestBlockRecheck(),
@@ -1052,6 +2274,11 @@ class BitcoindWatcher extends EventEmitter {
       mempoolSizeRecheckIntervalMs,
     );
     this.mempoolSizeRecheckInterval.unref();
+    this.nodeHealthRecheckInterval = setInterval(
+      () => this.nodeHealthRecheck(),
+      nodeHealthRecheckIntervalMs,
+    );
+    this.nodeHealthRecheckInterval.unref();
 
     logger.info('BitcoindWatcher: subscribing to rawtx zmq notifications');
     this.rawTransactionSocket = zeromq.socket('sub');
@@ -1105,6 +2332,29 @@ class BitcoindWatcher extends EventEmitter {
     this.overloadedAddresses.delete(watchedAddress);
   }
 
+  watchOutpoint(outpoint: string) {
+    if (!this.watchedOutpoints.has(outpoint)) {
+      this.watchedOutpoints.set(outpoint, new Set());
+    }
+  }
+
+  unwatchOutpoint(outpoint: string) {
+    this.watchedOutpoints.delete(outpoint);
+  }
+
+  watchConfirmations(txid: string, target: number) {
+    const confirmationTargetWatch = this.confirmationTargets.get(txid);
+    if (confirmationTargetWatch) {
+      confirmationTargetWatch.target = Math.max(confirmationTargetWatch.target, target);
+      return;
+    }
+    this.confirmationTargets.set(txid, { target, confirmations: 0 });
+  }
+
+  unwatchConfirmations(txid: string) {
+    this.confirmationTargets.delete(txid);
+  }
+
   getChain(): Network {
     if (!this.chain) {
       throw new Error('BitcoindWatcher: Not started');
@@ -1119,19 +2369,29 @@ class BitcoindWatcher extends EventEmitter {
       newTransactionsToWatch: this.newTransactionsToWatch.length,
       transactionsToUnwatch: this.transactionsToUnwatch.length,
       transactionsToReanalyze: this.transactionsToReanalyze.length,
+      replacementsToClassify: this.replacementsToClassify.length,
+      cpfpsToCheck: this.cpfpsToCheck.length,
+      mempoolRemovalsToCheck: this.mempoolRemovalsToCheck.size,
       transactionPayloadsQueue: this.transactionPayloadsQueue?.length ?? 0,
+      mempoolSpendsToResolve: this.mempoolSpendsToResolve.size,
+      whalesToCheck: this.whalesToCheck.size,
       initialMempoolCheckState: Array.isArray(this.initialMempoolCheckState)
         ? this.initialMempoolCheckState.length : this.initialMempoolCheckState,
       checkNewBlock: this.checkNewBlock,
       checkRawMempool: this.checkRawMempool,
       checkMempoolSize: this.checkMempoolSize,
+      checkFeeRate: this.checkFeeRate,
     })}`);
     return (
       this.newTransactionsToWatch.length + this.transactionsToUnwatch.length
       + this.transactionsToReanalyze.length + (this.transactionPayloadsQueue?.length ?? 0)
+      + this.replacementsToClassify.length + this.cpfpsToCheck.length
+      + this.mempoolRemovalsToCheck.size
+      + this.mempoolSpendsToResolve.size + this.whalesToCheck.size
       + (Array.isArray(this.initialMempoolCheckState) ? this.initialMempoolCheckState.length : 0)
       + ((this.initialMempoolCheckState === true) ? 1 : 0) + (this.checkNewBlock ? 1 : 0)
       + (this.checkRawMempool ? 1 : 0) + (this.checkMempoolSize ? 1 : 0)
+      + (this.checkFeeRate ? 1 : 0)
     );
   }
 
@@ -1146,6 +2406,75 @@ class BitcoindWatcher extends EventEmitter {
     return this.mempoolWeight < maxBlockWeight;
   }
 
+  // Returns the last known next-block fee rate, if any
+  watchFeeRate(id: string, direction: FeeRateDirection, threshold: number): number | undefined {
+    if ((threshold <= 0) || !Number.isFinite(threshold)) {
+      throw new Error('Invalid threshold');
+    }
+    const feeRateWatch: FeeRateWatch = {
+      id,
+      direction,
+      threshold,
+      ...(this.feeRate !== undefined) && {
+        isArmed: !isFeeRateBeyondThreshold({ id, direction, threshold }, this.feeRate),
+      },
+    };
+    logger.info(`watchFeeRate: adding new watch ${JSON.stringify(feeRateWatch)}`);
+    this.feeRateWatches.set(`${id}:${direction}`, feeRateWatch);
+    if (this.feeRate === undefined) {
+      this.checkFeeRate = true;
+      this.delayedTriggerTimeout?.refresh();
+    }
+    return this.feeRate;
+  }
+
+  unwatchFeeRate(id: string, direction?: FeeRateDirection) {
+    for (const unwatchDirection of direction ? [direction] : Object.values(FeeRateDirection)) {
+      this.feeRateWatches.delete(`${id}:${unwatchDirection}`);
+    }
+  }
+
+  watchWhales(id: string, threshold: WhaleThreshold, value: number) {
+    if ((value <= 0) || !Number.isFinite(value)) {
+      throw new Error('Invalid threshold');
+    }
+    const whaleWatch: WhaleWatch = { id, threshold, value };
+    logger.info(`watchWhales: adding new watch ${JSON.stringify(whaleWatch)}`);
+    this.whaleWatches.set(`${id}:${threshold}`, whaleWatch);
+  }
+
+  unwatchWhales(id: string, threshold?: WhaleThreshold) {
+    for (const unwatchThreshold of threshold ? [threshold] : Object.values(WhaleThreshold)) {
+      this.whaleWatches.delete(`${id}:${unwatchThreshold}`);
+    }
+    if (this.whaleWatches.size === 0) {
+      this.whalesToCheck.clear();
+    }
+  }
+
+  watchNodeHealth(id: string, minPeers: number) {
+    if (!Number.isSafeInteger(minPeers) || (minPeers <= 0)) {
+      throw new Error('Invalid minimal peers');
+    }
+    const nodeHealthWatch: NodeHealthWatch = {
+      id,
+      minPeers,
+      // Problems that were reported before a threshold change are not reported again
+      problems: this.nodeHealthWatches.get(id)?.problems,
+    };
+    logger.info(`watchNodeHealth: adding new watch ${id} with ${minPeers} minimal peers`);
+    this.nodeHealthWatches.set(id, nodeHealthWatch);
+    this.nodeHealthRecheck();
+  }
+
+  unwatchNodeHealth(id: string) {
+    this.nodeHealthWatches.delete(id);
+  }
+
+  getChainCountdowns(): ChainCountdown[] | undefined {
+    return this.chainCountdowns;
+  }
+
   async getInfo(): Promise<BitcoindInfo> {
     const chain = this.getChain();
     const networkInfo = await getNetworkInfo();
@@ -0,0 +1,124 @@
+import { AppName } from '@woofbot/common';
+
+import {
+  Notification, NotificationEntityType, NotificationLink, NotificationSeverity,
+} from './notifier';
+
+export interface EmailMessage {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface EmailTemplateParams {
+  title: string;
+  body: string;
+  details?: string;
+  links?: NotificationLink[];
+  // Rows of a small "key: value" table below the body
+  facts?: [string, string][];
+  severity?: NotificationSeverity;
+}
+
+const severityColors: Record<NotificationSeverity, string> = {
+  [NotificationSeverity.Info]: '#1976d2',
+  [NotificationSeverity.Success]: '#2e7d32',
+  [NotificationSeverity.Warning]: '#ed6c02',
+  [NotificationSeverity.Critical]: '#d32f2f',
+};
+
+const entityTypeLabels: Record<NotificationEntityType, string> = {
+  [NotificationEntityType.Address]: 'Address',
+  [NotificationEntityType.Transaction]: 'Transaction',
+  [NotificationEntityType.Block]: 'Block',
+  [NotificationEntityType.Wallet]: 'Wallet',
+  [NotificationEntityType.Outpoint]: 'Output',
+  [NotificationEntityType.LightningChannel]: 'Lightning channel',
+  [NotificationEntityType.LightningInvoice]: 'Lightning invoice',
+};
+
+export function escapeHtml(text: string): string {
+  return text.replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll('\'', '&#39;');
+}
+
+function renderText({
+  body, details, links = [], facts = [],
+}: EmailTemplateParams): string {
+  return [
+    body,
+    ...(details !== undefined) ? ['', details] : [],
+    ...(facts.length > 0) ? ['', ...facts.map(([key, value]) => `${key}: ${value}`)] : [],
+    ...(links.length > 0) ? ['', ...links.map(({ label, url }) => `${label}: ${url}`)] : [],
+    '',
+    '--',
+    `Sent by ${AppName}`,
+  ].join('\n');
+}
+
+function renderHtml({
+  title, body, details, links = [], facts = [], severity = NotificationSeverity.Info,
+}: EmailTemplateParams): string {
+  const sections = body.split(/\n+/).filter(Boolean).map(
+    (paragraph) => `<p style="margin:0 0 12px">${escapeHtml(paragraph)}</p>`,
+  );
+  if (details !== undefined) {
+    sections.push(
+      '<pre style="background:#f5f5f5;padding:12px;white-space:pre-wrap;word-break:break-all">'
+      + `${escapeHtml(details)}</pre>`,
+    );
+  }
+  if (facts.length > 0) {
+    const rows = facts.map(([key, value]) => (
+      `<tr><td style="padding:2px 12px 2px 0;color:#757575">${escapeHtml(key)}</td>`
+      + '<td style="padding:2px 0;font-family:monospace;word-break:break-all">'
+      + `${escapeHtml(value)}</td></tr>`
+    ));
+    sections.push(`<table style="border-collapse:collapse;margin:0 0 12px">${rows.join('')}</table>`);
+  }
+  if (links.length > 0) {
+    const anchors = links.map(
+      ({ label, url }) => `<a href="${escapeHtml(url)}" style="color:#1976d2">${
+        escapeHtml(label)
+      }</a>`,
+    );
+    sections.push(`<p style="margin:0 0 12px">${anchors.join(' | ')}</p>`);
+  }
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f5f5f5;font-family:Arial,sans-serif;color:#212121">
+<div style="max-width:600px;margin:0 auto;background:#ffffff;padding:24px;\
+border-top:4px solid ${severityColors[severity]}">
+<h2 style="margin:0 0 16px;font-size:20px">${escapeHtml(title)}</h2>
+${sections.join('\n')}
+<p style="margin:24px 0 0;font-size:12px;color:#757575">Sent by ${escapeHtml(AppName)}</p>
+</div>
+</body>
+</html>
+`;
+}
+
+export function renderEmail(params: EmailTemplateParams): EmailMessage {
+  return {
+    subject: `${AppName}: ${params.title}`,
+    text: renderText(params),
+    html: renderHtml(params),
+  };
+}
+
+export function notificationToEmail(notification: Notification): EmailMessage {
+  return renderEmail({
+    title: notification.title,
+    body: notification.body,
+    details: notification.details,
+    links: notification.links,
+    facts: notification.entities.map(({ type, id, nickname }) => [
+      entityTypeLabels[type],
+      nickname ? `${nickname} (${id})` : id,
+    ]),
+    severity: notification.severity,
+  });
+}
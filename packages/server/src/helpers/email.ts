@@ -0,0 +1,144 @@
+import { AppName } from '@woofbot/common';
+import { createHmac, randomBytes } from 'crypto';
+import nodemailer, { Transporter } from 'nodemailer';
+
+import { OutboxMessageDocument, OutboxTransport } from '../models/notification-outbox';
+import { SmtpSettings } from '../models/settings';
+import { UserDocument } from '../models/users';
+import { EmailMessage, notificationToEmail, renderEmail } from './email-templates';
+import { errorString } from './error';
+import logger from './logger';
+import { notificationOutbox } from './notification-outbox';
+import { Notifier } from './notifier';
+
+const smtpTimeoutMs = 30_000;
+// A user can ask for a verification code once in this period, so the bot cannot be used to flood
+// other addresses with emails
+export const emailVerificationIntervalMs = 5 * 60_000;
+export const emailVerificationTtlMs = 3_600_000;
+export const maxEmailVerificationAttempts = 5;
+
+const emailVerificationSeed = process.env.APP_SEED
+  ? createHmac('sha256', process.env.APP_SEED).update('email-verification-seed').digest()
+  : randomBytes(32);
+
+// Derived rather than stored, so a code is valid only for the user and address it was sent for.
+export function emailVerificationCode(userId: string, emailAddress: string): string {
+  const digest = createHmac('sha256', emailVerificationSeed).update(
+    `${userId}:${emailAddress.toLowerCase()}`,
+  ).digest();
+  return `${digest.readUInt32BE() % 1_000_000}`.padStart(6, '0');
+}
+
+export class EmailManager {
+  private transporter: Transporter | undefined;
+
+  private fromAddress = '';
+
+  constructor() {
+    notificationOutbox.registerSender(OutboxTransport.Email, {
+      isReady: () => Boolean(this.transporter),
+      send: (message) => this.deliver(message),
+      isRetriableError: (error) => EmailManager.isRetriableError(error),
+    });
+  }
+
+  get isConfigured(): boolean {
+    return Boolean(this.transporter);
+  }
+
+  configure(smtp: SmtpSettings | undefined) {
+    this.transporter?.close();
+    this.transporter = undefined;
+    if (!smtp) {
+      logger.info('EmailManager: SMTP is not configured');
+      return;
+    }
+    this.transporter = nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      ...smtp.username && {
+        auth: {
+          user: smtp.username,
+          pass: smtp.password,
+        },
+      },
+      connectionTimeout: smtpTimeoutMs,
+      greetingTimeout: smtpTimeoutMs,
+      socketTimeout: smtpTimeoutMs,
+    });
+    this.fromAddress = smtp.fromAddress;
+    logger.info(`EmailManager: SMTP is configured with ${smtp.host}:${smtp.port}`);
+  }
+
+  static async sendMessage(emailAddress: string, message: EmailMessage) {
+    try {
+      await notificationOutbox.enqueue({
+        transport: OutboxTransport.Email,
+        destination: emailAddress,
+        payload: JSON.stringify(message),
+      });
+    } catch (error) {
+      logger.error(
+        `EmailManager: Failed to enqueue message to ${emailAddress}: ${errorString(error)}`,
+      );
+    }
+  }
+
+  static async sendVerificationCode(user: UserDocument, emailAddress: string) {
+    const code = emailVerificationCode(user.id, emailAddress);
+    await EmailManager.sendMessage(emailAddress, renderEmail({
+      title: `Verification code ${code}`,
+      body: [
+        `Woof! Telegram user @${user.telegramUsername} asked to receive ${AppName}`,
+        'notifications at this email address.',
+        `To confirm, send the bot the command "/email verify ${code}".`,
+        '\nIf it wasn\'t you, you can ignore this email.',
+      ].join(' '),
+    }));
+  }
+
+  static async test(emailAddress: string) {
+    await EmailManager.sendMessage(emailAddress, renderEmail({
+      title: 'Test email',
+      body: `Woof! This is a test email from ${AppName}.`,
+    }));
+  }
+
+  private async deliver(message: OutboxMessageDocument) {
+    if (!this.transporter) {
+      throw new Error('SMTP is not configured');
+    }
+    const { subject, text, html } = JSON.parse(message.payload) as EmailMessage;
+    await this.transporter.sendMail({
+      from: this.fromAddress,
+      to: message.destination,
+      subject,
+      text,
+      html,
+    });
+  }
+
+  private static isRetriableError(error: unknown): boolean {
+    const { responseCode } = (error ?? {}) as { responseCode?: unknown };
+    if (typeof responseCode === 'number') {
+      // SMTP 4xx replies are transient, 5xx replies are permanent (i.e. unknown mailbox)
+      return responseCode < 500;
+    }
+    // Networking errors, timeouts and authentication errors that the admin might fix
+    return true;
+  }
+}
+
+export const emailManager = new EmailManager();
+
+export const emailNotifier: Notifier = {
+  name: 'email',
+  notify: async (user, notification) => {
+    if (!user.emailAddress) {
+      return;
+    }
+    await EmailManager.sendMessage(user.emailAddress, notificationToEmail(notification));
+  },
+};
@@ -0,0 +1,91 @@
+import {
+  BotCommandName, telegramCommands, WatchName, watches,
+} from '@woofbot/common';
+
+import { englishMessages } from '../locales/en';
+import { germanMessages } from '../locales/de';
+import { spanishMessages } from '../locales/es';
+
+export enum Language {
+  English = 'en',
+  German = 'de',
+  Spanish = 'es',
+}
+
+export const languages = Object.values(Language);
+
+export type MessageKey = keyof typeof englishMessages
+  | `watchDescription.${WatchName}`
+  | `watchParametersRequest.${WatchName}`
+  | `unwatchParametersRequest.${WatchName}`
+  | `commandDescription.${BotCommandName}`
+  | `commandParametersRequest.${BotCommandName}`;
+
+// A translation file, the missing messages fall back to English
+export type MessageCatalog = Partial<Record<MessageKey, string>>;
+
+export type MessageParams = Record<string, string | number>;
+
+// The English texts of the watches and the commands are defined next to them in
+// @woofbot/common, because the dashboard displays them too
+const commonEnglishMessages: MessageCatalog = Object.fromEntries([
+  ...watches.flatMap(({
+    name, description, watchParametersRequestMessage, unwatchParametersRequestMessage,
+  }) => [
+    [`watchDescription.${name}`, description],
+    ...watchParametersRequestMessage ? [
+      [`watchParametersRequest.${name}`, watchParametersRequestMessage],
+    ] : [],
+    ...unwatchParametersRequestMessage ? [
+      [`unwatchParametersRequest.${name}`, unwatchParametersRequestMessage],
+    ] : [],
+  ]),
+  ...telegramCommands.flatMap(({ name, description, parametersRequestMessage }) => [
+    [`commandDescription.${name}`, description],
+    ...parametersRequestMessage ? [
+      [`commandParametersRequest.${name}`, parametersRequestMessage],
+    ] : [],
+  ]),
+]);
+
+const catalogs: Record<Language, MessageCatalog> = {
+  [Language.English]: { ...englishMessages, ...commonEnglishMessages },
+  [Language.German]: germanMessages,
+  [Language.Spanish]: spanishMessages,
+};
+
+// The languages of a user, the one it has chosen and the one of its telegram app
+export interface LanguageOptions {
+  language?: Language;
+  telegramLanguage?: Language;
+}
+
+// The language of the messages that are sent to a user outside of a conversation, i.e.
+// notifications
+export function recipientLanguage({ language, telegramLanguage }: LanguageOptions): Language {
+  return language ?? telegramLanguage ?? Language.English;
+}
+
+// Telegram clients report IETF language tags like "en" or "pt-br"
+export function parseLanguage(languageCode: string | undefined): Language | undefined {
+  const primaryLanguage = languageCode?.split('-')[0].toLowerCase();
+  return languages.find((language) => language === primaryLanguage);
+}
+
+// Returns plain text, callers should escape it according to their format
+export function translate(
+  language: Language,
+  key: MessageKey,
+  params: MessageParams = {},
+): string {
+  const template = catalogs[language][key] ?? catalogs[Language.English][key] ?? key;
+  return template.replaceAll(
+    /\{(\w+)\}/g,
+    (placeholder, name) => ((name in params) ? `${params[name]}` : placeholder),
+  );
+}
+
+// All the translations of a message, i.e. to recognize replies to it in every language
+export function allTranslations(key: MessageKey): string[] {
+  return [...new Set(languages.map((language) => translate(language, key)))];
+}
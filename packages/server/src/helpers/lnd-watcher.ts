@@ -12,9 +12,11 @@ import { errorString } from './error';
 export enum LndWatcherEventName {
   CheckChannels = 'checkChannels', // internal
   CheckForwards = 'checkForwards', // internal
+  CheckLiquidity = 'checkLiquidity', // internal
   ChannelsStatus = 'channelStatus',
   NewForwards = 'newForward',
   InvoiceUpdated = 'invoiceUpdated',
+  LiquidityThreshold = 'liquidityThreshold',
 }
 
 export interface LndChannelsStatusEvent {
@@ -44,12 +46,73 @@ export interface LndNewForwardsEvent {
 
 export type LndInvoiceUpdatedEvent = SubscribeToInvoicesInvoiceUpdatedEvent;
 
+export enum LiquidityDirection {
+  Below = 'below',
+  Above = 'above',
+}
+
+// Percents of the channel capacity that are on the local (outbound) side
+export interface LiquidityThresholds {
+  below?: number;
+  above?: number;
+}
+
+export interface ChannelLiquidityThresholds extends LiquidityThresholds {
+  channelId: string;
+}
+
+export interface LndLiquidityThresholdEvent {
+  id: string;
+  channelId: string;
+  partnerName?: string;
+  direction: LiquidityDirection;
+  threshold: number;
+  localRatio: number; // percent
+  localBalanceSats: number;
+  capacitySats: number;
+}
+
+interface LiquidityWatch {
+  id: string;
+  thresholds: LiquidityThresholds;
+  // The thresholds of a channel override the global ones, direction by direction
+  channelThresholds: Map<string, LiquidityThresholds>;
+  // maps `${channelId}:${direction}` -> whether crossing the threshold should emit an event,
+  // missing until the first liquidity check
+  armedThresholds: Map<string, boolean>;
+}
+
 const delayedCheckTimeoutMs = 1_000;
 const recheckGraceMs = 15_000;
 const getForwardsLimit = 50;
 const getNodeNameRetryMs = 3_000;
 const getNodeNameRetries = 3;
 const checkChannelsIntervalMs = 3_600_000;
+// Outgoing payments are not subscribed to, so the balances are polled as well
+const checkLiquidityIntervalMs = 300_000;
+// After a threshold is crossed, the local ratio has to get back past it by this margin (in
+// percents) before the threshold is armed again, so a channel that hovers around it does not flap.
+const liquidityHysteresis = 5;
+
+function isLiquidityBeyondThreshold(
+  direction: LiquidityDirection,
+  threshold: number,
+  localRatio: number,
+): boolean {
+  return (direction === LiquidityDirection.Below)
+    ? (localRatio < threshold)
+    : (localRatio > threshold);
+}
+
+function isLiquidityBackFromThreshold(
+  direction: LiquidityDirection,
+  threshold: number,
+  localRatio: number,
+): boolean {
+  return (direction === LiquidityDirection.Below)
+    ? (localRatio >= threshold + liquidityHysteresis)
+    : (localRatio <= threshold - liquidityHysteresis);
+}
 
 async function getNodeName(lnd: AuthenticatedLnd, publicKey: string): Promise<string> {
   try {
@@ -110,10 +173,19 @@ class LndWatcher extends EventEmitter {
 
   private invoicesSubscriber: EventEmitter | undefined;
 
+  private delayedCheckLiquidityTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  private isCheckingLiquidity: boolean = false;
+
+  private shouldRecheckLiquidity: boolean = false;
+
+  private liquidityWatches: Map<string, LiquidityWatch> = new Map();
+
   constructor() {
     super();
     this.on(LndWatcherEventName.CheckChannels, () => this.checkChannelsSafe());
     this.on(LndWatcherEventName.CheckForwards, () => this.checkForwardsSafe());
+    this.on(LndWatcherEventName.CheckLiquidity, () => this.checkLiquiditySafe());
   }
 
   async start({
@@ -172,11 +244,15 @@ class LndWatcher extends EventEmitter {
     const delayedCheckChannels = () => {
       this.delayedCheckChannelsTimeout?.refresh();
     };
+    const delayedCheckLiquidity = () => {
+      this.delayedCheckLiquidityTimeout?.refresh();
+    };
     // See: https://github.com/alexbosworth/ln-service#subscribetochannels
     for (const eventName of [
       'channel_active_changed', 'channel_closed', 'channel_opened', 'channel_opening',
     ]) {
       this.channelsSubscriber.on(eventName, delayedCheckChannels);
+      this.channelsSubscriber.on(eventName, delayedCheckLiquidity);
     }
     // Will check if partners changed their names:
     const checkChannelsInterval = setInterval(delayedCheckChannels, checkChannelsIntervalMs);
@@ -185,6 +261,12 @@ class LndWatcher extends EventEmitter {
       () => this.emit(LndWatcherEventName.CheckChannels),
       delayedCheckTimeoutMs,
     );
+    const checkLiquidityInterval = setInterval(delayedCheckLiquidity, checkLiquidityIntervalMs);
+    checkLiquidityInterval.unref();
+    this.delayedCheckLiquidityTimeout = setTimeout(
+      () => this.emit(LndWatcherEventName.CheckLiquidity),
+      delayedCheckTimeoutMs,
+    );
     logger.info('LndWatcher: subscribing to forwards');
     this.forwardsSubscriber = subscribeToForwards({ lnd });
     const delayedCheckForwards = () => {
@@ -194,6 +276,7 @@ class LndWatcher extends EventEmitter {
     for (const eventName of ['forward', 'error']) {
       this.forwardsSubscriber.on(eventName, delayedCheckForwards);
     }
+    this.forwardsSubscriber.on('forward', delayedCheckLiquidity);
     this.delayedCheckForwardsTimeout = setTimeout(
       () => this.emit(LndWatcherEventName.CheckForwards),
       delayedCheckTimeoutMs,
@@ -208,6 +291,8 @@ class LndWatcher extends EventEmitter {
         }`);
       }
     });
+    // Paid invoices add to the local balance
+    this.invoicesSubscriber.on('invoice_updated', delayedCheckLiquidity);
   }
 
   private checkChannelsSafe() {
@@ -359,10 +444,122 @@ class LndWatcher extends EventEmitter {
     }
   }
 
+  private checkLiquiditySafe() {
+    if (this.isCheckingLiquidity) {
+      this.shouldRecheckLiquidity = true;
+      return;
+    }
+    this.shouldRecheckLiquidity = false;
+    this.isCheckingLiquidity = true;
+    this.checkLiquidity();
+  }
+
+  private async checkLiquidity() {
+    try {
+      logger.info(`checkLiquidity: started with ${this.liquidityWatches.size} watches`);
+      const { lnd } = this;
+      if (!lnd) {
+        throw new Error('checkLiquidity: lnd is not defined');
+      }
+      if (this.liquidityWatches.size > 0) {
+        const { channels } = await getChannels({ lnd });
+        for (const channel of channels) {
+          if (channel.capacity > 0) {
+            this.checkChannelLiquidity(channel.id, channel.local_balance, channel.capacity);
+          }
+        }
+      }
+    } catch (error) {
+      logger.error(`checkLiquidity: failed: ${errorString(error)}`);
+      this.shouldRecheckLiquidity = true;
+      await new Promise((resolve) => {
+        setTimeout(resolve, recheckGraceMs);
+      });
+    }
+    this.isCheckingLiquidity = false;
+    if (this.shouldRecheckLiquidity) {
+      this.emit(LndWatcherEventName.CheckLiquidity);
+    }
+  }
+
+  private checkChannelLiquidity(channelId: string, localBalanceSats: number, capacitySats: number) {
+    const localRatio = Math.round((localBalanceSats / capacitySats) * 1000) / 10;
+    for (const liquidityWatch of this.liquidityWatches.values()) {
+      const channelThresholds = liquidityWatch.channelThresholds.get(channelId);
+      for (const direction of Object.values(LiquidityDirection)) {
+        const threshold = channelThresholds?.[direction] ?? liquidityWatch.thresholds[direction];
+        if (threshold === undefined) {
+          continue;
+        }
+        const armedKey = `${channelId}:${direction}`;
+        const isArmed = liquidityWatch.armedThresholds.get(armedKey);
+        if (isArmed === undefined) {
+          liquidityWatch.armedThresholds.set(
+            armedKey,
+            !isLiquidityBeyondThreshold(direction, threshold, localRatio),
+          );
+        } else if (isArmed) {
+          if (isLiquidityBeyondThreshold(direction, threshold, localRatio)) {
+            liquidityWatch.armedThresholds.set(armedKey, false);
+            const event: LndLiquidityThresholdEvent = {
+              id: liquidityWatch.id,
+              channelId,
+              partnerName: this.savedChannels?.get(channelId)?.partnerName,
+              direction,
+              threshold,
+              localRatio,
+              localBalanceSats,
+              capacitySats,
+            };
+            this.emit(LndWatcherEventName.LiquidityThreshold, event);
+          }
+        } else if (isLiquidityBackFromThreshold(direction, threshold, localRatio)) {
+          logger.info(`checkChannelLiquidity: re-arming ${liquidityWatch.id} ${armedKey}`);
+          liquidityWatch.armedThresholds.set(armedKey, true);
+        }
+      }
+    }
+  }
+
   isRunning() {
     return Boolean(this.lnd);
   }
 
+  getChannel(channelId: string): LndChannelInformation | undefined {
+    return this.savedChannels?.get(channelId);
+  }
+
+  // Replaces the thresholds of the watch, the watch is removed when none are left
+  watchLiquidity(
+    id: string,
+    thresholds: LiquidityThresholds,
+    channelThresholds: ChannelLiquidityThresholds[],
+  ) {
+    const hasThresholds = [thresholds, ...channelThresholds].some(
+      ({ below, above }) => (below !== undefined) || (above !== undefined),
+    );
+    if (!hasThresholds) {
+      this.unwatchLiquidity(id);
+      return;
+    }
+    logger.info(`watchLiquidity: adding new watch ${id} ${JSON.stringify(thresholds)} ${
+      JSON.stringify(channelThresholds)
+    }`);
+    this.liquidityWatches.set(id, {
+      id,
+      thresholds,
+      channelThresholds: new Map(channelThresholds.map(
+        ({ channelId, below, above }) => [channelId, { below, above }],
+      )),
+      armedThresholds: new Map(),
+    });
+    this.delayedCheckLiquidityTimeout?.refresh();
+  }
+
+  unwatchLiquidity(id: string) {
+    this.liquidityWatches.delete(id);
+  }
+
   async lndVersion(): Promise<string | undefined> {
     if (!this.lnd) {
       return undefined;
@@ -0,0 +1,258 @@
+import { AppName, AppVersion } from '@woofbot/common';
+
+import { OutboxMessageDocument, OutboxTransport } from '../models/notification-outbox';
+import { MatrixSettings } from '../models/settings';
+import { escapeHtml } from './email-templates';
+import { errorString } from './error';
+import logger from './logger';
+import { notificationOutbox } from './notification-outbox';
+import { Notification, notificationToText, Notifier } from './notifier';
+
+export const maxMatrixRooms = 10;
+
+const matrixTimeoutMs = 10_000;
+
+// The content of an "m.room.message" event, see the client-server API specification
+interface MatrixMessageContent {
+  msgtype: 'm.notice';
+  body: string;
+  format: 'org.matrix.custom.html';
+  formatted_body: string;
+}
+
+export class MatrixResponseError extends Error {
+  status: number;
+
+  errcode?: string;
+
+  constructor(status: number, errcode?: string, reason?: string) {
+    super(`Matrix homeserver responded with status ${status}${
+      errcode ? ` ${errcode}` : ''
+    }${reason ? `: ${reason}` : ''}`);
+    this.status = status;
+    this.errcode = errcode;
+  }
+}
+
+async function matrixRequest<T>(
+  homeserverUrl: string,
+  accessToken: string,
+  method: 'GET' | 'POST' | 'PUT',
+  path: string,
+  body?: unknown,
+): Promise<T> {
+  const abortController = new AbortController();
+  const abortTimeout = setTimeout(() => abortController.abort(), matrixTimeoutMs);
+  const url = `${homeserverUrl.replace(/\/+$/, '')}/_matrix/client/v3${path}`;
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        'User-Agent': `${AppName}/${AppVersion}`,
+      },
+      ...(body !== undefined) && { body: JSON.stringify(body) },
+      signal: abortController.signal,
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new MatrixResponseError(response.status, result.errcode, result.error);
+    }
+    return result as T;
+  } finally {
+    clearTimeout(abortTimeout);
+  }
+}
+
+// Returns the user id of the access token's account
+export async function matrixWhoAmI(homeserverUrl: string, accessToken: string): Promise<string> {
+  const { user_id: userId } = await matrixRequest<{ user_id: string }>(
+    homeserverUrl,
+    accessToken,
+    'GET',
+    '/account/whoami',
+  );
+  return userId;
+}
+
+// Joins a room by id or alias (or does nothing if already joined) and returns the room id
+export async function matrixJoinRoom(
+  homeserverUrl: string,
+  accessToken: string,
+  room: string,
+): Promise<string> {
+  const { room_id: roomId } = await matrixRequest<{ room_id: string }>(
+    homeserverUrl,
+    accessToken,
+    'POST',
+    `/join/${encodeURIComponent(room)}`,
+    {},
+  );
+  return roomId;
+}
+
+function notificationToMatrixHtml(notification: Notification): string {
+  const sections = [escapeHtml(notification.body).replaceAll('\n', '<br>')];
+  if (notification.details !== undefined) {
+    sections.push(`<pre><code>${escapeHtml(notification.details)}</code></pre>`);
+  }
+  if (notification.links.length > 0) {
+    sections.push(notification.links.map(
+      ({ label, url }) => `<a href="${escapeHtml(url)}">${escapeHtml(label)}</a>`,
+    ).join(' | '));
+  }
+  return sections.join('<br>');
+}
+
+function notificationToMatrixContent(notification: Notification): MatrixMessageContent {
+  return {
+    msgtype: 'm.notice',
+    body: notificationToText(notification),
+    format: 'org.matrix.custom.html',
+    formatted_body: notificationToMatrixHtml(notification),
+  };
+}
+
+export class MatrixManager {
+  private settings: MatrixSettings | undefined;
+
+  constructor() {
+    notificationOutbox.registerSender(OutboxTransport.Matrix, {
+      isReady: () => Boolean(this.settings),
+      send: (message) => this.deliver(message),
+      isRetriableError: (error) => MatrixManager.isRetriableError(error),
+    });
+  }
+
+  get isConfigured(): boolean {
+    return Boolean(this.settings);
+  }
+
+  get rooms(): string[] {
+    return this.settings?.rooms ?? [];
+  }
+
+  configure(settings: MatrixSettings | undefined) {
+    this.settings = settings && {
+      ...settings,
+      rooms: [...settings.rooms],
+      roomEvents: [...settings.roomEvents],
+    };
+    if (!settings) {
+      logger.info('MatrixManager: Matrix is not configured');
+      return;
+    }
+    logger.info(
+      `MatrixManager: Matrix is configured as ${settings.userId} on ${settings.homeserverUrl}`,
+    );
+  }
+
+  // Creates a private room flagged as a direct chat, and invites the user to it
+  async createDirectRoom(matrixUserId: string): Promise<string> {
+    if (!this.settings) {
+      throw new Error('Matrix is not configured');
+    }
+    const { room_id: roomId } = await matrixRequest<{ room_id: string }>(
+      this.settings.homeserverUrl,
+      this.settings.accessToken,
+      'POST',
+      '/createRoom',
+      {
+        preset: 'trusted_private_chat',
+        is_direct: true,
+        invite: [matrixUserId],
+        name: AppName,
+      },
+    );
+    return roomId;
+  }
+
+  // Best effort, the room is useless anyway after its user has left
+  async leaveRoom(roomId: string) {
+    if (!this.settings) {
+      return;
+    }
+    try {
+      await matrixRequest(
+        this.settings.homeserverUrl,
+        this.settings.accessToken,
+        'POST',
+        `/rooms/${encodeURIComponent(roomId)}/leave`,
+        {},
+      );
+    } catch (error) {
+      logger.info(`MatrixManager: Failed to leave room ${roomId}: ${errorString(error)}`);
+    }
+  }
+
+  async broadcast(notification: Notification) {
+    if (!this.settings || !this.settings.roomEvents.includes(notification.event)) {
+      return;
+    }
+    const content = notificationToMatrixContent(notification);
+    for await (const roomId of this.settings.rooms) {
+      await MatrixManager.sendMessage(roomId, content);
+    }
+  }
+
+  static async sendMessage(roomId: string, content: MatrixMessageContent) {
+    try {
+      await notificationOutbox.enqueue({
+        transport: OutboxTransport.Matrix,
+        destination: roomId,
+        payload: JSON.stringify(content),
+      });
+    } catch (error) {
+      logger.error(`MatrixManager: Failed to enqueue message to ${roomId}: ${errorString(error)}`);
+    }
+  }
+
+  static async test(roomId: string) {
+    const text = `Woof! This is a test message from ${AppName}.`;
+    await MatrixManager.sendMessage(roomId, {
+      msgtype: 'm.notice',
+      body: text,
+      format: 'org.matrix.custom.html',
+      formatted_body: escapeHtml(text),
+    });
+  }
+
+  private async deliver(message: OutboxMessageDocument) {
+    if (!this.settings) {
+      throw new Error('Matrix is not configured');
+    }
+    // The outbox message id is the transaction id, so the homeserver ignores repeated attempts
+    // of a message that was already sent.
+    await matrixRequest(
+      this.settings.homeserverUrl,
+      this.settings.accessToken,
+      'PUT',
+      `/rooms/${encodeURIComponent(message.destination)}/send/m.room.message/${message.id}`,
+      JSON.parse(message.payload),
+    );
+  }
+
+  private static isRetriableError(error: unknown): boolean {
+    if (error instanceof MatrixResponseError) {
+      // Too many requests, server errors, and an expired access token that the admin might
+      // replace. The rest (i.e. the bot is not in the room) are final.
+      return (error.status === 401) || (error.status === 429) || (error.status >= 500);
+    }
+    // Networking errors and timeouts
+    return true;
+  }
+}
+
+export const matrixManager = new MatrixManager();
+
+export const matrixNotifier: Notifier = {
+  name: 'matrix',
+  notify: async (user, notification) => {
+    if (!user.matrixRoomId) {
+      return;
+    }
+    await MatrixManager.sendMessage(user.matrixRoomId, notificationToMatrixContent(notification));
+  },
+  broadcast: (notification) => matrixManager.broadcast(notification),
+};
@@ -0,0 +1,169 @@
+import fs from 'fs';
+
+import logger from './logger';
+import { errorString } from './error';
+import { BlockTransaction, getOutAddresses } from './bitcoin-rpc';
+
+// Same format as the pools list of https://github.com/mempool/mining-pools, so the list can be
+// updated by pointing MINING_POOLS_FILEPATH to a newer copy of it.
+export interface MiningPool {
+  name: string;
+  link?: string;
+  tags: string[];
+  addresses: string[];
+}
+
+export interface MiningPoolSummary {
+  name: string;
+  slug: string;
+  link?: string;
+}
+
+// Special new-blocks filters besides the pool slugs
+export enum NewBlocksFilter {
+  Empty = 'empty',
+  Unknown = 'unknown',
+}
+
+const bundledMiningPools: MiningPool[] = [
+  {
+    name: 'Foundry USA',
+    link: 'https://foundrydigital.com',
+    tags: ['/2cDw/', 'Foundry USA Pool'],
+    addresses: [],
+  },
+  {
+    name: 'AntPool',
+    link: 'https://www.antpool.com',
+    tags: ['/AntPool/', 'Mined By AntPool', 'Mined by AntPool'],
+    addresses: ['12dRugNcdxK39288NjcDV4GX7rMsKCGn6B'],
+  },
+  {
+    name: 'F2Pool',
+    link: 'https://www.f2pool.com',
+    tags: ['七彩神仙鱼', '🐟'],
+    addresses: ['1KFHE7w8BhaENAswwryaoccDb6qcT6DbYY'],
+  },
+  {
+    name: 'ViaBTC',
+    link: 'https://viabtc.com',
+    tags: ['/ViaBTC/', 'viabtc.com deploy'],
+    addresses: [],
+  },
+  {
+    name: 'MARA Pool',
+    link: 'https://mara.com',
+    tags: ['MARA Pool', 'MARA Made in USA'],
+    addresses: [],
+  },
+  {
+    name: 'Binance Pool',
+    link: 'https://pool.binance.com',
+    tags: ['/Binance/', 'binance'],
+    addresses: [],
+  },
+  {
+    name: 'SpiderPool',
+    link: 'https://www.spiderpool.com',
+    tags: ['SpiderPool'],
+    addresses: [],
+  },
+  {
+    name: 'Luxor',
+    link: 'https://mining.luxor.tech',
+    tags: ['/LUXOR/', 'Luxor Tech'],
+    addresses: [],
+  },
+  {
+    name: 'Braiins Pool',
+    link: 'https://braiins.com/pool',
+    tags: ['/slush/', '/Braiins Pool/'],
+    addresses: [],
+  },
+  {
+    name: 'Poolin',
+    link: 'https://www.poolin.com',
+    tags: ['/poolin.com', '/poolin/'],
+    addresses: [],
+  },
+  {
+    name: 'BTC.com',
+    link: 'https://pool.btc.com',
+    tags: ['/BTC.COM/', '/BTC.com/', 'btccom'],
+    addresses: [],
+  },
+  {
+    name: 'SBI Crypto',
+    link: 'https://sbicrypto.com',
+    tags: ['/SBICrypto.com Pool/', 'SBI Crypto'],
+    addresses: [],
+  },
+  {
+    name: 'OCEAN',
+    link: 'https://ocean.xyz',
+    tags: ['OCEAN.XYZ'],
+    addresses: [],
+  },
+  {
+    name: 'SecPool',
+    link: 'https://www.secpool.com',
+    tags: ['SecPool'],
+    addresses: [],
+  },
+];
+
+let miningPools = bundledMiningPools;
+
+export function miningPoolSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function isMiningPool(value: unknown): value is MiningPool {
+  const pool = value as MiningPool;
+  return (typeof pool?.name === 'string')
+    && ((pool.link === undefined) || (typeof pool.link === 'string'))
+    && Array.isArray(pool.tags) && pool.tags.every((tag) => typeof tag === 'string')
+    && Array.isArray(pool.addresses)
+    && pool.addresses.every((address) => typeof address === 'string');
+}
+
+// Falls back to the bundled list if the file is missing or invalid
+export function loadMiningPools() {
+  const miningPoolsFilepath = process.env.MINING_POOLS_FILEPATH;
+  if (!miningPoolsFilepath) {
+    return;
+  }
+  try {
+    const json: unknown = JSON.parse(fs.readFileSync(miningPoolsFilepath, 'utf8'));
+    if (!Array.isArray(json) || !json.every(isMiningPool)) {
+      throw new Error('Expected an array of mining pools');
+    }
+    miningPools = json;
+    logger.info(`loadMiningPools: loaded ${json.length} mining pools`);
+  } catch (error) {
+    logger.error(`loadMiningPools: failed to load ${miningPoolsFilepath}: ${errorString(error)}`);
+  }
+}
+
+export function getMiningPoolSlugs(): Set<string> {
+  return new Set(miningPools.map(({ name }) => miningPoolSlug(name)));
+}
+
+// Payout addresses are matched first because coinbase tags are easier to copy
+export function findMiningPool(coinbase: BlockTransaction): MiningPoolSummary | undefined {
+  const payoutAddresses = new Set(
+    coinbase.vout.flatMap((txOut) => getOutAddresses(txOut.scriptPubKey)),
+  );
+  const coinbaseHex = coinbase.vin[0]?.coinbase;
+  const coinbaseText = coinbaseHex ? Buffer.from(coinbaseHex, 'hex').toString('utf8') : '';
+  const pool = miningPools.find(
+    ({ addresses }) => addresses.some((address) => payoutAddresses.has(address)),
+  ) ?? miningPools.find(
+    ({ tags }) => tags.some((tag) => coinbaseText.includes(tag)),
+  );
+  return pool && {
+    name: pool.name,
+    slug: miningPoolSlug(pool.name),
+    link: pool.link,
+  };
+}
@@ -0,0 +1,229 @@
+import { schnorr, secp256k1 } from '@noble/curves/secp256k1';
+import { bech32 } from '@scure/base';
+import {
+  createCipheriv, createHash, createHmac, randomBytes,
+} from 'crypto';
+
+import { NostrEncryption } from '../models/users';
+
+export enum NostrEventKind {
+  EncryptedDirectMessage = 4,
+  Seal = 13,
+  PrivateDirectMessage = 14,
+  GiftWrap = 1059,
+}
+
+export interface NostrUnsignedEvent {
+  pubkey: string;
+  created_at: number;
+  kind: number;
+  tags: string[][];
+  content: string;
+}
+
+export interface NostrEvent extends NostrUnsignedEvent {
+  id: string;
+  sig: string;
+}
+
+// Seals and gift wraps are published with random timestamps up to 2 days in the past, so relays
+// could not correlate them with the time the message was actually sent.
+const maxTimestampTweakSeconds = 2 * 24 * 3600;
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function randomPastTimestamp(): number {
+  return nowSeconds() - (randomBytes(4).readUInt32BE() % maxTimestampTweakSeconds);
+}
+
+export function getNostrPublicKey(privateKey: Uint8Array): string {
+  return Buffer.from(schnorr.getPublicKey(privateKey)).toString('hex');
+}
+
+export function npubEncode(publicKey: string): string {
+  return bech32.encode('npub', bech32.toWords(Buffer.from(publicKey, 'hex')));
+}
+
+// Accepts either an npub or a 64 characters hex public key, returns the hex public key.
+export function parseNostrPublicKey(value: string): string | undefined {
+  let publicKey: string;
+  if (/^[0-9a-f]{64}$/i.test(value)) {
+    publicKey = value.toLowerCase();
+  } else if (/^npub1[02-9ac-hj-np-z]{58}$/i.test(value)) {
+    try {
+      const { prefix, words } = bech32.decode(value.toLowerCase() as `${string}1${string}`);
+      const data = bech32.fromWords(words);
+      if ((prefix !== 'npub') || (data.length !== 32)) {
+        return undefined;
+      }
+      publicKey = Buffer.from(data).toString('hex');
+    } catch (error) {
+      return undefined;
+    }
+  } else {
+    return undefined;
+  }
+  try {
+    // Verifies that the public key is a valid point on the curve
+    schnorr.utils.lift_x(BigInt(`0x${publicKey}`));
+  } catch (error) {
+    return undefined;
+  }
+  return publicKey;
+}
+
+function getEventId(event: NostrUnsignedEvent): string {
+  return createHash('sha256').update(JSON.stringify([
+    0, event.pubkey, event.created_at, event.kind, event.tags, event.content,
+  ])).digest('hex');
+}
+
+function signEvent(
+  event: Omit<NostrUnsignedEvent, 'pubkey'>,
+  privateKey: Uint8Array,
+): NostrEvent {
+  const unsignedEvent: NostrUnsignedEvent = {
+    ...event,
+    pubkey: getNostrPublicKey(privateKey),
+  };
+  const id = getEventId(unsignedEvent);
+  return {
+    ...unsignedEvent,
+    id,
+    sig: Buffer.from(schnorr.sign(id, privateKey)).toString('hex'),
+  };
+}
+
+function getSharedX(privateKey: Uint8Array, publicKey: string): Buffer {
+  return Buffer.from(secp256k1.getSharedSecret(privateKey, `02${publicKey}`).subarray(1, 33));
+}
+
+function nip04Encrypt(privateKey: Uint8Array, publicKey: string, text: string): string {
+  const iv = randomBytes(16);
+  const cipher = createCipheriv('aes-256-cbc', getSharedX(privateKey, publicKey), iv);
+  const ciphertext = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  return `${ciphertext.toString('base64')}?iv=${iv.toString('base64')}`;
+}
+
+function nip44ConversationKey(privateKey: Uint8Array, publicKey: string): Buffer {
+  // HKDF-extract with the salt "nip44-v2"
+  return createHmac('sha256', 'nip44-v2').update(getSharedX(privateKey, publicKey)).digest();
+}
+
+function nip44MessageKeys(conversationKey: Buffer, nonce: Buffer) {
+  // HKDF-expand to 76 bytes
+  const blocks: Buffer[] = [];
+  let previousBlock = Buffer.alloc(0);
+  for (let counter = 1; counter <= 3; counter += 1) {
+    previousBlock = createHmac('sha256', conversationKey).update(
+      Buffer.concat([previousBlock, nonce, Buffer.from([counter])]),
+    ).digest();
+    blocks.push(previousBlock);
+  }
+  const keys = Buffer.concat(blocks);
+  return {
+    chachaKey: keys.subarray(0, 32),
+    chachaNonce: keys.subarray(32, 44),
+    hmacKey: keys.subarray(44, 76),
+  };
+}
+
+function nip44PaddedLength(length: number): number {
+  if (length <= 32) {
+    return 32;
+  }
+  const nextPower = 2 ** Math.ceil(Math.log2(length));
+  const chunk = (nextPower <= 256) ? 32 : (nextPower / 8);
+  return chunk * Math.ceil(length / chunk);
+}
+
+function nip44Pad(text: string): Buffer {
+  const unpadded = Buffer.from(text, 'utf8');
+  if ((unpadded.length === 0) || (unpadded.length > 0xffff)) {
+    throw new Error(`Invalid NIP-44 plaintext length ${unpadded.length}`);
+  }
+  const padded = Buffer.alloc(2 + nip44PaddedLength(unpadded.length));
+  padded.writeUInt16BE(unpadded.length);
+  unpadded.copy(padded, 2);
+  return padded;
+}
+
+function nip44Encrypt(conversationKey: Buffer, text: string): string {
+  const nonce = randomBytes(32);
+  const { chachaKey, chachaNonce, hmacKey } = nip44MessageKeys(conversationKey, nonce);
+  // Node's chacha20 iv is the 32-bit little-endian block counter followed by the 96-bit nonce
+  const cipher = createCipheriv(
+    'chacha20',
+    chachaKey,
+    Buffer.concat([Buffer.alloc(4), chachaNonce]),
+  );
+  const ciphertext = Buffer.concat([cipher.update(nip44Pad(text)), cipher.final()]);
+  const mac = createHmac('sha256', hmacKey).update(Buffer.concat([nonce, ciphertext])).digest();
+  return Buffer.concat([Buffer.from([2]), nonce, ciphertext, mac]).toString('base64');
+}
+
+function createNip04DirectMessage(
+  privateKey: Uint8Array,
+  recipient: string,
+  text: string,
+): NostrEvent {
+  return signEvent({
+    created_at: nowSeconds(),
+    kind: NostrEventKind.EncryptedDirectMessage,
+    tags: [['p', recipient]],
+    content: nip04Encrypt(privateKey, recipient, text),
+  }, privateKey);
+}
+
+function createNip17DirectMessage(
+  privateKey: Uint8Array,
+  recipient: string,
+  text: string,
+): NostrEvent {
+  const rumorWithoutId: NostrUnsignedEvent = {
+    pubkey: getNostrPublicKey(privateKey),
+    created_at: nowSeconds(),
+    kind: NostrEventKind.PrivateDirectMessage,
+    tags: [['p', recipient]],
+    content: text,
+  };
+  // The rumor is not signed, so it could not be proven that the bot sent it if it leaks.
+  const rumor = { ...rumorWithoutId, id: getEventId(rumorWithoutId) };
+  const seal = signEvent({
+    created_at: randomPastTimestamp(),
+    kind: NostrEventKind.Seal,
+    tags: [],
+    content: nip44Encrypt(
+      nip44ConversationKey(privateKey, recipient),
+      JSON.stringify(rumor),
+    ),
+  }, privateKey);
+  const ephemeralPrivateKey = schnorr.utils.randomPrivateKey();
+  return signEvent({
+    created_at: randomPastTimestamp(),
+    kind: NostrEventKind.GiftWrap,
+    tags: [['p', recipient]],
+    content: nip44Encrypt(
+      nip44ConversationKey(ephemeralPrivateKey, recipient),
+      JSON.stringify(seal),
+    ),
+  }, ephemeralPrivateKey);
+}
+
+export function createNostrDirectMessage(
+  privateKey: Uint8Array,
+  recipient: string,
+  text: string,
+  encryption: NostrEncryption,
+): NostrEvent {
+  switch (encryption) {
+    case NostrEncryption.Nip04:
+      return createNip04DirectMessage(privateKey, recipient, text);
+    case NostrEncryption.Nip44:
+      return createNip17DirectMessage(privateKey, recipient, text);
+    default:
+      throw new Error(`Unknown nostr encryption ${encryption}`);
+  }
+}
@@ -0,0 +1,206 @@
+import { AppName } from '@woofbot/common';
+import { createHmac, randomBytes } from 'crypto';
+import WebSocket from 'ws';
+
+import { OutboxMessageDocument, OutboxTransport } from '../models/notification-outbox';
+import { NostrEncryption, UserDocument } from '../models/users';
+import { errorString } from './error';
+import logger from './logger';
+import { notificationOutbox } from './notification-outbox';
+import {
+  createNostrDirectMessage, getNostrPublicKey, NostrEvent, npubEncode,
+} from './nostr-events';
+import { notificationToText, Notifier } from './notifier';
+
+export const maxNostrRelays = 10;
+export const defaultNostrEncryption = NostrEncryption.Nip44;
+
+const relayTimeoutMs = 10_000;
+
+const nostrPrivateKey = process.env.APP_SEED
+  ? createHmac('sha256', process.env.APP_SEED).update('nostr-private-key').digest()
+  : randomBytes(32);
+
+export const nostrPublicKey = getNostrPublicKey(nostrPrivateKey);
+export const nostrNpub = npubEncode(nostrPublicKey);
+
+export class NostrRelayError extends Error {
+  relayUrl: string;
+
+  isRetriable: boolean;
+
+  constructor(relayUrl: string, reason: string, isRetriable: boolean) {
+    super(`${relayUrl}: ${reason}`);
+    this.relayUrl = relayUrl;
+    this.isRetriable = isRetriable;
+  }
+}
+
+export class NostrPublishError extends Error {
+  isRetriable: boolean;
+
+  constructor(relayErrors: NostrRelayError[]) {
+    super(`No relay accepted the event (${
+      relayErrors.map((relayError) => relayError.message).join(', ')
+    })`);
+    this.isRetriable = relayErrors.some((relayError) => relayError.isRetriable);
+  }
+}
+
+// Resolves when the relay accepted the event with an "OK" message, see NIP-01
+function publishToRelay(relayUrl: string, event: NostrEvent): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(relayUrl, { handshakeTimeout: relayTimeoutMs });
+    let isFinished = false;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const finish = (error?: NostrRelayError) => {
+      if (isFinished) {
+        return;
+      }
+      isFinished = true;
+      clearTimeout(timeout);
+      socket.terminate();
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+    timeout = setTimeout(
+      () => finish(new NostrRelayError(relayUrl, 'timeout', true)),
+      relayTimeoutMs,
+    );
+    socket.on('open', () => {
+      socket.send(JSON.stringify(['EVENT', event]));
+    });
+    socket.on('message', (data) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(data.toString());
+      } catch (error) {
+        return;
+      }
+      if (!Array.isArray(message) || (message[0] !== 'OK') || (message[1] !== event.id)) {
+        return;
+      }
+      const [, , isAccepted, reason] = message;
+      if (isAccepted) {
+        finish();
+        return;
+      }
+      // Relays prefix the reason with "rate-limited:" or "error:" when it's worth trying again
+      finish(new NostrRelayError(
+        relayUrl,
+        `${reason}`,
+        /^(rate-limited|error):/.test(`${reason}`),
+      ));
+    });
+    socket.on('error', (error) => finish(new NostrRelayError(relayUrl, error.message, true)));
+    socket.on('close', () => finish(new NostrRelayError(relayUrl, 'connection closed', true)));
+  });
+}
+
+interface NostrMessageTask {
+  publicKey: string;
+  encryption: NostrEncryption;
+  text: string;
+}
+
+export class NostrManager {
+  private relays: string[] = [];
+
+  constructor() {
+    notificationOutbox.registerSender(OutboxTransport.Nostr, {
+      isReady: () => this.relays.length > 0,
+      send: (message) => this.deliver(message),
+      isRetriableError: (error) => NostrManager.isRetriableError(error),
+    });
+  }
+
+  get hasRelays(): boolean {
+    return this.relays.length > 0;
+  }
+
+  setRelays(relays: string[]) {
+    this.relays = [...relays];
+  }
+
+  static async sendMessage(message: NostrMessageTask) {
+    try {
+      // The event is signed once, so retries publish the same event id and relays ignore the
+      // duplicates.
+      const event = createNostrDirectMessage(
+        nostrPrivateKey,
+        message.publicKey,
+        message.text,
+        message.encryption,
+      );
+      await notificationOutbox.enqueue({
+        transport: OutboxTransport.Nostr,
+        destination: message.publicKey,
+        payload: JSON.stringify(event),
+      });
+    } catch (error) {
+      logger.error(
+        `NostrManager: Failed to enqueue message to ${message.publicKey}: ${errorString(error)}`,
+      );
+    }
+  }
+
+  static async test(user: UserDocument) {
+    if (!user.nostrPublicKey) {
+      return;
+    }
+    await NostrManager.sendMessage({
+      publicKey: user.nostrPublicKey,
+      encryption: user.nostrEncryption ?? defaultNostrEncryption,
+      text: `Woof! This is a test message from ${AppName}.`,
+    });
+  }
+
+  private async deliver(message: OutboxMessageDocument) {
+    if (this.relays.length === 0) {
+      throw new Error('No relays are configured');
+    }
+    const event = JSON.parse(message.payload) as NostrEvent;
+    const results = await Promise.allSettled(
+      this.relays.map((relayUrl) => publishToRelay(relayUrl, event)),
+    );
+    const relayErrors = results.flatMap((result) => (
+      (result.status === 'rejected') ? [
+        (result.reason instanceof NostrRelayError)
+          ? result.reason
+          : new NostrRelayError('unknown', errorString(result.reason), true),
+      ] : []
+    ));
+    if (relayErrors.length === results.length) {
+      throw new NostrPublishError(relayErrors);
+    }
+    for (const relayError of relayErrors) {
+      logger.info(`NostrManager: Relay did not accept event ${event.id}: ${relayError.message}`);
+    }
+  }
+
+  private static isRetriableError(error: unknown): boolean {
+    if (error instanceof NostrPublishError) {
+      return error.isRetriable;
+    }
+    return true;
+  }
+}
+
+export const nostrManager = new NostrManager();
+
+export const nostrNotifier: Notifier = {
+  name: 'nostr',
+  notify: async (user, notification) => {
+    if (!user.nostrPublicKey) {
+      return;
+    }
+    await NostrManager.sendMessage({
+      publicKey: user.nostrPublicKey,
+      encryption: user.nostrEncryption ?? defaultNostrEncryption,
+      text: notificationToText(notification),
+    });
+  },
+};
@@ -0,0 +1,2351 @@
+import {
+  FormatOptions, formatNumber, mSatsToSats, prettyDate,
+} from '@woofbot/common';
+import { Types } from 'mongoose';
+
+import { SettingsModel } from '../models/settings';
+import { UsersModel, UserDocument, whaleThresholdUserFields } from '../models/users';
+import { WatchedAddressesModel } from '../models/watched-addresses';
+import { WatchedOutpointsModel } from '../models/watched-outpoints';
+import {
+  TimelockType, WatchedTimelockDocument, WatchedTimelocksModel,
+} from '../models/watched-timelocks';
+import { WatchedWalletDocument, WatchedWalletsModel } from '../models/watched-wallets';
+import { extendWalletAddresses } from '../controllers/wallets';
+import { updateAddressBalances } from '../controllers/addresses';
+import { resolveRelativeTimelock, timelockBlocksLeft } from '../controllers/timelocks';
+import { unwatchUnusedTransactions } from '../controllers/transactions';
+import { TransactionStatus, WatchedTransactionsModel } from '../models/watched-transactions';
+import {
+  bitcoindWatcher, BitcoindWatcherEventName, NewTransactionAnalysisEvent,
+  transactionAnalysisToString, NewAddressPaymentEvent, NewBlockAnalyzedEvent,
+  NewMempoolClearStatusEvent, FeeRateDirection, FeeRateThresholdEvent, OutpointSpentEvent,
+  ChainReorganizationEvent, ReorganizedAddressPayment, TransactionConfirmationsEvent,
+  TransactionReplacedEvent, ReplacementType, TransactionCpfpEvent, WhaleThreshold,
+  WhaleTransactionEvent, ChainCountdownEvent, ChainCountdownName, DifficultyAdjustmentEvent,
+  HalvingEvent, NewBlockSummary, TransactionEvictedEvent, EvictionReason, NodeHealthEvent,
+  NodeHealthProblem, NodeHealthStatus,
+} from './bitcoind-watcher';
+import { RawTransaction } from './bitcoin-rpc';
+import { errorString } from './error';
+import {
+  MessageKey, MessageParams, recipientLanguage, translate,
+} from './i18n';
+import logger from './logger';
+import { zeroObjectId } from './mongo';
+import { NewBlocksFilter } from './mining-pools';
+import {
+  Notification, NotificationBuilder, NotificationEntity, NotificationEntityType, NotificationEvent,
+  NotificationFormatOptions, NotificationLink, NotificationSeverity, Notifier,
+} from './notifier';
+import { PriceChangeEvent, priceWatcher, PriceWatcherEventName } from './price-watcher';
+import {
+  LndChannelsStatusEvent, LndNewForwardsEvent, lndWatcher, LndWatcherEventName,
+  LndInvoiceUpdatedEvent, LndLiquidityThresholdEvent, LiquidityDirection,
+} from './lnd-watcher';
+
+const blockSkippedWarningBackoffMs = 300_000;
+// The inputs and outputs of a transaction are reported per address, and summed up per wallet
+const walletPaymentAggregationMs = 2_000;
+// The payments of a new block are reported one by one, and the utxo set is scanned once for them
+const balanceRefreshDelayMs = 5_000;
+// Whale alerts are rate limited per user, within a sliding window
+export const maxWhaleAlertsPerHour = 10;
+const whaleAlertsWindowMs = 3_600_000;
+// Longer raw transactions do not fit in a single chat message
+const maxRebroadcastHexLength = 2_000;
+
+interface WalletPayment {
+  walletId: string;
+  txid: string;
+  status: TransactionStatus;
+  confirmations: number;
+  incomeSats: number;
+  outcomeSats: number;
+}
+
+export function prettyBlockHash(blockHash: string): string {
+  return `0..0${blockHash.replace(/^0+/, '')}`;
+}
+
+// Notifications are written in the language of each user, and broadcasts in English
+function localize(
+  formatOptions: NotificationFormatOptions,
+  key: MessageKey,
+  params?: MessageParams,
+): string {
+  return translate(recipientLanguage(formatOptions), key, params);
+}
+
+function countText(
+  formatOptions: NotificationFormatOptions,
+  count: number,
+  oneKey: MessageKey,
+  otherKey: MessageKey,
+): string {
+  return localize(formatOptions, (count === 1) ? oneKey : otherKey, { count });
+}
+
+const nodeHealthProblemLabelKeys: Record<NodeHealthProblem, MessageKey> = {
+  [NodeHealthProblem.Unreachable]: 'nodeHealthUnreachableLabel',
+  [NodeHealthProblem.FewPeers]: 'nodeHealthFewPeersLabel',
+  [NodeHealthProblem.Syncing]: 'nodeHealthSyncingLabel',
+  [NodeHealthProblem.StaleTip]: 'nodeHealthStaleTipLabel',
+  [NodeHealthProblem.Warnings]: 'nodeHealthWarningsLabel',
+};
+
+function nodeHealthProblemText(
+  problem: NodeHealthProblem,
+  status: NodeHealthStatus | undefined,
+  minPeers: number,
+  formatOptions: NotificationFormatOptions,
+): string {
+  switch (problem) {
+    case NodeHealthProblem.Unreachable:
+      return localize(formatOptions, 'nodeHealthUnreachable');
+    case NodeHealthProblem.FewPeers:
+      return localize(formatOptions, 'nodeHealthFewPeers', {
+        peers: status?.peers ?? 0,
+        minPeers,
+      });
+    case NodeHealthProblem.Syncing:
+      return localize(
+        formatOptions,
+        status?.initialBlockDownload ? 'nodeHealthInitialBlockDownload' : 'nodeHealthFellBehind',
+        {
+          blocks: formatNumber(status?.blocks ?? 0, formatOptions),
+          headers: formatNumber(status?.headers ?? 0, formatOptions),
+        },
+      );
+    case NodeHealthProblem.StaleTip:
+      return localize(formatOptions, 'nodeHealthStaleTip', {
+        minutes: status?.minutesSinceNewBlock ?? 0,
+      });
+    case NodeHealthProblem.Warnings: // fallthrough
+    default:
+      return localize(formatOptions, 'nodeHealthWarnings', { warnings: status?.warnings ?? '' });
+  }
+}
+
+function isNewBlockWatched(pools: string[], block: NewBlockSummary): boolean {
+  return (pools.length === 0) || pools.some((pool) => {
+    switch (pool) {
+      case NewBlocksFilter.Empty:
+        return (block.transactions <= 1);
+      case NewBlocksFilter.Unknown:
+        return !block.pool;
+      default:
+        return (block.pool?.slug === pool);
+    }
+  });
+}
+
+function newBlockMessage(
+  block: NewBlockSummary,
+  formatOptions: NotificationFormatOptions,
+): string {
+  return localize(formatOptions, 'newBlockSummary', {
+    block: prettyBlockHash(block.hash),
+    height: block.height,
+    pool: block.pool?.name ?? localize(formatOptions, 'newBlockUnknownPool'),
+    transactions: (block.transactions <= 1)
+      ? localize(formatOptions, 'newBlockEmpty')
+      : localize(formatOptions, 'newBlockTransactions', {
+        transactions: formatNumber(block.transactions, formatOptions),
+      }),
+    fees: formatNumber(block.feesSats, formatOptions),
+    fullness: formatNumber(block.fullness, formatOptions),
+  });
+}
+
+function timelockName(
+  watchedTimelock: WatchedTimelockDocument,
+  formatOptions: NotificationFormatOptions,
+): string {
+  const { type, lock, nickname } = watchedTimelock;
+  let description: string;
+  switch (type) {
+    case TimelockType.Height:
+      description = localize(formatOptions, 'timelockAtHeight', { lock });
+      break;
+    case TimelockType.Time:
+      description = localize(formatOptions, 'timelockAtTime', {
+        time: prettyDate(new Date(Number(lock) * 1000).toJSON(), formatOptions),
+      });
+      break;
+    case TimelockType.Coinbase:
+      description = localize(formatOptions, 'timelockOfCoinbaseOutput', { lock });
+      break;
+    case TimelockType.Csv: // fallthrough
+    default:
+      description = localize(formatOptions, 'timelockOfOutput', { lock });
+      break;
+  }
+  return nickname ? `"${nickname}" (${description})` : description;
+}
+
+function timelockEntities({ type, lock, nickname }: WatchedTimelockDocument): NotificationEntity[] {
+  if ((type !== TimelockType.Csv) && (type !== TimelockType.Coinbase)) {
+    return [];
+  }
+  return [
+    {
+      type: NotificationEntityType.Outpoint,
+      id: lock,
+      ...nickname && { nickname },
+    },
+    {
+      type: NotificationEntityType.Transaction,
+      id: lock.split(':')[0],
+    },
+  ];
+}
+
+interface ChannelFullNameParams {
+  channelId: string;
+  partnerName?: string;
+}
+
+function channelFullName(
+  { channelId, partnerName }: ChannelFullNameParams,
+  formatOptions: NotificationFormatOptions,
+): string {
+  if (partnerName) {
+    return `${partnerName} (${channelId})`;
+  }
+  return localize(formatOptions, 'channelIdName', { channelId });
+}
+
+function channelEntity({ channelId, partnerName }: ChannelFullNameParams): NotificationEntity {
+  return {
+    type: NotificationEntityType.LightningChannel,
+    id: channelId,
+    ...partnerName && { nickname: partnerName },
+  };
+}
+
+async function getMempoolUrlPrefix(): Promise<string> {
+  const settings = await SettingsModel.findById(zeroObjectId);
+  if (!settings) {
+    throw new Error('Settings not found');
+  }
+  return settings.mempoolUrlPrefix;
+}
+
+function mempoolLinks(
+  mempoolUrlPrefix: string,
+  entities: NotificationEntity[],
+  formatOptions: NotificationFormatOptions,
+): NotificationLink[] {
+  return entities.flatMap((entity): NotificationLink[] => {
+    switch (entity.type) {
+      case NotificationEntityType.Address:
+        return [{
+          label: localize(formatOptions, 'linkViewAddress'),
+          url: `${mempoolUrlPrefix}/address/${entity.id}`,
+        }];
+      case NotificationEntityType.Transaction:
+        return [{
+          label: localize(formatOptions, 'linkViewTransaction'),
+          url: `${mempoolUrlPrefix}/tx/${entity.id}`,
+        }];
+      case NotificationEntityType.Block:
+        return [{
+          label: localize(formatOptions, 'linkViewBlock'),
+          url: `${mempoolUrlPrefix}/block/${entity.id}`,
+        }];
+      default:
+        return [];
+    }
+  });
+}
+
+function confirmationsMessage(
+  status: TransactionStatus,
+  confirmations: number,
+  formatOptions: NotificationFormatOptions,
+): string {
+  const confirmationsText = countText(
+    formatOptions,
+    confirmations,
+    'confirmationCountOne',
+    'confirmationCount',
+  );
+  switch (status) {
+    case TransactionStatus.PartialConfirmation:
+      return localize(formatOptions, 'transactionPartiallyConfirmed', {
+        confirmations: confirmationsText,
+      });
+    case TransactionStatus.FullConfirmation:
+      return localize(formatOptions, 'transactionFullyConfirmed', {
+        confirmations: confirmationsText,
+      });
+    default:
+      return localize(formatOptions, 'transactionInMempool');
+  }
+}
+
+function signedPercent(percent: number, formatOptions: FormatOptions): string {
+  return `${(percent > 0) ? '+' : ''}${formatNumber(percent, formatOptions)}%`;
+}
+
+function hoursLeft(timeLeftMs: number, formatOptions: NotificationFormatOptions): string {
+  const hours = Math.round(timeLeftMs / 3_600_000);
+  if (hours < 48) {
+    return (hours === 1)
+      ? localize(formatOptions, 'aboutOneHour')
+      : localize(formatOptions, 'aboutHours', { hours });
+  }
+  return localize(formatOptions, 'aboutDays', { days: Math.round(hours / 24) });
+}
+
+function statusEmoji(status: TransactionStatus): string {
+  switch (status) {
+    case TransactionStatus.PartialConfirmation:
+      return '⛏️';
+    case TransactionStatus.FullConfirmation:
+      return '🚀';
+    default:
+      return '👀';
+  }
+}
+
+class NotificationDispatcher {
+  private notifiers: Notifier[] = [];
+
+  // maps `${walletId}:${txid}:${status}` -> payment that is about to be notified
+  private walletPayments: Map<string, WalletPayment> = new Map();
+
+  private newTransactionAnalysesQueue: NewTransactionAnalysisEvent[] | undefined;
+
+  private lastBlockSkippedWarning = new Date(0);
+
+  private balanceRefreshAddresses: Set<string> = new Set();
+
+  // maps user-id -> times of the last whale alerts
+  private whaleAlertTimes: Map<string, number[]> = new Map();
+
+  constructor() {
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.NewTransactionAnalysis,
+      (parameters) => this.onNewTransactionAnalysis(parameters),
+    );
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.NewAddressPayment,
+      (parameters) => this.onNewAddressPayment(parameters),
+    );
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.AddressOverload,
+      (address) => this.onAddressOverload(address),
+    );
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.BlocksSkipped,
+      () => this.onBlocksSkipped(),
+    );
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.NewBlockAnalyzed,
+      (event) => this.onNewBlockAnalyzed(event),
+    );
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.NewBlockAnalyzed,
+      (event) => this.checkTimelocks(event),
+    );
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.NewMempoolClearStatus,
+      (event) => this.onNewMempoolClearStatus(event),
+    );
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.FeeRateThreshold,
+      (event) => this.onFeeRateThreshold(event),
+    );
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.OutpointSpent,
+      (event) => this.onOutpointSpent(event),
+    );
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.ChainReorganization,
+      (event) => this.onChainReorganization(event),
+    );
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.TransactionConfirmations,
+      (event) => this.onTransactionConfirmations(event),
+    );
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.TransactionReplaced,
+      (event) => this.onTransactionReplaced(event),
+    );
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.TransactionCpfp,
+      (event) => this.onTransactionCpfp(event),
+    );
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.TransactionEvicted,
+      (event) => this.onTransactionEvicted(event),
+    );
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.WhaleTransaction,
+      (event) => this.onWhaleTransaction(event),
+    );
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.ChainCountdown,
+      (event) => this.onChainCountdown(event),
+    );
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.DifficultyAdjustment,
+      (event) => this.onDifficultyAdjustment(event),
+    );
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.Halving,
+      (event) => this.onHalving(event),
+    );
+    bitcoindWatcher.on(
+      BitcoindWatcherEventName.NodeHealth,
+      (event) => this.onNodeHealth(event),
+    );
+    priceWatcher.on(
+      PriceWatcherEventName.ConsecutiveApiErrors,
+      () => this.onConsecutivePriceApiErrors(),
+    );
+    priceWatcher.on(
+      PriceWatcherEventName.ApiResponsiveAgain,
+      () => this.onPriceApiResponsiveAgain(),
+    );
+    priceWatcher.on(
+      PriceWatcherEventName.PriceChange,
+      (event) => this.onPriceChange(event),
+    );
+    lndWatcher.on(
+      LndWatcherEventName.ChannelsStatus,
+      (event) => this.onLndChannelsStatus(event),
+    );
+    lndWatcher.on(
+      LndWatcherEventName.NewForwards,
+      (event) => this.onLndNewForwards(event),
+    );
+    lndWatcher.on(
+      LndWatcherEventName.InvoiceUpdated,
+      (event) => this.onLndInvoiceUpdated(event),
+    );
+    lndWatcher.on(
+      LndWatcherEventName.LiquidityThreshold,
+      (event) => this.onLndLiquidityThreshold(event),
+    );
+  }
+
+  registerNotifier(notifier: Notifier) {
+    this.notifiers.push(notifier);
+  }
+
+  async notifyUser(user: UserDocument, notification: Notification) {
+    for await (const notifier of this.notifiers) {
+      try {
+        await notifier.notify(user, notification);
+      } catch (error) {
+        logger.error(
+          `NotificationDispatcher: ${notifier.name} failed to notify user ${user.id} about ${
+            notification.event
+          }: ${errorString(error)}`,
+        );
+      }
+    }
+  }
+
+  // For server-wide events, the notification is also broadcast
+  async notifyUsers(users: UserDocument[], notification: Notification | NotificationBuilder) {
+    const buildNotification = (typeof notification === 'function')
+      ? notification : () => notification;
+    for await (const user of users) {
+      await this.notifyUser(user, buildNotification(user));
+    }
+    await this.broadcast(buildNotification({}));
+  }
+
+  private async broadcast(notification: Notification) {
+    for await (const notifier of this.notifiers) {
+      if (!notifier.broadcast) {
+        continue;
+      }
+      try {
+        await notifier.broadcast(notification);
+      } catch (error) {
+        logger.error(
+          `NotificationDispatcher: ${notifier.name} failed to broadcast ${
+            notification.event
+          }: ${errorString(error)}`,
+        );
+      }
+    }
+  }
+
+  // While a new transaction watch is being initialized, its analyses are held back so the user
+  // will not get notifications before the initial reply. Returns false if already paused.
+  pauseTransactionAnalyses(): boolean {
+    if (this.newTransactionAnalysesQueue) {
+      return false;
+    }
+    this.newTransactionAnalysesQueue = [];
+    return true;
+  }
+
+  resumeTransactionAnalyses() {
+    const queue = this.newTransactionAnalysesQueue;
+    this.newTransactionAnalysesQueue = undefined;
+    if (queue) {
+      for (const queuedAnalysis of queue) {
+        this.handleNewTransactionAnalysis(queuedAnalysis);
+      }
+    }
+  }
+
+  async onReboot() {
+    try {
+      const users = await UsersModel.find({ watchReboot: true });
+      await this.notifyUsers(users, (formatOptions) => ({
+        event: NotificationEvent.Reboot,
+        severity: NotificationSeverity.Warning,
+        title: localize(formatOptions, 'rebootTitle'),
+        body: localize(formatOptions, 'rebootBody'),
+        links: [],
+        entities: [],
+      }));
+    } catch (error) {
+      logger.error(`Failed to notify reboot: ${errorString(error)}`);
+    }
+  }
+
+  private async onConsecutivePriceApiErrors() {
+    try {
+      const users = await UsersModel.find({
+        watchPriceChange: {
+          $exists: true,
+        },
+      });
+      await this.notifyUsers(users, (formatOptions) => ({
+        event: NotificationEvent.PriceApiErrors,
+        severity: NotificationSeverity.Warning,
+        title: localize(formatOptions, 'priceApiErrorsTitle'),
+        body: localize(formatOptions, 'priceApiErrorsBody'),
+        links: [],
+        entities: [],
+      }));
+    } catch (error) {
+      logger.error(`Failed to notify price api errors: ${errorString(error)}`);
+    }
+  }
+
+  private async onPriceApiResponsiveAgain() {
+    try {
+      const users = await UsersModel.find({
+        watchPriceChange: {
+          $exists: true,
+        },
+      });
+      await this.notifyUsers(users, (formatOptions) => ({
+        event: NotificationEvent.PriceApiResponsive,
+        severity: NotificationSeverity.Info,
+        title: localize(formatOptions, 'priceApiResponsiveTitle'),
+        body: localize(formatOptions, 'priceApiResponsiveBody'),
+        links: [],
+        entities: [],
+      }));
+    } catch (error) {
+      logger.error(`Failed to notify price api responsive-again: ${errorString(error)}`);
+    }
+  }
+
+  private async onPriceChange(event: PriceChangeEvent) {
+    try {
+      logger.info(`onPriceChange: ${JSON.stringify(event)}`);
+      const user = await UsersModel.findOne({
+        _id: new Types.ObjectId(event.id),
+        watchPriceChange: event.delta,
+      });
+      if (!user) {
+        logger.info('onPriceChange: user not found');
+        priceWatcher.unwatchPriceChange(event.id);
+        return;
+      }
+      const [oldMin] = event.oldThreshold;
+      const [newMin, newMax] = event.newThreshold;
+      const isIncrease = (oldMin < newMin);
+      await this.notifyUser(user, {
+        event: NotificationEvent.PriceChange,
+        severity: NotificationSeverity.Info,
+        title: localize(user, isIncrease ? 'priceIncreasedTitle' : 'priceDecreasedTitle'),
+        body: localize(user, 'priceChangeBody', {
+          emoji: isIncrease ? '📈' : '📉',
+          price: `$${formatNumber(event.newPrice, user)}`,
+          min: `$${formatNumber(newMin, user)}`,
+          max: `$${formatNumber(newMax, user)}`,
+        }),
+        links: [],
+        entities: [],
+      });
+    } catch (error) {
+      logger.error(`Failed to notify price change: ${errorString(error)}`);
+    }
+  }
+
+  private async onNewBlockAnalyzed(event: NewBlockAnalyzedEvent) {
+    try {
+      await SettingsModel.updateOne(
+        { _id: zeroObjectId },
+        {
+          $set: {
+            analyzedBlockHashes: event.blockHashes,
+            bestBlockHeight: event.bestBlockHeight,
+          },
+        },
+      );
+      const watchNewBlocksUsers = await UsersModel.find({
+        watchNewBlocks: true,
+      });
+      const mempoolUrlPrefix = await getMempoolUrlPrefix();
+      const buildNotification = (
+        blocks: NewBlockSummary[],
+        formatOptions: NotificationFormatOptions,
+      ): Notification => {
+        const entities = blocks.map((block) => ({
+          type: NotificationEntityType.Block,
+          id: block.hash,
+        }));
+        return {
+          event: NotificationEvent.NewBlocks,
+          severity: NotificationSeverity.Info,
+          title: localize(formatOptions, (blocks.length === 1) ? 'newBlockTitle' : 'newBlocksTitle'),
+          body: localize(formatOptions, (blocks.length === 1) ? 'newBlockBody' : 'newBlocksBody', {
+            blocks: blocks.map((block) => newBlockMessage(block, formatOptions)).join(', '),
+          }),
+          links: mempoolLinks(mempoolUrlPrefix, entities, formatOptions),
+          entities,
+        };
+      };
+      // Users that filter by pools are notified only about the blocks that match their filters
+      for await (const user of watchNewBlocksUsers) {
+        const blocks = event.blocks.filter(
+          (block) => isNewBlockWatched(user.watchNewBlocksPools, block),
+        );
+        if (blocks.length > 0) {
+          await this.notifyUser(user, buildNotification(blocks, user));
+        }
+      }
+      await this.broadcast(buildNotification(event.blocks, {}));
+    } catch (error) {
+      logger.error(`Failed to handle analyzed block hashes: ${errorString(error)}`);
+    }
+  }
+
+  private async checkTimelocks({ bestBlockHeight, medianTime }: NewBlockAnalyzedEvent) {
+    try {
+      const watchedTimelocks = await WatchedTimelocksModel.find({
+        matured: false,
+      });
+      if (watchedTimelocks.length === 0) {
+        return;
+      }
+      const users = await UsersModel.find({
+        _id: {
+          $in: watchedTimelocks.map(({ userId }) => userId),
+        },
+      });
+      const userById = new Map(users.map((user) => [`${user.id}`, user]));
+      const mempoolUrlPrefix = await getMempoolUrlPrefix();
+      for await (const watchedTimelock of watchedTimelocks) {
+        const user = userById.get(`${watchedTimelock.userId}`);
+        if (!user) {
+          continue;
+        }
+        const entities = timelockEntities(watchedTimelock);
+        if (
+          (watchedTimelock.maturityHeight === undefined)
+          && (watchedTimelock.maturityTime === undefined)
+        ) {
+          const maturity = await resolveRelativeTimelock(watchedTimelock);
+          if (!maturity) {
+            logger.info(`checkTimelocks: output of ${watchedTimelock.id} is missing`);
+            await WatchedTimelocksModel.deleteOne({ _id: watchedTimelock._id });
+            await this.notifyUser(user, {
+              event: NotificationEvent.TimelockOutputMissing,
+              severity: NotificationSeverity.Warning,
+              title: localize(user, 'timelockMissingTitle'),
+              body: localize(user, 'timelockMissingBody', {
+                timelock: timelockName(watchedTimelock, user),
+              }),
+              links: mempoolLinks(mempoolUrlPrefix, entities, user),
+              entities,
+            });
+            continue;
+          }
+          watchedTimelock.set(maturity);
+        }
+        const blocksLeft = timelockBlocksLeft(watchedTimelock, bestBlockHeight, medianTime);
+        if (blocksLeft === undefined) {
+          // The output is still unconfirmed
+          continue;
+        }
+        if (blocksLeft <= 0) {
+          watchedTimelock.set({ matured: true });
+          await this.notifyUser(user, {
+            event: NotificationEvent.TimelockMatured,
+            severity: NotificationSeverity.Success,
+            title: localize(user, 'timelockMaturedTitle'),
+            body: localize(user, 'timelockMaturedBody', {
+              timelock: timelockName(watchedTimelock, user),
+              height: bestBlockHeight,
+            }),
+            links: mempoolLinks(mempoolUrlPrefix, entities, user),
+            entities,
+          });
+        } else if (!watchedTimelock.warned && (blocksLeft <= watchedTimelock.warningBlocks)) {
+          watchedTimelock.set({ warned: true });
+          await this.notifyUser(user, {
+            event: NotificationEvent.TimelockWarning,
+            severity: NotificationSeverity.Info,
+            title: localize(user, 'timelockWarningTitle'),
+            body: localize(
+              user,
+              (watchedTimelock.maturityHeight !== undefined)
+                ? 'timelockWarningHeightBody' : 'timelockWarningTimeBody',
+              {
+                timelock: timelockName(watchedTimelock, user),
+                blocks: countText(user, blocksLeft, 'blockCountOne', 'blockCount'),
+                height: watchedTimelock.maturityHeight ?? 0,
+              },
+            ),
+            links: mempoolLinks(mempoolUrlPrefix, entities, user),
+            entities,
+          });
+        }
+        if (watchedTimelock.isModified()) {
+          await watchedTimelock.save();
+        }
+      }
+    } catch (error) {
+      logger.error(`NotificationDispatcher: Failed to check timelocks: ${errorString(error)}`);
+    }
+  }
+
+  private async onChainReorganization(event: ChainReorganizationEvent) {
+    try {
+      logger.info(`onChainReorganization: ${JSON.stringify(event)}`);
+      const mempoolUrlPrefix = await getMempoolUrlPrefix();
+      const watchReorgUsers = await UsersModel.find({
+        watchReorg: true,
+      });
+      const disconnectedBlocks = event.disconnectedBlockHashes.length;
+      const entities = [event.forkBlockHash, event.oldTipHash, event.newTipHash].map(
+        (blockHash): NotificationEntity => ({
+          type: NotificationEntityType.Block,
+          id: blockHash,
+        }),
+      );
+      await this.notifyUsers(watchReorgUsers, (formatOptions) => ({
+        event: NotificationEvent.Reorg,
+        severity: NotificationSeverity.Warning,
+        title: localize(formatOptions, 'reorgTitle'),
+        body: localize(formatOptions, 'reorgBody', {
+          disconnectedBlocks: countText(
+            formatOptions,
+            disconnectedBlocks,
+            'blockCountOne',
+            'blockCount',
+          ),
+          forkBlock: prettyBlockHash(event.forkBlockHash),
+          forkHeight: event.forkBlockHeight,
+          oldTip: prettyBlockHash(event.oldTipHash),
+          oldTipHeight: event.oldTipHeight,
+          newTip: prettyBlockHash(event.newTipHash),
+          newTipHeight: event.newTipHeight,
+          connectedBlocks: countText(
+            formatOptions,
+            event.connectedBlocks,
+            'newBlockCountOne',
+            'newBlockCount',
+          ),
+        }),
+        links: mempoolLinks(mempoolUrlPrefix, entities, formatOptions),
+        entities,
+      }));
+      await this.notifyUnconfirmedTransactions(event.unconfirmedTransactions, mempoolUrlPrefix);
+      await this.notifyUnconfirmedAddressPayments(
+        event.unconfirmedAddressPayments,
+        mempoolUrlPrefix,
+      );
+    } catch (error) {
+      logger.error(
+        `NotificationDispatcher: failed to handle chain reorganization: ${errorString(error)}`,
+      );
+    }
+  }
+
+  private async notifyUnconfirmedTransactions(txids: string[], mempoolUrlPrefix: string) {
+    if (txids.length === 0) {
+      return;
+    }
+    const watchedTransactions = await WatchedTransactionsModel.find({
+      txid: {
+        $in: txids,
+      },
+    });
+    const users = await UsersModel.find({
+      _id: {
+        $in: watchedTransactions.map(({ userId }) => userId),
+      },
+    });
+    const userById = new Map(users.map((user) => [`${user.id}`, user]));
+    for await (const watchedTransaction of watchedTransactions) {
+      const user = userById.get(`${watchedTransaction.userId}`);
+      if (!user) {
+        continue;
+      }
+      const entities: NotificationEntity[] = [{
+        type: NotificationEntityType.Transaction,
+        id: watchedTransaction.txid,
+        ...watchedTransaction.nickname && { nickname: watchedTransaction.nickname },
+      }];
+      await this.notifyUser(user, {
+        event: NotificationEvent.ConfirmationsLost,
+        severity: NotificationSeverity.Warning,
+        title: localize(user, 'confirmationsLostTransactionTitle'),
+        body: localize(user, 'confirmationsLostBody', {
+          subject: localize(user, 'confirmationsLostTransaction', {
+            transaction: watchedTransaction.nickname
+              ? `${watchedTransaction.nickname} (${watchedTransaction.txid})`
+              : watchedTransaction.txid,
+          }),
+        }),
+        links: mempoolLinks(mempoolUrlPrefix, entities, user),
+        entities,
+      });
+    }
+  }
+
+  private async notifyUnconfirmedAddressPayments(
+    payments: ReorganizedAddressPayment[],
+    mempoolUrlPrefix: string,
+  ) {
+    if (payments.length === 0) {
+      return;
+    }
+    const addresses = [...new Set(payments.map(({ address }) => address))];
+    const watchedAddresses = await WatchedAddressesModel.find({
+      address: {
+        $in: addresses,
+      },
+    });
+    const watchedWallets = await WatchedWalletsModel.find({
+      $or: [
+        { receiveAddresses: { $in: addresses } },
+        { changeAddresses: { $in: addresses } },
+      ],
+    });
+    const users = await UsersModel.find({
+      _id: {
+        $in: [...watchedAddresses, ...watchedWallets].map(({ userId }) => userId),
+      },
+    });
+    const userById = new Map(users.map((user) => [`${user.id}`, user]));
+    for await (const watchedAddress of watchedAddresses) {
+      const user = userById.get(`${watchedAddress.userId}`);
+      if (!user) {
+        continue;
+      }
+      const addressName = watchedAddress.nickname
+        ? `${watchedAddress.nickname} (${watchedAddress.address})`
+        : watchedAddress.address;
+      for await (const { txid } of payments.filter(
+        ({ address }) => (address === watchedAddress.address),
+      )) {
+        const entities: NotificationEntity[] = [
+          {
+            type: NotificationEntityType.Address,
+            id: watchedAddress.address,
+            ...watchedAddress.nickname && { nickname: watchedAddress.nickname },
+          },
+          {
+            type: NotificationEntityType.Transaction,
+            id: txid,
+          },
+        ];
+        await this.notifyUser(user, {
+          event: NotificationEvent.ConfirmationsLost,
+          severity: NotificationSeverity.Warning,
+          title: localize(user, 'confirmationsLostAddressPaymentTitle'),
+          body: localize(user, 'confirmationsLostBody', {
+            subject: localize(user, 'confirmationsLostAddressPayment', {
+              address: addressName,
+              txid,
+            }),
+          }),
+          links: mempoolLinks(mempoolUrlPrefix, entities, user),
+          entities,
+        });
+      }
+    }
+    for await (const watchedWallet of watchedWallets) {
+      const user = userById.get(`${watchedWallet.userId}`);
+      if (!user) {
+        continue;
+      }
+      const walletAddresses = new Set([
+        ...watchedWallet.receiveAddresses,
+        ...watchedWallet.changeAddresses,
+      ]);
+      // A wallet payment usually involves several addresses of the wallet
+      const txids = new Set(payments.filter(
+        ({ address }) => walletAddresses.has(address),
+      ).map(({ txid }) => txid));
+      for await (const txid of txids) {
+        const entities: NotificationEntity[] = [
+          {
+            type: NotificationEntityType.Wallet,
+            id: watchedWallet.extendedKey,
+            ...watchedWallet.nickname && { nickname: watchedWallet.nickname },
+          },
+          {
+            type: NotificationEntityType.Transaction,
+            id: txid,
+          },
+        ];
+        await this.notifyUser(user, {
+          event: NotificationEvent.ConfirmationsLost,
+          severity: NotificationSeverity.Warning,
+          title: localize(user, 'confirmationsLostWalletPaymentTitle'),
+          body: localize(user, 'confirmationsLostBody', {
+            subject: localize(user, 'confirmationsLostWalletPayment', {
+              wallet: watchedWallet.nickname ?? `${watchedWallet.extendedKey.slice(0, 12)}…`,
+              txid,
+            }),
+          }),
+          links: mempoolLinks(mempoolUrlPrefix, entities, user),
+          entities,
+        });
+      }
+    }
+  }
+
+  private async onBlocksSkipped() {
+    try {
+      const now = new Date();
+      const { lastBlockSkippedWarning } = this;
+      // Will start warning again only if there are 5 minutes without warnings
+      this.lastBlockSkippedWarning = now;
+      if (now.getTime() - lastBlockSkippedWarning.getTime() < blockSkippedWarningBackoffMs) {
+        return;
+      }
+      const transactions = await WatchedTransactionsModel.find({});
+      const addresses = await WatchedAddressesModel.find({});
+      const userIds = [
+        ...new Map([
+          ...transactions.map(({ userId }) => userId),
+          ...addresses.map(({ userId }) => userId),
+        ].map((userId) => [`${userId}`, userId])).values(),
+      ];
+      const users = await UsersModel.find({
+        $or: [
+          {
+            _id: {
+              $in: userIds,
+            },
+          },
+          {
+            watchNewBlocks: true,
+          },
+        ],
+      });
+      await this.notifyUsers(users, (formatOptions) => ({
+        event: NotificationEvent.BlocksSkipped,
+        severity: NotificationSeverity.Warning,
+        title: localize(formatOptions, 'blocksSkippedTitle'),
+        body: localize(formatOptions, 'blocksSkippedBody'),
+        links: [],
+        entities: [],
+      }));
+    } catch (error) {
+      logger.error(
+        `NotificationDispatcher: failed to handle onBlocksSkipped: ${errorString(error)}`,
+      );
+    }
+  }
+
+  private async onNewAddressPayment({
+    address,
+    txid,
+    status,
+    confirmations,
+    multiAddress,
+    incomeSats,
+    outcomeSats,
+  }: NewAddressPaymentEvent) {
+    try {
+      logger.info(`onNewAddressPayment: ${address} ${txid}`);
+      const watchedAddresses = await WatchedAddressesModel.find({ address });
+      const watchedWallets = await WatchedWalletsModel.find({
+        $or: [
+          { receiveAddresses: address },
+          { changeAddresses: address },
+        ],
+      });
+      if ((watchedAddresses.length === 0) && (watchedWallets.length === 0)) {
+        // safety check
+        bitcoindWatcher.unwatchAddress(address);
+        return;
+      }
+      for await (const watchedWallet of watchedWallets) {
+        await this.addWalletPayment(watchedWallet, {
+          address, txid, status, confirmations, multiAddress, incomeSats, outcomeSats,
+        });
+      }
+      if (watchedAddresses.length === 0) {
+        return;
+      }
+      if (confirmations > 0) {
+        this.scheduleBalanceRefresh(address);
+      } else if (incomeSats !== undefined) {
+        await WatchedAddressesModel.updateMany(
+          {
+            address,
+            'mempoolIncomes.txid': { $ne: txid },
+          },
+          {
+            $push: {
+              mempoolIncomes: { txid, incomeSats },
+            },
+          },
+        );
+      } else if (outcomeSats !== undefined) {
+        await WatchedAddressesModel.updateMany(
+          {
+            address,
+            'mempoolOutcomes.txid': { $ne: txid },
+          },
+          {
+            $push: {
+              mempoolOutcomes: { txid, outcomeSats },
+            },
+          },
+        );
+      }
+      const users = await UsersModel.find({
+        _id: {
+          $in: watchedAddresses.map(({ userId }) => userId),
+        },
+      });
+      const userById = new Map(users.map((user) => [`${user.id}`, user]));
+      logger.info(`NotificationDispatcher: Notifying users about new address payment ${
+        address
+      } ${txid}: ${users.map((user) => user.id).join(', ')}`);
+      const mempoolUrlPrefix = await getMempoolUrlPrefix();
+      for await (const watchedAddress of watchedAddresses) {
+        const user = userById.get(`${watchedAddress.userId}`);
+        if (!user) {
+          continue;
+        }
+        const payments: string[] = [];
+        const addressName = watchedAddress.nickname
+          ? `${watchedAddress.nickname} (${watchedAddress.address})`
+          : `${watchedAddress.address}`;
+        const isConfirmed = (status === TransactionStatus.FullConfirmation);
+
+        if (incomeSats !== undefined) {
+          payments.push(localize(user, isConfirmed ? 'addressReceived' : 'addressReceiving', {
+            address: addressName,
+            amount: formatNumber(incomeSats, user),
+            txid,
+          }));
+        }
+        if (outcomeSats !== undefined) {
+          payments.push(localize(user, isConfirmed ? 'addressSent' : 'addressSending', {
+            address: addressName,
+            amount: formatNumber(outcomeSats, user),
+            txid,
+          }));
+        }
+        const messages = [
+          localize(user, 'addressPaymentBody', {
+            emoji: statusEmoji(status),
+            payments: payments.join(' '),
+            confirmations: confirmationsMessage(status, confirmations, user),
+          }),
+          ...multiAddress ? [localize(user, 'addressMultisigWarning')] : [],
+        ];
+        const entities: NotificationEntity[] = [
+          {
+            type: NotificationEntityType.Address,
+            id: address,
+            ...watchedAddress.nickname && { nickname: watchedAddress.nickname },
+          },
+          {
+            type: NotificationEntityType.Transaction,
+            id: txid,
+          },
+        ];
+        await this.notifyUser(user, {
+          event: NotificationEvent.AddressPayment,
+          severity: multiAddress ? NotificationSeverity.Warning : NotificationSeverity.Info,
+          title: localize(
+            user,
+            (incomeSats !== undefined) ? 'addressPaymentIncomingTitle' : 'addressPaymentOutgoingTitle',
+          ),
+          body: messages.join('\n'),
+          links: mempoolLinks(mempoolUrlPrefix, entities, user),
+          entities,
+        });
+      }
+    } catch (error) {
+      logger.info(
+        `onNewAddressPayment: failed to handle ${address} ${txid}: ${errorString(error)}`,
+      );
+    }
+  }
+
+  private scheduleBalanceRefresh(address: string) {
+    if (this.balanceRefreshAddresses.size === 0) {
+      setTimeout(() => {
+        const addresses = [...this.balanceRefreshAddresses];
+        this.balanceRefreshAddresses.clear();
+        this.refreshAddressBalances(addresses);
+      }, balanceRefreshDelayMs);
+    }
+    this.balanceRefreshAddresses.add(address);
+  }
+
+  // Scans the balances of the watched addresses and alerts about the thresholds they crossed since
+  // the previous scan, or that they are past on their first scan
+  async refreshAddressBalances(addresses: string[]) {
+    if (addresses.length === 0) {
+      return;
+    }
+    try {
+      const balances = await updateAddressBalances(addresses);
+      const crossedBalances = balances.filter(([watchedAddress, confirmedBalanceSats]) => {
+        const {
+          confirmedBalanceSats: oldBalanceSats, balanceAboveSats, balanceBelowSats,
+        } = watchedAddress;
+        return (
+          (balanceAboveSats !== undefined)
+          && ((oldBalanceSats === undefined) || (oldBalanceSats <= balanceAboveSats))
+          && (confirmedBalanceSats > balanceAboveSats)
+        ) || (
+          (balanceBelowSats !== undefined)
+          && ((oldBalanceSats === undefined) || (oldBalanceSats > balanceBelowSats))
+          && (confirmedBalanceSats <= balanceBelowSats)
+        );
+      });
+      if (crossedBalances.length === 0) {
+        return;
+      }
+      const users = await UsersModel.find({
+        _id: {
+          $in: crossedBalances.map(([{ userId }]) => userId),
+        },
+      });
+      const userById = new Map(users.map((user) => [`${user.id}`, user]));
+      const mempoolUrlPrefix = await getMempoolUrlPrefix();
+      for await (const [watchedAddress, confirmedBalanceSats] of crossedBalances) {
+        const user = userById.get(`${watchedAddress.userId}`);
+        if (!user) {
+          continue;
+        }
+        const addressName = watchedAddress.nickname
+          ? `${watchedAddress.nickname} (${watchedAddress.address})`
+          : `${watchedAddress.address}`;
+        const isAbove = (
+          (watchedAddress.balanceAboveSats !== undefined)
+          && (confirmedBalanceSats > watchedAddress.balanceAboveSats)
+        );
+        const threshold = (
+          isAbove ? watchedAddress.balanceAboveSats : watchedAddress.balanceBelowSats
+        ) ?? 0;
+        const entities: NotificationEntity[] = [{
+          type: NotificationEntityType.Address,
+          id: watchedAddress.address,
+          ...watchedAddress.nickname && { nickname: watchedAddress.nickname },
+        }];
+        let bodyKey: MessageKey;
+        if (isAbove) {
+          bodyKey = 'addressBalanceAboveBody';
+        } else if (confirmedBalanceSats === 0) {
+          bodyKey = 'addressBalanceZeroBody';
+        } else {
+          bodyKey = 'addressBalanceBelowBody';
+        }
+        await this.notifyUser(user, {
+          event: NotificationEvent.AddressBalance,
+          severity: isAbove ? NotificationSeverity.Info : NotificationSeverity.Warning,
+          title: localize(user, isAbove ? 'addressBalanceAboveTitle' : 'addressBalanceBelowTitle'),
+          body: localize(user, bodyKey, {
+            address: addressName,
+            threshold: formatNumber(threshold, user),
+            balance: formatNumber(confirmedBalanceSats, user),
+          }),
+          links: mempoolLinks(mempoolUrlPrefix, entities, user),
+          entities,
+        });
+      }
+    } catch (error) {
+      logger.error(
+        `NotificationDispatcher: Failed to refresh address balances: ${errorString(error)}`,
+      );
+    }
+  }
+
+  private async addWalletPayment(
+    wallet: WatchedWalletDocument,
+    {
+      address, txid, status, confirmations, incomeSats, outcomeSats,
+    }: NewAddressPaymentEvent,
+  ) {
+    const newAddresses = await extendWalletAddresses(wallet, address);
+    if (newAddresses.length > 0) {
+      logger.info(`addWalletPayment: wallet ${wallet.id} extended by ${newAddresses.length}`);
+    }
+    const key = `${wallet.id}:${txid}:${status}`;
+    let walletPayment = this.walletPayments.get(key);
+    if (!walletPayment) {
+      walletPayment = {
+        walletId: wallet.id,
+        txid,
+        status,
+        confirmations,
+        incomeSats: 0,
+        outcomeSats: 0,
+      };
+      this.walletPayments.set(key, walletPayment);
+      setTimeout(() => this.onWalletPayment(key), walletPaymentAggregationMs);
+    }
+    walletPayment.incomeSats += incomeSats ?? 0;
+    walletPayment.outcomeSats += outcomeSats ?? 0;
+  }
+
+  private async onWalletPayment(key: string) {
+    const walletPayment = this.walletPayments.get(key);
+    this.walletPayments.delete(key);
+    if (!walletPayment) {
+      return;
+    }
+    const {
+      walletId, txid, status, confirmations, incomeSats, outcomeSats,
+    } = walletPayment;
+    try {
+      const wallet = await WatchedWalletsModel.findById(walletId);
+      const user = wallet && await UsersModel.findById(wallet.userId);
+      if (!wallet || !user) {
+        logger.info(`onWalletPayment: wallet ${walletId} was removed`);
+        return;
+      }
+      const walletName = wallet.nickname ?? `${wallet.extendedKey.slice(0, 12)}…`;
+      // The change outputs are deducted from the sent amount, which includes the fee
+      const isOutgoing = (outcomeSats > 0);
+      const amountSats = isOutgoing ? Math.max(outcomeSats - incomeSats, 0) : incomeSats;
+      const isConfirmed = (status === TransactionStatus.FullConfirmation);
+      const incomingKey = isConfirmed ? 'walletReceived' : 'walletReceiving';
+      const outgoingKey = isConfirmed ? 'walletSent' : 'walletSending';
+      const entities: NotificationEntity[] = [
+        {
+          type: NotificationEntityType.Wallet,
+          id: wallet.extendedKey,
+          ...wallet.nickname && { nickname: wallet.nickname },
+        },
+        {
+          type: NotificationEntityType.Transaction,
+          id: txid,
+        },
+      ];
+      await this.notifyUser(user, {
+        event: NotificationEvent.WalletPayment,
+        severity: NotificationSeverity.Info,
+        title: localize(
+          user,
+          isOutgoing ? 'walletPaymentOutgoingTitle' : 'walletPaymentIncomingTitle',
+        ),
+        body: localize(user, isOutgoing ? outgoingKey : incomingKey, {
+          emoji: statusEmoji(status),
+          wallet: walletName,
+          amount: formatNumber(amountSats, user),
+          txid,
+          confirmations: confirmationsMessage(status, confirmations, user),
+        }),
+        links: mempoolLinks(await getMempoolUrlPrefix(), entities, user),
+        entities,
+      });
+    } catch (error) {
+      logger.error(`onWalletPayment: failed to handle ${key}: ${errorString(error)}`);
+    }
+  }
+
+  private async onOutpointSpent({
+    outpoint, txid, status, confirmations, outputs,
+  }: OutpointSpentEvent) {
+    try {
+      logger.info(`onOutpointSpent: ${outpoint} ${txid}`);
+      const watchedOutpoints = await WatchedOutpointsModel.find({
+        outpoint,
+        spendingTxid: { $exists: false },
+      });
+      if (watchedOutpoints.length === 0) {
+        // safety check
+        bitcoindWatcher.unwatchOutpoint(outpoint);
+        return;
+      }
+      if (confirmations > 0) {
+        await WatchedOutpointsModel.updateMany(
+          {
+            _id: { $in: watchedOutpoints.map(({ _id }) => _id) },
+          },
+          {
+            $set: { spendingTxid: txid },
+          },
+        );
+      }
+      const users = await UsersModel.find({
+        _id: {
+          $in: watchedOutpoints.map(({ userId }) => userId),
+        },
+      });
+      const userById = new Map(users.map((user) => [`${user.id}`, user]));
+      const mempoolUrlPrefix = await getMempoolUrlPrefix();
+      for await (const watchedOutpoint of watchedOutpoints) {
+        const user = userById.get(`${watchedOutpoint.userId}`);
+        if (!user) {
+          continue;
+        }
+        const outpointName = watchedOutpoint.nickname
+          ? `${watchedOutpoint.nickname} (${outpoint})`
+          : outpoint;
+        const entities: NotificationEntity[] = [
+          {
+            type: NotificationEntityType.Outpoint,
+            id: outpoint,
+            ...watchedOutpoint.nickname && { nickname: watchedOutpoint.nickname },
+          },
+          {
+            type: NotificationEntityType.Transaction,
+            id: txid,
+          },
+        ];
+        await this.notifyUser(user, {
+          event: NotificationEvent.OutpointSpend,
+          severity: NotificationSeverity.Critical,
+          title: localize(user, (confirmations > 0) ? 'outpointSpentTitle' : 'outpointSpendingTitle'),
+          body: localize(user, (confirmations > 0) ? 'outpointSpentBody' : 'outpointSpendingBody', {
+            outpoint: outpointName,
+            amount: formatNumber(watchedOutpoint.valueSats, user),
+            txid,
+            confirmations: confirmationsMessage(status, confirmations, user),
+          }),
+          details: outputs.map(({ address, valueSats }) => (
+            `${address ?? localize(user, 'nonStandardScript')}: 丰${formatNumber(valueSats, user)}`
+          )).join('\n'),
+          links: mempoolLinks(mempoolUrlPrefix, entities, user),
+          entities,
+        });
+      }
+    } catch (error) {
+      logger.error(
+        `onOutpointSpent: failed to handle ${outpoint} ${txid}: ${errorString(error)}`,
+      );
+    }
+  }
+
+  private async onAddressOverload(address: string) {
+    try {
+      logger.info(`onAddressOverload: ${address}`);
+      const watchedAddresses = await WatchedAddressesModel.find({ address });
+      if (watchedAddresses.length === 0) {
+        // safety check
+        bitcoindWatcher.unwatchAddress(address);
+        return;
+      }
+      const users = await UsersModel.find({
+        _id: {
+          $in: watchedAddresses.map(({ userId }) => userId),
+        },
+      });
+      const userById = new Map(users.map((user) => [`${user.id}`, user]));
+      logger.info(`NotificationDispatcher: Notifying users about address overload ${
+        users.map((user) => user.id).join(', ')
+      }`);
+      const mempoolUrlPrefix = await getMempoolUrlPrefix();
+      for await (const watchedAddress of watchedAddresses) {
+        const user = userById.get(`${watchedAddress.userId}`);
+        if (!user) {
+          continue;
+        }
+        const addressName = watchedAddress.nickname
+          ? `${watchedAddress.nickname} (${watchedAddress.address})`
+          : `${watchedAddress.address}`;
+        const entities: NotificationEntity[] = [{
+          type: NotificationEntityType.Address,
+          id: address,
+          ...watchedAddress.nickname && { nickname: watchedAddress.nickname },
+        }];
+        await this.notifyUser(user, {
+          event: NotificationEvent.AddressOverload,
+          severity: NotificationSeverity.Warning,
+          title: localize(user, 'addressOverloadTitle'),
+          body: localize(user, 'addressOverloadBody', { address: addressName }),
+          links: mempoolLinks(mempoolUrlPrefix, entities, user),
+          entities,
+        });
+      }
+    } catch (error) {
+      logger.error(
+        `NotificationDispatcher: Failed to handle address overload: ${errorString(error)}`,
+      );
+    }
+  }
+
+  private async onNewMempoolClearStatus(parameters: NewMempoolClearStatusEvent) {
+    try {
+      logger.info(`onNewMempoolClearStatus: isClear ${parameters.isClear}`);
+      const watchMempoolClearUsers = await UsersModel.find({
+        watchMempoolClear: true,
+      });
+      await this.notifyUsers(watchMempoolClearUsers, (formatOptions) => ({
+        event: NotificationEvent.MempoolClearStatus,
+        severity: NotificationSeverity.Info,
+        title: localize(
+          formatOptions,
+          parameters.isClear ? 'mempoolClearTitle' : 'mempoolNotClearTitle',
+        ),
+        body: localize(formatOptions, parameters.isClear ? 'mempoolClearBody' : 'mempoolNotClearBody'),
+        links: [],
+        entities: [],
+      }));
+    } catch (error) {
+      logger.error(
+        `NotificationDispatcher: Failed to handle mempool clear status: ${errorString(error)}`,
+      );
+    }
+  }
+
+  private async onFeeRateThreshold(event: FeeRateThresholdEvent) {
+    try {
+      logger.info(`onFeeRateThreshold: ${JSON.stringify(event)}`);
+      const isBelow = (event.direction === FeeRateDirection.Below);
+      const user = await UsersModel.findOne({
+        _id: new Types.ObjectId(event.id),
+        [isBelow ? 'watchFeeRateBelow' : 'watchFeeRateAbove']: event.threshold,
+      });
+      if (!user) {
+        logger.info('onFeeRateThreshold: user not found');
+        bitcoindWatcher.unwatchFeeRate(event.id, event.direction);
+        return;
+      }
+      await this.notifyUser(user, {
+        event: NotificationEvent.FeeRate,
+        severity: NotificationSeverity.Info,
+        title: localize(user, isBelow ? 'feeRateBelowTitle' : 'feeRateAboveTitle', {
+          threshold: formatNumber(event.threshold, user),
+        }),
+        body: localize(user, isBelow ? 'feeRateBelowBody' : 'feeRateAboveBody', {
+          feeRate: formatNumber(event.feeRate, user),
+          threshold: formatNumber(event.threshold, user),
+        }),
+        links: [],
+        entities: [],
+      });
+    } catch (error) {
+      logger.error(
+        `NotificationDispatcher: Failed to handle fee rate threshold: ${errorString(error)}`,
+      );
+    }
+  }
+
+  private async onWhaleTransaction({
+    id, txid, amountSats, feeSats, feeRate, exceededThresholds,
+  }: WhaleTransactionEvent) {
+    try {
+      const now = Date.now();
+      const alertTimes = (this.whaleAlertTimes.get(id) ?? []).filter(
+        (alertTime) => (now - alertTime < whaleAlertsWindowMs),
+      );
+      if (alertTimes.length >= maxWhaleAlertsPerHour) {
+        logger.info(`onWhaleTransaction: rate limited ${txid} of ${id}`);
+        return;
+      }
+      const user = await UsersModel.findOne({
+        _id: new Types.ObjectId(id),
+        $or: exceededThresholds.map((threshold) => ({
+          [whaleThresholdUserFields[threshold]]: { $exists: true },
+        })),
+      });
+      // Only the thresholds that were removed from the user, the others are still watched
+      const removedThresholds = exceededThresholds.filter(
+        (threshold) => (user?.[whaleThresholdUserFields[threshold]] === undefined),
+      );
+      removedThresholds.forEach((threshold) => bitcoindWatcher.unwatchWhales(id, threshold));
+      if (!user) {
+        logger.info('onWhaleTransaction: user not found');
+        return;
+      }
+      alertTimes.push(now);
+      this.whaleAlertTimes.set(id, alertTimes);
+      const reasons = exceededThresholds.filter(
+        (threshold) => !removedThresholds.includes(threshold),
+      ).map((threshold) => {
+        const value = user[whaleThresholdUserFields[threshold]] ?? 0;
+        switch (threshold) {
+          case WhaleThreshold.Amount:
+            return localize(user, 'whaleAmountReason', { amount: formatNumber(value, user) });
+          case WhaleThreshold.Fee:
+            return localize(user, 'whaleFeeReason', { fee: formatNumber(value, user) });
+          case WhaleThreshold.FeeRate: // fallthrough
+          default:
+            return localize(user, 'whaleFeeRateReason', { feeRate: formatNumber(value, user) });
+        }
+      });
+      const entities: NotificationEntity[] = [{
+        type: NotificationEntityType.Transaction,
+        id: txid,
+      }];
+      await this.notifyUser(user, {
+        event: NotificationEvent.WhaleTransaction,
+        severity: NotificationSeverity.Info,
+        title: localize(user, 'whaleTitle'),
+        body: [
+          localize(user, 'whaleBody', {
+            txid,
+            amount: formatNumber(amountSats, user),
+            fee: formatNumber(feeSats, user),
+            feeRate: formatNumber(feeRate, user),
+            reasons: reasons.join(localize(user, 'whaleReasonsSeparator')),
+          }),
+          ...(alertTimes.length === maxWhaleAlertsPerHour) ? [
+            localize(user, 'whalePaused', { count: maxWhaleAlertsPerHour }),
+          ] : [],
+        ].join(' '),
+        links: mempoolLinks(await getMempoolUrlPrefix(), entities, user),
+        entities,
+      });
+    } catch (error) {
+      logger.error(
+        `NotificationDispatcher: Failed to handle whale transaction: ${errorString(error)}`,
+      );
+    }
+  }
+
+  private async onChainCountdown(event: ChainCountdownEvent) {
+    try {
+      logger.info(`onChainCountdown: ${JSON.stringify(event)}`);
+      await SettingsModel.updateOne(
+        { _id: zeroObjectId },
+        {
+          $set: {
+            reportedChainMilestones: event.reportedMilestones,
+          },
+        },
+      );
+      const isHalving = (event.name === ChainCountdownName.Halving);
+      const users = await UsersModel.find(
+        isHalving ? { watchHalving: true } : { watchDifficulty: true },
+      );
+      await this.notifyUsers(users, (formatOptions) => ({
+        event: isHalving ? NotificationEvent.Halving : NotificationEvent.DifficultyAdjustment,
+        severity: NotificationSeverity.Info,
+        title: localize(
+          formatOptions,
+          isHalving ? 'halvingCountdownTitle' : 'difficultyCountdownTitle',
+          { milestone: event.milestone },
+        ),
+        body: [
+          localize(formatOptions, isHalving ? 'halvingCountdownBody' : 'difficultyCountdownBody', {
+            height: event.targetHeight,
+            blocks: countText(formatOptions, event.blocksLeft, 'blockCountOne', 'blockCount'),
+            time: hoursLeft(event.timeLeftMs, formatOptions),
+            date: prettyDate(new Date(event.estimatedTime).toJSON(), formatOptions),
+          }),
+          ...(event.projectedDifficultyChange !== undefined) ? [
+            localize(formatOptions, 'difficultyCountdownProjection', {
+              change: signedPercent(event.projectedDifficultyChange, formatOptions),
+            }),
+          ] : [],
+        ].join(' '),
+        links: [],
+        entities: [],
+      }));
+    } catch (error) {
+      logger.error(
+        `NotificationDispatcher: Failed to handle chain countdown: ${errorString(error)}`,
+      );
+    }
+  }
+
+  private async onDifficultyAdjustment(event: DifficultyAdjustmentEvent) {
+    try {
+      logger.info(`onDifficultyAdjustment: ${JSON.stringify(event)}`);
+      await SettingsModel.updateOne(
+        { _id: zeroObjectId },
+        {
+          $set: {
+            reportedDifficultyAdjustmentHeight: event.height,
+          },
+        },
+      );
+      const users = await UsersModel.find({
+        watchDifficulty: true,
+      });
+      await this.notifyUsers(users, (formatOptions) => ({
+        event: NotificationEvent.DifficultyAdjustment,
+        severity: NotificationSeverity.Info,
+        title: localize(formatOptions, 'difficultyAdjustedTitle'),
+        body: localize(formatOptions, 'difficultyAdjustedBody', {
+          emoji: (event.difficultyChange < 0) ? '📉' : '📈',
+          height: event.height,
+          change: signedPercent(event.difficultyChange, formatOptions),
+          oldDifficulty: formatNumber(Math.round(event.oldDifficulty), formatOptions),
+          newDifficulty: formatNumber(Math.round(event.newDifficulty), formatOptions),
+        }),
+        links: [],
+        entities: [],
+      }));
+    } catch (error) {
+      logger.error(
+        `NotificationDispatcher: Failed to handle difficulty adjustment: ${errorString(error)}`,
+      );
+    }
+  }
+
+  private async onHalving(event: HalvingEvent) {
+    try {
+      logger.info(`onHalving: ${JSON.stringify(event)}`);
+      await SettingsModel.updateOne(
+        { _id: zeroObjectId },
+        {
+          $set: {
+            reportedHalvingHeight: event.height,
+          },
+        },
+      );
+      const users = await UsersModel.find({
+        watchHalving: true,
+      });
+      await this.notifyUsers(users, (formatOptions) => ({
+        event: NotificationEvent.Halving,
+        severity: NotificationSeverity.Success,
+        title: localize(formatOptions, 'halvingTitle'),
+        body: localize(formatOptions, 'halvingBody', {
+          height: event.height,
+          subsidy: formatNumber(event.subsidySats, formatOptions),
+        }),
+        links: [],
+        entities: [],
+      }));
+    } catch (error) {
+      logger.error(`NotificationDispatcher: Failed to handle halving: ${errorString(error)}`);
+    }
+  }
+
+  private async onNodeHealth({
+    id, problems, newProblems, resolvedProblems, status,
+  }: NodeHealthEvent) {
+    try {
+      logger.info(`onNodeHealth: ${id} problems ${problems.join(', ')} new ${
+        newProblems.join(', ')
+      } resolved ${resolvedProblems.join(', ')}`);
+      const user = await UsersModel.findOne({
+        _id: new Types.ObjectId(id),
+        watchNodeHealth: { $exists: true },
+      });
+      if (!user) {
+        logger.info('onNodeHealth: user not found');
+        bitcoindWatcher.unwatchNodeHealth(id);
+        return;
+      }
+      const nodeName = status
+        ? localize(user, 'nodeNameVersion', { version: status.version })
+        : localize(user, 'nodeName');
+      if (problems.length === 0) {
+        await this.notifyUser(user, {
+          event: NotificationEvent.NodeHealth,
+          severity: NotificationSeverity.Success,
+          title: localize(user, 'nodeHealthyTitle'),
+          body: [
+            localize(user, 'nodeHealthyBody', { node: nodeName }),
+            ...status ? [
+              localize(user, 'nodeHealthyStatus', {
+                peers: status.peers,
+                blocks: formatNumber(status.blocks, user),
+              }),
+            ] : [],
+          ].join(' '),
+          links: [],
+          entities: [],
+        });
+        return;
+      }
+      const isCritical = problems.includes(NodeHealthProblem.Unreachable)
+        || problems.includes(NodeHealthProblem.Syncing);
+      await this.notifyUser(user, {
+        event: NotificationEvent.NodeHealth,
+        severity: isCritical ? NotificationSeverity.Critical : NotificationSeverity.Warning,
+        title: localize(user, 'nodeHealthTitle'),
+        body: [
+          localize(user, 'nodeHealthBody', {
+            node: nodeName,
+            problems: problems.map(
+              (problem) => nodeHealthProblemText(problem, status, user.watchNodeHealth ?? 0, user),
+            ).join('; '),
+          }),
+          ...(resolvedProblems.length > 0) ? [
+            localize(user, 'nodeHealthResolved', {
+              problems: resolvedProblems.map(
+                (problem) => localize(user, nodeHealthProblemLabelKeys[problem]),
+              ).join(', '),
+            }),
+          ] : [],
+        ].join(' '),
+        links: [],
+        entities: [],
+      });
+    } catch (error) {
+      logger.error(`NotificationDispatcher: Failed to handle node health: ${errorString(error)}`);
+    }
+  }
+
+  private onNewTransactionAnalysis(parameters: NewTransactionAnalysisEvent) {
+    logger.info(
+      `onNewTransactionAnalysis: txid ${
+        parameters.txid
+      }, old-analysis ${
+        transactionAnalysisToString(parameters.oldAnalysis)
+      }, new-analysis ${
+        transactionAnalysisToString(parameters.newAnalysis)
+      }`,
+    );
+    if (this.newTransactionAnalysesQueue) {
+      this.newTransactionAnalysesQueue.push(parameters);
+      return;
+    }
+    this.handleNewTransactionAnalysis(parameters);
+  }
+
+  private async onLndChannelsStatus(event: LndChannelsStatusEvent) {
+    try {
+      logger.info(`onLndChannelsStatus: ${JSON.stringify(event)}`);
+      const settings = await SettingsModel.findByIdAndUpdate(
+        zeroObjectId,
+        {
+          $set: {
+            lndChannels: event.allChannels,
+          },
+        },
+      );
+      if (!settings) {
+        throw new Error('settings not found');
+      }
+      if (!settings.lndChannels) {
+        return;
+      }
+      if (event.addedChannels.length > 0) {
+        const openedChannelsUsers = await UsersModel.find({
+          watchLightningChannelsOpened: true,
+        });
+        const isSingle = (event.addedChannels.length === 1);
+        await this.notifyUsers(openedChannelsUsers, (formatOptions) => ({
+          event: NotificationEvent.LightningChannelsOpened,
+          severity: NotificationSeverity.Info,
+          title: localize(formatOptions, isSingle ? 'channelOpenedTitle' : 'channelsOpenedTitle'),
+          body: localize(formatOptions, isSingle ? 'channelOpenedBody' : 'channelsOpenedBody', {
+            channels: event.addedChannels.map(
+              (channel) => channelFullName(channel, formatOptions),
+            ).join(', '),
+          }),
+          links: [],
+          entities: event.addedChannels.map(channelEntity),
+        }));
+      }
+      if (event.removedChannels.length > 0) {
+        const closedChannelsUsers = await UsersModel.find({
+          watchLightningChannelsClosed: true,
+        });
+        const isSingle = (event.removedChannels.length === 1);
+        await this.notifyUsers(closedChannelsUsers, (formatOptions) => ({
+          event: NotificationEvent.LightningChannelsClosed,
+          severity: NotificationSeverity.Info,
+          title: localize(formatOptions, isSingle ? 'channelClosedTitle' : 'channelsClosedTitle'),
+          body: localize(formatOptions, isSingle ? 'channelClosedBody' : 'channelsClosedBody', {
+            channels: event.removedChannels.map(
+              (channel) => channelFullName(channel, formatOptions),
+            ).join(', '),
+          }),
+          links: [],
+          entities: event.removedChannels.map(channelEntity),
+        }));
+      }
+    } catch (error) {
+      logger.error(`onLndChannelsStatus: failed ${errorString(error)}`);
+    }
+  }
+
+  private async onLndNewForwards(event: LndNewForwardsEvent) {
+    try {
+      logger.info(`onLndNewForwards: ${JSON.stringify(event)}`);
+      const settings = await SettingsModel.findByIdAndUpdate(
+        zeroObjectId,
+        {
+          $set: {
+            lndLastForwardAt: event.lastForwardAt,
+            lndLastForwardCount: event.lastForwardCount,
+          },
+        },
+      );
+      if (!settings) {
+        throw new Error('settings not found');
+      }
+      if (event.forwards.length === 0 && !event.tooMany) {
+        return;
+      }
+      const users = await UsersModel.find({
+        watchLightningForwards: true,
+      });
+      await this.notifyUsers(users, (formatOptions) => ({
+        event: NotificationEvent.LightningForwards,
+        severity: NotificationSeverity.Success,
+        title: localize(formatOptions, 'forwardsTitle'),
+        body: event.forwards.length > 0
+          ? localize(formatOptions, 'forwardsBody', {
+            forwards: event.forwards.map((forward) => localize(formatOptions, 'forward', {
+              fee: mSatsToSats(forward.fee_mtokens, formatOptions),
+              amount: mSatsToSats(forward.mtokens, formatOptions),
+              date: prettyDate(forward.createdAt.toJSON(), formatOptions),
+              incomingChannel: channelFullName({
+                channelId: forward.incoming_channel, partnerName: forward.incomingPartnerName,
+              }, formatOptions),
+              outgoingChannel: channelFullName({
+                channelId: forward.outgoing_channel, partnerName: forward.outgoingPartnerName,
+              }, formatOptions),
+            })).join(', '),
+          })
+          : localize(formatOptions, 'forwardsTooMany'),
+        links: [],
+        entities: event.forwards.flatMap((forward) => [
+          channelEntity({
+            channelId: forward.incoming_channel, partnerName: forward.incomingPartnerName,
+          }),
+          channelEntity({
+            channelId: forward.outgoing_channel, partnerName: forward.outgoingPartnerName,
+          }),
+        ]),
+      }));
+    } catch (error) {
+      logger.error(`onLndNewForwards: failed ${errorString(error)}`);
+    }
+  }
+
+  private async onLndInvoiceUpdated(event: LndInvoiceUpdatedEvent) {
+    try {
+      logger.info(`onLndInvoiceUpdated: ${event.id} ${event.confirmed_at ?? 'unconfirmed'}`);
+      const users = await UsersModel.find(
+        event.confirmed_at
+          ? {
+            watchLightningInvoicesPaid: true,
+          }
+          : {
+            watchLightningInvoicesCreated: true,
+          },
+      );
+      await this.notifyUsers(users, (formatOptions) => ({
+        event: event.confirmed_at
+          ? NotificationEvent.LightningInvoicePaid : NotificationEvent.LightningInvoiceCreated,
+        severity: event.confirmed_at ? NotificationSeverity.Success : NotificationSeverity.Info,
+        title: localize(
+          formatOptions,
+          event.confirmed_at ? 'invoicePaidTitle' : 'invoiceCreatedTitle',
+        ),
+        body: [
+          event.confirmed_at
+            ? localize(formatOptions, 'invoicePaidBody', {
+              amount: mSatsToSats(event.received_mtokens, formatOptions),
+              date: prettyDate(event.confirmed_at, formatOptions),
+              createdAt: prettyDate(event.created_at, formatOptions),
+            })
+            : localize(formatOptions, 'invoiceCreatedBody', {
+              amount: event.mtokens
+                ? localize(formatOptions, 'invoiceAmount', {
+                  amount: mSatsToSats(event.mtokens, formatOptions),
+                })
+                : localize(formatOptions, 'invoiceUnknownAmount'),
+              date: prettyDate(event.created_at, formatOptions),
+              expiresAt: prettyDate(event.expires_at, formatOptions),
+            }),
+          localize(
+            formatOptions,
+            event.description ? 'invoiceDescription' : 'invoiceDescriptionEmpty',
+          ),
+        ].join('\n'),
+        ...event.description && { details: event.description },
+        links: [],
+        entities: [{
+          type: NotificationEntityType.LightningInvoice,
+          id: event.id,
+        }],
+      }));
+    } catch (error) {
+      logger.error(`onLndInvoiceUpdated: failed ${errorString(error)}`);
+    }
+  }
+
+  private async onLndLiquidityThreshold({
+    id, channelId, partnerName, direction, threshold, localRatio, localBalanceSats, capacitySats,
+  }: LndLiquidityThresholdEvent) {
+    try {
+      logger.info(`onLndLiquidityThreshold: ${id} ${channelId} ${direction} ${threshold}`);
+      const user = await UsersModel.findOne({
+        _id: new Types.ObjectId(id),
+        $or: [
+          { watchLightningLiquidityBelow: { $exists: true } },
+          { watchLightningLiquidityAbove: { $exists: true } },
+          { 'watchLightningChannelsLiquidity.0': { $exists: true } },
+        ],
+      });
+      if (!user) {
+        logger.info('onLndLiquidityThreshold: user not found');
+        lndWatcher.unwatchLiquidity(id);
+        return;
+      }
+      await this.notifyUser(user, {
+        event: NotificationEvent.LightningLiquidity,
+        severity: NotificationSeverity.Warning,
+        title: localize(user, 'liquidityTitle'),
+        body: localize(
+          user,
+          (direction === LiquidityDirection.Below) ? 'liquidityBelowBody' : 'liquidityAboveBody',
+          {
+            channel: channelFullName({ channelId, partnerName }, user),
+            threshold: formatNumber(threshold, user),
+            ratio: formatNumber(localRatio, user),
+            balance: formatNumber(localBalanceSats, user),
+            capacity: formatNumber(capacitySats, user),
+          },
+        ),
+        links: [],
+        entities: [channelEntity({ channelId, partnerName })],
+      });
+    } catch (error) {
+      logger.error(`onLndLiquidityThreshold: failed ${errorString(error)}`);
+    }
+  }
+
+  private async handleNewTransactionAnalysis({
+    txid, oldAnalysis, newAnalysis,
+  }: NewTransactionAnalysisEvent) {
+    try {
+      const transactions = await WatchedTransactionsModel.find({ txid });
+      if (transactions.length === 0) {
+        // safety check
+        bitcoindWatcher.unwatchTransaction(txid);
+        return;
+      }
+      if (newAnalysis.status === TransactionStatus.FullConfirmation) {
+        // Watches with confirmation targets are kept until their last target is reached
+        await WatchedTransactionsModel.deleteMany({
+          txid,
+          'confirmationTargets.0': { $exists: false },
+        });
+      }
+      await WatchedTransactionsModel.updateMany(
+        {
+          txid,
+        },
+        {
+          $set: {
+            ...newAnalysis,
+            ...newAnalysis.transactionInputKeys && {
+              transactionInputKeys: [...newAnalysis.transactionInputKeys],
+            },
+            ...newAnalysis.conflictingTransactions && {
+              conflictingTransactions: [...newAnalysis.conflictingTransactions],
+            },
+            blockHashes: [...newAnalysis.blockHashes],
+            ...(newAnalysis.rawTransaction !== undefined) && {
+              rawTransaction: JSON.stringify(newAnalysis.rawTransaction),
+            },
+          },
+        },
+      );
+      const users = await UsersModel.find({
+        _id: {
+          $in: transactions.map((transaction) => transaction.userId),
+        },
+      });
+      const userById = new Map(users.map((user) => [`${user.id}`, user]));
+      logger.info(`NotificationDispatcher: Notifying users about new transaction analysis ${
+        txid
+      }: ${users.map((user) => user.id).join(', ')}`);
+      const mempoolUrlPrefix = await getMempoolUrlPrefix();
+      for await (const transaction of transactions) {
+        const user = userById.get(`${transaction.userId}`);
+        if (!user) {
+          continue;
+        }
+        const messages: string[] = [];
+        const transactionName = transaction.nickname
+          ? `${transaction.nickname} (${transaction.txid})`
+          : `${transaction.txid}`;
+        const blocks = [...newAnalysis.blockHashes].map(prettyBlockHash).join(', ')
+          || localize(user, 'unknownBlock');
+        // The confirmations of watches with targets are notified by onTransactionConfirmations
+        const hasConfirmationTargets = (transaction.confirmationTargets.length > 0);
+        if (oldAnalysis.status !== newAnalysis.status) {
+          switch (newAnalysis.status) {
+            case TransactionStatus.Mempool:
+              messages.push(
+                localize(user, 'transactionMempool', { transaction: transactionName }),
+              );
+              break;
+            case TransactionStatus.PartialConfirmation:
+              if (hasConfirmationTargets) {
+                break;
+              }
+              messages.push(
+                localize(user, 'transactionMined', { transaction: transactionName, blocks }),
+              );
+              break;
+            case TransactionStatus.FullConfirmation:
+              if (hasConfirmationTargets) {
+                break;
+              }
+              messages.push(localize(user, 'transactionConfirmed', {
+                transaction: transactionName,
+                confirmations: newAnalysis.confirmations,
+                blocks,
+              }));
+              break;
+            case TransactionStatus.Unpublished: // fallthrough
+            default:
+              break;
+          }
+        }
+        // New conflicts are notified by onTransactionReplaced, once they are classified
+        if (messages.length > 0) {
+          const entities: NotificationEntity[] = [
+            {
+              type: NotificationEntityType.Transaction,
+              id: txid,
+              ...transaction.nickname && { nickname: transaction.nickname },
+            },
+            ...[...newAnalysis.blockHashes].map((blockHash) => ({
+              type: NotificationEntityType.Block,
+              id: blockHash,
+            })),
+          ];
+          await this.notifyUser(user, {
+            event: NotificationEvent.TransactionUpdate,
+            severity: NotificationSeverity.Info,
+            title: localize(user, 'transactionUpdateTitle'),
+            body: messages.join(' '),
+            links: mempoolLinks(mempoolUrlPrefix, entities, user),
+            entities,
+          });
+        }
+      }
+    } catch (error) {
+      logger.error(
+        `NotificationDispatcher: Failed to handle new transaction analysis: ${errorString(error)}`,
+      );
+    }
+  }
+
+  private async onTransactionConfirmations({
+    txid, confirmations,
+  }: TransactionConfirmationsEvent) {
+    try {
+      const transactions = await WatchedTransactionsModel.find({
+        txid,
+        'confirmationTargets.0': { $exists: true },
+      });
+      if (transactions.length === 0) {
+        bitcoindWatcher.unwatchConfirmations(txid);
+        return;
+      }
+      const users = await UsersModel.find({
+        _id: {
+          $in: transactions.map((transaction) => transaction.userId),
+        },
+      });
+      const userById = new Map(users.map((user) => [`${user.id}`, user]));
+      const mempoolUrlPrefix = await getMempoolUrlPrefix();
+      let hasRemovedWatches = false;
+      for await (const transaction of transactions) {
+        const { confirmationTargets } = transaction;
+        const notifiedConfirmations = transaction.notifiedConfirmations ?? 0;
+        const reachedTargets = confirmationTargets.filter(
+          (target) => (notifiedConfirmations < target) && (target <= confirmations),
+        );
+        if (reachedTargets.length === 0) {
+          continue;
+        }
+        const nextTarget = confirmationTargets.find((target) => (target > confirmations));
+        if (nextTarget === undefined) {
+          await WatchedTransactionsModel.deleteOne({ _id: transaction._id });
+          hasRemovedWatches = true;
+        } else {
+          await WatchedTransactionsModel.updateOne(
+            { _id: transaction._id },
+            { $set: { notifiedConfirmations: confirmations } },
+          );
+        }
+        const user = userById.get(`${transaction.userId}`);
+        if (!user) {
+          continue;
+        }
+        const transactionName = transaction.nickname
+          ? `${transaction.nickname} (${transaction.txid})`
+          : `${transaction.txid}`;
+        const entities: NotificationEntity[] = [{
+          type: NotificationEntityType.Transaction,
+          id: txid,
+          ...transaction.nickname && { nickname: transaction.nickname },
+        }];
+        await this.notifyUser(user, {
+          event: NotificationEvent.TransactionUpdate,
+          severity: NotificationSeverity.Info,
+          title: localize(user, 'confirmationTargetTitle'),
+          body: [
+            localize(user, 'confirmationTargetBody', {
+              transaction: transactionName,
+              confirmations: countText(
+                user,
+                confirmations,
+                'confirmationCountOne',
+                'confirmationCount',
+              ),
+              target: reachedTargets[reachedTargets.length - 1],
+            }),
+            (nextTarget === undefined)
+              ? localize(user, 'confirmationTargetLast')
+              : localize(user, 'confirmationTargetNext', { target: nextTarget }),
+          ].join(' '),
+          links: mempoolLinks(mempoolUrlPrefix, entities, user),
+          entities,
+        });
+      }
+      if (hasRemovedWatches) {
+        await unwatchUnusedTransactions([txid]);
+      }
+    } catch (error) {
+      logger.error(
+        `NotificationDispatcher: Failed to handle transaction confirmations: ${
+          errorString(error)
+        }`,
+      );
+    }
+  }
+
+  private async onTransactionReplaced({
+    txid, replacingTxid, replacementType, oldFeeRate, newFeeRate,
+  }: TransactionReplacedEvent) {
+    try {
+      const transactions = await WatchedTransactionsModel.find({ txid });
+      if (transactions.length === 0) {
+        return;
+      }
+      const users = await UsersModel.find({
+        _id: {
+          $in: transactions.map((transaction) => transaction.userId),
+        },
+      });
+      const userById = new Map(users.map((user) => [`${user.id}`, user]));
+      const mempoolUrlPrefix = await getMempoolUrlPrefix();
+      for await (const transaction of transactions) {
+        const user = userById.get(`${transaction.userId}`);
+        if (!user) {
+          continue;
+        }
+        const transactionName = transaction.nickname
+          ? `${transaction.nickname} (${transaction.txid})`
+          : `${transaction.txid}`;
+        const feeRateChange = ((oldFeeRate !== undefined) && (newFeeRate !== undefined))
+          ? localize(user, 'feeRateChange', {
+            oldFeeRate: formatNumber(oldFeeRate, user),
+            newFeeRate: formatNumber(newFeeRate, user),
+          })
+          : '';
+        const messages: string[] = [];
+        switch (replacementType) {
+          case ReplacementType.FeeBump:
+            messages.push(
+              localize(user, 'feeBumpBody', { transaction: transactionName, replacingTxid }),
+              feeRateChange,
+              localize(user, 'feeBumpHarmless'),
+            );
+            break;
+          case ReplacementType.DoubleSpend:
+            messages.push(
+              localize(user, 'doubleSpendBody', { transaction: transactionName, replacingTxid }),
+              feeRateChange,
+              localize(user, 'doubleSpendRedirect'),
+            );
+            break;
+          case ReplacementType.Unknown: // fallthrough
+          default:
+            messages.push(
+              localize(user, 'conflictBody', { transaction: transactionName, replacingTxid }),
+            );
+            break;
+        }
+        const entities: NotificationEntity[] = [
+          {
+            type: NotificationEntityType.Transaction,
+            id: txid,
+            ...transaction.nickname && { nickname: transaction.nickname },
+          },
+          {
+            type: NotificationEntityType.Transaction,
+            id: replacingTxid,
+          },
+        ];
+        await this.notifyUser(user, {
+          event: NotificationEvent.TransactionUpdate,
+          severity: (replacementType === ReplacementType.FeeBump)
+            ? NotificationSeverity.Info : NotificationSeverity.Critical,
+          title: localize(user, ({
+            [ReplacementType.FeeBump]: 'feeBumpTitle',
+            [ReplacementType.DoubleSpend]: 'doubleSpendTitle',
+            [ReplacementType.Unknown]: 'conflictTitle',
+          } as const)[replacementType]),
+          body: messages.filter(Boolean).join(' '),
+          links: mempoolLinks(mempoolUrlPrefix, entities, user),
+          entities,
+        });
+      }
+    } catch (error) {
+      logger.error(
+        `NotificationDispatcher: Failed to handle transaction replacement: ${errorString(error)}`,
+      );
+    }
+  }
+
+  private async onTransactionCpfp({
+    txid, childTxid, feeRate, effectiveFeeRate,
+  }: TransactionCpfpEvent) {
+    try {
+      const transactions = await WatchedTransactionsModel.find({ txid });
+      if (transactions.length === 0) {
+        return;
+      }
+      const users = await UsersModel.find({
+        _id: {
+          $in: transactions.map((transaction) => transaction.userId),
+        },
+      });
+      const userById = new Map(users.map((user) => [`${user.id}`, user]));
+      const mempoolUrlPrefix = await getMempoolUrlPrefix();
+      for await (const transaction of transactions) {
+        const user = userById.get(`${transaction.userId}`);
+        if (!user) {
+          continue;
+        }
+        const transactionName = transaction.nickname
+          ? `${transaction.nickname} (${transaction.txid})`
+          : `${transaction.txid}`;
+        const entities: NotificationEntity[] = [
+          {
+            type: NotificationEntityType.Transaction,
+            id: txid,
+            ...transaction.nickname && { nickname: transaction.nickname },
+          },
+          {
+            type: NotificationEntityType.Transaction,
+            id: childTxid,
+          },
+        ];
+        await this.notifyUser(user, {
+          event: NotificationEvent.TransactionUpdate,
+          severity: NotificationSeverity.Info,
+          title: localize(user, 'cpfpTitle'),
+          body: localize(user, 'cpfpBody', {
+            childTxid,
+            transaction: transactionName,
+            feeRate: formatNumber(feeRate, user),
+            effectiveFeeRate: formatNumber(effectiveFeeRate, user),
+          }),
+          links: mempoolLinks(mempoolUrlPrefix, entities, user),
+          entities,
+        });
+      }
+    } catch (error) {
+      logger.error(
+        `NotificationDispatcher: Failed to handle transaction cpfp: ${errorString(error)}`,
+      );
+    }
+  }
+
+  private async onTransactionEvicted({
+    txid, reason, feeRate, minFeeRate,
+  }: TransactionEvictedEvent) {
+    try {
+      const transactions = await WatchedTransactionsModel.find({ txid });
+      if (transactions.length === 0) {
+        return;
+      }
+      const users = await UsersModel.find({
+        _id: {
+          $in: transactions.map((transaction) => transaction.userId),
+        },
+      });
+      const userById = new Map(users.map((user) => [`${user.id}`, user]));
+      const mempoolUrlPrefix = await getMempoolUrlPrefix();
+      for await (const transaction of transactions) {
+        const user = userById.get(`${transaction.userId}`);
+        if (!user) {
+          continue;
+        }
+        const transactionName = transaction.nickname
+          ? `${transaction.nickname} (${transaction.txid})`
+          : `${transaction.txid}`;
+        const messages = [
+          localize(user, 'evictedBody', { transaction: transactionName }),
+        ];
+        switch (reason) {
+          case EvictionReason.Expiry:
+            messages.push(localize(user, 'evictedExpiry'));
+            break;
+          case EvictionReason.MinFee:
+            messages.push(localize(user, 'evictedMinFee', {
+              feeRate: formatNumber(feeRate ?? 0, user),
+              minFeeRate: formatNumber(minFeeRate ?? 0, user),
+            }));
+            break;
+          case EvictionReason.Unknown: // fallthrough
+          default:
+            messages.push(localize(user, 'evictedUnknown'));
+            break;
+        }
+        // The last analysis that was saved while the transaction was in the mempool
+        const rawTransaction: RawTransaction | undefined = transaction.rawTransaction
+          ? JSON.parse(transaction.rawTransaction) : undefined;
+        const rebroadcastHex = (
+          rawTransaction?.hex && (rawTransaction.hex.length <= maxRebroadcastHexLength)
+        ) ? rawTransaction.hex : undefined;
+        messages.push(
+          localize(user, rebroadcastHex ? 'evictedRebroadcastHex' : 'evictedRebroadcastWallet'),
+        );
+        const entities: NotificationEntity[] = [
+          {
+            type: NotificationEntityType.Transaction,
+            id: txid,
+            ...transaction.nickname && { nickname: transaction.nickname },
+          },
+        ];
+        await this.notifyUser(user, {
+          event: NotificationEvent.TransactionUpdate,
+          severity: NotificationSeverity.Warning,
+          title: localize(user, 'evictedTitle'),
+          body: messages.join(' '),
+          ...rebroadcastHex && { details: rebroadcastHex },
+          links: mempoolLinks(mempoolUrlPrefix, entities, user),
+          entities,
+        });
+      }
+    } catch (error) {
+      logger.error(
+        `NotificationDispatcher: Failed to handle transaction eviction: ${errorString(error)}`,
+      );
+    }
+  }
+}
+
+export const notificationDispatcher = new NotificationDispatcher();
@@ -0,0 +1,219 @@
+import {
+  NotificationOutboxModel, OutboxMessageDocument, OutboxStatus, OutboxTransport,
+} from '../models/notification-outbox';
+import { errorString } from './error';
+import logger from './logger';
+
+export interface OutboxSender {
+  // False when the transport cannot deliver at the moment (i.e. bot is not configured), the
+  // pending messages will wait without consuming attempts.
+  isReady(): boolean;
+  send(message: OutboxMessageDocument): Promise<void>;
+  // True if the delivery should be attempted again later (i.e. networking errors)
+  isRetriableError(error: unknown): boolean;
+}
+
+export interface EnqueueOutboxMessageParams {
+  transport: OutboxTransport;
+  destination: string;
+  payload: string;
+}
+
+const outboxIntervalMs = 15_000;
+// A message that is being delivered is claimed for this period, so if the server crashed in the
+// middle of the delivery, the message will be retried after the lease expires.
+const deliveryLeaseMs = 300_000;
+const retryBaseDelayMs = 30_000;
+const retryMaxDelayMs = 3_600_000;
+const maxAttempts = 20;
+const finishedMessagesTtlMs = 7 * 24 * 3_600_000;
+const maxErrorLength = 1_000;
+
+function retryDelayMs(attempts: number): number {
+  return Math.min(retryBaseDelayMs * (2 ** Math.max(attempts - 1, 0)), retryMaxDelayMs);
+}
+
+class NotificationOutbox {
+  private senders = new Map<OutboxTransport, OutboxSender>();
+
+  private interval: ReturnType<typeof setInterval> | undefined;
+
+  // maps `${transport}:${destination}` -> last immediate delivery, so the messages of a destination
+  // keep their order without waiting for the deliveries to other destinations
+  private deliveries = new Map<string, Promise<void>>();
+
+  registerSender(transport: OutboxTransport, sender: OutboxSender) {
+    this.senders.set(transport, sender);
+  }
+
+  async enqueue(params: EnqueueOutboxMessageParams): Promise<void> {
+    const now = new Date();
+    const sender = this.senders.get(params.transport);
+    const isReady = sender?.isReady() ?? false;
+    // The older pending messages of the destination (i.e. waiting for a retry after a rate limit)
+    // are delivered first, so the new message waits for the handler to deliver them in order.
+    const hasPendingMessages = isReady && Boolean(await NotificationOutboxModel.exists({
+      transport: params.transport,
+      destination: params.destination,
+      status: OutboxStatus.Pending,
+    }));
+    const isImmediate = isReady && !hasPendingMessages;
+    const message = await NotificationOutboxModel.create({
+      ...params,
+      status: OutboxStatus.Pending,
+      attempts: 0,
+      // If the message can be delivered now, it is claimed for immediate delivery
+      nextAttemptAt: isImmediate ? new Date(now.getTime() + deliveryLeaseMs) : now,
+    });
+    if (!sender || !isImmediate) {
+      logger.info(
+        `NotificationOutbox: ${
+          isReady ? `${params.destination} has pending messages` : `${params.transport} is not ready`
+        }, message ${message._id} will wait`,
+      );
+      return;
+    }
+    // Not awaited, a slow transport should not hold back the notifications of the other users
+    const deliveryKey = `${params.transport}:${params.destination}`;
+    const delivery = (this.deliveries.get(deliveryKey) ?? Promise.resolve()).then(async () => {
+      await NotificationOutbox.deliver(sender, message);
+    }).catch((error) => {
+      logger.error(
+        `NotificationOutbox: Failed to deliver message ${message._id}: ${errorString(error)}`,
+      );
+    }).finally(() => {
+      if (this.deliveries.get(deliveryKey) === delivery) {
+        this.deliveries.delete(deliveryKey);
+      }
+    });
+    this.deliveries.set(deliveryKey, delivery);
+  }
+
+  start() {
+    if (this.interval) {
+      clearInterval(this.interval);
+    }
+    let isRunning = false;
+    this.interval = setInterval(async () => {
+      if (isRunning) {
+        logger.info('NotificationOutbox: Handler is already running');
+        return;
+      }
+      isRunning = true;
+      try {
+        await this.handleDueMessages();
+      } catch (error) {
+        logger.error(`NotificationOutbox: Handler failed: ${errorString(error)}`);
+      } finally {
+        isRunning = false;
+      }
+    }, outboxIntervalMs);
+    this.interval.unref();
+  }
+
+  private async handleDueMessages() {
+    for await (const [transport, sender] of this.senders.entries()) {
+      if (!sender.isReady()) {
+        continue;
+      }
+      // Destinations that are probably unreachable or whose oldest pending message is not due yet,
+      // no point to try their next messages now
+      const skippedDestinations = new Set<string>();
+      for (;;) {
+        const now = new Date();
+        // eslint-disable-next-line no-await-in-loop
+        const dueMessage = await NotificationOutboxModel.findOne({
+          transport,
+          status: OutboxStatus.Pending,
+          nextAttemptAt: { $lte: now },
+          ...(skippedDestinations.size > 0) && {
+            destination: { $nin: [...skippedDestinations] },
+          },
+        }).sort({ createdAt: 1 });
+        if (!dueMessage) {
+          break;
+        }
+        // The messages of a destination are delivered in the order they were enqueued
+        // eslint-disable-next-line no-await-in-loop
+        const oldestMessage = await NotificationOutboxModel.findOne({
+          transport,
+          destination: dueMessage.destination,
+          status: OutboxStatus.Pending,
+        }).sort({ createdAt: 1 });
+        // eslint-disable-next-line no-await-in-loop
+        const message = oldestMessage && await NotificationOutboxModel.findOneAndUpdate(
+          {
+            _id: oldestMessage._id,
+            status: OutboxStatus.Pending,
+            nextAttemptAt: { $lte: now },
+          },
+          {
+            $set: {
+              nextAttemptAt: new Date(now.getTime() + deliveryLeaseMs),
+            },
+          },
+          { new: true },
+        );
+        if (!message) {
+          // The oldest message waits for a retry or is being delivered
+          skippedDestinations.add(dueMessage.destination);
+          continue;
+        }
+        // eslint-disable-next-line no-await-in-loop
+        const isDelivered = await NotificationOutbox.deliver(sender, message);
+        if (!isDelivered && message.status === OutboxStatus.Pending) {
+          logger.info(
+            `NotificationOutbox: Stopped handling ${transport} messages to ${
+              message.destination
+            } for now`,
+          );
+          skippedDestinations.add(message.destination);
+        }
+      }
+    }
+  }
+
+  private static async deliver(
+    sender: OutboxSender,
+    message: OutboxMessageDocument,
+  ): Promise<boolean> {
+    const attempts = message.attempts + 1;
+    let isDelivered = false;
+    try {
+      await sender.send(message);
+      isDelivered = true;
+      message.set({
+        status: OutboxStatus.Sent,
+        attempts,
+        expireAt: new Date(Date.now() + finishedMessagesTtlMs),
+      });
+    } catch (error) {
+      const isRetriable = sender.isRetriableError(error) && (attempts < maxAttempts);
+      logger.error(
+        `NotificationOutbox: Failed to deliver ${message.transport} message ${message._id} to ${
+          message.destination
+        } (attempt ${attempts}${isRetriable ? '' : ', giving up'}): ${errorString(error)}`,
+      );
+      message.set({
+        attempts,
+        lastError: errorString(error).slice(0, maxErrorLength),
+        ...isRetriable ? {
+          nextAttemptAt: new Date(Date.now() + retryDelayMs(attempts)),
+        } : {
+          status: OutboxStatus.Failed,
+          expireAt: new Date(Date.now() + finishedMessagesTtlMs),
+        },
+      });
+    }
+    try {
+      await message.save();
+    } catch (error) {
+      logger.error(
+        `NotificationOutbox: Failed to save message ${message._id}: ${errorString(error)}`,
+      );
+    }
+    return isDelivered;
+  }
+}
+
+export const notificationOutbox = new NotificationOutbox();
@@ -0,0 +1,117 @@
+import { FormatOptions } from '@woofbot/common';
+
+import { UserDocument } from '../models/users';
+import { LanguageOptions } from './i18n';
+
+export enum NotificationEvent {
+  Reboot = 'reboot',
+  PriceApiErrors = 'price-api-errors',
+  PriceApiResponsive = 'price-api-responsive',
+  PriceChange = 'price-change',
+  NewBlocks = 'new-blocks',
+  BlocksSkipped = 'blocks-skipped',
+  Reorg = 'reorg',
+  ConfirmationsLost = 'confirmations-lost',
+  AddressPayment = 'address-payment',
+  AddressOverload = 'address-overload',
+  AddressBalance = 'address-balance',
+  WalletPayment = 'wallet-payment',
+  OutpointSpend = 'outpoint-spend',
+  TimelockWarning = 'timelock-warning',
+  TimelockMatured = 'timelock-matured',
+  TimelockOutputMissing = 'timelock-output-missing',
+  MempoolClearStatus = 'mempool-clear-status',
+  FeeRate = 'fee-rate',
+  DifficultyAdjustment = 'difficulty-adjustment',
+  Halving = 'halving',
+  WhaleTransaction = 'whale-transaction',
+  NodeHealth = 'node-health',
+  TransactionUpdate = 'transaction-update',
+  LightningChannelsOpened = 'lightning-channels-opened',
+  LightningChannelsClosed = 'lightning-channels-closed',
+  LightningForwards = 'lightning-forwards',
+  LightningInvoiceCreated = 'lightning-invoice-created',
+  LightningInvoicePaid = 'lightning-invoice-paid',
+  LightningLiquidity = 'lightning-liquidity',
+}
+
+// Events that are not about a specific user's watches, the dispatcher broadcasts them
+export const serverWideNotificationEvents = [
+  NotificationEvent.Reboot,
+  NotificationEvent.PriceApiErrors,
+  NotificationEvent.PriceApiResponsive,
+  NotificationEvent.NewBlocks,
+  NotificationEvent.BlocksSkipped,
+  NotificationEvent.Reorg,
+  NotificationEvent.MempoolClearStatus,
+  NotificationEvent.DifficultyAdjustment,
+  NotificationEvent.Halving,
+  NotificationEvent.LightningChannelsOpened,
+  NotificationEvent.LightningChannelsClosed,
+  NotificationEvent.LightningForwards,
+  NotificationEvent.LightningInvoiceCreated,
+  NotificationEvent.LightningInvoicePaid,
+];
+
+export enum NotificationSeverity {
+  Info = 'info',
+  Success = 'success',
+  Warning = 'warning',
+  Critical = 'critical',
+}
+
+export enum NotificationEntityType {
+  Address = 'address',
+  Transaction = 'transaction',
+  Block = 'block',
+  Wallet = 'wallet',
+  Outpoint = 'outpoint',
+  LightningChannel = 'lightning-channel',
+  LightningInvoice = 'lightning-invoice',
+}
+
+export interface NotificationEntity {
+  type: NotificationEntityType;
+  id: string;
+  nickname?: string;
+}
+
+export interface NotificationLink {
+  label: string;
+  url: string;
+}
+
+// A channel-neutral notification, every notifier decides how to render it.
+export interface Notification {
+  event: NotificationEvent;
+  severity: NotificationSeverity;
+  title: string;
+  // Plain text, notifiers should escape it according to their own format.
+  body: string;
+  // Plain text that should be displayed as-is (i.e. a code block), like an invoice description.
+  details?: string;
+  links: NotificationLink[];
+  entities: NotificationEntity[];
+}
+
+export type NotificationFormatOptions = FormatOptions & LanguageOptions;
+
+// Renders the texts, dates and amounts of a notification in the language and formats of each user,
+// and in English and the default formats for broadcasts
+export type NotificationBuilder = (formatOptions: NotificationFormatOptions) => Notification;
+
+export interface Notifier {
+  name: string;
+  notify(user: UserDocument, notification: Notification): Promise<void>;
+  // Optional, receives once the notifications about server-wide events, even if no user watches
+  // them (i.e. for shared rooms)
+  broadcast?(notification: Notification): Promise<void>;
+}
+
+export function notificationToText(notification: Notification): string {
+  return [
+    notification.body,
+    ...(notification.details !== undefined) ? [notification.details] : [],
+    ...notification.links.map(({ label, url }) => `${label}: ${url}`),
+  ].join('\n');
+}
@@ -1,36 +1,81 @@
 import {
-  TelegramStatus, telegramCommands, BotCommandName, mSatsToSats, prettyDate, WatchName, watches,
-  watchByName, PermissionKey, AppVersion, AppName,
+  TelegramStatus, telegramCommands, BotCommand, BotCommandName, Watch, WatchName, watches,
+  watchByName,
+  PermissionKey, AppVersion, AppName, formatNumber, mSatsToSats, NumberFormat, prettyDate,
 } from '@woofbot/common';
 import { Context, Telegraf, TelegramError } from 'telegraf';
+import { callbackQuery, channelPost, message as messageFilter } from 'telegraf/filters';
+import { CallbackQuery, InlineKeyboardButton, Update } from 'telegraf/types';
 import { validate } from 'bitcoin-address-validation';
-import { Types } from 'mongoose';
 
+import { OutboxTransport, OutboxMessageDocument } from '../models/notification-outbox';
 import { SettingsModel } from '../models/settings';
 import {
-  defaultUserProperties, UsersModel, UserDocument, UserFields,
+  TelegramChatDocument, TelegramChatsModel, TelegramChatStatus, TelegramChatType,
+} from '../models/telegram-chats';
+import {
+  defaultUserProperties, liquidityThresholdUserFields, NostrEncryption, UsersModel, UserDocument,
+  UserFields, whaleThresholdUserFields,
 } from '../models/users';
-import { WatchedAddressesModel } from '../models/watched-addresses';
+import { WatchedAddressDocument, WatchedAddressesModel } from '../models/watched-addresses';
+import { WatchedOutpointsModel } from '../models/watched-outpoints';
+import {
+  TimelockType, WatchedTimelockDocument, WatchedTimelocksModel,
+} from '../models/watched-timelocks';
+import { WatchedWalletsModel } from '../models/watched-wallets';
+import { WebhooksModel } from '../models/webhooks';
 import { TransactionStatus, WatchedTransactionsModel } from '../models/watched-transactions';
 import { unwatchUnusedAddresses } from '../controllers/addresses';
+import { unwatchUnusedOutpoints } from '../controllers/outpoints';
+import {
+  absoluteTimelockMaturity, defaultTimelockWarningBlocks, resolveRelativeTimelock,
+  TimelockMaturity, timelockBlocksLeft,
+} from '../controllers/timelocks';
 import { unwatchUnusedTransactions } from '../controllers/transactions';
+import { deriveInitialWalletAddresses } from '../controllers/wallets';
 import { deleteUser } from '../controllers/users';
 import {
-  bitcoindWatcher, BitcoindWatcherEventName, NewTransactionAnalysisEvent, TransactionAnalysis,
-  transactionAnalysisToString, NewAddressPaymentEvent, NewBlockAnalyzedEvent,
-  NewMempoolClearStatusEvent,
+  deleteTelegramChat, migrateTelegramChat, registerTelegramChat,
+} from '../controllers/telegram-chats';
+import {
+  bitcoindWatcher, BitcoindWatcherEventName, FeeRateDirection, satsPerBitcoin, TransactionAnalysis,
+  WhaleThreshold, ChainCountdown, ChainCountdownName,
 } from './bitcoind-watcher';
+import { getBlockchainInfo, getTxOut } from './bitcoin-rpc';
+import {
+  EmailManager, emailManager, emailVerificationCode, emailVerificationIntervalMs,
+  emailVerificationTtlMs, maxEmailVerificationAttempts,
+} from './email';
+import { MatrixManager, matrixManager } from './matrix';
 import { errorString } from './error';
+import {
+  allTranslations, Language, LanguageOptions, languages, MessageKey, MessageParams, parseLanguage,
+  recipientLanguage, translate,
+} from './i18n';
 import logger from './logger';
+import { getMiningPoolSlugs, NewBlocksFilter } from './mining-pools';
 import { zeroObjectId } from './mongo';
-import { PriceChangeEvent, priceWatcher, PriceWatcherEventName } from './price-watcher';
 import {
-  LndChannelsStatusEvent, LndNewForwardsEvent, lndWatcher, LndWatcherEventName,
-  LndInvoiceUpdatedEvent,
+  maxWhaleAlertsPerHour, notificationDispatcher, prettyBlockHash,
+} from './notification-dispatcher';
+import { notificationOutbox } from './notification-outbox';
+import {
+  defaultNostrEncryption, NostrManager, nostrManager, nostrNpub,
+} from './nostr';
+import { npubEncode, parseNostrPublicKey } from './nostr-events';
+import { Notification, Notifier } from './notifier';
+import { priceWatcher } from './price-watcher';
+import {
+  ChannelLiquidityThresholds, LiquidityDirection, LiquidityThresholds, lndWatcher,
 } from './lnd-watcher';
 import {
-  isTransactionId, mergeDescriptionToAddressId, mergeDescriptionToTransactionId,
+  isEmailAddress, isLocale, isMatrixUserId, isOutpoint, isTimeZone, isTransactionId,
+  isWebhookUrl, mergeDescriptionToAddressId, mergeDescriptionToTransactionId,
+  parseBitcoinAmount, parseConfirmationTargets, parseLockHeight, parseLockTime,
+  parseRelativeLock, RelativeLock,
 } from './validations';
+import { parseWalletKey, WalletKey } from './wallets';
+import { maxUserWebhooks, webhookSecret, WebhooksManager } from './webhooks';
 
 interface TextMessage {
   text: string;
@@ -38,6 +83,14 @@ interface TextMessage {
 
 interface TextContext extends Context {
   message: Context['message'] & TextMessage & { reply_to_message?: TextMessage };
+  // In groups and channels, the user whose permission groups permit the command
+  state: { issuer?: UserDocument };
+}
+
+interface CommandUsers {
+  // The document whose watches the command reads and changes, of a user or of a group or channel
+  user: UserDocument;
+  issuer: UserDocument;
 }
 
 export function escapeMarkdown(text: string): string {
@@ -45,89 +98,248 @@ export function escapeMarkdown(text: string): string {
   return text.replaceAll(/([_*[\]()~`>#+-=|{}.!])/g, '\\$1');
 }
 
-function prettyBlockHash(blockHash: string): string {
-  return `0..0${blockHash.replace(/^0+/, '')}`;
-}
-
 const sponsorship = `\n\n*Follow us on [Nostr \\(@woofbot\\)]\
 (https://snort.social/p/woofbot@protonmail.com.ln2.email)\
  or on [Twitter \\(@woofbotapp\\)](https://twitter.com/woofbotapp)*`;
 
-const startMessage = `${escapeMarkdown(`\
-🐶 Welcome to ${AppName}, your personal telegram bot that will send you customized notifications.
-For example, to get a notification whenever the server reboots, call /watch reboot.
-To unset this configuration, call /unwatch reboot.
-For a list of all commands, call /help.`)}${sponsorship}`;
+// Sent to the chats that the administrator approves, before any of them has chosen a language
+export const chatApprovedMessage = escapeMarkdown(translate(Language.English, 'chatApproved'));
 
-const notFoundMessage = escapeMarkdown('Woof! Call /start first.');
+function userLanguage(ctx: Pick<Context, 'from'>, user?: UserFields): Language {
+  return user?.language ?? parseLanguage(ctx.from?.language_code) ?? Language.English;
+}
+
+// A message of the catalog as MarkdownV2, in the user's language or else in the language of its
+// telegram app
+function markdownMessage(
+  ctx: Pick<Context, 'from'>,
+  user: UserFields | undefined,
+  key: MessageKey,
+  params?: MessageParams,
+): string {
+  return escapeMarkdown(translate(userLanguage(ctx, user), key, params));
+}
 
-const notPermittedMessage = escapeMarkdown(`\
-👮 Sorry you are not allowed to run this command, please contact the bot administrator to add your\
- user to one of the command's permission groups\
-`);
+// A message of the catalog as MarkdownV2, for the messages that are not replies to a command
+function recipientMarkdownMessage(
+  recipient: LanguageOptions,
+  key: MessageKey,
+  params?: MessageParams,
+): string {
+  return escapeMarkdown(translate(recipientLanguage(recipient), key, params));
+}
 
 interface MessageTask {
   chatId: string | number;
   text: string;
 }
 
-const messageQueueIntervalMs = 60_000;
-const messageQueueMaxSize = 10_000;
+const botRecoveryIntervalMs = 60_000;
+// Messages that are delivered later than that will be prefixed with a delay notice
+const messageDelayNoticeMs = 60_000;
 const transactionAnalysisTimeoutMs = 300_000;
-const blockSkippedWarningBackoffMs = 300_000;
 
 const telegramCommandByName = new Map(
   telegramCommands.map((telegramCommand) => [telegramCommand.name, telegramCommand]),
 );
 
+// The replies to the parameters requests are recognized by the request's text, in every language
 const telegramCommandByParametersRequestMessage = new Map(
   telegramCommands.filter(
     (telegramCommand) => telegramCommand.parametersRequestMessage,
-  ).map((telegramCommand) => [telegramCommand.parametersRequestMessage, telegramCommand]),
+  ).flatMap((telegramCommand) => allTranslations(
+    `commandParametersRequest.${telegramCommand.name}`,
+  ).map((text): [string, BotCommand] => [text, telegramCommand])),
 );
 
 const watchByParametersRequestMessage = new Map(
   watches.filter(
     (watch) => watch.watchParametersRequestMessage,
-  ).map((watch) => [watch.watchParametersRequestMessage, watch]),
+  ).flatMap((watch) => allTranslations(
+    `watchParametersRequest.${watch.name}`,
+  ).map((text): [string, Watch] => [text, watch])),
 );
 
 const unwatchByParametersRequestMessage = new Map(
   watches.filter(
     (watch) => watch.unwatchParametersRequestMessage,
-  ).map((watch) => [watch.unwatchParametersRequestMessage, watch]),
+  ).flatMap((watch) => allTranslations(
+    `unwatchParametersRequest.${watch.name}`,
+  ).map((text): [string, Watch] => [text, watch])),
 );
 
 const filteredTelegramCommands = telegramCommands.filter(
   ({ name }) => ![BotCommandName.Help, BotCommandName.Start].includes(name),
 );
 
-interface ChannelFullNameParams {
-  channelId: string;
-  partnerName?: string;
+// Commands that groups and channels may use, the rest are about the personal settings of users
+const chatCommandNames = new Set([
+  BotCommandName.Watch,
+  BotCommandName.Unwatch,
+  BotCommandName.ListWatches,
+  BotCommandName.Balance,
+  BotCommandName.Links,
+  BotCommandName.Settings,
+  BotCommandName.About,
+]);
+
+const chatAdministratorStatuses = new Set(['creator', 'administrator']);
+
+// The callback data of inline keyboard buttons is "watch:<watch-name>", "unwatch:<watch-name>", or
+// "unwatch:<watch-name>:<document-id>" to unwatch a single transaction, address or wallet.
+const watchCallbackDataRegex = /^(watch|unwatch):([a-z-]+)(:([0-9a-f]{24}))?$/;
+
+// Watches that are stored as user fields, rather than as documents of their own
+const watchUserFields = new Map<WatchName, Array<keyof UserFields>>([
+  [WatchName.Reboot, ['watchReboot']],
+  [WatchName.PriceChange, ['watchPriceChange']],
+  [WatchName.NewBlocks, ['watchNewBlocks']],
+  [WatchName.Reorg, ['watchReorg']],
+  [WatchName.Difficulty, ['watchDifficulty']],
+  [WatchName.Halving, ['watchHalving']],
+  [WatchName.MempoolClear, ['watchMempoolClear']],
+  [WatchName.FeeRate, ['watchFeeRateBelow', 'watchFeeRateAbove']],
+  [WatchName.Whales, Object.values(whaleThresholdUserFields)],
+  [WatchName.NodeHealth, ['watchNodeHealth']],
+  [WatchName.LightningChannelsOpened, ['watchLightningChannelsOpened']],
+  [WatchName.LightningChannelsClosed, ['watchLightningChannelsClosed']],
+  [WatchName.LightningForwards, ['watchLightningForwards']],
+  [WatchName.LightningInvoicesCreated, ['watchLightningInvoicesCreated']],
+  [WatchName.LightningInvoicesPaid, ['watchLightningInvoicesPaid']],
+  [
+    WatchName.LightningLiquidity,
+    [...Object.values(liquidityThresholdUserFields), 'watchLightningChannelsLiquidity'],
+  ],
+]);
+
+// Keeps the inline keyboard within the message size limits of telegram
+const maxUnwatchDocumentButtons = 50;
+
+function shortenWatchedValue(value: string): string {
+  return (value.length > 16) ? `${value.slice(0, 16)}…` : value;
 }
 
-function channelFullName({
-  channelId, partnerName,
-}: ChannelFullNameParams): string {
-  if (partnerName) {
-    return `\`${escapeMarkdown(partnerName)}\` ${escapeMarkdown(`(${channelId})`)}`;
+const maxTimelockWarningBlocks = 10_000;
+
+const defaultNodeHealthMinPeers = 4;
+
+const lightningChannelIdRegex = /^\d+x\d+x\d+$/;
+
+function lightningChannelName(channelId: string, partnerName?: string): string {
+  return partnerName ? `${partnerName} (${channelId})` : channelId;
+}
+
+function timelockLockText(watchedTimelock: WatchedTimelockDocument, user: UserDocument): string {
+  return (watchedTimelock.type === TimelockType.Time)
+    ? prettyDate(new Date(Number(watchedTimelock.lock) * 1000).toJSON(), user)
+    : watchedTimelock.lock;
+}
+
+function timelockStatusText(
+  watchedTimelock: WatchedTimelockDocument,
+  user: UserDocument,
+  language: Language,
+): string {
+  if (watchedTimelock.matured) {
+    return translate(language, 'timelockStatusMatured');
+  }
+  if (watchedTimelock.maturityHeight !== undefined) {
+    return translate(language, 'timelockStatusMaturityHeight', {
+      height: watchedTimelock.maturityHeight,
+    });
+  }
+  if (watchedTimelock.maturityTime !== undefined) {
+    return translate(language, 'timelockStatusMaturityTime', {
+      date: prettyDate(new Date(watchedTimelock.maturityTime * 1000).toJSON(), user),
+    });
   }
-  return escapeMarkdown(`channel-id ${channelId}`);
+  return translate(language, 'timelockStatusUnconfirmed');
 }
 
-export class TelegrafManager {
-  private internalBot: Telegraf | undefined = undefined;
+function chainCountdownParams(chainCountdown: ChainCountdown, user: UserDocument): MessageParams {
+  const projectedChange = chainCountdown.projectedDifficultyChange ?? 0;
+  return {
+    height: chainCountdown.targetHeight,
+    blocks: formatNumber(chainCountdown.blocksLeft, user),
+    date: prettyDate(new Date(chainCountdown.estimatedTime).toJSON(), user),
+    change: `${(projectedChange > 0) ? '+' : ''}${formatNumber(projectedChange, user)}%`,
+  };
+}
 
-  private internalStatus: TelegramStatus = TelegramStatus.Unset;
+function addressBalanceLine(
+  watchedAddress: WatchedAddressDocument,
+  user: UserDocument,
+  language: Language,
+): string {
+  const {
+    address, nickname, confirmedBalanceSats, mempoolIncomes, mempoolOutcomes, balanceAboveSats,
+    balanceBelowSats,
+  } = watchedAddress;
+  const mempoolIncomeSats = mempoolIncomes.reduce(
+    (sum, { incomeSats }) => sum + incomeSats,
+    0,
+  );
+  const mempoolOutcomeSats = mempoolOutcomes.reduce(
+    (sum, { outcomeSats }) => sum + outcomeSats,
+    0,
+  );
+  const unconfirmed = [
+    ...(mempoolIncomeSats > 0) ? [`+丰${formatNumber(mempoolIncomeSats, user)}`] : [],
+    ...(mempoolOutcomeSats > 0) ? [`-丰${formatNumber(mempoolOutcomeSats, user)}`] : [],
+  ];
+  const alerts = [
+    ...(balanceAboveSats !== undefined) ? [
+      translate(language, 'balanceAlertAbove', { amount: formatNumber(balanceAboveSats, user) }),
+    ] : [],
+    ...(balanceBelowSats !== undefined) ? [
+      translate(language, 'balanceAlertBelow', { amount: formatNumber(balanceBelowSats, user) }),
+    ] : [],
+  ];
+  return `${nickname ? `${nickname} (${address})` : address}: ${
+    (confirmedBalanceSats === undefined)
+      ? translate(language, 'balanceNotScanned')
+      : `丰${formatNumber(confirmedBalanceSats, user)}`
+  }${
+    (unconfirmed.length > 0)
+      ? ` ${translate(language, 'balanceUnconfirmed', { amounts: unconfirmed.join(' ') })}`
+      : ''
+  }${
+    (alerts.length > 0)
+      ? translate(language, 'balanceAlerts', { alerts: alerts.join(', ') })
+      : ''
+  }`;
+}
 
-  private messageQueue: MessageTask[] = [];
+function chatStatusMessageKey(chat: TelegramChatDocument): MessageKey {
+  switch (chat.status) {
+    case TelegramChatStatus.Approved:
+      return 'chatApproved';
+    case TelegramChatStatus.Rejected:
+      return 'chatRejected';
+    default:
+      return 'chatPending';
+  }
+}
+
+// Channel posts and callback queries are handled like messages, so the commands can read them
+// from ctx.message
+function createMessageContext(
+  ctx: Pick<Context, 'update' | 'telegram' | 'botInfo'>,
+  message: object,
+): TextContext {
+  return new Context(
+    { update_id: ctx.update.update_id, message } as unknown as Update.MessageUpdate,
+    ctx.telegram,
+    ctx.botInfo,
+  ) as TextContext;
+}
 
-  private messageQueueInterval: ReturnType<typeof setInterval> | undefined;
+export class TelegrafManager {
+  private internalBot: Telegraf | undefined = undefined;
 
-  private newTransactionAnalysesQueue: NewTransactionAnalysisEvent[] | undefined;
+  private internalStatus: TelegramStatus = TelegramStatus.Unset;
 
-  private lastBlockSkippedWarning = new Date(0);
+  private botRecoveryInterval: ReturnType<typeof setInterval> | undefined;
 
   get bot(): Telegraf | undefined {
     return this.internalBot;
@@ -138,849 +350,162 @@ export class TelegrafManager {
   }
 
   constructor() {
-    bitcoindWatcher.on(
-      BitcoindWatcherEventName.NewTransactionAnalysis,
-      (parameters) => this.onNewTransactionAnalysis(parameters),
-    );
-    bitcoindWatcher.on(
-      BitcoindWatcherEventName.NewAddressPayment,
-      (parameters) => this.onNewAddressPayment(parameters),
-    );
-    bitcoindWatcher.on(
-      BitcoindWatcherEventName.AddressOverload,
-      (address) => this.onAddressOverload(address),
-    );
-    bitcoindWatcher.on(
-      BitcoindWatcherEventName.BlocksSkipped,
-      () => this.onBlocksSkipped(),
-    );
-    bitcoindWatcher.on(
-      BitcoindWatcherEventName.NewBlockAnalyzed,
-      (event) => this.onNewBlockAnalyzed(event),
-    );
-    bitcoindWatcher.on(
-      BitcoindWatcherEventName.NewMempoolClearStatus,
-      (event) => this.onNewMempoolClearStatus(event),
-    );
-    priceWatcher.on(
-      PriceWatcherEventName.ConsecutiveApiErrors,
-      () => this.onConsecutivePriceApiErrors(),
-    );
-    priceWatcher.on(
-      PriceWatcherEventName.ApiResponsiveAgain,
-      () => this.onPriceApiResponsiveAgain(),
-    );
-    priceWatcher.on(
-      PriceWatcherEventName.PriceChange,
-      (event) => this.onPriceChange(event),
-    );
-    lndWatcher.on(
-      LndWatcherEventName.ChannelsStatus,
-      (event) => this.onLndChannelsStatus(event),
-    );
-    lndWatcher.on(
-      LndWatcherEventName.NewForwards,
-      (event) => this.onLndNewForwards(event),
-    );
-    lndWatcher.on(
-      LndWatcherEventName.InvoiceUpdated,
-      (event) => this.onLndInvoiceUpdated(event),
-    );
-  }
-
-  private async onConsecutivePriceApiErrors() {
-    try {
-      const users = await UsersModel.find({
-        watchPriceChange: {
-          $exists: true,
-        },
-      });
-      const message = escapeMarkdown(
-        '⚠️ Woof! There are problems connecting to CoinGecko Api to get the price of Bitcoin.',
-      );
-      for await (const user of users) {
-        await this.sendMessage({
-          chatId: user.telegramChatId,
-          text: message,
-        });
-      }
-    } catch (error) {
-      logger.error(`Failed to notify price api errors: ${errorString(error)}`);
-    }
+    notificationOutbox.registerSender(OutboxTransport.Telegram, {
+      isReady: () => Boolean(this.bot),
+      send: (message) => this.deliverMessage(message),
+      isRetriableError: (error) => TelegrafManager.isRetriableError(error),
+    });
   }
 
-  private async onPriceApiResponsiveAgain() {
+  static async sendMessage(message: MessageTask) {
     try {
-      const users = await UsersModel.find({
-        watchPriceChange: {
-          $exists: true,
-        },
+      await notificationOutbox.enqueue({
+        transport: OutboxTransport.Telegram,
+        destination: `${message.chatId}`,
+        payload: message.text,
       });
-      const message = escapeMarkdown([
-        '💸 Woof! CoinGecko Api (to get the price of Bitcoin) is responsive again after some',
-        'time that it was not.',
-      ].join(' '));
-      for await (const user of users) {
-        await this.sendMessage({
-          chatId: user.telegramChatId,
-          text: message,
-        });
-      }
     } catch (error) {
-      logger.error(`Failed to notify price api responsive-again: ${errorString(error)}`);
-    }
-  }
-
-  private async onPriceChange(event: PriceChangeEvent) {
-    try {
-      logger.info(`onPriceChange: ${JSON.stringify(event)}`);
-      const user = await UsersModel.findOne({
-        _id: new Types.ObjectId(event.id),
-        watchPriceChange: event.delta,
-      });
-      if (!user) {
-        logger.info('onPriceChange: user not found');
-        priceWatcher.unwatchPriceChange(event.id);
-        return;
-      }
-      const [oldMin] = event.oldThreshold;
-      const [newMin, newMax] = event.newThreshold;
-      const isIncrease = (oldMin < newMin);
-      const message = escapeMarkdown(
-        `${isIncrease ? '📈' : '📉'} Woof! The price of Bitcoin on CoinGecko is $${
-          event.newPrice.toLocaleString('en-US')
-        }. I will check the price every minute and let you know when the price goes below $${
-          newMin.toLocaleString('en-US')
-        } or above $${newMax.toLocaleString('en-US')}.`,
+      logger.error(
+        `TelegrafManager: Failed to enqueue message to chat-id ${message.chatId}: ${
+          errorString(error)
+        }`,
       );
-      await this.sendMessage({
-        chatId: user.telegramChatId,
-        text: message,
-      });
-    } catch (error) {
-      logger.error(`Failed to notify price change: ${errorString(error)}`);
     }
   }
 
-  private async onNewBlockAnalyzed(event: NewBlockAnalyzedEvent) {
-    try {
-      await SettingsModel.updateOne(
-        { _id: zeroObjectId },
-        {
-          $set: {
-            analyzedBlockHashes: event.blockHashes,
-            bestBlockHeight: event.bestBlockHeight,
-          },
-        },
-      );
-      const watchNewBlocksUsers = await UsersModel.find({
-        watchNewBlocks: true,
-      });
-      if (watchNewBlocksUsers.length > 0) {
-        const newBlocksHashes = event.blockHashes.slice(-event.newBlocks);
-        const messages = newBlocksHashes.map(
-          (blockHash, index) => `Block ${prettyBlockHash(blockHash)} at height ${
-            event.bestBlockHeight - event.newBlocks + index + 1
-          }`,
-        );
-        const finalMessage = escapeMarkdown(`🧱 Woof! ${
-          (event.newBlocks === 1) ? 'A new block was' : 'New blocks were'
-        } mined: ${messages.join(', ')}.`);
-        for await (const user of watchNewBlocksUsers) {
-          await this.sendMessage({
-            chatId: user.telegramChatId,
-            text: finalMessage,
-          });
-        }
-      }
-    } catch (error) {
-      logger.error(`Failed to handle analyzed block hashes: ${errorString(error)}`);
-    }
+  private async deliverMessage(message: OutboxMessageDocument) {
+    if (!this.bot) {
+      throw new Error('Bot is not configured');
+    }
+    const isDelayed = (message.attempts > 0)
+      || (Date.now() - message.createdAt.getTime() > messageDelayNoticeMs);
+    let delayNotice = '';
+    if (isDelayed) {
+      const recipient = await UsersModel.findOne({ telegramChatId: Number(message.destination) });
+      delayNotice = recipientMarkdownMessage(recipient ?? {}, 'messageDelayed');
+    }
+    await this.bot.telegram.sendMessage(
+      message.destination,
+      `${delayNotice}${message.payload}${sponsorship}`,
+      {
+        disable_web_page_preview: true,
+        parse_mode: 'MarkdownV2',
+      },
+    );
   }
 
-  private async onBlocksSkipped() {
-    try {
-      const now = new Date();
-      const { lastBlockSkippedWarning } = this;
-      // Will start warning again only if there are 5 minutes without warnings
-      this.lastBlockSkippedWarning = now;
-      if (now.getTime() - lastBlockSkippedWarning.getTime() < blockSkippedWarningBackoffMs) {
-        return;
-      }
-      const transactions = await WatchedTransactionsModel.find({});
-      const addresses = await WatchedAddressesModel.find({});
-      const userIds = [
-        ...new Map([
-          ...transactions.map(({ userId }) => userId),
-          ...addresses.map(({ userId }) => userId),
-        ].map((userId) => [`${userId}`, userId])).values(),
-      ];
-      const users = await UsersModel.find({
-        $or: [
-          {
-            _id: {
-              $in: userIds,
-            },
-          },
-          {
-            watchNewBlocks: true,
-          },
-        ],
-      });
-      await Promise.all(
-        users.map((user) => this.sendMessage({
-          chatId: user.telegramChatId,
-          text: escapeMarkdown([
-            '⚠️ Woof! It seems that your node was not synced for some time, and some blocks were',
-            'not analyzed. It is recommended to check the status of your addresses and',
-            'transactions manually.',
-          ].join(' ')),
-        })),
-      );
-    } catch (error) {
-      logger.error(`TelegrafManager: failed to handle onBlocksSkipped: ${errorString(error)}`);
+  static isRetriableError(error: unknown): boolean {
+    if (
+      !(error instanceof TelegramError)
+      || !Number.isSafeInteger(error.code)
+      || (error.code <= 0)
+    ) {
+      // Networking error
+      return true;
     }
+    // Too many requests or server errors
+    return (error.code === 429) || (error.code >= 500);
   }
 
-  private async onNewAddressPayment({
-    address,
-    txid,
-    status,
-    confirmations,
-    multiAddress,
-    incomeSats,
-    outcomeSats,
-  }: NewAddressPaymentEvent) {
-    try {
-      logger.info(`onNewAddressPayment: ${address} ${txid}`);
-      const watchedAddresses = await WatchedAddressesModel.find({ address });
-      if (watchedAddresses.length === 0) {
-        // safety check
-        bitcoindWatcher.unwatchAddress(address);
-        return;
-      }
-      const users = await UsersModel.find({
-        _id: {
-          $in: watchedAddresses.map(({ userId }) => userId),
-        },
-      });
-      const userById = new Map(users.map((user) => [`${user.id}`, user]));
-      logger.info(`TelegrafManager: Notifying users about new address payment ${
-        address
-      } ${txid}: ${users.map((user) => user.id).join(', ')}`);
-      for await (const watchedAddress of watchedAddresses) {
-        const user = userById.get(`${watchedAddress.userId}`);
-        if (!user) {
-          continue;
-        }
-        const messages: string[] = [];
-        switch (status) {
-          case TransactionStatus.PartialConfirmation:
-            messages.push('⛏️');
-            break;
-          case TransactionStatus.FullConfirmation:
-            messages.push('🚀');
-            break;
-          default:
-            messages.push('👀');
-        }
-        const addressName = watchedAddress.nickname
-          ? `${watchedAddress.nickname} (${watchedAddress.address})`
-          : `${watchedAddress.address}`;
-
-        if (incomeSats !== undefined) {
-          messages.push(
-            `Address ${addressName} ${
-              (status === TransactionStatus.FullConfirmation) ? 'has received' : 'is receiving'
-            } 丰${incomeSats.toLocaleString('en-US')} by transaction ${txid}.`,
-          );
-        }
-        if (outcomeSats !== undefined) {
-          messages.push(
-            `Address ${addressName} ${
-              (status === TransactionStatus.FullConfirmation) ? 'has sent' : 'is sending'
-            } 丰${outcomeSats.toLocaleString('en-US')} by transaction ${txid}.`,
-          );
-        }
-        switch (status) {
-          case TransactionStatus.PartialConfirmation:
-            messages.push(
-              `This transaction has only ${confirmations} ${
-                (confirmations === 1) ? 'confirmation' : 'confirmations'
-              } and is not yet fully confirmed.`,
-            );
-            break;
-          case TransactionStatus.FullConfirmation:
-            messages.push(
-              `This transaction has ${confirmations} ${
-                (confirmations === 1) ? 'confirmation' : 'confirmations'
-              } and is fully confirmed.`,
-            );
-            break;
-          default:
-            messages.push('This transaction is only in the mempool (has zero confirmations).');
-        }
-        if (multiAddress) {
-          messages.push([
-            '\n⚠️ Notice that one of the transaction outputs is an old m-of-n non-P2SH multisig',
-            'script, a format that is rarely used today, meaning that different other addresses',
-            'might be able to spend the funds.',
-          ].join(' '));
-        }
-        await this.sendMessage({
-          chatId: user.telegramChatId,
-          text: escapeMarkdown(`Woof! ${messages.join(' ')}`),
-        });
-      }
-    } catch (error) {
-      logger.info(
-        `onNewAddressPayment: failed to handle ${address} ${txid}: ${errorString(error)}`,
-      );
+  startBotRecoveryInterval() {
+    if (this.botRecoveryInterval) {
+      clearInterval(this.botRecoveryInterval);
     }
-  }
-
-  private async onAddressOverload(address: string) {
-    try {
-      logger.info(`onAddressOverload: ${address}`);
-      const watchedAddresses = await WatchedAddressesModel.find({ address });
-      if (watchedAddresses.length === 0) {
-        // safety check
-        bitcoindWatcher.unwatchAddress(address);
+    let isRunning = false;
+    this.botRecoveryInterval = setInterval(async () => {
+      if (isRunning) {
+        logger.info('TelegrafManager: Bot recovery handler is already running');
         return;
       }
-      const users = await UsersModel.find({
-        _id: {
-          $in: watchedAddresses.map(({ userId }) => userId),
-        },
-      });
-      const userById = new Map(users.map((user) => [`${user.id}`, user]));
-      logger.info(`TelegrafManager: Notifying users about address overload ${
-        users.map((user) => user.id).join(', ')
-      }`);
-      for await (const watchedAddress of watchedAddresses) {
-        const user = userById.get(`${watchedAddress.userId}`);
-        if (!user) {
-          continue;
-        }
-        const addressName = watchedAddress.nickname
-          ? `${watchedAddress.nickname} (${watchedAddress.address})`
-          : `${watchedAddress.address}`;
-        await this.sendMessage({
-          chatId: user.telegramChatId,
-          text: escapeMarkdown([
-            `⚠️ Woof! Address ${addressName} is being overloaded with transactions in the last`,
-            'hours. I cannot track each one of them, please watch them manually.',
-          ].join(' ')),
-        });
+      isRunning = true;
+      try {
+        await this.botRecoveryHandler();
+      } catch (error) {
+        logger.error(`TelegrafManager: Bot recovery handler failed: ${errorString(error)}`);
+      } finally {
+        isRunning = false;
       }
-    } catch (error) {
-      logger.error(
-        `TelegrafManager: Failed to handle address overload: ${errorString(error)}`,
-      );
-    }
+    }, botRecoveryIntervalMs);
+    this.botRecoveryInterval.unref();
   }
 
-  private async onNewMempoolClearStatus(parameters: NewMempoolClearStatusEvent) {
-    try {
-      logger.info(`onNewMempoolClearStatus: isClear ${parameters.isClear}`);
-      const watchMempoolClearUsers = await UsersModel.find({
-        watchMempoolClear: true,
-      });
-      const message = escapeMarkdown(
-        parameters.isClear
-          ? [
-            '🌚 Woof! The mempool is clear and all of its transactions could fit in a the next',
-            'block. Now is a good time to publish low-fee transactions.',
-          ].join(' ')
-          : [
-            '🌝 Woof! The mempool is no longer clear and more than one block is needed to confirm',
-            'all of its transactions.',
-          ].join(' '),
-      );
-      for await (const user of watchMempoolClearUsers) {
-        await this.sendMessage({
-          chatId: user.telegramChatId,
-          text: message,
-        });
-      }
-    } catch (error) {
-      logger.error(
-        `TelegrafManager: Failed to handle mempool clear status: ${errorString(error)}`,
-      );
+  private async botRecoveryHandler() {
+    if (this.bot) {
+      return;
     }
-  }
-
-  private onNewTransactionAnalysis(parameters: NewTransactionAnalysisEvent) {
-    logger.info(
-      `onNewTransactionAnalysis: txid ${
-        parameters.txid
-      }, old-analysis ${
-        transactionAnalysisToString(parameters.oldAnalysis)
-      }, new-analysis ${
-        transactionAnalysisToString(parameters.newAnalysis)
-      }`,
-    );
-    if (this.newTransactionAnalysesQueue) {
-      this.newTransactionAnalysesQueue.push(parameters);
+    logger.info('TelegrafManager: trying to configure bot');
+    const settings = await SettingsModel.findById(zeroObjectId);
+    if (!settings) {
+      logger.error('TelegrafManager: Bot recovery handler could not find settings');
       return;
     }
-    this.handleNewTransactionAnalysis(parameters);
-  }
-
-  private async onLndChannelsStatus(event: LndChannelsStatusEvent) {
-    try {
-      logger.info(`onLndChannelsStatus: ${JSON.stringify(event)}`);
-      const settings = await SettingsModel.findByIdAndUpdate(
-        zeroObjectId,
-        {
-          $set: {
-            lndChannels: event.allChannels,
-          },
-        },
-      );
-      if (!settings) {
-        throw new Error('settings not found');
-      }
-      if (!settings.lndChannels) {
-        return;
-      }
-      if (event.addedChannels.length > 0) {
-        const openedChannelsUsers = await UsersModel.find({
-          watchLightningChannelsOpened: true,
-        });
-        const message = `${
-          escapeMarkdown(
-            event.addedChannels.length === 1
-              ? '🤝 Woof! A new lightning channel was opened: '
-              : '🤝 Woof! New lightning channels were opened: ',
-          )
-        }${event.addedChannels.map(channelFullName).join(escapeMarkdown(', '))}`;
-        for (const user of openedChannelsUsers) {
-          // eslint-disable-next-line no-await-in-loop
-          await this.sendMessage({
-            chatId: user.telegramChatId,
-            text: message,
-          });
-        }
-      }
-      if (event.removedChannels.length > 0) {
-        const closedChannelsUsers = await UsersModel.find({
-          watchLightningChannelsClosed: true,
-        });
-        const message = `${
-          escapeMarkdown(
-            event.removedChannels.length === 1
-              ? '🙌 Woof! A lightning channel was closed: '
-              : '🙌 Woof! Some lightning channels were closed: ',
-          )
-        }${event.removedChannels.map(channelFullName).join(escapeMarkdown(', '))}`;
-        for (const user of closedChannelsUsers) {
-          // eslint-disable-next-line no-await-in-loop
-          await this.sendMessage({
-            chatId: user.telegramChatId,
-            text: message,
-          });
-        }
-      }
-    } catch (error) {
-      logger.error(`onLndChannelsStatus: failed ${errorString(error)}`);
+    logger.info(`TelegrafManager: Got settings, internal status is ${this.internalStatus}`);
+    if (settings.telegramToken && (this.internalStatus !== TelegramStatus.Loading)) {
+      await this.startBot(settings.telegramToken);
     }
   }
 
-  private async onLndNewForwards(event: LndNewForwardsEvent) {
+  async optimisticStopBot(): Promise<void> {
+    logger.info('TelegrafManager: Stopping telegram bot if exists');
+    this.internalStatus = TelegramStatus.Unset;
+    const bot = this.internalBot;
+    if (!bot) {
+      logger.info('Telegram bot is already stopped');
+      return;
+    }
+    this.internalBot = undefined;
     try {
-      logger.info(`onLndNewForwards: ${JSON.stringify(event)}`);
-      const settings = await SettingsModel.findByIdAndUpdate(
-        zeroObjectId,
-        {
-          $set: {
-            lndLastForwardAt: event.lastForwardAt,
-            lndLastForwardCount: event.lastForwardCount,
-          },
-        },
-      );
-      if (!settings) {
-        throw new Error('settings not found');
-      }
-      if (event.forwards.length === 0 && !event.tooMany) {
-        return;
-      }
-      const users = await UsersModel.find({
-        watchLightningForwards: true,
-      });
-      const message = event.forwards.length > 0
-        ? `${escapeMarkdown(`✨ Woof! You have earned lightning fees:`)} ${
-          event.forwards.map((forward) => {
-            const fromChannelName = channelFullName({
-              channelId: forward.incoming_channel, partnerName: forward.incomingPartnerName,
-            });
-            const toChannelName = channelFullName({
-              channelId: forward.outgoing_channel, partnerName: forward.outgoingPartnerName,
-            });
-            return `${
-              escapeMarkdown(`丰${mSatsToSats(forward.fee_mtokens)} for forwarding 丰${
-                mSatsToSats(forward.mtokens)
-              } at ${prettyDate(forward.createdAt.toJSON())} from `)
-            }${fromChannelName}${
-              escapeMarkdown(' to ')
-            }${toChannelName}`;
-          }).join(escapeMarkdown(', '))
-        }`
-        : escapeMarkdown(
-          '✨ Woof! There were too many forwardings at the same second to display here.',
-        );
-      for (const user of users) {
-        // eslint-disable-next-line no-await-in-loop
-        await this.sendMessage({
-          chatId: user.telegramChatId,
-          text: message,
-        });
-      }
+      await bot.stop();
+      logger.info('TelegrafManager: Telegram bot has stopped successfully');
     } catch (error) {
-      logger.error(`onLndNewForwards: failed ${errorString(error)}`);
+      logger.error(`TelegrafManager: Failed to stop old telegram bot: ${errorString(error)}`);
     }
   }
 
-  private async onLndInvoiceUpdated(event: LndInvoiceUpdatedEvent) {
-    try {
-      logger.info(`onLndInvoiceUpdated: ${event.id} ${event.confirmed_at ?? 'unconfirmed'}`);
-      const users = await UsersModel.find(
-        event.confirmed_at
-          ? {
-            watchLightningInvoicesPaid: true,
-          }
-          : {
-            watchLightningInvoicesCreated: true,
-          },
-      );
-      const message = escapeMarkdown(
-        event.confirmed_at
-          ? `⚡ Woof! You have received a lightning payment of 丰${
-            mSatsToSats(event.received_mtokens)
-          } at ${prettyDate(event.confirmed_at)}\nInvoice Creation Time: ${
-            prettyDate(event.created_at)
-          }\nInvoice Description:`
-          : `🧾 Woof! Your node has created an invoice for ${
-            event.mtokens ? `丰${mSatsToSats(event.mtokens)}` : 'unknown amount'
-          } at ${
-            prettyDate(event.created_at)
-          }\nInvoice Expiration: ${
-            prettyDate(event.expires_at)
-          }\nInvoice Description:`,
-      ) + (
-        event.description
-          ? `\n\`\`\`\n${escapeMarkdown(event.description)}\n\`\`\``
-          : ` empty`
-      );
-      for (const user of users) {
-        // eslint-disable-next-line no-await-in-loop
-        await this.sendMessage({
-          chatId: user.telegramChatId,
-          text: message,
-        });
-      }
-    } catch (error) {
-      logger.error(`onLndInvoiceUpdated: failed ${errorString(error)}`);
+  static async isPermitted(user: UserFields, permissionKey: PermissionKey): Promise<boolean> {
+    const settings = await SettingsModel.findById(zeroObjectId);
+    if (!settings) {
+      throw new Error('Settings not found to check permission groups');
+    }
+    const commandPermissionGroups = settings?.commandsPermissionGroups[permissionKey];
+    if (!commandPermissionGroups) {
+      return true;
     }
+    const commandPermissionGroupsSet = new Set(commandPermissionGroups);
+    return user.permissionGroups.some(
+      (group) => commandPermissionGroupsSet.has(group),
+    );
   }
 
-  private async handleNewTransactionAnalysis({
-    txid, oldAnalysis, newAnalysis,
-  }: NewTransactionAnalysisEvent) {
+  async startBot(token: string) {
+    if (this.internalStatus === TelegramStatus.Loading) {
+      throw new Error('Already loading');
+    }
+    await this.optimisticStopBot();
+    logger.info('TelegrafManager: Launching new telegram bot');
+    this.internalStatus = TelegramStatus.Loading;
+    const bot = new Telegraf(token);
     try {
-      const transactions = await WatchedTransactionsModel.find({ txid });
-      if (transactions.length === 0) {
-        // safety check
-        bitcoindWatcher.unwatchTransaction(txid);
-        return;
-      }
-      if (newAnalysis.status === TransactionStatus.FullConfirmation) {
-        await WatchedTransactionsModel.deleteMany({ txid });
-      } else {
-        await WatchedTransactionsModel.updateMany(
-          {
-            txid,
-          },
-          {
-            $set: {
-              ...newAnalysis,
-              ...newAnalysis.transactionInputKeys && {
-                transactionInputKeys: [...newAnalysis.transactionInputKeys],
-              },
-              ...newAnalysis.conflictingTransactions && {
-                conflictingTransactions: [...newAnalysis.conflictingTransactions],
-              },
-              blockHashes: [...newAnalysis.blockHashes],
-              ...(newAnalysis.rawTransaction !== undefined) && {
-                rawTransaction: JSON.stringify(newAnalysis.rawTransaction),
-              },
-            },
-          },
-        );
-      }
-      const users = await UsersModel.find({
-        _id: {
-          $in: transactions.map((transaction) => transaction.userId),
-        },
-      });
-      const userById = new Map(users.map((user) => [`${user.id}`, user]));
-      logger.info(`TelegrafManager: Notifying users about new transaction analysis ${
-        txid
-      }: ${users.map((user) => user.id).join(', ')}`);
-      for await (const transaction of transactions) {
-        const user = userById.get(`${transaction.userId}`);
-        if (!user) {
-          continue;
-        }
-        const messages: string[] = [];
-        const transactionName = transaction.nickname
-          ? `${transaction.nickname} (${transaction.txid})`
-          : `${transaction.txid}`;
-        if (oldAnalysis.status !== newAnalysis.status) {
-          switch (newAnalysis.status) {
-            case TransactionStatus.Mempool:
-              messages.push(
-                `Woof! Transaction ${transactionName} has been added to the mempool.`,
-              );
-              break;
-            case TransactionStatus.PartialConfirmation:
-              messages.push(
-                `⛓️ Woof! Transaction ${transactionName} has been added to the blockchain`,
-                `in block ${
-                  [...newAnalysis.blockHashes].map(prettyBlockHash).join(', ') || 'unknown'
-                }.`,
-              );
-              break;
-            case TransactionStatus.FullConfirmation:
-              messages.push(
-                `🚀 Woof! Transaction ${transactionName} has ${newAnalysis.confirmations}`,
-                'confirmations and is now fully confirmed.',
-                `It was mined in block ${
-                  [...newAnalysis.blockHashes].map(prettyBlockHash).join(', ') || 'unknown'
-                }.`,
-                'I will no longer watch this transaction.',
+      bot.start(async (ctx) => {
+        try {
+          if (ctx.chat.type !== 'private') {
+            const chat = await TelegrafManager.registerChat(ctx, ctx.from.id);
+            if (chat) {
+              await ctx.replyWithMarkdownV2(
+                markdownMessage(ctx, undefined, chatStatusMessageKey(chat)),
               );
-              break;
-            case TransactionStatus.Unpublished: // fallthrough
-            default:
-              break;
-          }
-        }
-        const newConflicts = [...newAnalysis.conflictingTransactions ?? []].filter(
-          (conflict) => !(oldAnalysis.conflictingTransactions?.has(conflict)),
-        );
-        if (newConflicts.length > 0) {
-          if (messages.length > 0) {
-            messages.push(
-              `\n⚠️ Notice that ${
-                (newConflicts.length === 1)
-                  ? 'a new transaction was'
-                  : 'some new transactions were'
-              } found trying to spend the same input: ${
-                newConflicts.join(', ')
-              }.`,
-            );
-          } else {
-            messages.push(
-              `⚠️ Woof! ${
-                (newConflicts.length === 1)
-                  ? 'A new transaction was'
-                  : 'Some new transactions were'
-              } found trying to spend the same inputs of ${transactionName}: ${
-                newConflicts.join(', ')
-              }.`,
-            );
+            }
+            return;
           }
-          messages.push(
-            'This could either mean a double-spend attempt or a legit replace-by-fee.',
-          );
-        }
-        if (messages.length > 0) {
-          await this.sendMessage({
-            chatId: user.telegramChatId,
-            text: escapeMarkdown(messages.join(' ')),
-          });
-        }
-      }
-    } catch (error) {
-      logger.error(
-        `TelegrafManager: Failed to handle new transaction analysis: ${errorString(error)}`,
-      );
-    }
-  }
-
-  clearMessageQueue() {
-    this.messageQueue = [];
-  }
-
-  async sendMessage(message: MessageTask) {
-    try {
-      if (!this.bot) {
-        throw new Error('Bot is not configured');
-      }
-      await this.bot.telegram.sendMessage(
-        message.chatId,
-        `${message.text}${sponsorship}`,
-        {
-          disable_web_page_preview: true,
-          parse_mode: 'MarkdownV2',
-        },
-      );
-    } catch (error) {
-      logger.error(
-        `TelegrafManager: Failed to send message to chat-id ${message.chatId}: ${
-          errorString(error)
-        }`,
-      );
-      if (
-        !(error instanceof TelegramError)
-        || !Number.isSafeInteger(error.code)
-        || (error.code <= 0)
-      ) {
-        // Networking error
-        logger.info('TelegrafManager: Message sending error was a networking error');
-        if (this.messageQueue.length >= messageQueueMaxSize) {
-          logger.error(
-            `TelegrafManager: Message queue is full, will not send message to chat-id ${
-              message.chatId
-            }`,
-          );
-          return;
-        }
-        this.messageQueue.push(message);
-      }
-    }
-  }
-
-  startMessageQueueInterval() {
-    if (this.messageQueueInterval) {
-      clearInterval(this.messageQueueInterval);
-    }
-    let isRunning = false;
-    this.messageQueueInterval = setInterval(async () => {
-      if (isRunning) {
-        logger.info('TelegrafManager: Message queue handler is already running');
-        return;
-      }
-      isRunning = true;
-      try {
-        await this.messageQueueHandler();
-      } catch (error) {
-        logger.error(`TelegrafManager: Message queue handler failed: ${errorString(error)}`);
-      } finally {
-        isRunning = false;
-      }
-    }, messageQueueIntervalMs);
-    this.messageQueueInterval.unref();
-  }
-
-  private async messageQueueHandler() {
-    if (!this.bot) {
-      logger.info('TelegrafManager: trying to configure bot');
-      const settings = await SettingsModel.findById(zeroObjectId);
-      if (!settings) {
-        logger.error('TelegrafManager: Message queue handler could not find settings');
-        return;
-      }
-      logger.info(`TelegrafManager: Got settings, internal status is ${this.internalStatus}`);
-      if (settings.telegramToken && (this.internalStatus !== TelegramStatus.Loading)) {
-        await this.startBot(settings.telegramToken);
-      }
-      return;
-    }
-    const { messageQueue } = this;
-    if (messageQueue.length === 0) {
-      return;
-    }
-    logger.info(`TelegrafManager: Message queue length: ${this.messageQueue.length}`);
-    while (this.bot && (messageQueue.length > 0)) {
-      if (messageQueue !== this.messageQueue) {
-        logger.info('TelegrafManager: Message queue has been cleared');
-        break;
-      }
-      const [message] = messageQueue;
-      try {
-        // eslint-disable-next-line no-await-in-loop
-        await this.bot.telegram.sendMessage(
-          message.chatId,
-          `${escapeMarkdown(
-            'The following message has been sent with delay due to networking issues:\n\n',
-          )}${message.text}${sponsorship}`,
-          {
-            disable_web_page_preview: true,
-            parse_mode: 'MarkdownV2',
-          },
-        );
-      } catch (error) {
-        logger.error(
-          `TelegrafManager: Message queue failed to send message to chat-id ${message.chatId}: ${
-            errorString(error)
-          }`,
-        );
-        if (
-          !(error instanceof TelegramError)
-          || !Number.isSafeInteger(error.code)
-          || (error.code <= 0)
-        ) {
-          // Networking error
-          logger.info('TelegrafManager: Message queue error was a networking error');
-          break;
-        }
-      }
-      messageQueue.shift();
-    }
-    logger.info('TelegrafManager: Message queue handler has finished');
-  }
-
-  async optimisticStopBot(): Promise<void> {
-    logger.info('TelegrafManager: Stopping telegram bot if exists');
-    this.internalStatus = TelegramStatus.Unset;
-    const bot = this.internalBot;
-    if (!bot) {
-      logger.info('Telegram bot is already stopped');
-      return;
-    }
-    this.internalBot = undefined;
-    try {
-      await bot.stop();
-      logger.info('TelegrafManager: Telegram bot has stopped successfully');
-    } catch (error) {
-      logger.error(`TelegrafManager: Failed to stop old telegram bot: ${errorString(error)}`);
-    }
-  }
-
-  static async isPermitted(user: UserFields, permissionKey: PermissionKey): Promise<boolean> {
-    const settings = await SettingsModel.findById(zeroObjectId);
-    if (!settings) {
-      throw new Error('Settings not found to check permission groups');
-    }
-    const commandPermissionGroups = settings?.commandsPermissionGroups[permissionKey];
-    if (!commandPermissionGroups) {
-      return true;
-    }
-    const commandPermissionGroupsSet = new Set(commandPermissionGroups);
-    return user.permissionGroups.some(
-      (group) => commandPermissionGroupsSet.has(group),
-    );
-  }
-
-  async startBot(token: string) {
-    if (this.internalStatus === TelegramStatus.Loading) {
-      throw new Error('Already loading');
-    }
-    await this.optimisticStopBot();
-    logger.info('TelegrafManager: Launching new telegram bot');
-    this.internalStatus = TelegramStatus.Loading;
-    const bot = new Telegraf(token);
-    try {
-      bot.start(async (ctx) => {
-        try {
           const settings = await SettingsModel.findById(zeroObjectId);
           if (!settings) {
             throw new Error('Settings not found');
           }
-          const usersCount = await UsersModel.countDocuments();
+          const usersCount = await UsersModel.countDocuments({
+            telegramChatType: { $exists: false },
+          });
           const telegramUsername = ctx.from.username ?? '';
+          const telegramLanguage = parseLanguage(ctx.from.language_code);
           const canInsert = (
             (settings.maxUsers === undefined) || (usersCount < settings.maxUsers)
           ) && (
@@ -996,6 +521,7 @@ export class TelegrafManager {
               $set: {
                 telegramChatId: ctx.chat.id,
                 telegramUsername,
+                ...telegramLanguage && { telegramLanguage },
               },
               $setOnInsert: {
                 ...defaultUserProperties,
@@ -1006,17 +532,11 @@ export class TelegrafManager {
             },
           );
           if (found) {
-            ctx.replyWithMarkdownV2(escapeMarkdown(
-              'You are already registered. For more information, call /help.',
-            ));
+            ctx.replyWithMarkdownV2(markdownMessage(ctx, found, 'alreadyRegistered'));
             return;
           }
           if (!canInsert) {
-            ctx.replyWithMarkdownV2(escapeMarkdown([
-              'You are restricted from accessing this bot.',
-              'Please contact the bot administrator and ask to be added to the users whitelist',
-              'or to increase the maximal number of users that the bot is allowed to support.',
-            ].join(' ')));
+            ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'restricted'));
             return;
           }
           if (settings.usersWhitelist) {
@@ -1031,7 +551,10 @@ export class TelegrafManager {
               },
             );
           }
-          await ctx.replyWithMarkdownV2(startMessage, { disable_web_page_preview: true });
+          await ctx.replyWithMarkdownV2(
+            `${markdownMessage(ctx, undefined, 'start', { appName: AppName })}${sponsorship}`,
+            { disable_web_page_preview: true },
+          );
         } catch (error) {
           logger.error(
             `TelegrafManager: Failed to run start for chat-id ${
@@ -1042,10 +565,11 @@ export class TelegrafManager {
       });
       bot.help(async (ctx) => {
         try {
+          const language = userLanguage(ctx);
           await ctx.replyWithMarkdownV2(escapeMarkdown(
-            `Woof! These are the commands that I was trained for:\n${
+            `${translate(language, 'help')}\n${
               telegramCommands.map(
-                ({ name, description }) => `/${name} - ${description}`,
+                ({ name }) => `/${name} - ${translate(language, `commandDescription.${name}`)}`,
               ).join('\n')
             }`,
           ));
@@ -1060,59 +584,7 @@ export class TelegrafManager {
       for (const command of filteredTelegramCommands) {
         bot.command(command.name, async (ctx) => {
           try {
-            const user = ctx.from?.id && await UsersModel.findOne(
-              {
-                telegramFromId: ctx.from.id,
-              },
-            );
-            if (!user) {
-              await ctx.replyWithMarkdownV2(notFoundMessage);
-              return;
-            }
-            // update telegram details if changed
-            if (
-              (user.telegramChatId !== ctx.chat.id)
-              || (ctx.from.username && (user.telegramUsername !== ctx.from.username))
-            ) {
-              await UsersModel.updateOne(
-                {
-                  _id: user._id,
-                },
-                {
-                  $set: {
-                    telegramChatId: ctx.chat.id,
-                    ...Boolean(ctx.from.username) && {
-                      telegramUsername: ctx.from.username,
-                    },
-                  },
-                },
-              );
-              user.telegramChatId = ctx.chat.id;
-              if (ctx.from.username) {
-                user.telegramUsername = ctx.from.username;
-              }
-            }
-            const { permissionKey } = command;
-            if (permissionKey && !await TelegrafManager.isPermitted(user, permissionKey)) {
-              ctx.replyWithMarkdownV2(notPermittedMessage);
-              return;
-            }
-            const args = ctx.message.text.trim().split(/\s+/).slice(1);
-            const parametersRequestMessage = telegramCommandByName.get(
-              command.name,
-            )?.parametersRequestMessage;
-            if ((args.length === 0) && parametersRequestMessage) {
-              await ctx.replyWithMarkdownV2(
-                escapeMarkdown(parametersRequestMessage),
-                {
-                  reply_markup: {
-                    force_reply: true,
-                  },
-                },
-              );
-              return;
-            }
-            await this.runCommand(command.name, ctx as TextContext, user, args);
+            await TelegrafManager.onCommand(command, ctx as TextContext);
           } catch (error) {
             logger.error(
               `TelegrafManager: Failed to run command ${command.name} for chat-id ${
@@ -1122,9 +594,79 @@ export class TelegrafManager {
           }
         });
       }
+      bot.on(callbackQuery('data'), async (ctx) => {
+        try {
+          await TelegrafManager.onWatchCallbackQuery(ctx);
+        } catch (error) {
+          logger.error(
+            `TelegrafManager: Failed to handle callback query in chat-id ${
+              ctx.chat?.id
+            }: ${errorString(error)}`,
+          );
+        }
+      });
+      bot.on('my_chat_member', async (ctx) => {
+        try {
+          const { chat, from, new_chat_member: newChatMember } = ctx.myChatMember;
+          if (chat.type === 'private') {
+            return;
+          }
+          if (['left', 'kicked'].includes(newChatMember.status)) {
+            await deleteTelegramChat({ telegramChatId: chat.id });
+            return;
+          }
+          const telegramChat = await TelegrafManager.registerChat(ctx, from.id);
+          if (telegramChat?.status === TelegramChatStatus.Pending) {
+            await ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'chatPending'));
+          }
+        } catch (error) {
+          logger.error(
+            `TelegrafManager: Failed to handle membership update in chat-id ${
+              ctx.chat.id
+            }: ${errorString(error)}`,
+          );
+        }
+      });
+      bot.on(messageFilter('migrate_to_chat_id'), async (ctx) => {
+        try {
+          await migrateTelegramChat(ctx.chat.id, ctx.message.migrate_to_chat_id);
+        } catch (error) {
+          logger.error(
+            `TelegrafManager: Failed to migrate chat-id ${ctx.chat.id}: ${errorString(error)}`,
+          );
+        }
+      });
+      bot.on(channelPost('text'), async (ctx) => {
+        try {
+          const match = ctx.channelPost.text.match(/^\/(\w+)(@(\w+))?(\s|$)/);
+          if (!match || (match[3] && (match[3].toLowerCase() !== ctx.me.toLowerCase()))) {
+            return;
+          }
+          const command = telegramCommandByName.get(match[1] as BotCommandName);
+          if (command?.name === BotCommandName.Start) {
+            const chat = await TelegrafManager.registerChat(ctx);
+            if (chat) {
+              await ctx.replyWithMarkdownV2(
+                markdownMessage(ctx, undefined, chatStatusMessageKey(chat)),
+              );
+            }
+            return;
+          }
+          if (!command || !chatCommandNames.has(command.name)) {
+            return;
+          }
+          await TelegrafManager.onCommand(command, createMessageContext(ctx, ctx.channelPost));
+        } catch (error) {
+          logger.error(
+            `TelegrafManager: Failed to handle post in chat-id ${ctx.chat.id}: ${
+              errorString(error)
+            }`,
+          );
+        }
+      });
       bot.hears(/^woof(\W|$)/i, async (ctx) => {
         try {
-          await ctx.replyWithMarkdownV2(escapeMarkdown('Woof Woof!'));
+          await ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'woof'));
         } catch (error) {
           logger.error(
             `TelegrafManager: Failed to hear woof in chat-id ${
@@ -1135,9 +677,11 @@ export class TelegrafManager {
       });
       bot.hears(/^\/\S/, async (ctx) => {
         try {
-          await ctx.replyWithMarkdownV2(escapeMarkdown(
-            'Woof! I wasn\'t trained for this command. See /help.',
-          ));
+          if (ctx.chat.type !== 'private') {
+            // Might be a command of another bot in the group
+            return;
+          }
+          await ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'unknownCommand'));
         } catch (error) {
           logger.error(
             `TelegrafManager: Failed to hear unknown command in chat-id ${
@@ -1156,51 +700,61 @@ export class TelegrafManager {
               replyToMessageText,
             );
             if (telegramCommand) {
-              const user = ctx.from?.id && await UsersModel.findOne(
-                {
-                  telegramFromId: ctx.from.id,
-                },
-              );
-              if (!user) {
-                await ctx.replyWithMarkdownV2(notFoundMessage);
+              const commandUsers = await TelegrafManager.findCommandUsers(textContext);
+              if (!commandUsers) {
                 return;
               }
+              const { user, issuer } = commandUsers;
               const { permissionKey } = telegramCommand;
-              if (permissionKey && !await TelegrafManager.isPermitted(user, permissionKey)) {
-                ctx.replyWithMarkdownV2(notPermittedMessage);
+              if (permissionKey && !await TelegrafManager.isPermitted(issuer, permissionKey)) {
+                ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'notPermitted'));
                 return;
               }
-              await this.runCommand(telegramCommand.name, textContext, user, args);
+              await TelegrafManager.runCommand(telegramCommand.name, textContext, user, args);
               return;
             }
             const watch = watchByParametersRequestMessage.get(
               replyToMessageText,
             );
             if (watch) {
-              const user = ctx.from?.id && await UsersModel.findOne(
-                {
-                  telegramFromId: ctx.from.id,
-                },
-              );
-              if (!user) {
-                await ctx.replyWithMarkdownV2(notFoundMessage);
+              const commandUsers = await TelegrafManager.findCommandUsers(textContext);
+              if (!commandUsers) {
                 return;
               }
+              const { user, issuer } = commandUsers;
               const { permissionKey } = watch;
-              if (permissionKey && !await TelegrafManager.isPermitted(user, permissionKey)) {
-                ctx.replyWithMarkdownV2(notPermittedMessage);
+              if (permissionKey && !await TelegrafManager.isPermitted(issuer, permissionKey)) {
+                ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'notPermitted'));
                 return;
               }
               switch (watch.name) {
                 case WatchName.Transaction:
-                  await this.watchTransaction(textContext, user, args);
+                  await TelegrafManager.watchTransaction(textContext, user, args);
                   return;
                 case WatchName.Addresses:
                   await TelegrafManager.watchAddresses(textContext, user, args);
                   return;
+                case WatchName.Wallets:
+                  await TelegrafManager.watchWallets(textContext, user, args);
+                  return;
+                case WatchName.Outpoints:
+                  await TelegrafManager.watchOutpoints(textContext, user, args);
+                  return;
+                case WatchName.Timelocks:
+                  await TelegrafManager.watchTimelocks(textContext, user, args);
+                  return;
                 case WatchName.PriceChange:
                   await TelegrafManager.watchPriceChange(textContext, user, args);
                   return;
+                case WatchName.FeeRate:
+                  await TelegrafManager.watchFeeRate(textContext, user, args);
+                  return;
+                case WatchName.Whales:
+                  await TelegrafManager.watchWhales(textContext, user, args);
+                  return;
+                case WatchName.LightningLiquidity:
+                  await TelegrafManager.watchLightningLiquidity(textContext, user, args);
+                  return;
                 default:
                   break;
               }
@@ -1209,18 +763,14 @@ export class TelegrafManager {
               replyToMessageText,
             );
             if (unwatch) {
-              const user = ctx.from?.id && await UsersModel.findOne(
-                {
-                  telegramFromId: ctx.from.id,
-                },
-              );
-              if (!user) {
-                await ctx.replyWithMarkdownV2(notFoundMessage);
+              const commandUsers = await TelegrafManager.findCommandUsers(textContext);
+              if (!commandUsers) {
                 return;
               }
+              const { user, issuer } = commandUsers;
               const { permissionKey } = unwatch;
-              if (permissionKey && !await TelegrafManager.isPermitted(user, permissionKey)) {
-                ctx.replyWithMarkdownV2(notPermittedMessage);
+              if (permissionKey && !await TelegrafManager.isPermitted(issuer, permissionKey)) {
+                ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'notPermitted'));
                 return;
               }
               switch (unwatch.name) {
@@ -1230,14 +780,25 @@ export class TelegrafManager {
                 case WatchName.Addresses:
                   await TelegrafManager.unwatchAddresses(textContext, user, args);
                   return;
+                case WatchName.Wallets:
+                  await TelegrafManager.unwatchWallets(textContext, user, args);
+                  return;
+                case WatchName.Outpoints:
+                  await TelegrafManager.unwatchOutpoints(textContext, user, args);
+                  return;
+                case WatchName.Timelocks:
+                  await TelegrafManager.unwatchTimelocks(textContext, user, args);
+                  return;
                 default:
                   break;
               }
             }
           }
-          await ctx.replyWithMarkdownV2(escapeMarkdown(
-            'Woof! I could not understand you. See /help.',
-          ));
+          if (ctx.chat.type !== 'private') {
+            // Not every message in a group is meant for the bot
+            return;
+          }
+          await ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'notUnderstood'));
         } catch (error) {
           logger.error(
             `TelegrafManager: Failed to hear unknown text in chat-id ${
@@ -1252,6 +813,15 @@ export class TelegrafManager {
           ({ name, description }) => ({ command: name, description }),
         ),
       );
+      for await (const language of languages.filter((other) => other !== Language.English)) {
+        await bot.telegram.setMyCommands(
+          telegramCommands.map(({ name }) => ({
+            command: name,
+            description: translate(language, `commandDescription.${name}`),
+          })),
+          { language_code: language },
+        );
+      }
       logger.info('TelegrafManager: starting launch');
       bot.launch({
         dropPendingUpdates: true,
@@ -1271,105 +841,338 @@ export class TelegrafManager {
     }
   }
 
-  async runCommand(
+  static async runCommand(
     command: BotCommandName,
     ctx: TextContext,
     user: UserDocument,
     args: string[],
   ) {
-    if (this[command]) {
-      await this[command](ctx, user, args);
-    } else {
-      await TelegrafManager[command](ctx, user, args);
-    }
+    await TelegrafManager[command](ctx, user, args);
   }
 
-  static async [BotCommandName.WhoAmI](ctx: TextContext, user: UserDocument) {
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      `You are @${user.telegramUsername}, telegram-id ${
-        user.telegramFromId
-      }, local-id ${user.id}`,
-    ));
-  }
-
-  static async [BotCommandName.About](ctx: TextContext) {
-    try {
-      const bitcoindInfo = await bitcoindWatcher.getInfo();
-      const match = bitcoindInfo.version.match(/^\/Satoshi:(.+)\/$/);
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        `🐶 ${AppName} v${AppVersion}\nBitcoin node version: ${
-          match?.[1] ?? bitcoindInfo.version
-        }\nBitcoin chain: ${bitcoindInfo.chain}\n${
-          lndWatcher.isRunning()
-            ? `LND version: ${
-              (await lndWatcher.lndVersion()) || 'unknown'
-            }`
-            : 'LND: not connected'
-        }`,
-      ));
-    } catch (error) {
-      logger.error(`Failed to run about command: ${errorString(error)}`);
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        `Failed to get server info (${AppName} v${AppVersion}), server might still be booting.`,
-      ));
+  private static async onCommand(command: BotCommand, ctx: TextContext) {
+    if ((ctx.message.chat.type !== 'private') && !chatCommandNames.has(command.name)) {
+      await ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'chatPrivateCommand'));
+      return;
     }
-  }
-
-  async [BotCommandName.Watch](
-    ctx: TextContext,
-    user: UserDocument,
-    args: string[],
-  ): Promise<void | undefined> {
-    if (args.length === 0) {
-      ctx.replyWithMarkdownV2(
-        escapeMarkdown('Which events would you like to get notifications for?'),
-        {
-          reply_markup: {
-            keyboard: watches.map(
-              (watch) => [{ text: `/watch ${watch.name}` }],
-            ),
-          },
-        },
-      );
-      return undefined;
+    const commandUsers = await TelegrafManager.findCommandUsers(ctx);
+    if (!commandUsers) {
+      return;
     }
-    const [watchName, ...leftArgs] = args;
-    const watch = watchByName.get(watchName as WatchName);
-    if (!watch) {
-      ctx.replyWithMarkdownV2(
-        escapeMarkdown('Unrecognized event-name to watch'),
-      );
-      return undefined;
+    const { user, issuer } = commandUsers;
+    const { permissionKey } = command;
+    if (permissionKey && !await TelegrafManager.isPermitted(issuer, permissionKey)) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'notPermitted'));
+      return;
     }
-    if (leftArgs.length === 0 && watch?.watchParametersRequestMessage) {
+    const args = ctx.message.text.trim().split(/\s+/).slice(1);
+    if ((args.length === 0) && command.parametersRequestMessage) {
       await ctx.replyWithMarkdownV2(
-        escapeMarkdown(watch?.watchParametersRequestMessage),
+        markdownMessage(ctx, user, `commandParametersRequest.${command.name}`),
         {
           reply_markup: {
             force_reply: true,
           },
         },
       );
-      return undefined;
+      return;
     }
-    const { permissionKey } = watch;
-    if (permissionKey && !await TelegrafManager.isPermitted(user, permissionKey)) {
-      ctx.replyWithMarkdownV2(notPermittedMessage);
-      return undefined;
+    await TelegrafManager.runCommand(command.name, ctx, user, args);
+  }
+
+  private static async onWatchCallbackQuery(
+    ctx: Context<Update.CallbackQueryUpdate<CallbackQuery.DataQuery>>,
+  ) {
+    const { data, message, from } = ctx.callbackQuery;
+    const match = data.match(watchCallbackDataRegex);
+    if (!match || !message) {
+      await ctx.answerCbQuery();
+      return;
     }
-    switch (watch.name) {
-      case WatchName.Reboot:
-        return TelegrafManager.watchReboot(ctx, user);
+    if (message.chat.type !== 'private') {
+      // Everyone in the chat can see the buttons, so don't let the others spam the chat with
+      // rejection replies
+      const chatMember = await ctx.telegram.getChatMember(message.chat.id, from.id);
+      if (!chatAdministratorStatuses.has(chatMember.status)) {
+        await ctx.answerCbQuery(
+          translate(userLanguage(ctx), 'chatIssuerNotAdministrator'),
+          { show_alert: true },
+        );
+        return;
+      }
+    }
+    await ctx.answerCbQuery();
+    const [, commandName, watchName, , documentId] = match;
+    const callbackMessage = {
+      ...message,
+      // The user who pressed the button rather than the bot that sent the keyboard
+      from,
+      sender_chat: undefined,
+      reply_to_message: undefined,
+    };
+    const args = [watchName];
+    if (documentId) {
+      // Callback data can be crafted, so the watch must belong to the user or chat of the button
+      const commandUsers = await TelegrafManager.findCommandUsers(createMessageContext(ctx, {
+        ...callbackMessage,
+        text: `/${commandName}`,
+      }));
+      if (!commandUsers) {
+        return;
+      }
+      const filter = { _id: documentId, userId: commandUsers.user._id };
+      let watchedValue: string | undefined;
+      if (watchName === WatchName.Transaction) {
+        watchedValue = (await WatchedTransactionsModel.findOne(filter))?.txid;
+      } else if (watchName === WatchName.Addresses) {
+        watchedValue = (await WatchedAddressesModel.findOne(filter))?.address;
+      } else if (watchName === WatchName.Wallets) {
+        watchedValue = (await WatchedWalletsModel.findOne(filter))?.extendedKey;
+      } else if (watchName === WatchName.Outpoints) {
+        watchedValue = (await WatchedOutpointsModel.findOne(filter))?.outpoint;
+      } else if (watchName === WatchName.Timelocks) {
+        watchedValue = (await WatchedTimelocksModel.findOne(filter))?.lock;
+      }
+      if (!watchedValue) {
+        await ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'watchAlreadyRemoved'));
+        return;
+      }
+      args.push(watchedValue);
+    }
+    const command = telegramCommandByName.get(commandName as BotCommandName);
+    if (!command) {
+      return;
+    }
+    await TelegrafManager.onCommand(command, createMessageContext(ctx, {
+      ...callbackMessage,
+      text: `/${command.name} ${args.join(' ')}`,
+    }));
+    if ((command.name === BotCommandName.Unwatch) && ('reply_markup' in message)) {
+      // Each watch is cancelled by a single tap, so its button is no longer needed
+      const inlineKeyboard = (message.reply_markup?.inline_keyboard ?? []).map(
+        (row) => row.filter(
+          (button) => !('callback_data' in button) || (button.callback_data !== data),
+        ),
+      ).filter((row) => row.length > 0);
+      await ctx.editMessageReplyMarkup(
+        (inlineKeyboard.length > 0) ? { inline_keyboard: inlineKeyboard } : undefined,
+      );
+    }
+  }
+
+  // Groups and channels that the bot was added to wait for the approval of the bot administrator
+  private static async registerChat(
+    ctx: Context,
+    addedByFromId?: number,
+  ): Promise<TelegramChatDocument | undefined> {
+    const { chat } = ctx;
+    if (!chat || (chat.type === 'private')) {
+      return undefined;
+    }
+    return registerTelegramChat({
+      telegramChatId: chat.id,
+      type: chat.type as TelegramChatType,
+      title: chat.title,
+      addedByFromId,
+    });
+  }
+
+  // Replies with an explanation when the command should not run
+  static async findCommandUsers(ctx: TextContext): Promise<CommandUsers | undefined> {
+    const { chat: telegramChat } = ctx.message;
+    if (telegramChat.type === 'private') {
+      const user = ctx.from?.id && await UsersModel.findOne(
+        {
+          telegramFromId: ctx.from.id,
+        },
+      );
+      if (!user) {
+        await ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'notFound'));
+        return undefined;
+      }
+      // update telegram details if changed
+      const telegramLanguage = parseLanguage(ctx.from.language_code);
+      if (
+        (user.telegramChatId !== telegramChat.id)
+        || (ctx.from.username && (user.telegramUsername !== ctx.from.username))
+        || (telegramLanguage && (user.telegramLanguage !== telegramLanguage))
+      ) {
+        await UsersModel.updateOne(
+          {
+            _id: user._id,
+          },
+          {
+            $set: {
+              telegramChatId: telegramChat.id,
+              ...Boolean(ctx.from.username) && {
+                telegramUsername: ctx.from.username,
+              },
+              ...telegramLanguage && { telegramLanguage },
+            },
+          },
+        );
+        user.telegramChatId = telegramChat.id;
+        if (ctx.from.username) {
+          user.telegramUsername = ctx.from.username;
+        }
+        if (telegramLanguage) {
+          user.telegramLanguage = telegramLanguage;
+        }
+      }
+      ctx.state.issuer = user;
+      return { user, issuer: user };
+    }
+    const chat = await TelegramChatsModel.findOne({ telegramChatId: telegramChat.id })
+      ?? await TelegrafManager.registerChat(ctx, ctx.from?.id);
+    if (!chat) {
+      return undefined;
+    }
+    const user = chat.subscriberId && await UsersModel.findById(chat.subscriberId);
+    if ((chat.status !== TelegramChatStatus.Approved) || !user) {
+      await ctx.replyWithMarkdownV2(
+        markdownMessage(ctx, undefined, chatStatusMessageKey(chat)),
+      );
+      return undefined;
+    }
+    // Posts in channels and messages of anonymous group administrators are sent on behalf of the
+    // chat itself, only administrators can send them.
+    const isSentByChat = ctx.message.sender_chat?.id === telegramChat.id;
+    const issuerFromId = isSentByChat ? chat.addedByFromId : ctx.from?.id;
+    const issuer = issuerFromId && await UsersModel.findOne({
+      telegramFromId: issuerFromId,
+    });
+    if (!issuer) {
+      await ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'chatIssuerNotFound'));
+      return undefined;
+    }
+    if (!isSentByChat) {
+      const chatMember = await ctx.telegram.getChatMember(telegramChat.id, issuer.telegramFromId);
+      if (!chatAdministratorStatuses.has(chatMember.status)) {
+        await ctx.replyWithMarkdownV2(
+          markdownMessage(ctx, issuer, 'chatIssuerNotAdministrator'),
+        );
+        return undefined;
+      }
+    }
+    ctx.state.issuer = issuer;
+    return { user, issuer };
+  }
+
+  static async [BotCommandName.WhoAmI](ctx: TextContext, user: UserDocument) {
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'whoAmI', {
+      username: user.telegramUsername,
+      telegramId: user.telegramFromId,
+      id: user.id,
+    }));
+  }
+
+  static async [BotCommandName.About](ctx: TextContext, user: UserDocument) {
+    try {
+      const bitcoindInfo = await bitcoindWatcher.getInfo();
+      const match = bitcoindInfo.version.match(/^\/Satoshi:(.+)\/$/);
+      const language = userLanguage(ctx, user);
+      const lndVersion = lndWatcher.isRunning()
+        && ((await lndWatcher.lndVersion()) || translate(language, 'aboutUnknownVersion'));
+      ctx.replyWithMarkdownV2(escapeMarkdown(translate(language, 'about', {
+        appName: AppName,
+        appVersion: AppVersion,
+        nodeVersion: match?.[1] ?? bitcoindInfo.version,
+        chain: bitcoindInfo.chain,
+        lnd: lndVersion
+          ? translate(language, 'aboutLndVersion', { version: lndVersion })
+          : translate(language, 'aboutLndNotConnected'),
+      })));
+    } catch (error) {
+      logger.error(`Failed to run about command: ${errorString(error)}`);
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'aboutFailed', {
+        appName: AppName,
+        appVersion: AppVersion,
+      }));
+    }
+  }
+
+  static async [BotCommandName.Watch](
+    ctx: TextContext,
+    user: UserDocument,
+    args: string[],
+  ): Promise<void | undefined> {
+    if (args.length === 0) {
+      const issuer = ctx.state.issuer ?? user;
+      const arePermitted = await Promise.all(watches.map(
+        ({ permissionKey }) => !permissionKey || TelegrafManager.isPermitted(issuer, permissionKey),
+      ));
+      const permittedWatches = watches.filter((watch, index) => arePermitted[index]);
+      if (permittedWatches.length === 0) {
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'notPermitted'));
+        return undefined;
+      }
+      ctx.replyWithMarkdownV2(
+        markdownMessage(ctx, user, 'watchPrompt'),
+        {
+          reply_markup: {
+            inline_keyboard: permittedWatches.map(
+              (watch) => [{ text: watch.name, callback_data: `watch:${watch.name}` }],
+            ),
+          },
+        },
+      );
+      return undefined;
+    }
+    const [watchName, ...leftArgs] = args;
+    const watch = watchByName.get(watchName as WatchName);
+    if (!watch) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'unrecognizedWatch'));
+      return undefined;
+    }
+    if (leftArgs.length === 0 && watch?.watchParametersRequestMessage) {
+      await ctx.replyWithMarkdownV2(
+        markdownMessage(ctx, user, `watchParametersRequest.${watch.name}`),
+        {
+          reply_markup: {
+            force_reply: true,
+          },
+        },
+      );
+      return undefined;
+    }
+    const { permissionKey } = watch;
+    if (
+      permissionKey && !await TelegrafManager.isPermitted(ctx.state.issuer ?? user, permissionKey)
+    ) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'notPermitted'));
+      return undefined;
+    }
+    switch (watch.name) {
+      case WatchName.Reboot:
+        return TelegrafManager.watchReboot(ctx, user);
       case WatchName.Transaction:
-        return this.watchTransaction(ctx, user, leftArgs);
+        return TelegrafManager.watchTransaction(ctx, user, leftArgs);
       case WatchName.Addresses:
         return TelegrafManager.watchAddresses(ctx, user, leftArgs);
+      case WatchName.Wallets:
+        return TelegrafManager.watchWallets(ctx, user, leftArgs);
+      case WatchName.Outpoints:
+        return TelegrafManager.watchOutpoints(ctx, user, leftArgs);
+      case WatchName.Timelocks:
+        return TelegrafManager.watchTimelocks(ctx, user, leftArgs);
       case WatchName.PriceChange:
         return TelegrafManager.watchPriceChange(ctx, user, leftArgs);
       case WatchName.NewBlocks:
-        return TelegrafManager.watchNewBlocks(ctx, user);
+        return TelegrafManager.watchNewBlocks(ctx, user, leftArgs);
+      case WatchName.Reorg:
+        return TelegrafManager.watchReorg(ctx, user);
+      case WatchName.Difficulty:
+        return TelegrafManager.watchDifficulty(ctx, user);
+      case WatchName.Halving:
+        return TelegrafManager.watchHalving(ctx, user);
       case WatchName.MempoolClear:
         return TelegrafManager.watchMempoolClear(ctx, user);
+      case WatchName.FeeRate:
+        return TelegrafManager.watchFeeRate(ctx, user, leftArgs);
+      case WatchName.Whales:
+        return TelegrafManager.watchWhales(ctx, user, leftArgs);
+      case WatchName.NodeHealth:
+        return TelegrafManager.watchNodeHealth(ctx, user, leftArgs);
       case WatchName.LightningChannelsOpened:
         return TelegrafManager.watchLightningChannelsOpened(ctx, user);
       case WatchName.LightningChannelsClosed:
@@ -1380,6 +1183,8 @@ export class TelegrafManager {
         return TelegrafManager.watchLightningInvoicesCreated(ctx, user);
       case WatchName.LightningInvoicesPaid:
         return TelegrafManager.watchLightningInvoicesPaid(ctx, user);
+      case WatchName.LightningLiquidity:
+        return TelegrafManager.watchLightningLiquidity(ctx, user, leftArgs);
       default:
         break;
     }
@@ -1392,29 +1197,18 @@ export class TelegrafManager {
     args: string[],
   ): Promise<void | undefined> {
     if (args.length === 0) {
-      ctx.replyWithMarkdownV2(
-        escapeMarkdown('Which watches would you like to cancel?'),
-        {
-          reply_markup: {
-            keyboard: watches.map(
-              (watch) => [{ text: `/unwatch ${watch.name}` }],
-            ),
-          },
-        },
-      );
+      await TelegrafManager.replyUnwatchKeyboard(ctx, user);
       return undefined;
     }
     const [watchName, ...leftArgs] = args;
     const watch = watchByName.get(watchName as WatchName);
     if (!watch) {
-      ctx.replyWithMarkdownV2(
-        escapeMarkdown('Unrecognized event-name to unwatch'),
-      );
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'unrecognizedUnwatch'));
       return undefined;
     }
     if (leftArgs.length === 0 && watch?.unwatchParametersRequestMessage) {
       await ctx.replyWithMarkdownV2(
-        escapeMarkdown(watch?.unwatchParametersRequestMessage),
+        markdownMessage(ctx, user, `unwatchParametersRequest.${watch.name}`),
         {
           reply_markup: {
             force_reply: true,
@@ -1430,12 +1224,30 @@ export class TelegrafManager {
         return TelegrafManager.unwatchTransactions(ctx, user, leftArgs);
       case WatchName.Addresses:
         return TelegrafManager.unwatchAddresses(ctx, user, leftArgs);
+      case WatchName.Wallets:
+        return TelegrafManager.unwatchWallets(ctx, user, leftArgs);
+      case WatchName.Outpoints:
+        return TelegrafManager.unwatchOutpoints(ctx, user, leftArgs);
+      case WatchName.Timelocks:
+        return TelegrafManager.unwatchTimelocks(ctx, user, leftArgs);
       case WatchName.PriceChange:
         return TelegrafManager.unwatchPriceChange(ctx, user);
       case WatchName.NewBlocks:
         return TelegrafManager.unwatchNewBlocks(ctx, user);
+      case WatchName.Reorg:
+        return TelegrafManager.unwatchReorg(ctx, user);
+      case WatchName.Difficulty:
+        return TelegrafManager.unwatchDifficulty(ctx, user);
+      case WatchName.Halving:
+        return TelegrafManager.unwatchHalving(ctx, user);
       case WatchName.MempoolClear:
         return TelegrafManager.unwatchMempoolClear(ctx, user);
+      case WatchName.FeeRate:
+        return TelegrafManager.unwatchFeeRate(ctx, user, leftArgs);
+      case WatchName.Whales:
+        return TelegrafManager.unwatchWhales(ctx, user, leftArgs);
+      case WatchName.NodeHealth:
+        return TelegrafManager.unwatchNodeHealth(ctx, user);
       case WatchName.LightningChannelsOpened:
         return TelegrafManager.unwatchLightningChannelsOpened(ctx, user);
       case WatchName.LightningChannelsClosed:
@@ -1446,12 +1258,88 @@ export class TelegrafManager {
         return TelegrafManager.unwatchLightningInvoicesCreated(ctx, user);
       case WatchName.LightningInvoicesPaid:
         return TelegrafManager.unwatchLightningInvoicesPaid(ctx, user);
+      case WatchName.LightningLiquidity:
+        return TelegrafManager.unwatchLightningLiquidity(ctx, user, leftArgs);
       default:
         break;
     }
     return undefined;
   }
 
+  // One button per watch of the user, and per watched transaction or address
+  private static async replyUnwatchKeyboard(ctx: TextContext, user: UserDocument) {
+    const watchButtons: InlineKeyboardButton[] = watches.filter(({ name }) => {
+      const userFields = watchUserFields.get(name);
+      return userFields?.some((userField) => {
+        const value = user[userField];
+        return Array.isArray(value) ? (value.length > 0) : Boolean(value);
+      });
+    }).map(({ name }) => ({ text: name, callback_data: `unwatch:${name}` }));
+    const watchedTransactions = await WatchedTransactionsModel.find({
+      userId: user._id,
+    }).limit(maxUnwatchDocumentButtons + 1);
+    const watchedAddresses = await WatchedAddressesModel.find({
+      userId: user._id,
+    }).limit(maxUnwatchDocumentButtons + 1);
+    const watchedWallets = await WatchedWalletsModel.find({
+      userId: user._id,
+    }).limit(maxUnwatchDocumentButtons + 1);
+    const watchedOutpoints = await WatchedOutpointsModel.find({
+      userId: user._id,
+    }).limit(maxUnwatchDocumentButtons + 1);
+    const watchedTimelocks = await WatchedTimelocksModel.find({
+      userId: user._id,
+    }).limit(maxUnwatchDocumentButtons + 1);
+    const documentButtons: InlineKeyboardButton[] = [
+      // Listed first, since the truncation message does not mention the wallets, the outputs and
+      // the timelocks
+      ...watchedWallets.map((watchedWallet) => ({
+        text: `wallet ${watchedWallet.nickname ?? shortenWatchedValue(watchedWallet.extendedKey)}`,
+        callback_data: `unwatch:${WatchName.Wallets}:${watchedWallet.id}`,
+      })),
+      ...watchedOutpoints.map((watchedOutpoint) => {
+        const [txid, vout] = watchedOutpoint.outpoint.split(':');
+        return {
+          text: `output ${watchedOutpoint.nickname ?? `${shortenWatchedValue(txid)}:${vout}`}`,
+          callback_data: `unwatch:${WatchName.Outpoints}:${watchedOutpoint.id}`,
+        };
+      }),
+      ...watchedTimelocks.map((watchedTimelock) => ({
+        text: `timelock ${watchedTimelock.nickname ?? shortenWatchedValue(watchedTimelock.lock)}`,
+        callback_data: `unwatch:${WatchName.Timelocks}:${watchedTimelock.id}`,
+      })),
+      ...watchedTransactions.map((transaction) => ({
+        text: `transaction ${transaction.nickname ?? shortenWatchedValue(transaction.txid)}`,
+        callback_data: `unwatch:${WatchName.Transaction}:${transaction.id}`,
+      })),
+      ...watchedAddresses.map((watchedAddress) => ({
+        text: `address ${watchedAddress.nickname ?? shortenWatchedValue(watchedAddress.address)}`,
+        callback_data: `unwatch:${WatchName.Addresses}:${watchedAddress.id}`,
+      })),
+    ];
+    if ((watchButtons.length === 0) && (documentButtons.length === 0)) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'notWatchingAnything'));
+      return;
+    }
+    const isTruncated = documentButtons.length > maxUnwatchDocumentButtons;
+    ctx.replyWithMarkdownV2(
+      isTruncated
+        ? markdownMessage(ctx, user, 'unwatchPromptTruncated', {
+          transactionCommand: `/${BotCommandName.Unwatch} ${WatchName.Transaction}`,
+          addressesCommand: `/${BotCommandName.Unwatch} ${WatchName.Addresses}`,
+        })
+        : markdownMessage(ctx, user, 'unwatchPrompt'),
+      {
+        reply_markup: {
+          inline_keyboard: [
+            ...watchButtons,
+            ...documentButtons.slice(0, maxUnwatchDocumentButtons),
+          ].map((button) => [button]),
+        },
+      },
+    );
+  }
+
   static async watchReboot(ctx: TextContext, user: UserDocument) {
     const found = await UsersModel.findByIdAndUpdate(
       user._id,
@@ -1462,10 +1350,10 @@ export class TelegrafManager {
       },
     );
     if (!found) {
-      ctx.replyWithMarkdownV2(notFoundMessage);
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'notFound'));
       return;
     }
-    ctx.replyWithMarkdownV2(escapeMarkdown('Started watching reboots.'));
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'rebootWatchStarted'));
   }
 
   static async unwatchReboot(ctx: TextContext, user: UserDocument) {
@@ -1478,16 +1366,27 @@ export class TelegrafManager {
       },
     );
     if (!found) {
-      ctx.replyWithMarkdownV2(notFoundMessage);
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'notFound'));
       return;
     }
-    ctx.replyWithMarkdownV2(escapeMarkdown('Stopped watching reboots.'));
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'rebootWatchStopped'));
   }
 
-  static async watchNewBlocks(ctx: TextContext, user: UserDocument) {
+  // Without arguments, all of the new blocks are watched
+  static async watchNewBlocks(ctx: TextContext, user: UserDocument, args: string[]) {
+    const pools = [...new Set(args.map((arg) => arg.toLowerCase()))];
+    const knownPools = [...getMiningPoolSlugs(), ...Object.values(NewBlocksFilter)];
+    const unknownPool = pools.find((pool) => !knownPools.includes(pool));
+    if (unknownPool) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'newBlocksWatchInvalidPool', {
+        pool: unknownPool,
+        pools: [...getMiningPoolSlugs()].join(', '),
+      }));
+      return;
+    }
     const settings = await SettingsModel.findById(zeroObjectId);
     if (!settings) {
-      ctx.replyWithMarkdownV2(notFoundMessage);
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'notFound'));
       return;
     }
     const found = await UsersModel.findByIdAndUpdate(
@@ -1495,16 +1394,22 @@ export class TelegrafManager {
       {
         $set: {
           watchNewBlocks: true,
+          watchNewBlocksPools: pools,
         },
       },
     );
     if (!found) {
-      ctx.replyWithMarkdownV2(notFoundMessage);
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'notFound'));
       return;
     }
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      `Started watching new blocks. Best block height is: ${settings.bestBlockHeight}.`,
-    ));
+    ctx.replyWithMarkdownV2((pools.length > 0)
+      ? markdownMessage(ctx, user, 'newBlocksWatchStartedPools', {
+        pools: pools.join(', '),
+        height: settings.bestBlockHeight,
+      })
+      : markdownMessage(ctx, user, 'newBlocksWatchStarted', {
+        height: settings.bestBlockHeight,
+      }));
   }
 
   static async unwatchNewBlocks(ctx: TextContext, user: UserDocument) {
@@ -1513,67 +1418,184 @@ export class TelegrafManager {
       {
         $set: {
           watchNewBlocks: false,
+          watchNewBlocksPools: [],
+        },
+      },
+    );
+    if (!found) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'notFound'));
+      return;
+    }
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'newBlocksWatchStopped'));
+  }
+
+  static async watchReorg(ctx: TextContext, user: UserDocument) {
+    const found = await UsersModel.findByIdAndUpdate(
+      user._id,
+      {
+        $set: {
+          watchReorg: true,
+        },
+      },
+    );
+    if (!found) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'notFound'));
+      return;
+    }
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'reorgWatchStarted'));
+  }
+
+  static async unwatchReorg(ctx: TextContext, user: UserDocument) {
+    const found = await UsersModel.findByIdAndUpdate(
+      user._id,
+      {
+        $set: {
+          watchReorg: false,
+        },
+      },
+    );
+    if (!found) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'notFound'));
+      return;
+    }
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'reorgWatchStopped'));
+  }
+
+  static async watchDifficulty(ctx: TextContext, user: UserDocument) {
+    const found = await UsersModel.findByIdAndUpdate(
+      user._id,
+      {
+        $set: {
+          watchDifficulty: true,
+        },
+      },
+    );
+    if (!found) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'notFound'));
+      return;
+    }
+    const chainCountdown = bitcoindWatcher.getChainCountdowns()?.find(
+      ({ name }) => (name === ChainCountdownName.DifficultyAdjustment),
+    );
+    ctx.replyWithMarkdownV2([
+      markdownMessage(ctx, user, 'difficultyWatchStarted'),
+      ...chainCountdown ? [
+        markdownMessage(
+          ctx,
+          user,
+          'difficultyCountdown',
+          chainCountdownParams(chainCountdown, user),
+        ),
+      ] : [],
+    ].join(' '));
+  }
+
+  static async unwatchDifficulty(ctx: TextContext, user: UserDocument) {
+    const found = await UsersModel.findByIdAndUpdate(
+      user._id,
+      {
+        $set: {
+          watchDifficulty: false,
+        },
+      },
+    );
+    if (!found) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'notFound'));
+      return;
+    }
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'difficultyWatchStopped'));
+  }
+
+  static async watchHalving(ctx: TextContext, user: UserDocument) {
+    const found = await UsersModel.findByIdAndUpdate(
+      user._id,
+      {
+        $set: {
+          watchHalving: true,
+        },
+      },
+    );
+    if (!found) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'notFound'));
+      return;
+    }
+    const chainCountdown = bitcoindWatcher.getChainCountdowns()?.find(
+      ({ name }) => (name === ChainCountdownName.Halving),
+    );
+    ctx.replyWithMarkdownV2([
+      markdownMessage(ctx, user, 'halvingWatchStarted'),
+      ...chainCountdown ? [
+        markdownMessage(ctx, user, 'halvingCountdown', chainCountdownParams(chainCountdown, user)),
+      ] : [],
+    ].join(' '));
+  }
+
+  static async unwatchHalving(ctx: TextContext, user: UserDocument) {
+    const found = await UsersModel.findByIdAndUpdate(
+      user._id,
+      {
+        $set: {
+          watchHalving: false,
         },
       },
     );
     if (!found) {
-      ctx.replyWithMarkdownV2(notFoundMessage);
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'notFound'));
       return;
     }
-    ctx.replyWithMarkdownV2(escapeMarkdown('Stopped watching new blocks.'));
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'halvingWatchStopped'));
   }
 
-  async watchTransaction(ctx: TextContext, user: UserDocument, originalArgs: string[]) {
+  static async watchTransaction(ctx: TextContext, user: UserDocument, originalArgs: string[]) {
     const args = mergeDescriptionToTransactionId(originalArgs);
-    if (args.length > 1) {
-      ctx.replyWithMarkdownV2(escapeMarkdown('Too many parameters'));
+    if (args.length > 2) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'tooManyParameters'));
+      return;
+    }
+    const confirmationTargets = (args.length > 1) ? parseConfirmationTargets(args[1]) : [];
+    if (!confirmationTargets) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'invalidConfirmationTargets'));
       return;
     }
     const parts = args[0].split(':');
     const txid = parts.pop();
     if (!txid || !isTransactionId(txid)) {
-      ctx.replyWithMarkdownV2(escapeMarkdown('Invalid transaction id - expected 64 hex chars in lowecase.'));
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'invalidTransactionId'));
       return;
     }
     const nickname = parts.join(':');
     if (nickname.length > 100) {
-      ctx.replyWithMarkdownV2(escapeMarkdown('The transaction nickname is too long.'));
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'transactionNicknameTooLong'));
       return;
     }
     if (nickname && await WatchedTransactionsModel.findOne({
       userId: user._id,
       nickname,
     })) {
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        'You have already given the same nickname to another transaction that you watch.',
-      ));
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'transactionNicknameTaken'));
       return;
     }
     if (await WatchedTransactionsModel.findOne({
       userId: user._id,
       txid,
     })) {
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        `You are already watching this transaction. See: /${BotCommandName.ListWatches}`,
-      ));
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'transactionAlreadyWatched', {
+        listWatchesCommand: `/${BotCommandName.ListWatches}`,
+      }));
       return;
     }
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      'Analyzing the transaction and looking for conflicts in the recent blocks. Please hodl.',
-    ));
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'transactionAnalyzing'));
     // Run asyncly
-    this.handleTransactionWatchRequest(user, txid, nickname);
+    TelegrafManager.handleTransactionWatchRequest(user, txid, nickname, confirmationTargets);
   }
 
-  private async handleTransactionWatchRequest(
+  private static async handleTransactionWatchRequest(
     user: UserDocument,
     txid: string,
     nickname: string,
+    confirmationTargets: number[],
   ): Promise<void> {
-    const isQueueSet = Boolean(this.newTransactionAnalysesQueue);
-    if (!isQueueSet) {
-      this.newTransactionAnalysesQueue = [];
-    }
+    const isPaused = notificationDispatcher.pauseTransactionAnalyses();
     try {
       const analysis: TransactionAnalysis = await new Promise((resolve, reject) => {
         const timeout = setTimeout(
@@ -1589,7 +1611,9 @@ export class TelegrafManager {
         );
         bitcoindWatcher.watchNewTransaction(txid);
       });
-      if (analysis.status !== TransactionStatus.FullConfirmation) {
+      const lastTarget = confirmationTargets[confirmationTargets.length - 1];
+      const hasPendingTargets = (lastTarget !== undefined) && (lastTarget > analysis.confirmations);
+      if ((analysis.status !== TransactionStatus.FullConfirmation) || hasPendingTargets) {
         await WatchedTransactionsModel.create({
           userId: user.id,
           txid,
@@ -1607,80 +1631,82 @@ export class TelegrafManager {
           ...(analysis.rawTransaction !== undefined) && {
             rawTransaction: JSON.stringify(analysis.rawTransaction),
           },
+          confirmationTargets,
+          // Targets that were reached before the watch are not notified
+          notifiedConfirmations: analysis.confirmations,
         });
+        if (hasPendingTargets) {
+          bitcoindWatcher.watchConfirmations(txid, lastTarget);
+        }
       }
+      const language = recipientLanguage(user);
+      const blocks = [...analysis.blockHashes].map(prettyBlockHash).join(', ')
+        || translate(language, 'unknownBlock');
       const replyMessage: string[] = [];
       switch (analysis.status) {
         case TransactionStatus.Unpublished:
-          replyMessage.push(
-            'I could not find any details on this transaction-id in the mempool or on the',
-            'blockchain. I will let you know when it is found.',
-          );
+          replyMessage.push(translate(language, 'transactionNotFound'));
           break;
         case TransactionStatus.Mempool:
-          replyMessage.push(
-            'The transaction was found in the mempool.',
-          );
+          replyMessage.push(translate(language, 'transactionFoundInMempool'));
           break;
         case TransactionStatus.PartialConfirmation:
           replyMessage.push(
-            `The transaction has ${
-              (analysis.confirmations === 1)
-                ? '1 confirmation'
-                : `${analysis.confirmations} confirmations`
-            }.`,
-            `It was mined in block ${
-              [...analysis.blockHashes].map(prettyBlockHash).join(', ') || 'unknown'
-            }.`,
+            translate(language, 'transactionHasConfirmations', {
+              confirmations: translate(
+                language,
+                (analysis.confirmations === 1) ? 'confirmationCountOne' : 'confirmationCount',
+                { count: analysis.confirmations },
+              ),
+            }),
+            translate(language, 'transactionMinedInBlock', { blocks }),
           );
           break;
         case TransactionStatus.FullConfirmation:
           replyMessage.push(
-            `🚀 This transaction already has ${
-              analysis.confirmations
-            } confirmations and is fully confirmed, so there is no need to watch it anymore.`,
-            `It was mined in block ${
-              [...analysis.blockHashes].map(prettyBlockHash).join(', ') || 'unknown'
-            }.`,
+            translate(
+              language,
+              hasPendingTargets
+                ? 'transactionAlreadyConfirmed' : 'transactionAlreadyConfirmedUnwatched',
+              { confirmations: analysis.confirmations },
+            ),
+            translate(language, 'transactionMinedInBlock', { blocks }),
           );
           break;
         default:
           throw new Error(`Unexpected analysis status ${analysis.status}`);
       }
+      if (hasPendingTargets) {
+        replyMessage.push(translate(language, 'transactionPendingTargets', {
+          targets: confirmationTargets.filter(
+            (target) => (target > analysis.confirmations),
+          ).join(', '),
+        }));
+      }
 
       if (analysis.conflictingTransactions && (analysis.conflictingTransactions.size > 0)) {
-        replyMessage.push(
-          `\n🚨 The following ${
-            (analysis.conflictingTransactions.size === 1)
-              ? 'transaction was' : 'transactions were'
-          } also found trying to spend the same inputs: ${
-            [...analysis.conflictingTransactions].join(', ')
-          }. This could either mean a double-spend attempt or a legit replace-by-fee.`,
-        );
+        replyMessage.push(translate(
+          language,
+          (analysis.conflictingTransactions.size === 1)
+            ? 'transactionConflict' : 'transactionConflicts',
+          { txids: [...analysis.conflictingTransactions].join(', ') },
+        ));
       } else {
-        replyMessage.push(
-          'No contradicting transactions were found (i.e. double-spend attempts).',
-        );
+        replyMessage.push(translate(language, 'transactionNoConflicts'));
       }
-      await this.sendMessage({
+      await TelegrafManager.sendMessage({
         chatId: user.telegramChatId,
         text: escapeMarkdown(replyMessage.join(' ')),
       });
     } catch (error) {
-      await this.sendMessage({
+      await TelegrafManager.sendMessage({
         chatId: user.telegramChatId,
-        text: escapeMarkdown('⚠️ Woof! Failed to initialize transaction watch.'),
+        text: recipientMarkdownMessage(user, 'transactionWatchFailed'),
       });
       logger.error(`Failed to initialize transaction watch: ${errorString(error)}`);
     } finally {
-      if (!isQueueSet) {
-        const queue = this.newTransactionAnalysesQueue;
-        this.newTransactionAnalysesQueue = undefined;
-        if (queue) {
-          for (const queuedAnalysis of queue) {
-            this.handleNewTransactionAnalysis(queuedAnalysis);
-          }
-        }
+      if (isPaused) {
+        notificationDispatcher.resumeTransactionAnalyses();
       }
     }
   }
@@ -1711,9 +1737,9 @@ export class TelegrafManager {
       ],
     });
     if (!transactions.length) {
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        `No matching transactions were found. See /${BotCommandName.ListWatches}.`,
-      ));
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'noMatchingTransactions', {
+        listWatchesCommand: `/${BotCommandName.ListWatches}`,
+      }));
       return;
     }
     const deleteResult = await WatchedTransactionsModel.deleteMany({
@@ -1725,10 +1751,11 @@ export class TelegrafManager {
     await unwatchUnusedTransactions(
       transactions.map(({ txid }) => txid),
     );
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      `${deleteResult.deletedCount} ${
-        (deleteResult.deletedCount === 1) ? 'transaction-watch was' : 'transaction-watches were'
-      } removed.`,
+    ctx.replyWithMarkdownV2(markdownMessage(
+      ctx,
+      user,
+      (deleteResult.deletedCount === 1) ? 'transactionWatchRemoved' : 'transactionWatchesRemoved',
+      { count: deleteResult.deletedCount },
     ));
   }
 
@@ -1743,12 +1770,12 @@ export class TelegrafManager {
       const parts = arg.split(':');
       const watchedAddress = parts.pop();
       if (!watchedAddress || !validate(watchedAddress)) {
-        ctx.replyWithMarkdownV2(escapeMarkdown('Invalid address.'));
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'invalidAddress'));
         return;
       }
       const nickname = parts.join(':');
       if (nickname.length > 100) {
-        ctx.replyWithMarkdownV2(escapeMarkdown('The address nickname is too long.'));
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'addressNicknameTooLong'));
         return;
       }
       addresses.push([
@@ -1763,9 +1790,7 @@ export class TelegrafManager {
         $in: nicknames,
       },
     })) {
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        'You have already given the same nickname to another address that you watch.',
-      ));
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'addressNicknameTaken'));
       return;
     }
     const existingWatches = await WatchedAddressesModel.find({
@@ -1775,19 +1800,17 @@ export class TelegrafManager {
       },
     });
     if (existingWatches.length > 0) {
+      let messageKey: MessageKey;
       if (existingWatches.length === 1) {
-        ctx.replyWithMarkdownV2(escapeMarkdown(
-          `You are already watching this address. See: /${BotCommandName.ListWatches}`,
-        ));
+        messageKey = 'addressAlreadyWatched';
       } else if (existingWatches.length === addresses.length) {
-        ctx.replyWithMarkdownV2(escapeMarkdown(
-          `You are already watching all of these address. See: /${BotCommandName.ListWatches}`,
-        ));
+        messageKey = 'addressesAlreadyWatched';
       } else {
-        ctx.replyWithMarkdownV2(escapeMarkdown(
-          `You are already watching some of these address. See: /${BotCommandName.ListWatches}`,
-        ));
+        messageKey = 'someAddressesAlreadyWatched';
       }
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, messageKey, {
+        listWatchesCommand: `/${BotCommandName.ListWatches}`,
+      }));
       return;
     }
     await WatchedAddressesModel.insertMany(
@@ -1806,17 +1829,15 @@ export class TelegrafManager {
         overloadedAddresses.push(watchedAddress);
       }
     }
-    const isSingular = (addresses.length === 1);
-    ctx.replyWithMarkdownV2(escapeMarkdown([
-      `Started watching the ${
-        isSingular ? 'address' : 'addresses'
-      }. I will let you know when incoming transactions to ${
-        isSingular ? 'this address' : 'these addresses'
-      } appear in the mempool and in the blockchain, and when outgoing transactions from ${
-        isSingular ? 'this address' : 'these addresses'
-      } appear in the blockchain (outgoing transactions in the mempool will not be reported`,
-      'so please be patient or check them manually).',
-    ].join(' ')));
+    // Run asyncly
+    notificationDispatcher.refreshAddressBalances(
+      addresses.map(([, watchedAddress]) => watchedAddress),
+    );
+    ctx.replyWithMarkdownV2(markdownMessage(
+      ctx,
+      user,
+      (addresses.length === 1) ? 'addressWatchStarted' : 'addressesWatchStarted',
+    ));
   }
 
   static async unwatchAddresses(
@@ -1845,9 +1866,9 @@ export class TelegrafManager {
       ],
     });
     if (!watchedAddresses.length) {
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        `No matching addresses were found. See /${BotCommandName.ListWatches}.`,
-      ));
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'noMatchingAddresses', {
+        listWatchesCommand: `/${BotCommandName.ListWatches}`,
+      }));
       return;
     }
     const deleteResult = await WatchedAddressesModel.deleteMany({
@@ -1859,31 +1880,419 @@ export class TelegrafManager {
     await unwatchUnusedAddresses(
       watchedAddresses.map(({ address }) => address),
     );
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      `${deleteResult.deletedCount} ${
-        (deleteResult.deletedCount === 1) ? 'address-watch was' : 'address-watches were'
-      } removed.`,
+    ctx.replyWithMarkdownV2(markdownMessage(
+      ctx,
+      user,
+      (deleteResult.deletedCount === 1) ? 'addressWatchRemoved' : 'addressWatchesRemoved',
+      { count: deleteResult.deletedCount },
     ));
   }
 
-  static async watchPriceChange(
+  static async watchWallets(
     ctx: TextContext,
     user: UserDocument,
     args: string[],
   ) {
-    if (args.length > 1) {
-      ctx.replyWithMarkdownV2(escapeMarkdown([
-        'Syntax: "/watch price-change <price-delta-in-usd>"',
-        'i.e. To get a notification when the price changes by $1000, use "/watch price-change 1000".',
-      ].join('\n')));
-      return;
+    const wallets: [string | undefined, WalletKey][] = [];
+    for (const arg of args) {
+      // Descriptors do not contain colons
+      const parts = arg.split(':');
+      const walletKey = parseWalletKey(parts.pop() ?? '', bitcoindWatcher.getChain());
+      if (!walletKey) {
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'invalidWalletKey'));
+        return;
+      }
+      const nickname = parts.join(':');
+      if (nickname.length > 100) {
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'walletNicknameTooLong'));
+        return;
+      }
+      wallets.push([
+        (nickname.length > 0) ? nickname : undefined,
+        walletKey,
+      ]);
     }
-    const delta = Number(args[0].replaceAll(',', ''));
-    if ((delta <= 0) || !Number.isSafeInteger(delta)) {
-      ctx.replyWithMarkdownV2(escapeMarkdown([
-        'Invalid value, must be a positive integer.',
-        'Try using only digits, and avoid commas and other symbols.',
-      ].join(' ')));
+    const nicknames = wallets.map(([nickname]) => nickname).filter((nickname) => nickname);
+    if ((nicknames.length > 0) && await WatchedWalletsModel.findOne({
+      userId: user._id,
+      nickname: {
+        $in: nicknames,
+      },
+    })) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'walletNicknameTaken'));
+      return;
+    }
+    if (await WatchedWalletsModel.findOne({
+      userId: user._id,
+      extendedKey: {
+        $in: wallets.map(([, { extendedKey }]) => extendedKey),
+      },
+    })) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'walletAlreadyWatched', {
+        listWatchesCommand: `/${BotCommandName.ListWatches}`,
+      }));
+      return;
+    }
+    const walletDocs = await WatchedWalletsModel.insertMany(
+      wallets.map(([nickname, walletKey]) => ({
+        userId: user._id,
+        ...walletKey,
+        ...deriveInitialWalletAddresses(walletKey),
+        ...Boolean(nickname) && {
+          nickname,
+        },
+      })),
+    );
+    for (const walletDoc of walletDocs) {
+      for (const address of [...walletDoc.receiveAddresses, ...walletDoc.changeAddresses]) {
+        bitcoindWatcher.watchAddress(address);
+      }
+    }
+    ctx.replyWithMarkdownV2(markdownMessage(
+      ctx,
+      user,
+      (wallets.length === 1) ? 'walletWatchStarted' : 'walletsWatchStarted',
+    ));
+  }
+
+  static async unwatchWallets(
+    ctx: TextContext,
+    user: UserDocument,
+    args: string[],
+  ) {
+    const watchedWallets = await WatchedWalletsModel.find({
+      userId: user._id,
+      $or: [
+        {
+          extendedKey: {
+            $in: args,
+          },
+        },
+        {
+          nickname: {
+            $in: args,
+          },
+        },
+      ],
+    });
+    if (!watchedWallets.length) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'noMatchingWallets', {
+        listWatchesCommand: `/${BotCommandName.ListWatches}`,
+      }));
+      return;
+    }
+    const deleteResult = await WatchedWalletsModel.deleteMany({
+      userId: user._id,
+      _id: {
+        $in: watchedWallets.map(({ _id }) => _id),
+      },
+    });
+    await unwatchUnusedAddresses(
+      watchedWallets.flatMap(({ receiveAddresses, changeAddresses }) => [
+        ...receiveAddresses,
+        ...changeAddresses,
+      ]),
+    );
+    ctx.replyWithMarkdownV2(markdownMessage(
+      ctx,
+      user,
+      (deleteResult.deletedCount === 1) ? 'walletWatchRemoved' : 'walletWatchesRemoved',
+      { count: deleteResult.deletedCount },
+    ));
+  }
+
+  static async watchOutpoints(
+    ctx: TextContext,
+    user: UserDocument,
+    args: string[],
+  ) {
+    const outpoints: [string | undefined, string][] = [];
+    for (const arg of args) {
+      const parts = arg.split(':');
+      const vout = parts.pop();
+      const txid = parts.pop();
+      const outpoint = `${txid}:${vout}`;
+      if (!isOutpoint(outpoint)) {
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'invalidOutpoint'));
+        return;
+      }
+      const nickname = parts.join(':');
+      if (nickname.length > 100) {
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'outpointNicknameTooLong'));
+        return;
+      }
+      outpoints.push([
+        (nickname.length > 0) ? nickname : undefined,
+        outpoint,
+      ]);
+    }
+    const nicknames = outpoints.map(([nickname]) => nickname).filter((nickname) => nickname);
+    if ((nicknames.length > 0) && await WatchedOutpointsModel.findOne({
+      userId: user._id,
+      nickname: {
+        $in: nicknames,
+      },
+    })) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'outpointNicknameTaken'));
+      return;
+    }
+    if (await WatchedOutpointsModel.findOne({
+      userId: user._id,
+      outpoint: {
+        $in: outpoints.map(([, outpoint]) => outpoint),
+      },
+    })) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'outpointAlreadyWatched', {
+        listWatchesCommand: `/${BotCommandName.ListWatches}`,
+      }));
+      return;
+    }
+    const valuesSats: number[] = [];
+    for await (const [, outpoint] of outpoints) {
+      const [txid, vout] = outpoint.split(':');
+      const unspentTxOut = await getTxOut(txid, Number(vout));
+      if (!unspentTxOut) {
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'outpointUnavailable', { outpoint }));
+        return;
+      }
+      valuesSats.push(Math.round(unspentTxOut.value * satsPerBitcoin));
+    }
+    await WatchedOutpointsModel.insertMany(
+      outpoints.map(([nickname, outpoint], index) => ({
+        userId: user._id,
+        outpoint,
+        valueSats: valuesSats[index],
+        ...Boolean(nickname) && {
+          nickname,
+        },
+      })),
+    );
+    for (const [, outpoint] of outpoints) {
+      bitcoindWatcher.watchOutpoint(outpoint);
+    }
+    ctx.replyWithMarkdownV2(markdownMessage(
+      ctx,
+      user,
+      (outpoints.length === 1) ? 'outpointWatchStarted' : 'outpointsWatchStarted',
+      { amount: formatNumber(valuesSats.reduce((sum, valueSats) => sum + valueSats, 0), user) },
+    ));
+  }
+
+  static async unwatchOutpoints(
+    ctx: TextContext,
+    user: UserDocument,
+    args: string[],
+  ) {
+    const watchedOutpoints = await WatchedOutpointsModel.find({
+      userId: user._id,
+      $or: [
+        {
+          outpoint: {
+            $in: args,
+          },
+        },
+        {
+          nickname: {
+            $in: args,
+          },
+        },
+      ],
+    });
+    if (!watchedOutpoints.length) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'noMatchingOutpoints', {
+        listWatchesCommand: `/${BotCommandName.ListWatches}`,
+      }));
+      return;
+    }
+    const deleteResult = await WatchedOutpointsModel.deleteMany({
+      userId: user._id,
+      _id: {
+        $in: watchedOutpoints.map(({ _id }) => _id),
+      },
+    });
+    await unwatchUnusedOutpoints(
+      watchedOutpoints.map(({ outpoint }) => outpoint),
+    );
+    ctx.replyWithMarkdownV2(markdownMessage(
+      ctx,
+      user,
+      (deleteResult.deletedCount === 1) ? 'outpointWatchRemoved' : 'outpointWatchesRemoved',
+      { count: deleteResult.deletedCount },
+    ));
+  }
+
+  static async watchTimelocks(
+    ctx: TextContext,
+    user: UserDocument,
+    args: string[],
+  ) {
+    const [type, value, ...leftArgs] = args;
+    const relativeLockArg = (type === TimelockType.Csv) ? leftArgs.shift() : undefined;
+    const [warningBlocksArg, ...extraArgs] = leftArgs;
+    const warningBlocks = (warningBlocksArg === undefined)
+      ? defaultTimelockWarningBlocks
+      : Number(warningBlocksArg);
+    if (
+      !Object.values(TimelockType).includes(type as TimelockType) || !value
+      || ((type === TimelockType.Csv) && !relativeLockArg) || (extraArgs.length > 0)
+      || !Number.isSafeInteger(warningBlocks) || (warningBlocks < 0)
+      || (warningBlocks > maxTimelockWarningBlocks)
+    ) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'timelocksWatchSyntax'));
+      return;
+    }
+    const isOutputLock = (type === TimelockType.Csv) || (type === TimelockType.Coinbase);
+    const parts = value.split(':');
+    let lock = parts.splice(isOutputLock ? -2 : -1).join(':');
+    const nickname = parts.join(':');
+    if (nickname.length > 100) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'timelocksWatchNicknameTooLong'));
+      return;
+    }
+    let relativeLock: RelativeLock | undefined;
+    let maturity: TimelockMaturity | undefined;
+    if (type === TimelockType.Height) {
+      const height = parseLockHeight(lock);
+      maturity = (height === undefined) ? undefined : absoluteTimelockMaturity(type, height);
+    } else if (type === TimelockType.Time) {
+      const time = parseLockTime(lock);
+      lock = `${time}`;
+      maturity = (time === undefined) ? undefined : absoluteTimelockMaturity(type, time);
+    } else if (isOutpoint(lock)) {
+      relativeLock = (type === TimelockType.Csv)
+        ? parseRelativeLock(relativeLockArg ?? '')
+        : {};
+      if (relativeLock) {
+        const [txid, vout] = lock.split(':');
+        const unspentTxOut = await getTxOut(txid, Number(vout));
+        if (!unspentTxOut) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'timelocksWatchOutputMissing', {
+            outpoint: lock,
+          }));
+          return;
+        }
+        if ((type === TimelockType.Coinbase) && !unspentTxOut.coinbase) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'timelocksWatchNotCoinbase', {
+            outpoint: lock,
+          }));
+          return;
+        }
+        maturity = await resolveRelativeTimelock({
+          type: type as TimelockType,
+          lock,
+          relativeBlocks: relativeLock.blocks,
+          relativeSeconds: relativeLock.seconds,
+        });
+      }
+    }
+    if (!maturity) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'timelocksWatchInvalid'));
+      return;
+    }
+    if (await WatchedTimelocksModel.findOne({
+      userId: user._id,
+      $or: [
+        { type, lock },
+        ...(nickname.length > 0) ? [{ nickname }] : [],
+      ],
+    })) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'timelocksWatchAlreadyWatched', {
+        command: `/${BotCommandName.ListWatches}`,
+      }));
+      return;
+    }
+    const chainInfo = await getBlockchainInfo();
+    if (!chainInfo) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'notFound'));
+      return;
+    }
+    const blocksLeft = timelockBlocksLeft(maturity, chainInfo.blocks, chainInfo.mediantime);
+    if ((blocksLeft !== undefined) && (blocksLeft <= 0)) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'timelocksWatchAlreadyMatured'));
+      return;
+    }
+    await WatchedTimelocksModel.create({
+      userId: user._id,
+      type,
+      lock,
+      ...(nickname.length > 0) && { nickname },
+      relativeBlocks: relativeLock?.blocks,
+      relativeSeconds: relativeLock?.seconds,
+      ...maturity,
+      warningBlocks,
+      // The user already knows how many blocks are left
+      warned: (blocksLeft !== undefined) && (blocksLeft <= warningBlocks),
+      matured: false,
+    });
+    const lines = [markdownMessage(ctx, user, 'timelocksWatchStarted')];
+    if (maturity.maturityHeight !== undefined) {
+      lines.push(markdownMessage(ctx, user, 'timelocksMaturityHeight', {
+        height: maturity.maturityHeight,
+        blocks: blocksLeft ?? 0,
+      }));
+    } else if (maturity.maturityTime !== undefined) {
+      lines.push(markdownMessage(ctx, user, 'timelocksMaturityTime', {
+        date: prettyDate(new Date(maturity.maturityTime * 1000).toJSON(), user),
+        blocks: blocksLeft ?? 0,
+      }));
+    } else {
+      lines.push(markdownMessage(ctx, user, 'timelocksMaturityUnconfirmed'));
+    }
+    if (warningBlocks > 0) {
+      lines.push(markdownMessage(ctx, user, 'timelocksWarning', { warningBlocks }));
+    }
+    ctx.replyWithMarkdownV2(lines.join(' '));
+  }
+
+  static async unwatchTimelocks(
+    ctx: TextContext,
+    user: UserDocument,
+    args: string[],
+  ) {
+    const watchedTimelocks = await WatchedTimelocksModel.find({
+      userId: user._id,
+      $or: [
+        {
+          lock: {
+            $in: args,
+          },
+        },
+        {
+          nickname: {
+            $in: args,
+          },
+        },
+      ],
+    });
+    if (!watchedTimelocks.length) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'timelocksUnwatchNotFound', {
+        command: `/${BotCommandName.ListWatches}`,
+      }));
+      return;
+    }
+    const deleteResult = await WatchedTimelocksModel.deleteMany({
+      userId: user._id,
+      _id: {
+        $in: watchedTimelocks.map(({ _id }) => _id),
+      },
+    });
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'timelocksWatchStopped', {
+      count: deleteResult.deletedCount,
+    }));
+  }
+
+  static async watchPriceChange(
+    ctx: TextContext,
+    user: UserDocument,
+    args: string[],
+  ) {
+    if (args.length > 1) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'priceChangeWatchSyntax'));
+      return;
+    }
+    const delta = Number(args[0].replaceAll(',', ''));
+    if ((delta <= 0) || !Number.isSafeInteger(delta)) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'invalidPositiveInteger'));
       return;
     }
     await UsersModel.updateOne(
@@ -1899,18 +2308,13 @@ export class TelegrafManager {
     const result = await priceWatcher.watchPriceChange(user._id.toString(), delta);
     if (result) {
       const [lastPrice, minPrice, maxPrice] = result;
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        `The current price on CoinGecko is $${
-          lastPrice.toLocaleString('en-US')
-        }. I will check the price every minute and let you know when the price goes below $${
-          minPrice.toLocaleString('en-US')
-        } or above $${maxPrice.toLocaleString('en-US')}.`,
-      ));
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'priceChangeWatchStarted', {
+        price: `$${formatNumber(lastPrice, user)}`,
+        min: `$${formatNumber(minPrice, user)}`,
+        max: `$${formatNumber(maxPrice, user)}`,
+      }));
     } else {
-      ctx.replyWithMarkdownV2(escapeMarkdown([
-        'Price watch has been set, but there seems to be a problem fetching the price from',
-        'CoinGecko.',
-      ].join(' ')));
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'priceChangeWatchPriceUnavailable'));
     }
   }
 
@@ -1925,9 +2329,7 @@ export class TelegrafManager {
         },
       },
     );
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      'Stopped watching price changes.',
-    ));
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'priceChangeWatchStopped'));
     if (user.watchPriceChange) {
       priceWatcher.unwatchPriceChange(user._id.toString());
     }
@@ -1947,16 +2349,10 @@ export class TelegrafManager {
     // Side effect: if the mempool size was not calculated yet, assuming that it is not clear.
     const isMempoolClear = bitcoindWatcher.isMempoolClear() ?? false;
 
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      isMempoolClear
-        ? [
-          'The mempool is clear. I will let you know when the mempool transactions will no',
-          'longer fit in a single block (no room for low-fee transactions).',
-        ].join(' ')
-        : [
-          'The mempool is not clear. I will let you know when the mempool transactions could fit',
-          'in a single block and there is room for low-fee transactions.',
-        ].join(' '),
+    ctx.replyWithMarkdownV2(markdownMessage(
+      ctx,
+      user,
+      isMempoolClear ? 'mempoolClearWatchStartedClear' : 'mempoolClearWatchStartedNotClear',
     ));
   }
 
@@ -1971,41 +2367,67 @@ export class TelegrafManager {
         },
       },
     );
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      'Stopped watching mempool clearance.',
-    ));
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'mempoolClearWatchStopped'));
   }
 
-  static async watchLightningChannelsOpened(ctx: TextContext, user: UserDocument) {
-    if (!lndWatcher.isRunning()) {
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        'Sorry, the LND integration is not configured.',
-      ));
+  static async watchFeeRate(
+    ctx: TextContext,
+    user: UserDocument,
+    args: string[],
+  ) {
+    const [direction, value] = args;
+    if (
+      (args.length !== 2)
+      || !Object.values(FeeRateDirection).includes(direction as FeeRateDirection)
+    ) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'feeRateWatchSyntax'));
+      return;
+    }
+    const threshold = Number(value);
+    if (!Number.isFinite(threshold) || (threshold <= 0)) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'feeRateWatchInvalid'));
       return;
     }
+    const isBelow = (direction === FeeRateDirection.Below);
     await UsersModel.updateOne(
       {
         _id: user._id,
       },
       {
         $set: {
-          watchLightningChannelsOpened: true,
+          [isBelow ? 'watchFeeRateBelow' : 'watchFeeRateAbove']: threshold,
         },
       },
     );
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      'Started watching for new lightning channels being opened.',
-    ));
+    const feeRate = bitcoindWatcher.watchFeeRate(
+      user._id.toString(),
+      direction as FeeRateDirection,
+      threshold,
+    );
+    const lines = [
+      markdownMessage(
+        ctx,
+        user,
+        isBelow ? 'feeRateWatchStartedBelow' : 'feeRateWatchStartedAbove',
+        { threshold: formatNumber(threshold, user) },
+      ),
+    ];
+    if (feeRate !== undefined) {
+      lines.push(markdownMessage(ctx, user, 'feeRateCurrent', {
+        feeRate: formatNumber(feeRate, user),
+      }));
+    }
+    ctx.replyWithMarkdownV2(lines.join(' '));
   }
 
-  static async unwatchLightningChannelsOpened(
-    ctx: TextContext,
-    user: UserDocument,
-  ) {
-    if (!lndWatcher.isRunning()) {
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        'Sorry, the LND integration is not configured.',
-      ));
+  // Without arguments, both of the targets are removed
+  static async unwatchFeeRate(ctx: TextContext, user: UserDocument, args: string[]) {
+    const [direction] = args;
+    if (
+      (args.length > 1)
+      || (direction && !Object.values(FeeRateDirection).includes(direction as FeeRateDirection))
+    ) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'feeRateUnwatchSyntax'));
       return;
     }
     await UsersModel.updateOne(
@@ -2013,24 +2435,39 @@ export class TelegrafManager {
         _id: user._id,
       },
       {
-        $set: {
-          watchLightningChannelsOpened: false,
+        $unset: {
+          ...(direction !== FeeRateDirection.Above) && { watchFeeRateBelow: true },
+          ...(direction !== FeeRateDirection.Below) && { watchFeeRateAbove: true },
         },
       },
     );
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      'Stopped watching for new lightning channels being opened.',
-    ));
+    bitcoindWatcher.unwatchFeeRate(
+      user._id.toString(),
+      direction as FeeRateDirection | undefined,
+    );
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'feeRateWatchStopped'));
   }
 
-  static async watchLightningChannelsClosed(
+  // The amount and the fee are in BTC, the fee rate in sat/vB
+  static async watchWhales(
     ctx: TextContext,
     user: UserDocument,
+    args: string[],
   ) {
-    if (!lndWatcher.isRunning()) {
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        'Sorry, the LND integration is not configured.',
-      ));
+    const [threshold, value] = args;
+    if (
+      (args.length !== 2)
+      || !Object.values(WhaleThreshold).includes(threshold as WhaleThreshold)
+    ) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'whalesWatchSyntax'));
+      return;
+    }
+    const isFeeRate = (threshold === WhaleThreshold.FeeRate);
+    const thresholdValue = isFeeRate ? Number(value) : parseBitcoinAmount(value);
+    if (
+      (thresholdValue === undefined) || !Number.isFinite(thresholdValue) || (thresholdValue <= 0)
+    ) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'whalesWatchInvalid'));
       return;
     }
     await UsersModel.updateOne(
@@ -2039,48 +2476,64 @@ export class TelegrafManager {
       },
       {
         $set: {
-          watchLightningChannelsClosed: true,
+          [whaleThresholdUserFields[threshold as WhaleThreshold]]: thresholdValue,
         },
       },
     );
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      'Started watching for lightning channels being closed.',
-    ));
+    bitcoindWatcher.watchWhales(user._id.toString(), threshold as WhaleThreshold, thresholdValue);
+    ctx.replyWithMarkdownV2([
+      markdownMessage(
+        ctx,
+        user,
+        {
+          [WhaleThreshold.Amount]: 'whalesWatchStartedAmount' as const,
+          [WhaleThreshold.Fee]: 'whalesWatchStartedFee' as const,
+          [WhaleThreshold.FeeRate]: 'whalesWatchStartedFeeRate' as const,
+        }[threshold as WhaleThreshold],
+        { threshold: formatNumber(thresholdValue, user) },
+      ),
+      markdownMessage(ctx, user, 'whalesRateLimit', { maxAlerts: maxWhaleAlertsPerHour }),
+    ].join(' '));
   }
 
-  static async unwatchLightningChannelsClosed(
-    ctx: TextContext,
-    user: UserDocument,
-  ) {
-    if (!lndWatcher.isRunning()) {
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        'Sorry, the LND integration is not configured.',
-      ));
+  // Without arguments, all of the thresholds are removed
+  static async unwatchWhales(ctx: TextContext, user: UserDocument, args: string[]) {
+    const [threshold] = args;
+    if (
+      (args.length > 1)
+      || (threshold && !Object.values(WhaleThreshold).includes(threshold as WhaleThreshold))
+    ) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'whalesUnwatchSyntax'));
       return;
     }
+    const unwatchThresholds = threshold
+      ? [threshold as WhaleThreshold]
+      : Object.values(WhaleThreshold);
     await UsersModel.updateOne(
       {
         _id: user._id,
       },
       {
-        $set: {
-          watchLightningChannelsClosed: false,
-        },
+        $unset: Object.fromEntries(unwatchThresholds.map(
+          (unwatchThreshold) => [whaleThresholdUserFields[unwatchThreshold], true],
+        )),
       },
     );
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      'Stopped watching for lightning channels being closed.',
-    ));
+    bitcoindWatcher.unwatchWhales(
+      user._id.toString(),
+      threshold as WhaleThreshold | undefined,
+    );
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'whalesWatchStopped'));
   }
 
-  static async watchLightningForwards(
-    ctx: TextContext,
-    user: UserDocument,
-  ) {
-    if (!lndWatcher.isRunning()) {
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        'Sorry, the LND integration is not configured.',
-      ));
+  // The minimal number of peers is optional
+  static async watchNodeHealth(ctx: TextContext, user: UserDocument, args: string[]) {
+    const [value] = args;
+    const minPeers = (value === undefined) ? defaultNodeHealthMinPeers : Number(value);
+    if ((args.length > 1) || !Number.isSafeInteger(minPeers) || (minPeers <= 0)) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'nodeHealthWatchSyntax', {
+        defaultMinPeers: defaultNodeHealthMinPeers,
+      }));
       return;
     }
     await UsersModel.updateOne(
@@ -2089,48 +2542,158 @@ export class TelegrafManager {
       },
       {
         $set: {
-          watchLightningForwards: true,
+          watchNodeHealth: minPeers,
         },
       },
     );
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      'Started watching for lightning forwards.',
-    ));
+    bitcoindWatcher.watchNodeHealth(user._id.toString(), minPeers);
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'nodeHealthWatchStarted', { minPeers }));
   }
 
-  static async unwatchLightningForwards(
-    ctx: TextContext,
-    user: UserDocument,
-  ) {
-    if (!lndWatcher.isRunning()) {
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        'Sorry, the LND integration is not configured.',
-      ));
-      return;
-    }
+  static async unwatchNodeHealth(ctx: TextContext, user: UserDocument) {
     await UsersModel.updateOne(
       {
         _id: user._id,
       },
       {
-        $set: {
-          watchLightningForwards: false,
+        $unset: {
+          watchNodeHealth: true,
         },
       },
     );
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      'Stopped watching for lightning forwards.',
-    ));
+    bitcoindWatcher.unwatchNodeHealth(user._id.toString());
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'nodeHealthWatchStopped'));
   }
 
-  static async watchLightningInvoicesCreated(
+  static async watchLightningChannelsOpened(ctx: TextContext, user: UserDocument) {
+    if (!lndWatcher.isRunning()) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lndNotConfigured'));
+      return;
+    }
+    await UsersModel.updateOne(
+      {
+        _id: user._id,
+      },
+      {
+        $set: {
+          watchLightningChannelsOpened: true,
+        },
+      },
+    );
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lightningChannelsOpenedWatchStarted'));
+  }
+
+  static async unwatchLightningChannelsOpened(
     ctx: TextContext,
     user: UserDocument,
   ) {
     if (!lndWatcher.isRunning()) {
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        'Sorry, the LND integration is not configured.',
-      ));
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lndNotConfigured'));
+      return;
+    }
+    await UsersModel.updateOne(
+      {
+        _id: user._id,
+      },
+      {
+        $set: {
+          watchLightningChannelsOpened: false,
+        },
+      },
+    );
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lightningChannelsOpenedWatchStopped'));
+  }
+
+  static async watchLightningChannelsClosed(
+    ctx: TextContext,
+    user: UserDocument,
+  ) {
+    if (!lndWatcher.isRunning()) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lndNotConfigured'));
+      return;
+    }
+    await UsersModel.updateOne(
+      {
+        _id: user._id,
+      },
+      {
+        $set: {
+          watchLightningChannelsClosed: true,
+        },
+      },
+    );
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lightningChannelsClosedWatchStarted'));
+  }
+
+  static async unwatchLightningChannelsClosed(
+    ctx: TextContext,
+    user: UserDocument,
+  ) {
+    if (!lndWatcher.isRunning()) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lndNotConfigured'));
+      return;
+    }
+    await UsersModel.updateOne(
+      {
+        _id: user._id,
+      },
+      {
+        $set: {
+          watchLightningChannelsClosed: false,
+        },
+      },
+    );
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lightningChannelsClosedWatchStopped'));
+  }
+
+  static async watchLightningForwards(
+    ctx: TextContext,
+    user: UserDocument,
+  ) {
+    if (!lndWatcher.isRunning()) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lndNotConfigured'));
+      return;
+    }
+    await UsersModel.updateOne(
+      {
+        _id: user._id,
+      },
+      {
+        $set: {
+          watchLightningForwards: true,
+        },
+      },
+    );
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lightningForwardsWatchStarted'));
+  }
+
+  static async unwatchLightningForwards(
+    ctx: TextContext,
+    user: UserDocument,
+  ) {
+    if (!lndWatcher.isRunning()) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lndNotConfigured'));
+      return;
+    }
+    await UsersModel.updateOne(
+      {
+        _id: user._id,
+      },
+      {
+        $set: {
+          watchLightningForwards: false,
+        },
+      },
+    );
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lightningForwardsWatchStopped'));
+  }
+
+  static async watchLightningInvoicesCreated(
+    ctx: TextContext,
+    user: UserDocument,
+  ) {
+    if (!lndWatcher.isRunning()) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lndNotConfigured'));
       return;
     }
     await UsersModel.updateOne(
@@ -2143,9 +2706,7 @@ export class TelegrafManager {
         },
       },
     );
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      'Started watching for lightning invoices creation.',
-    ));
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lightningInvoicesCreatedWatchStarted'));
   }
 
   static async unwatchLightningInvoicesCreated(
@@ -2153,9 +2714,7 @@ export class TelegrafManager {
     user: UserDocument,
   ) {
     if (!lndWatcher.isRunning()) {
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        'Sorry, the LND integration is not configured.',
-      ));
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lndNotConfigured'));
       return;
     }
     await UsersModel.updateOne(
@@ -2168,9 +2727,7 @@ export class TelegrafManager {
         },
       },
     );
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      'Stopped watching for lightning invoices creation.',
-    ));
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lightningInvoicesCreatedWatchStopped'));
   }
 
   static async watchLightningInvoicesPaid(
@@ -2178,9 +2735,7 @@ export class TelegrafManager {
     user: UserDocument,
   ) {
     if (!lndWatcher.isRunning()) {
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        'Sorry, the LND integration is not configured.',
-      ));
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lndNotConfigured'));
       return;
     }
     await UsersModel.updateOne(
@@ -2193,9 +2748,7 @@ export class TelegrafManager {
         },
       },
     );
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      'Started watching for lightning invoices being paid.',
-    ));
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lightningInvoicesPaidWatchStarted'));
   }
 
   static async unwatchLightningInvoicesPaid(
@@ -2203,9 +2756,7 @@ export class TelegrafManager {
     user: UserDocument,
   ) {
     if (!lndWatcher.isRunning()) {
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        'Sorry, the LND integration is not configured.',
-      ));
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lndNotConfigured'));
       return;
     }
     await UsersModel.updateOne(
@@ -2218,17 +2769,141 @@ export class TelegrafManager {
         },
       },
     );
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      'Stopped watching for lightning invoices being paid.',
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lightningInvoicesPaidWatchStopped'));
+  }
+
+  // Stores the thresholds of the user and replaces the ones of the lnd watcher
+  private static async updateLightningLiquidityWatch(
+    user: UserDocument,
+    thresholds: LiquidityThresholds,
+    channelsThresholds: ChannelLiquidityThresholds[],
+  ) {
+    await UsersModel.updateOne(
+      {
+        _id: user._id,
+      },
+      {
+        $set: {
+          ...(thresholds.below !== undefined) && { watchLightningLiquidityBelow: thresholds.below },
+          ...(thresholds.above !== undefined) && { watchLightningLiquidityAbove: thresholds.above },
+          watchLightningChannelsLiquidity: channelsThresholds,
+        },
+        $unset: {
+          ...(thresholds.below === undefined) && { watchLightningLiquidityBelow: true },
+          ...(thresholds.above === undefined) && { watchLightningLiquidityAbove: true },
+        },
+      },
+    );
+    lndWatcher.watchLiquidity(user._id.toString(), thresholds, channelsThresholds);
+  }
+
+  // The target is a percent of the channel capacity, for every channel unless a channel-id is given
+  static async watchLightningLiquidity(ctx: TextContext, user: UserDocument, args: string[]) {
+    if (!lndWatcher.isRunning()) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lndNotConfigured'));
+      return;
+    }
+    const [direction, value, channelId] = args;
+    if (
+      (args.length < 2) || (args.length > 3)
+      || !Object.values(LiquidityDirection).includes(direction as LiquidityDirection)
+      || ((channelId !== undefined) && !lightningChannelIdRegex.test(channelId))
+    ) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lightningLiquidityWatchSyntax'));
+      return;
+    }
+    const threshold = Number(value);
+    if (!Number.isFinite(threshold) || (threshold <= 0) || (threshold >= 100)) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lightningLiquidityWatchInvalid'));
+      return;
+    }
+    const channel = (channelId === undefined) ? undefined : lndWatcher.getChannel(channelId);
+    if ((channelId !== undefined) && !channel) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lightningLiquidityUnknownChannel', {
+        channelId,
+      }));
+      return;
+    }
+    const liquidityDirection = direction as LiquidityDirection;
+    const thresholds: LiquidityThresholds = {
+      below: user.watchLightningLiquidityBelow,
+      above: user.watchLightningLiquidityAbove,
+      ...(channelId === undefined) && { [liquidityDirection]: threshold },
+    };
+    const channelsThresholds = user.watchLightningChannelsLiquidity.map(
+      ({ channelId: thresholdsChannelId, below, above }): ChannelLiquidityThresholds => ({
+        channelId: thresholdsChannelId,
+        below,
+        above,
+        ...(thresholdsChannelId === channelId) && { [liquidityDirection]: threshold },
+      }),
+    );
+    if (
+      (channelId !== undefined)
+      && !channelsThresholds.some((channelThresholds) => channelThresholds.channelId === channelId)
+    ) {
+      channelsThresholds.push({ channelId, [liquidityDirection]: threshold });
+    }
+    await TelegrafManager.updateLightningLiquidityWatch(user, thresholds, channelsThresholds);
+    const isBelow = (liquidityDirection === LiquidityDirection.Below);
+    if (channelId === undefined) {
+      ctx.replyWithMarkdownV2(markdownMessage(
+        ctx,
+        user,
+        isBelow ? 'lightningLiquidityWatchStartedBelow' : 'lightningLiquidityWatchStartedAbove',
+        { threshold: formatNumber(threshold, user) },
+      ));
+      return;
+    }
+    ctx.replyWithMarkdownV2(markdownMessage(
+      ctx,
+      user,
+      isBelow
+        ? 'lightningLiquidityChannelWatchStartedBelow'
+        : 'lightningLiquidityChannelWatchStartedAbove',
+      {
+        threshold: formatNumber(threshold, user),
+        channel: lightningChannelName(channelId, channel?.partnerName),
+      },
     ));
   }
 
-  static async [BotCommandName.Links](ctx: TextContext) {
+  // Without arguments, every target is removed. With a direction only, the targets of that
+  // direction are removed, for every channel too.
+  static async unwatchLightningLiquidity(ctx: TextContext, user: UserDocument, args: string[]) {
+    const [direction, channelId] = args;
+    if (
+      (args.length > 2)
+      || (direction && !Object.values(LiquidityDirection).includes(direction as LiquidityDirection))
+    ) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lightningLiquidityUnwatchSyntax'));
+      return;
+    }
+    const removedDirections = direction
+      ? [direction as LiquidityDirection] : Object.values(LiquidityDirection);
+    const isRemoved = (thresholdsDirection: LiquidityDirection, thresholdsChannelId?: string) => (
+      removedDirections.includes(thresholdsDirection)
+      && ((channelId === undefined) || (thresholdsChannelId === channelId))
+    );
+    const thresholds: LiquidityThresholds = {
+      ...!isRemoved(LiquidityDirection.Below) && { below: user.watchLightningLiquidityBelow },
+      ...!isRemoved(LiquidityDirection.Above) && { above: user.watchLightningLiquidityAbove },
+    };
+    const channelsThresholds = user.watchLightningChannelsLiquidity.map(
+      ({ channelId: thresholdsChannelId, below, above }): ChannelLiquidityThresholds => ({
+        channelId: thresholdsChannelId,
+        ...!isRemoved(LiquidityDirection.Below, thresholdsChannelId) && { below },
+        ...!isRemoved(LiquidityDirection.Above, thresholdsChannelId) && { above },
+      }),
+    ).filter(({ below, above }) => (below !== undefined) || (above !== undefined));
+    await TelegrafManager.updateLightningLiquidityWatch(user, thresholds, channelsThresholds);
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'lightningLiquidityWatchStopped'));
+  }
+
+  static async [BotCommandName.Links](ctx: TextContext, user: UserDocument) {
     const replyToMessage = ctx.message.reply_to_message;
     if (!replyToMessage) {
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        'Use this command as a reply to a previous command.',
-      ));
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'linksNotReply'));
       return;
     }
     const settings = await SettingsModel.findById(zeroObjectId);
@@ -2251,61 +2926,742 @@ export class TelegrafManager {
       }
     }
     if (links.length === 0) {
-      ctx.replyWithMarkdownV2(escapeMarkdown(
-        'No addresses, transaction-ids or block-hashes were found in that message.',
-      ));
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'linksNotFound'));
       return;
     }
-    ctx.replyWithMarkdownV2(escapeMarkdown(
-      `Here are the links to the addresses, transactions and blocks in that message:\n${
-        links.join('\n')
-      }`,
-    ));
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'links', { links: links.join('\n') }));
+  }
+
+  static async [BotCommandName.Webhooks](
+    ctx: TextContext,
+    user: UserDocument,
+    args: string[],
+  ) {
+    const [action, ...actionArgs] = args;
+    const webhooks = await WebhooksModel.find({ userId: user._id });
+    switch (action) {
+      case undefined: {
+        if (webhooks.length === 0) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'webhooksEmpty'));
+          return;
+        }
+        ctx.replyWithMarkdownV2(`${markdownMessage(ctx, user, 'webhooksList')}\n${
+          webhooks.map((webhook) => `${escapeMarkdown(webhook.url)}\n${
+            markdownMessage(ctx, user, 'webhookSecret')
+          }\`${webhookSecret(webhook.id)}\``).join('\n')
+        }`);
+        return;
+      }
+      case 'add': {
+        const [url] = actionArgs;
+        if ((actionArgs.length !== 1) || !isWebhookUrl(url)) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'webhookInvalidUrl'));
+          return;
+        }
+        if (webhooks.some((webhook) => webhook.url === url)) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'webhookExists'));
+          return;
+        }
+        if (webhooks.length >= maxUserWebhooks) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'webhooksLimit', {
+            count: maxUserWebhooks,
+          }));
+          return;
+        }
+        const webhook = await WebhooksModel.create({
+          userId: user._id,
+          url,
+        });
+        ctx.replyWithMarkdownV2(`${
+          markdownMessage(ctx, user, 'webhookAdded')
+        }\n\`${webhookSecret(webhook.id)}\`\n${
+          markdownMessage(ctx, user, 'webhookTestHint')
+        }`);
+        return;
+      }
+      case 'remove': {
+        const toRemove = webhooks.filter((webhook) => actionArgs.includes(webhook.url));
+        if ((actionArgs.length === 0) || (toRemove.length === 0)) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'webhooksRemoveSyntax'));
+          return;
+        }
+        await WebhooksModel.deleteMany({
+          _id: {
+            $in: toRemove.map(({ _id }) => _id),
+          },
+        });
+        ctx.replyWithMarkdownV2(markdownMessage(
+          ctx,
+          user,
+          (toRemove.length === 1) ? 'webhookRemoved' : 'webhooksRemoved',
+          { urls: toRemove.map((webhook) => webhook.url).join(', ') },
+        ));
+        return;
+      }
+      case 'test': {
+        if (webhooks.length === 0) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'webhooksTestEmpty'));
+          return;
+        }
+        await WebhooksManager.test(webhooks);
+        ctx.replyWithMarkdownV2(markdownMessage(
+          ctx,
+          user,
+          (webhooks.length === 1) ? 'webhookTested' : 'webhooksTested',
+        ));
+        return;
+      }
+      default:
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'webhooksUnknownAction'));
+    }
+  }
+
+  static async [BotCommandName.Nostr](
+    ctx: TextContext,
+    user: UserDocument,
+    args: string[],
+  ) {
+    const [action, ...actionArgs] = args;
+    const relaysWarning = nostrManager.hasRelays
+      ? '' : `\n${markdownMessage(ctx, user, 'nostrRelaysWarning')}`;
+    switch (action) {
+      case undefined: {
+        if (!user.nostrPublicKey) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'nostrEmpty'));
+          return;
+        }
+        ctx.replyWithMarkdownV2(`${markdownMessage(ctx, user, 'nostrStatus', {
+          encryption: (user.nostrEncryption ?? defaultNostrEncryption).toUpperCase(),
+        })}\n\`${npubEncode(user.nostrPublicKey)}\`\n${markdownMessage(ctx, user, 'nostrFrom')}\n\`${
+          nostrNpub
+        }\`${relaysWarning}`);
+        return;
+      }
+      case 'set': {
+        const [publicKeyArg, encryptionArg] = actionArgs;
+        const publicKey = publicKeyArg && parseNostrPublicKey(publicKeyArg);
+        const nostrEncryptions = Object.values(NostrEncryption) as string[];
+        if (
+          !publicKey
+          || (actionArgs.length > 2)
+          || ((encryptionArg !== undefined) && !nostrEncryptions.includes(encryptionArg))
+        ) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'nostrInvalidPublicKey', {
+            encryptions: nostrEncryptions.join(', '),
+            defaultEncryption: defaultNostrEncryption,
+          }));
+          return;
+        }
+        await UsersModel.updateOne(
+          { _id: user._id },
+          {
+            $set: {
+              nostrPublicKey: publicKey,
+              nostrEncryption: (encryptionArg as NostrEncryption) ?? defaultNostrEncryption,
+            },
+          },
+        );
+        ctx.replyWithMarkdownV2(`${markdownMessage(ctx, user, 'nostrSet')}\n\`${nostrNpub}\`\n${
+          markdownMessage(ctx, user, 'nostrTestHint')
+        }${relaysWarning}`);
+        return;
+      }
+      case 'remove': {
+        if (!user.nostrPublicKey) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'nostrRemoveEmpty'));
+          return;
+        }
+        await UsersModel.updateOne(
+          { _id: user._id },
+          {
+            $unset: {
+              nostrPublicKey: 1,
+              nostrEncryption: 1,
+            },
+          },
+        );
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'nostrRemoved'));
+        return;
+      }
+      case 'test': {
+        if (!user.nostrPublicKey) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'nostrTestEmpty'));
+          return;
+        }
+        await NostrManager.test(user);
+        ctx.replyWithMarkdownV2(`${markdownMessage(ctx, user, 'nostrTested')}${relaysWarning}`);
+        return;
+      }
+      default:
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'nostrUnknownAction'));
+    }
+  }
+
+  static async [BotCommandName.Email](
+    ctx: TextContext,
+    user: UserDocument,
+    args: string[],
+  ) {
+    const [action, ...actionArgs] = args;
+    const smtpWarning = emailManager.isConfigured
+      ? '' : `\n${markdownMessage(ctx, user, 'emailServerWarning')}`;
+    switch (action) {
+      case undefined: {
+        if (!user.emailAddress) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'emailEmpty'));
+          return;
+        }
+        ctx.replyWithMarkdownV2(`${markdownMessage(ctx, user, 'emailStatus', {
+          emailAddress: user.emailAddress,
+        })}${smtpWarning}`);
+        return;
+      }
+      case 'set': {
+        const [emailAddress] = actionArgs;
+        if ((actionArgs.length !== 1) || !isEmailAddress(emailAddress)) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'emailInvalidAddress'));
+          return;
+        }
+        const now = Date.now();
+        const { modifiedCount } = await UsersModel.updateOne(
+          {
+            _id: user._id,
+            $or: [
+              { pendingEmailSentAt: { $exists: false } },
+              { pendingEmailSentAt: { $lte: new Date(now - emailVerificationIntervalMs) } },
+            ],
+          },
+          {
+            $set: {
+              pendingEmailAddress: emailAddress,
+              pendingEmailSentAt: new Date(now),
+            },
+            $unset: {
+              pendingEmailAttempts: 1,
+            },
+          },
+        );
+        if (modifiedCount === 0) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'emailVerificationThrottled', {
+            minutes: Math.ceil(
+              ((user.pendingEmailSentAt?.getTime() ?? now) + emailVerificationIntervalMs - now)
+              / 60_000,
+            ),
+          }));
+          return;
+        }
+        await EmailManager.sendVerificationCode(user, emailAddress);
+        ctx.replyWithMarkdownV2(`${markdownMessage(ctx, user, 'emailVerificationSent', {
+          emailAddress,
+        })}${smtpWarning}`);
+        return;
+      }
+      case 'verify': {
+        const [code] = actionArgs;
+        const { pendingEmailAddress } = user;
+        if (!pendingEmailAddress) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'emailVerifyEmpty'));
+          return;
+        }
+        const clearPendingEmail = {
+          $unset: {
+            pendingEmailAddress: 1,
+            pendingEmailAttempts: 1,
+          },
+        };
+        if (
+          !user.pendingEmailSentAt
+          || (Date.now() - user.pendingEmailSentAt.getTime() > emailVerificationTtlMs)
+        ) {
+          await UsersModel.updateOne({ _id: user._id }, clearPendingEmail);
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'emailVerificationExpired'));
+          return;
+        }
+        if (
+          (actionArgs.length !== 1)
+          || (code !== emailVerificationCode(user.id, pendingEmailAddress))
+        ) {
+          const updatedUser = await UsersModel.findOneAndUpdate(
+            { _id: user._id, pendingEmailAddress },
+            { $inc: { pendingEmailAttempts: 1 } },
+            { new: true },
+          );
+          if ((updatedUser?.pendingEmailAttempts ?? 0) >= maxEmailVerificationAttempts) {
+            await UsersModel.updateOne({ _id: user._id }, clearPendingEmail);
+            ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'emailTooManyWrongCodes'));
+            return;
+          }
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'emailWrongCode', {
+            emailAddress: pendingEmailAddress,
+          }));
+          return;
+        }
+        await UsersModel.updateOne(
+          { _id: user._id },
+          {
+            $set: {
+              emailAddress: pendingEmailAddress,
+            },
+            ...clearPendingEmail,
+          },
+        );
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'emailVerified', {
+          emailAddress: pendingEmailAddress,
+        }));
+        return;
+      }
+      case 'remove': {
+        if (!user.emailAddress && !user.pendingEmailAddress) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'emailRemoveEmpty'));
+          return;
+        }
+        await UsersModel.updateOne(
+          { _id: user._id },
+          {
+            $unset: {
+              emailAddress: 1,
+              pendingEmailAddress: 1,
+              pendingEmailAttempts: 1,
+            },
+          },
+        );
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'emailRemoved'));
+        return;
+      }
+      case 'test': {
+        if (!user.emailAddress) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'emailTestEmpty'));
+          return;
+        }
+        await EmailManager.test(user.emailAddress);
+        ctx.replyWithMarkdownV2(`${markdownMessage(ctx, user, 'emailTested', {
+          emailAddress: user.emailAddress,
+        })}${smtpWarning}`);
+        return;
+      }
+      default:
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'emailUnknownAction'));
+    }
+  }
+
+  static async [BotCommandName.Matrix](
+    ctx: TextContext,
+    user: UserDocument,
+    args: string[],
+  ) {
+    const [action, ...actionArgs] = args;
+    switch (action) {
+      case undefined: {
+        if (!user.matrixUserId) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'matrixEmpty'));
+          return;
+        }
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'matrixStatus', {
+          matrixUserId: user.matrixUserId,
+          matrixRoomId: user.matrixRoomId ?? '',
+        }));
+        return;
+      }
+      case 'set': {
+        const [matrixUserId] = actionArgs;
+        if ((actionArgs.length !== 1) || !isMatrixUserId(matrixUserId)) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'matrixInvalidUserId'));
+          return;
+        }
+        if (!matrixManager.isConfigured) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'matrixNotConfigured'));
+          return;
+        }
+        let matrixRoomId: string;
+        try {
+          matrixRoomId = await matrixManager.createDirectRoom(matrixUserId);
+        } catch (error) {
+          logger.error(
+            `TelegrafManager: Failed to create a Matrix room for ${matrixUserId}: ${
+              errorString(error)
+            }`,
+          );
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'matrixRoomFailed', { matrixUserId }));
+          return;
+        }
+        if (user.matrixRoomId) {
+          await matrixManager.leaveRoom(user.matrixRoomId);
+        }
+        await UsersModel.updateOne(
+          { _id: user._id },
+          {
+            $set: {
+              matrixUserId,
+              matrixRoomId,
+            },
+          },
+        );
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'matrixInvited', { matrixUserId }));
+        return;
+      }
+      case 'remove': {
+        if (!user.matrixUserId) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'matrixRemoveEmpty'));
+          return;
+        }
+        if (user.matrixRoomId) {
+          await matrixManager.leaveRoom(user.matrixRoomId);
+        }
+        await UsersModel.updateOne(
+          { _id: user._id },
+          {
+            $unset: {
+              matrixUserId: 1,
+              matrixRoomId: 1,
+            },
+          },
+        );
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'matrixRemoved'));
+        return;
+      }
+      case 'test': {
+        if (!user.matrixRoomId) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'matrixTestEmpty'));
+          return;
+        }
+        await MatrixManager.test(user.matrixRoomId);
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'matrixTested', {
+          matrixUserId: user.matrixUserId ?? '',
+        }));
+        return;
+      }
+      default:
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'matrixUnknownAction'));
+    }
+  }
+
+  static async [BotCommandName.Settings](
+    ctx: TextContext,
+    user: UserDocument,
+    args: string[],
+  ) {
+    const [action, value, ...leftArgs] = args;
+    if (leftArgs.length > 0) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'settingsSingleValue'));
+      return;
+    }
+    const language = userLanguage(ctx, user);
+    switch (action) {
+      case undefined: {
+        ctx.replyWithMarkdownV2(escapeMarkdown([
+          translate(language, 'settingsLanguage', {
+            language: user.language ?? translate(language, 'settingsLanguageDefault', {
+              language,
+            }),
+          }),
+          translate(language, 'settingsTimeZone', { timeZone: user.timeZone ?? 'UTC' }),
+          translate(language, 'settingsLocale', { locale: user.locale ?? 'en-US' }),
+          translate(language, 'settingsNumbers', {
+            numberFormat: user.numberFormat ?? translate(language, 'settingsNumbersDefault'),
+          }),
+          translate(language, 'settingsDatesExample', {
+            date: prettyDate(new Date().toJSON(), user),
+          }),
+          translate(language, 'settingsAmountsExample', {
+            amount: mSatsToSats('1234567890', user),
+          }),
+        ].join('\n')));
+        return;
+      }
+      case 'language': {
+        const newLanguage = parseLanguage(value);
+        if ((value !== 'reset') && (newLanguage !== value)) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'settingsInvalidLanguage', {
+            languages: languages.join(', '),
+          }));
+          return;
+        }
+        await UsersModel.updateOne(
+          { _id: user._id },
+          newLanguage ? { $set: { language: newLanguage } } : { $unset: { language: 1 } },
+        );
+        ctx.replyWithMarkdownV2(escapeMarkdown(translate(
+          newLanguage ?? parseLanguage(ctx.from?.language_code) ?? Language.English,
+          'settingsLanguageChanged',
+        )));
+        return;
+      }
+      case 'timezone': {
+        if ((value !== 'reset') && !isTimeZone(value)) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'settingsInvalidTimeZone'));
+          return;
+        }
+        await UsersModel.updateOne(
+          { _id: user._id },
+          (value === 'reset') ? { $unset: { timeZone: 1 } } : { $set: { timeZone: value } },
+        );
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'settingsTimeZoneChanged', {
+          timeZone: (value === 'reset') ? 'UTC' : value,
+        }));
+        return;
+      }
+      case 'locale': {
+        if ((value !== 'reset') && !isLocale(value)) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'settingsInvalidLocale'));
+          return;
+        }
+        await UsersModel.updateOne(
+          { _id: user._id },
+          (value === 'reset') ? { $unset: { locale: 1 } } : { $set: { locale: value } },
+        );
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'settingsLocaleChanged', {
+          locale: (value === 'reset') ? 'en-US' : value,
+        }));
+        return;
+      }
+      case 'numbers': {
+        if ((value !== 'reset') && !Object.values<string>(NumberFormat).includes(value)) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'settingsInvalidNumbers', {
+            numberFormats: Object.values(NumberFormat).join(', '),
+          }));
+          return;
+        }
+        await UsersModel.updateOne(
+          { _id: user._id },
+          (value === 'reset') ? { $unset: { numberFormat: 1 } } : { $set: { numberFormat: value } },
+        );
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'settingsNumbersChanged', {
+          amount: mSatsToSats('1234567890', {
+            locale: user.locale,
+            ...(value !== 'reset') && { numberFormat: value as NumberFormat },
+          }),
+        }));
+        return;
+      }
+      default:
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'settingsUnknownAction'));
+    }
+  }
+
+  static async [BotCommandName.Balance](
+    ctx: TextContext,
+    user: UserDocument,
+    args: string[],
+  ) {
+    const [addressOrNickname, action, value, ...leftArgs] = args;
+    const language = userLanguage(ctx, user);
+    if (addressOrNickname === undefined) {
+      const watchedAddresses = await WatchedAddressesModel.find({
+        userId: user._id,
+      });
+      if (watchedAddresses.length === 0) {
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'balanceNoAddresses', {
+          command: `/${BotCommandName.Watch} ${WatchName.Addresses}`,
+        }));
+        return;
+      }
+      ctx.replyWithMarkdownV2(escapeMarkdown([
+        translate(language, 'balanceList'),
+        ...watchedAddresses.map(
+          (watchedAddress) => `• ${addressBalanceLine(watchedAddress, user, language)}`,
+        ),
+      ].join('\n')));
+      return;
+    }
+    if (leftArgs.length > 0) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'tooManyParameters'));
+      return;
+    }
+    const watchedAddress = await WatchedAddressesModel.findOne({
+      userId: user._id,
+      $or: [
+        { address: addressOrNickname },
+        { nickname: addressOrNickname },
+      ],
+    });
+    if (!watchedAddress) {
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'noMatchingAddress', {
+        listWatchesCommand: `/${BotCommandName.ListWatches}`,
+      }));
+      return;
+    }
+    const addressName = watchedAddress.nickname
+      ? `${watchedAddress.nickname} (${watchedAddress.address})`
+      : watchedAddress.address;
+    switch (action) {
+      case undefined:
+        ctx.replyWithMarkdownV2(escapeMarkdown(addressBalanceLine(watchedAddress, user, language)));
+        return;
+      case 'above':
+      case 'below': {
+        const thresholdSats = (value === undefined) ? undefined : parseBitcoinAmount(value);
+        if (thresholdSats === undefined) {
+          ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'balanceInvalidThreshold', {
+            command: `/${BotCommandName.Balance} ${addressOrNickname} ${action} 0.5`,
+          }));
+          return;
+        }
+        await WatchedAddressesModel.updateOne(
+          { _id: watchedAddress._id },
+          {
+            $set: {
+              [(action === 'above') ? 'balanceAboveSats' : 'balanceBelowSats']: thresholdSats,
+            },
+          },
+        );
+        const { confirmedBalanceSats } = watchedAddress;
+        // The alerts are sent when the threshold is crossed, so a threshold that is already crossed
+        // is only reported here
+        const isCrossed = (confirmedBalanceSats !== undefined) && (
+          (action === 'above')
+            ? (confirmedBalanceSats > thresholdSats)
+            : (confirmedBalanceSats <= thresholdSats)
+        );
+        ctx.replyWithMarkdownV2(`${markdownMessage(
+          ctx,
+          user,
+          (action === 'above') ? 'balanceAboveWatchStarted' : 'balanceBelowWatchStarted',
+          { address: addressName, amount: formatNumber(thresholdSats, user) },
+        )}${isCrossed ? `\n${markdownMessage(
+          ctx,
+          user,
+          (action === 'above') ? 'balanceAlreadyAbove' : 'balanceAlreadyBelow',
+          { balance: formatNumber(confirmedBalanceSats ?? 0, user) },
+        )}` : ''}`);
+        return;
+      }
+      case 'off':
+        await WatchedAddressesModel.updateOne(
+          { _id: watchedAddress._id },
+          {
+            $unset: {
+              balanceAboveSats: 1,
+              balanceBelowSats: 1,
+            },
+          },
+        );
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'balanceWatchStopped', {
+          address: addressName,
+        }));
+        return;
+      default:
+        ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'balanceUnknownAction'));
+    }
   }
 
   static async [BotCommandName.ListWatches](ctx: TextContext, user: UserDocument) {
     const lines: string[] = [];
     if (user.watchReboot) {
-      lines.push(escapeMarkdown('You are watching server reboots.'));
+      lines.push(markdownMessage(ctx, user, 'listWatchesReboot'));
     }
     if (user.watchNewBlocks) {
-      lines.push(escapeMarkdown('You are watching new blocks.'));
+      lines.push((user.watchNewBlocksPools.length > 0)
+        ? markdownMessage(ctx, user, 'listWatchesNewBlocksPools', {
+          pools: user.watchNewBlocksPools.join(', '),
+        })
+        : markdownMessage(ctx, user, 'listWatchesNewBlocks'));
+    }
+    if (user.watchReorg) {
+      lines.push(markdownMessage(ctx, user, 'listWatchesReorg'));
+    }
+    if (user.watchDifficulty) {
+      lines.push(markdownMessage(ctx, user, 'listWatchesDifficulty'));
+    }
+    if (user.watchHalving) {
+      lines.push(markdownMessage(ctx, user, 'listWatchesHalving'));
     }
     if (user.watchPriceChange) {
-      lines.push(escapeMarkdown(`You are watching price changes of $${
-        user.watchPriceChange.toLocaleString('en-US')
-      }.`));
+      lines.push(markdownMessage(ctx, user, 'listWatchesPriceChange', {
+        delta: `$${formatNumber(user.watchPriceChange, user)}`,
+      }));
     }
     if (user.watchMempoolClear) {
-      lines.push(escapeMarkdown('You are watching mempool becoming clear.'));
+      lines.push(markdownMessage(ctx, user, 'listWatchesMempoolClear'));
+    }
+    if (user.watchFeeRateBelow) {
+      lines.push(markdownMessage(ctx, user, 'listWatchesFeeRateBelow', {
+        threshold: formatNumber(user.watchFeeRateBelow, user),
+      }));
+    }
+    if (user.watchFeeRateAbove) {
+      lines.push(markdownMessage(ctx, user, 'listWatchesFeeRateAbove', {
+        threshold: formatNumber(user.watchFeeRateAbove, user),
+      }));
+    }
+    if (user.watchWhaleAmountSats) {
+      lines.push(markdownMessage(ctx, user, 'listWatchesWhalesAmount', {
+        threshold: formatNumber(user.watchWhaleAmountSats, user),
+      }));
+    }
+    if (user.watchWhaleFeeSats) {
+      lines.push(markdownMessage(ctx, user, 'listWatchesWhalesFee', {
+        threshold: formatNumber(user.watchWhaleFeeSats, user),
+      }));
+    }
+    if (user.watchWhaleFeeRate) {
+      lines.push(markdownMessage(ctx, user, 'listWatchesWhalesFeeRate', {
+        threshold: formatNumber(user.watchWhaleFeeRate, user),
+      }));
+    }
+    if (user.watchNodeHealth) {
+      lines.push(markdownMessage(ctx, user, 'listWatchesNodeHealth', {
+        minPeers: user.watchNodeHealth,
+      }));
     }
     if (user.watchLightningChannelsOpened) {
-      lines.push(escapeMarkdown('You are watching lightning channels being opened.'));
+      lines.push(markdownMessage(ctx, user, 'listWatchesLightningChannelsOpened'));
     }
     if (user.watchLightningChannelsClosed) {
-      lines.push(escapeMarkdown('You are watching lightning channels being closed.'));
+      lines.push(markdownMessage(ctx, user, 'listWatchesLightningChannelsClosed'));
     }
     if (user.watchLightningForwards) {
-      lines.push(escapeMarkdown('You are watching lightning forwards.'));
+      lines.push(markdownMessage(ctx, user, 'listWatchesLightningForwards'));
     }
     if (user.watchLightningInvoicesCreated) {
-      lines.push(escapeMarkdown('You are watching lightning invoices creation.'));
+      lines.push(markdownMessage(ctx, user, 'listWatchesLightningInvoicesCreated'));
     }
     if (user.watchLightningInvoicesPaid) {
-      lines.push(escapeMarkdown('You are watching lightning invoices being paid.'));
+      lines.push(markdownMessage(ctx, user, 'listWatchesLightningInvoicesPaid'));
+    }
+    if (user.watchLightningLiquidityBelow !== undefined) {
+      lines.push(markdownMessage(ctx, user, 'listWatchesLightningLiquidityBelow', {
+        threshold: formatNumber(user.watchLightningLiquidityBelow, user),
+      }));
+    }
+    if (user.watchLightningLiquidityAbove !== undefined) {
+      lines.push(markdownMessage(ctx, user, 'listWatchesLightningLiquidityAbove', {
+        threshold: formatNumber(user.watchLightningLiquidityAbove, user),
+      }));
+    }
+    for (const { channelId, below, above } of user.watchLightningChannelsLiquidity) {
+      const channel = lightningChannelName(
+        channelId,
+        lndWatcher.getChannel(channelId)?.partnerName,
+      );
+      if (below !== undefined) {
+        lines.push(markdownMessage(ctx, user, 'listWatchesLightningChannelLiquidityBelow', {
+          threshold: formatNumber(below, user),
+          channel,
+        }));
+      }
+      if (above !== undefined) {
+        lines.push(markdownMessage(ctx, user, 'listWatchesLightningChannelLiquidityAbove', {
+          threshold: formatNumber(above, user),
+          channel,
+        }));
+      }
     }
     const watchedTransactions = await WatchedTransactionsModel.find({
       userId: user._id,
     });
     if (watchedTransactions.length > 0) {
       lines.push(
-        escapeMarkdown('You are watching the following transactions:'),
+        markdownMessage(ctx, user, 'listWatchesTransactions'),
         ...watchedTransactions.map(
-          (transaction) => `• ${escapeMarkdown(
+          (transaction) => `• ${escapeMarkdown(`${
             transaction.nickname
               ? `${transaction.nickname}:${transaction.txid}`
-              : transaction.txid,
-          )}`,
+              : transaction.txid
+          }${
+            (transaction.confirmationTargets.length > 0)
+              ? ` ${transaction.confirmationTargets.join(',')}`
+              : ''
+          }`)}`,
         ),
       );
     }
@@ -2314,7 +3670,7 @@ export class TelegrafManager {
     });
     if (watchedAddresses.length > 0) {
       lines.push(
-        escapeMarkdown('You are watching the following addresses:'),
+        markdownMessage(ctx, user, 'listWatchesAddresses'),
         ...watchedAddresses.map(
           (watchedAddress) => `• ${escapeMarkdown(
             watchedAddress.nickname
@@ -2324,8 +3680,65 @@ export class TelegrafManager {
         ),
       );
     }
+    const watchedWallets = await WatchedWalletsModel.find({
+      userId: user._id,
+    });
+    if (watchedWallets.length > 0) {
+      lines.push(
+        markdownMessage(ctx, user, 'listWatchesWallets'),
+        ...watchedWallets.map(
+          (watchedWallet) => `• ${escapeMarkdown(
+            `${
+              watchedWallet.nickname
+                ? `${watchedWallet.nickname}:${watchedWallet.extendedKey}`
+                : watchedWallet.extendedKey
+            } (${watchedWallet.scriptType})`,
+          )}`,
+        ),
+      );
+    }
+    const watchedOutpoints = await WatchedOutpointsModel.find({
+      userId: user._id,
+    });
+    if (watchedOutpoints.length > 0) {
+      lines.push(
+        markdownMessage(ctx, user, 'listWatchesOutpoints'),
+        ...watchedOutpoints.map(
+          (watchedOutpoint) => `• ${escapeMarkdown(
+            `${
+              watchedOutpoint.nickname
+                ? `${watchedOutpoint.nickname}:${watchedOutpoint.outpoint}`
+                : watchedOutpoint.outpoint
+            }${
+              watchedOutpoint.spendingTxid
+                ? ` ${translate(userLanguage(ctx, user), 'outpointSpentBy', {
+                  txid: watchedOutpoint.spendingTxid,
+                })}`
+                : ''
+            }`,
+          )}`,
+        ),
+      );
+    }
+    const watchedTimelocks = await WatchedTimelocksModel.find({
+      userId: user._id,
+    });
+    if (watchedTimelocks.length > 0) {
+      lines.push(
+        markdownMessage(ctx, user, 'listWatchesTimelocks'),
+        ...watchedTimelocks.map(
+          (watchedTimelock) => `• ${escapeMarkdown(
+            `${watchedTimelock.nickname ? `${watchedTimelock.nickname}:` : ''}${
+              watchedTimelock.type
+            } ${timelockLockText(watchedTimelock, user)} (${
+              timelockStatusText(watchedTimelock, user, userLanguage(ctx, user))
+            })`,
+          )}`,
+        ),
+      );
+    }
     if (lines.length === 0) {
-      lines.push(escapeMarkdown('You are not watching anything.'));
+      lines.push(markdownMessage(ctx, user, 'notWatchingAnything'));
     }
     ctx.replyWithMarkdownV2(lines.join('\n'));
   }
@@ -2335,13 +3748,40 @@ export class TelegrafManager {
       _id: user._id,
     });
     if (!found) {
-      ctx.replyWithMarkdownV2(notFoundMessage);
+      ctx.replyWithMarkdownV2(markdownMessage(ctx, undefined, 'notFound'));
       return;
     }
-    ctx.replyWithMarkdownV2(escapeMarkdown('Woof! Goodbye.'));
+    ctx.replyWithMarkdownV2(markdownMessage(ctx, user, 'goodbye'));
   }
 }
 
+function escapeMarkdownUrl(url: string): string {
+  // Inside the (...) part of a Markdown V2 link, only ')' and '\' should be escaped
+  return url.replaceAll(/([)\\])/g, '\\$1');
+}
+
+export function notificationToMarkdown(notification: Notification): string {
+  return [
+    escapeMarkdown(notification.body),
+    ...(notification.details !== undefined) ? [
+      `\`\`\`\n${escapeMarkdown(notification.details)}\n\`\`\``,
+    ] : [],
+    ...(notification.links.length > 0) ? [
+      notification.links.map(
+        ({ label, url }) => `[${escapeMarkdown(label)}](${escapeMarkdownUrl(url)})`,
+      ).join(escapeMarkdown(' | ')),
+    ] : [],
+  ].join('\n');
+}
+
+export const telegramNotifier: Notifier = {
+  name: 'telegram',
+  notify: (user, notification) => TelegrafManager.sendMessage({
+    chatId: user.telegramChatId,
+    text: notificationToMarkdown(notification),
+  }),
+};
+
 const telegramManager = new TelegrafManager();
 
 export default telegramManager;
@@ -1,5 +1,7 @@
+import { defaultLocale } from '@woofbot/common';
 import { Types } from 'mongoose';
 import { validate } from 'bitcoin-address-validation';
+import ms from 'ms';
 
 export const isSafeNonNegativeInteger = (
   value: unknown,
@@ -13,10 +15,165 @@ export const isValidObjectIdString = (
   value: unknown,
 ): value is string => (typeof value === 'string') && Types.ObjectId.isValid(value);
 
+export const isWebhookUrl = (
+  value: unknown,
+): value is string => {
+  if ((typeof value !== 'string') || (value.length > 1000) || !/^https?:\/\/\S+$/.test(value)) {
+    return false;
+  }
+  try {
+    return Boolean(new URL(value));
+  } catch (error) {
+    return false;
+  }
+};
+
+export const isNostrRelayUrl = (
+  value: unknown,
+): value is string => {
+  if ((typeof value !== 'string') || (value.length > 1000) || !/^wss?:\/\/\S+$/.test(value)) {
+    return false;
+  }
+  try {
+    return Boolean(new URL(value));
+  } catch (error) {
+    return false;
+  }
+};
+
+// Room ids look like "!opaque:example.org" and room aliases like "#name:example.org"
+export const isMatrixRoom = (
+  value: unknown,
+): value is string => (
+  (typeof value === 'string') && (value.length <= 255) && /^[!#][^\s:]+:\S+$/.test(value)
+);
+
+export const isMatrixUserId = (
+  value: unknown,
+): value is string => (
+  (typeof value === 'string') && (value.length <= 255) && /^@[^\s:]+:\S+$/.test(value)
+);
+
+// An IANA timezone name that the runtime knows, like "Europe/Berlin"
+export const isTimeZone = (
+  value: unknown,
+): value is string => {
+  if ((typeof value !== 'string') || (value.length > 100)) {
+    return false;
+  }
+  try {
+    return Boolean(new Intl.DateTimeFormat(defaultLocale, { timeZone: value }));
+  } catch (error) {
+    return false;
+  }
+};
+
+// A BCP 47 language tag that the runtime supports, like "de-DE"
+export const isLocale = (
+  value: unknown,
+): value is string => {
+  if ((typeof value !== 'string') || (value.length > 35)) {
+    return false;
+  }
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(value).length > 0;
+  } catch (error) {
+    return false;
+  }
+};
+
+export const isEmailAddress = (
+  value: unknown,
+): value is string => (
+  (typeof value === 'string') && (value.length <= 254) && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)
+);
+
 export const isTransactionId = (
   value: string,
 ) => (value.length === 64) && /^[0-9a-f]{64}$/.test(value);
 
+// A transaction output, as `${txid}:${vout}`
+export const isOutpoint = (
+  value: string,
+) => (value.length <= 64 + 1 + 10) && /^[0-9a-f]{64}:\d{1,10}$/.test(value);
+
+const maxConfirmationTargets = 10;
+const maxConfirmationTarget = 10_000;
+
+// i.e. "1,3,6", returns the targets in ascending order
+export function parseConfirmationTargets(value: string): number[] | undefined {
+  if (!/^\d{1,5}(,\d{1,5})*$/.test(value)) {
+    return undefined;
+  }
+  const targets = [...new Set(value.split(',').map(Number))].sort((a, b) => a - b);
+  if (
+    (targets.length > maxConfirmationTargets)
+    || (targets[0] < 1) || (targets[targets.length - 1] > maxConfirmationTarget)
+  ) {
+    return undefined;
+  }
+  return targets;
+}
+
+// i.e. "0.5" bitcoins, returns the amount in sats
+export function parseBitcoinAmount(value: string): number | undefined {
+  const match = value.match(/^(\d{1,8})(\.(\d{1,8}))?$/);
+  if (!match) {
+    return undefined;
+  }
+  const [, bitcoins, , fraction = ''] = match;
+  return Number(`${bitcoins}${fraction.padEnd(8, '0')}`);
+}
+
+// nLockTime values below the threshold are block heights, and the others are unix times
+const lockTimeThreshold = 500_000_000;
+// BIP68 relative locks are limited to 16 bits, and time-based ones are in units of 512 seconds
+const maxRelativeLockValue = 0xffff;
+const relativeLockGranularitySeconds = 512;
+
+// i.e. "900000"
+export function parseLockHeight(value: string): number | undefined {
+  if (!/^\d{1,9}$/.test(value)) {
+    return undefined;
+  }
+  const height = Number(value);
+  return (height < lockTimeThreshold) ? height : undefined;
+}
+
+// A unix time in seconds, or a date in UTC, i.e. "2030-01-01"
+export function parseLockTime(value: string): number | undefined {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const time = Date.parse(`${value}T00:00:00Z`) / 1000;
+    return (Number.isFinite(time) && (time >= lockTimeThreshold)) ? time : undefined;
+  }
+  if (!/^\d{1,10}$/.test(value)) {
+    return undefined;
+  }
+  const time = Number(value);
+  return ((time >= lockTimeThreshold) && (time < 2 ** 32)) ? time : undefined;
+}
+
+export interface RelativeLock {
+  blocks?: number;
+  seconds?: number;
+}
+
+// Blocks, i.e. "144", or a duration, i.e. "30d", that is rounded up to whole units of BIP68
+export function parseRelativeLock(value: string): RelativeLock | undefined {
+  if (/^\d{1,5}$/.test(value)) {
+    const blocks = Number(value);
+    return ((blocks > 0) && (blocks <= maxRelativeLockValue)) ? { blocks } : undefined;
+  }
+  const durationMs: number | undefined = ms(value);
+  if ((typeof durationMs !== 'number') || !Number.isFinite(durationMs) || (durationMs <= 0)) {
+    return undefined;
+  }
+  const units = Math.ceil(durationMs / 1000 / relativeLockGranularitySeconds);
+  return (units <= maxRelativeLockValue)
+    ? { seconds: units * relativeLockGranularitySeconds }
+    : undefined;
+}
+
 export function mergeDescriptionToTransactionId(args: string[]): string[] {
   const result: string[] = [];
   let lastArg: string | undefined;
@@ -0,0 +1,142 @@
+import { HDKey } from '@scure/bip32';
+import { schnorr, secp256k1 } from '@noble/curves/secp256k1';
+import { address as bitcoinjsAddress, payments } from 'bitcoinjs-lib';
+import { Network } from 'bitcoin-address-validation';
+
+import { WalletScriptType } from '../models/watched-wallets';
+import { networks } from './bitcoind-watcher';
+
+export enum WalletBranch {
+  Receive = 0,
+  Change = 1,
+}
+
+export interface WalletKey {
+  extendedKey: string;
+  scriptType: WalletScriptType;
+}
+
+interface ExtendedKeyVersion {
+  version: number;
+  scriptType: WalletScriptType;
+  isMainnet: boolean;
+}
+
+// The public versions of SLIP-132, every wallet software exports one of these
+const extendedKeyVersions: Record<string, ExtendedKeyVersion> = {
+  xpub: { version: 0x0488b21e, scriptType: WalletScriptType.P2pkh, isMainnet: true },
+  ypub: { version: 0x049d7cb2, scriptType: WalletScriptType.P2shP2wpkh, isMainnet: true },
+  zpub: { version: 0x04b24746, scriptType: WalletScriptType.P2wpkh, isMainnet: true },
+  tpub: { version: 0x043587cf, scriptType: WalletScriptType.P2pkh, isMainnet: false },
+  upub: { version: 0x044a5262, scriptType: WalletScriptType.P2shP2wpkh, isMainnet: false },
+  vpub: { version: 0x045f1cf6, scriptType: WalletScriptType.P2wpkh, isMainnet: false },
+};
+
+// Only single-key descriptors are supported
+const descriptorWrappers: [string, string, WalletScriptType][] = [
+  ['pkh(', ')', WalletScriptType.P2pkh],
+  ['sh(wpkh(', '))', WalletScriptType.P2shP2wpkh],
+  ['wpkh(', ')', WalletScriptType.P2wpkh],
+  ['tr(', ')', WalletScriptType.P2tr],
+];
+
+// i.e. "[d34db33f/84h/0h/0h]xpub.../<0;1>/*", the origin is ignored and the receive and change
+// branches are watched in any case. Non-ranged descriptors, of a single fixed address, are not
+// wallets and are rejected.
+const descriptorKeyRegex = /^(\[[0-9a-fA-F]{8}(\/\d+['h]?)*\])?([1-9A-HJ-NP-Za-km-z]+)\/(0|1|<0;1>)\/\*$/;
+
+export const walletGapLimit = 20;
+
+function parseExtendedKey(extendedKey: string, chain: Network): HDKey | undefined {
+  const extendedKeyVersion = extendedKeyVersions[extendedKey.slice(0, 4)];
+  if (!extendedKeyVersion || (extendedKeyVersion.isMainnet !== (chain === Network.mainnet))) {
+    return undefined;
+  }
+  try {
+    const hdKey = HDKey.fromExtendedKey(extendedKey, {
+      private: 0,
+      public: extendedKeyVersion.version,
+    });
+    return hdKey.publicKey ? hdKey : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Accepts an extended public key, whose prefix sets the script type, or an output descriptor
+export function parseWalletKey(value: string, chain: Network): WalletKey | undefined {
+  const [descriptor] = value.split('#'); // the checksum is optional
+  const wrapper = descriptorWrappers.find(
+    ([prefix, suffix]) => descriptor.startsWith(prefix) && descriptor.endsWith(suffix),
+  );
+  let extendedKey = descriptor;
+  if (wrapper) {
+    const [prefix, suffix] = wrapper;
+    const match = descriptor.slice(prefix.length, -suffix.length).match(descriptorKeyRegex);
+    if (!match) {
+      return undefined;
+    }
+    [, , , extendedKey] = match;
+  }
+  if (!parseExtendedKey(extendedKey, chain)) {
+    return undefined;
+  }
+  return {
+    extendedKey,
+    scriptType: wrapper ? wrapper[2] : extendedKeyVersions[extendedKey.slice(0, 4)].scriptType,
+  };
+}
+
+// BIP-86 key-path only output key, without a script tree
+function taprootOutputKey(publicKey: Uint8Array): Buffer {
+  const internalKey = publicKey.slice(1);
+  const tweak = BigInt(`0x${
+    Buffer.from(schnorr.utils.taggedHash('TapTweak', internalKey)).toString('hex')
+  }`);
+  const outputPoint = schnorr.utils.lift_x(BigInt(`0x${Buffer.from(internalKey).toString('hex')}`))
+    .add(secp256k1.Point.BASE.multiply(tweak));
+  return Buffer.from(schnorr.utils.pointToBytes(outputPoint));
+}
+
+function publicKeyToAddress(
+  publicKey: Uint8Array,
+  scriptType: WalletScriptType,
+  chain: Network,
+): string | undefined {
+  const network = networks[chain];
+  const pubkey = Buffer.from(publicKey);
+  switch (scriptType) {
+    case WalletScriptType.P2pkh:
+      return payments.p2pkh({ pubkey, network }).address;
+    case WalletScriptType.P2shP2wpkh:
+      return payments.p2sh({ redeem: payments.p2wpkh({ pubkey, network }), network }).address;
+    case WalletScriptType.P2wpkh:
+      return payments.p2wpkh({ pubkey, network }).address;
+    case WalletScriptType.P2tr:
+      return bitcoinjsAddress.toBech32(taprootOutputKey(publicKey), 1, network.bech32);
+    default:
+      return undefined;
+  }
+}
+
+export function deriveWalletAddresses(
+  walletKey: WalletKey,
+  chain: Network,
+  branch: WalletBranch,
+  fromIndex: number,
+  count: number,
+): string[] {
+  const hdKey = parseExtendedKey(walletKey.extendedKey, chain);
+  if (!hdKey) {
+    throw new Error(`Invalid extended key for ${chain}`);
+  }
+  const branchKey = hdKey.deriveChild(branch);
+  return Array.from({ length: count }, (_, offset) => {
+    const { publicKey } = branchKey.deriveChild(fromIndex + offset);
+    const address = publicKey && publicKeyToAddress(publicKey, walletKey.scriptType, chain);
+    if (!address) {
+      throw new Error(`Failed to derive address ${branch}/${fromIndex + offset}`);
+    }
+    return address;
+  });
+}
@@ -0,0 +1,216 @@
+import { AppName, AppVersion } from '@woofbot/common';
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+
+import { OutboxMessageDocument, OutboxTransport } from '../models/notification-outbox';
+import { WebhookDocument, WebhooksModel } from '../models/webhooks';
+import { bitcoindWatcher, BitcoindWatcherEventName } from './bitcoind-watcher';
+import { errorString } from './error';
+import { lndWatcher, LndWatcherEventName } from './lnd-watcher';
+import logger from './logger';
+import { notificationOutbox } from './notification-outbox';
+import { Notifier } from './notifier';
+import { priceWatcher, PriceWatcherEventName } from './price-watcher';
+
+export const webhookTestEventName = 'webhook.test';
+export const maxUserWebhooks = 5;
+export const maxAdminWebhooks = 20;
+
+const webhookTimeoutMs = 10_000;
+
+const bitcoindWatcherEventNames = [
+  BitcoindWatcherEventName.NewTransactionAnalysis,
+  BitcoindWatcherEventName.BlocksSkipped,
+  BitcoindWatcherEventName.NewBlockAnalyzed,
+  BitcoindWatcherEventName.NewAddressPayment,
+  BitcoindWatcherEventName.AddressOverload,
+  BitcoindWatcherEventName.NewMempoolClearStatus,
+  BitcoindWatcherEventName.FeeRateThreshold,
+  BitcoindWatcherEventName.OutpointSpent,
+  BitcoindWatcherEventName.ChainReorganization,
+  BitcoindWatcherEventName.TransactionConfirmations,
+  BitcoindWatcherEventName.TransactionReplaced,
+  BitcoindWatcherEventName.TransactionCpfp,
+  BitcoindWatcherEventName.TransactionEvicted,
+  BitcoindWatcherEventName.WhaleTransaction,
+  BitcoindWatcherEventName.ChainCountdown,
+  BitcoindWatcherEventName.DifficultyAdjustment,
+  BitcoindWatcherEventName.Halving,
+  BitcoindWatcherEventName.NodeHealth,
+];
+
+const priceWatcherEventNames = [
+  PriceWatcherEventName.ConsecutiveApiErrors,
+  PriceWatcherEventName.ApiResponsiveAgain,
+  PriceWatcherEventName.PriceChange,
+];
+
+const lndWatcherEventNames = [
+  LndWatcherEventName.ChannelsStatus,
+  LndWatcherEventName.NewForwards,
+  LndWatcherEventName.InvoiceUpdated,
+  LndWatcherEventName.LiquidityThreshold,
+];
+
+const webhooksSeed = process.env.APP_SEED
+  ? createHmac('sha256', process.env.APP_SEED).update('webhooks-seed').digest()
+  : randomBytes(32);
+
+export function webhookSecret(webhookId: string): string {
+  return createHmac('sha256', webhooksSeed).update(webhookId).digest('hex');
+}
+
+// The receiver should compute the same value from the X-WoofBot-Timestamp header and the raw body
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export class WebhookResponseError extends Error {
+  status: number;
+
+  constructor(status: number) {
+    super(`Webhook responded with status ${status}`);
+    this.status = status;
+  }
+}
+
+export class WebhookNotFoundError extends Error {
+  constructor(webhookId: string) {
+    super(`Webhook ${webhookId} was not found`);
+  }
+}
+
+interface WebhookPayload {
+  id: string;
+  event: string;
+  createdAt: string;
+  data: unknown;
+}
+
+function jsonReplacer(_key: string, value: unknown): unknown {
+  if (value instanceof Set) {
+    return [...value];
+  }
+  if (value instanceof Map) {
+    return Object.fromEntries(value);
+  }
+  return value;
+}
+
+export class WebhooksManager {
+  constructor() {
+    notificationOutbox.registerSender(OutboxTransport.Webhook, {
+      isReady: () => true,
+      send: (message) => WebhooksManager.deliver(message),
+      isRetriableError: (error) => WebhooksManager.isRetriableError(error),
+    });
+    for (const eventName of bitcoindWatcherEventNames) {
+      bitcoindWatcher.on(
+        eventName,
+        (event) => WebhooksManager.onWatcherEvent(`bitcoind.${eventName}`, event),
+      );
+    }
+    for (const eventName of priceWatcherEventNames) {
+      priceWatcher.on(
+        eventName,
+        (event) => WebhooksManager.onWatcherEvent(`price.${eventName}`, event),
+      );
+    }
+    for (const eventName of lndWatcherEventNames) {
+      lndWatcher.on(
+        eventName,
+        (event) => WebhooksManager.onWatcherEvent(`lnd.${eventName}`, event),
+      );
+    }
+  }
+
+  static async enqueue(webhooks: WebhookDocument[], event: string, data: unknown) {
+    if (webhooks.length === 0) {
+      return;
+    }
+    const payload: WebhookPayload = {
+      id: randomUUID(),
+      event,
+      createdAt: new Date().toJSON(),
+      data: data ?? null,
+    };
+    const body = JSON.stringify(payload, jsonReplacer);
+    for await (const webhook of webhooks) {
+      await notificationOutbox.enqueue({
+        transport: OutboxTransport.Webhook,
+        destination: webhook.id,
+        payload: body,
+      });
+    }
+  }
+
+  static async test(webhooks: WebhookDocument[]) {
+    await WebhooksManager.enqueue(webhooks, webhookTestEventName, {
+      message: `Woof! This is a test event from ${AppName}.`,
+    });
+  }
+
+  // Raw watcher events are sent only to the webhooks that were added by the admin
+  private static async onWatcherEvent(event: string, data: unknown) {
+    try {
+      const webhooks = await WebhooksModel.find({ userId: { $exists: false } });
+      await WebhooksManager.enqueue(webhooks, event, data);
+    } catch (error) {
+      logger.error(`WebhooksManager: Failed to handle ${event}: ${errorString(error)}`);
+    }
+  }
+
+  private static async deliver(message: OutboxMessageDocument) {
+    const webhook = await WebhooksModel.findById(message.destination);
+    if (!webhook) {
+      throw new WebhookNotFoundError(message.destination);
+    }
+    const { event } = JSON.parse(message.payload) as WebhookPayload;
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = signWebhookPayload(webhookSecret(webhook.id), timestamp, message.payload);
+    const abortController = new AbortController();
+    const abortTimeout = setTimeout(() => abortController.abort(), webhookTimeoutMs);
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': `${AppName}/${AppVersion}`,
+          'X-WoofBot-Event': event,
+          'X-WoofBot-Delivery': message.id,
+          'X-WoofBot-Timestamp': `${timestamp}`,
+          'X-WoofBot-Signature': `sha256=${signature}`,
+        },
+        body: message.payload,
+        signal: abortController.signal,
+        redirect: 'error',
+      });
+      if (!response.ok) {
+        throw new WebhookResponseError(response.status);
+      }
+    } finally {
+      clearTimeout(abortTimeout);
+    }
+  }
+
+  private static isRetriableError(error: unknown): boolean {
+    if (error instanceof WebhookNotFoundError) {
+      return false;
+    }
+    if (error instanceof WebhookResponseError) {
+      // Too many requests or server errors
+      return (error.status === 429) || (error.status >= 500);
+    }
+    // Networking errors and timeouts
+    return true;
+  }
+}
+
+export const webhooksManager = new WebhooksManager();
+
+export const webhookNotifier: Notifier = {
+  name: 'webhook',
+  notify: async (user, notification) => {
+    const webhooks = await WebhooksModel.find({ userId: user._id });
+    await WebhooksManager.enqueue(webhooks, `notification.${notification.event}`, notification);
+  },
+};
@@ -12,13 +12,24 @@ import { defaultSettings, SettingsModel } from './models/settings';
 import logger, { defaultLogFormat } from './helpers/logger';
 import { zeroObjectId } from './helpers/mongo';
 import { DecodedAuthToken } from './models/refresh-tokens';
-import telegramManager, { escapeMarkdown } from './helpers/telegram';
-import { UsersModel } from './models/users';
-import { bitcoindWatcher, TransactionAnalysis } from './helpers/bitcoind-watcher';
+import telegramManager, { telegramNotifier } from './helpers/telegram';
+import { liquidityThresholdUserFields, UsersModel, whaleThresholdUserFields } from './models/users';
+import {
+  bitcoindWatcher, FeeRateDirection, TransactionAnalysis, WhaleThreshold,
+} from './helpers/bitcoind-watcher';
 import { lndWatcher } from './helpers/lnd-watcher';
-import { WatchedTransactionsModel } from './models/watched-transactions';
+import { TransactionStatus, WatchedTransactionsModel } from './models/watched-transactions';
 import { WatchedAddressesModel } from './models/watched-addresses';
+import { WatchedWalletsModel } from './models/watched-wallets';
+import { WatchedOutpointsModel } from './models/watched-outpoints';
 import { priceWatcher } from './helpers/price-watcher';
+import { notificationOutbox } from './helpers/notification-outbox';
+import { notificationDispatcher } from './helpers/notification-dispatcher';
+import { webhookNotifier } from './helpers/webhooks';
+import { nostrManager, nostrNotifier } from './helpers/nostr';
+import { emailManager, emailNotifier } from './helpers/email';
+import { matrixManager, matrixNotifier } from './helpers/matrix';
+import { loadMiningPools } from './helpers/mining-pools';
 import { migrate, migrationsLength } from './migration';
 
 declare global {
@@ -34,10 +45,6 @@ declare global {
 const clientPath = '../../client/build';
 const port = Number(process.env.APP_PORT) || 8080; // default port to listen
 const mongodbUri = process.env.MONGODB_URI || 'mongodb://localhost:27017/woofbot';
-const rebootMessage = escapeMarkdown(`\
-⚠️ Woof! The server has rebooted, and some events might have been missed. \
-If you configured any watches for transactions or addresses, it is recommended to check them \
-manually.`);
 
 const app = express();
 app.use(helmet({
@@ -93,7 +100,7 @@ app.use((err, _req, res, _next) => {
     'MONGODB_URI', 'APP_SEED', 'APP_PASSWORD', 'APP_BITCOIN_NODE_IP', 'APP_BITCOIN_RPC_USER',
     'APP_BITCOIN_RPC_PASS', 'APP_BITCOIN_RPC_PORT', 'APP_PORT', 'APP_BITCOIN_ZMQ_RAWBLOCK_PORT',
     'APP_BITCOIN_ZMQ_RAWTX_PORT', 'APP_LIGHTNING_NODE_IP', 'APP_LIGHTNING_NODE_GRPC_PORT',
-    'LND_READONLY_MACAROON_PATH', 'LND_TLS_PATH',
+    'LND_READONLY_MACAROON_PATH', 'LND_TLS_PATH', 'MINING_POOLS_FILEPATH',
   ]) {
     logger.info(`Env var ${envKey} was ${process.env[envKey] ? 'found' : 'not found'}`);
   }
@@ -109,17 +116,41 @@ app.use((err, _req, res, _next) => {
     upsert: true,
   });
   await migrate();
+  loadMiningPools();
   const settings = await SettingsModel.findById(zeroObjectId);
   if (!settings) {
     throw new Error('Could not load settings');
   }
-  telegramManager.startMessageQueueInterval();
+  nostrManager.setRelays(settings.nostrRelays);
+  emailManager.configure(settings.smtp);
+  matrixManager.configure(settings.matrix);
+  notificationOutbox.start();
+  notificationDispatcher.registerNotifier(telegramNotifier);
+  notificationDispatcher.registerNotifier(webhookNotifier);
+  notificationDispatcher.registerNotifier(nostrNotifier);
+  notificationDispatcher.registerNotifier(emailNotifier);
+  notificationDispatcher.registerNotifier(matrixNotifier);
+  telegramManager.startBotRecoveryInterval();
   if (settings.telegramToken) {
     await telegramManager.startBot(settings.telegramToken);
   }
   const watchedAddresses = await WatchedAddressesModel.find({});
+  const watchedWallets = await WatchedWalletsModel.find({});
+  const watchedOutpoints = await WatchedOutpointsModel.find({
+    spendingTxid: { $exists: false },
+  });
   const transactions = await WatchedTransactionsModel.find({});
-  const analysisByTxid = new Map<string, TransactionAnalysis>(transactions.map((transaction) => [
+  const confirmationTargetByTxid = new Map<string, number>();
+  for (const { txid, confirmationTargets, notifiedConfirmations } of transactions) {
+    const target = confirmationTargets[confirmationTargets.length - 1];
+    if (target && (target > (notifiedConfirmations ?? 0))) {
+      confirmationTargetByTxid.set(txid, Math.max(target, confirmationTargetByTxid.get(txid) ?? 0));
+    }
+  }
+  const analysisByTxid = new Map<string, TransactionAnalysis>(transactions.filter(
+    // Fully confirmed transactions are only kept until their confirmation targets
+    ({ status }) => (status !== TransactionStatus.FullConfirmation),
+  ).map((transaction) => [
     transaction.txid,
     {
       status: transaction.status,
@@ -139,20 +170,29 @@ app.use((err, _req, res, _next) => {
   await bitcoindWatcher.start(
     settings.analyzedBlockHashes,
     [...analysisByTxid.entries()],
-    [...new Set(watchedAddresses.map(({ address }) => address))],
+    [...new Set([
+      ...watchedAddresses.map(({ address }) => address),
+      ...watchedWallets.flatMap(
+        ({ receiveAddresses, changeAddresses }) => [...receiveAddresses, ...changeAddresses],
+      ),
+    ])],
+    [...new Set(watchedOutpoints.map(({ outpoint }) => outpoint))],
+    [...confirmationTargetByTxid.entries()],
+    settings.reportedChainMilestones ?? [],
+    // Until the first events are reported, the events up to the last analyzed block are known
+    settings.reportedDifficultyAdjustmentHeight ?? (settings.bestBlockHeight || undefined),
+    settings.reportedHalvingHeight ?? (settings.bestBlockHeight || undefined),
   );
   await lndWatcher.start({
     savedChannels: settings.lndChannels,
     lastForwardAt: settings.lndLastForwardAt ?? new Date(),
     lastForwardCount: settings.lndLastForwardCount ?? 0,
   });
-  const watchRebootUsers = await UsersModel.find({ watchReboot: true });
-  for await (const user of watchRebootUsers) {
-    await telegramManager.sendMessage({
-      chatId: user.telegramChatId,
-      text: rebootMessage,
-    });
-  }
+  await notificationDispatcher.onReboot();
+  // Run asyncly, funds might have moved while the server was down
+  notificationDispatcher.refreshAddressBalances(
+    [...new Set(watchedAddresses.map(({ address }) => address))],
+  );
   const watchPriceChangeUsers = await UsersModel.find({
     watchPriceChange: {
       $exists: true,
@@ -163,6 +203,67 @@ app.use((err, _req, res, _next) => {
       await priceWatcher.watchPriceChange(user._id.toString(), user.watchPriceChange);
     }
   }
+  const watchFeeRateUsers = await UsersModel.find({
+    $or: [
+      { watchFeeRateBelow: { $exists: true } },
+      { watchFeeRateAbove: { $exists: true } },
+    ],
+  });
+  for (const user of watchFeeRateUsers) {
+    if (user.watchFeeRateBelow) {
+      bitcoindWatcher.watchFeeRate(
+        user._id.toString(),
+        FeeRateDirection.Below,
+        user.watchFeeRateBelow,
+      );
+    }
+    if (user.watchFeeRateAbove) {
+      bitcoindWatcher.watchFeeRate(
+        user._id.toString(),
+        FeeRateDirection.Above,
+        user.watchFeeRateAbove,
+      );
+    }
+  }
+  const watchWhalesUsers = await UsersModel.find({
+    $or: Object.values(whaleThresholdUserFields).map((userField) => ({
+      [userField]: { $exists: true },
+    })),
+  });
+  for (const user of watchWhalesUsers) {
+    for (const threshold of Object.values(WhaleThreshold)) {
+      const value = user[whaleThresholdUserFields[threshold]];
+      if (value) {
+        bitcoindWatcher.watchWhales(user._id.toString(), threshold, value);
+      }
+    }
+  }
+  const watchNodeHealthUsers = await UsersModel.find({
+    watchNodeHealth: { $exists: true },
+  });
+  for (const user of watchNodeHealthUsers) {
+    if (user.watchNodeHealth) {
+      bitcoindWatcher.watchNodeHealth(user._id.toString(), user.watchNodeHealth);
+    }
+  }
+  const watchLightningLiquidityUsers = await UsersModel.find({
+    $or: [
+      ...Object.values(liquidityThresholdUserFields).map((userField) => ({
+        [userField]: { $exists: true },
+      })),
+      { 'watchLightningChannelsLiquidity.0': { $exists: true } },
+    ],
+  });
+  for (const user of watchLightningLiquidityUsers) {
+    lndWatcher.watchLiquidity(
+      user._id.toString(),
+      {
+        below: user.watchLightningLiquidityBelow,
+        above: user.watchLightningLiquidityAbove,
+      },
+      user.watchLightningChannelsLiquidity,
+    );
+  }
   app.listen(port, () => {
     logger.info(`app ${AppName} v${AppVersion} started at http://localhost:${port}`);
   });
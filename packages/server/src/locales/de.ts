@@ -0,0 +1,819 @@
+import { MessageCatalog } from '../helpers/i18n';
+
+export const germanMessages: MessageCatalog = {
+  start: `🐶 Willkommen bei {appName}, deinem persönlichen Telegram-Bot, der dir individuelle\
+ Benachrichtigungen schickt.
+Um zum Beispiel bei jedem Neustart des Servers benachrichtigt zu werden, rufe /watch reboot auf.
+Um diese Einstellung aufzuheben, rufe /unwatch reboot auf.
+Eine Liste aller Befehle bekommst du mit /help.`,
+  alreadyRegistered: 'Du bist bereits registriert. Weitere Informationen bekommst du mit /help.',
+  restricted: 'Du hast keinen Zugriff auf diesen Bot. Bitte bitte den Bot-Administrator, dich zur'
+    + ' Liste der erlaubten Benutzer hinzuzufügen oder die maximale Anzahl an Benutzern des Bots'
+    + ' zu erhöhen.',
+  notFound: 'Wuff! Rufe zuerst /start auf.',
+  notPermitted: '👮 Leider darfst du diesen Befehl nicht ausführen. Bitte bitte den'
+    + ' Bot-Administrator, deinen Benutzer zu einer der Berechtigungsgruppen des Befehls'
+    + ' hinzuzufügen.',
+  chatPending: '🐶 Wuff! Dieser Chat wartet auf die Freigabe durch den Bot-Administrator, bevor er'
+    + ' Ereignisse beobachten kann.',
+  chatApproved: `🐶 Wuff! Der Bot-Administrator hat diesen Chat freigegeben.
+Administratoren dieses Chats können hier jetzt /watch aufrufen, nachdem sie sich in einem privaten\
+ Chat mit mir mit /start registriert haben.`,
+  chatRejected: 'Leider hat der Bot-Administrator diesen Chat nicht freigegeben.',
+  chatPrivateCommand: 'Wuff! Dieser Befehl ist nur in einem privaten Chat mit mir verfügbar.',
+  chatIssuerNotFound: 'Wuff! Um die Beobachtungen dieses Chats zu verwalten, rufe zuerst /start in'
+    + ' einem privaten Chat mit mir auf.',
+  chatIssuerNotAdministrator: '👮 Leider können nur die Administratoren dieses Chats seine'
+    + ' Beobachtungen verwalten.',
+  help: 'Wuff! Auf diese Befehle wurde ich trainiert:',
+  woof: 'Wuff Wuff!',
+  unknownCommand: 'Wuff! Auf diesen Befehl wurde ich nicht trainiert. Siehe /help.',
+  notUnderstood: 'Wuff! Ich habe dich nicht verstanden. Siehe /help.',
+  watchPrompt: 'Über welche Ereignisse möchtest du benachrichtigt werden?',
+  unwatchPrompt: 'Welche Beobachtungen möchtest du beenden?',
+  unwatchPromptTruncated: 'Welche Beobachtungen möchtest du beenden? Es sind nicht alle'
+    + ' aufgelistet, rufe "{transactionCommand}" oder "{addressesCommand}" auf, um die übrigen zu'
+    + ' beenden.',
+  unrecognizedWatch: 'Unbekannter Ereignisname zum Beobachten',
+  unrecognizedUnwatch: 'Unbekannter Ereignisname zum Beenden',
+  watchAlreadyRemoved: 'Diese Beobachtung wurde bereits entfernt.',
+  notWatchingAnything: 'Du beobachtest nichts.',
+  lndNotConfigured: 'Leider ist die LND-Integration nicht eingerichtet.',
+  rebootWatchStarted: 'Neustarts werden jetzt beobachtet.',
+  rebootWatchStopped: 'Neustarts werden nicht mehr beobachtet.',
+  newBlocksWatchStarted: 'Neue Blöcke werden jetzt beobachtet. Die aktuelle Blockhöhe ist: {height}.',
+  newBlocksWatchStartedPools: 'Neue Blöcke, die zu {pools} passen, werden jetzt beobachtet. Die'
+    + ' aktuelle Blockhöhe ist: {height}.',
+  newBlocksWatchInvalidPool: 'Unbekannter Mining-Pool "{pool}". Verwende einen von: {pools},'
+    + ' "empty" für leere Blöcke oder "unknown" für Blöcke unbekannter Pools.',
+  newBlocksWatchStopped: 'Neue Blöcke werden nicht mehr beobachtet.',
+  reorgWatchStarted: 'Reorganisationen der Blockchain werden jetzt beobachtet.',
+  reorgWatchStopped: 'Reorganisationen der Blockchain werden nicht mehr beobachtet.',
+  difficultyWatchStarted: 'Anpassungen der Schwierigkeit werden jetzt beobachtet.',
+  difficultyCountdown: 'Die nächste Anpassung ist bei Höhe {height}, in {blocks} Blöcken,'
+    + ' voraussichtlich am {date}, mit einer erwarteten Änderung von {change}.',
+  difficultyWatchStopped: 'Anpassungen der Schwierigkeit werden nicht mehr beobachtet.',
+  halvingWatchStarted: 'Halvings werden jetzt beobachtet.',
+  halvingCountdown: 'Das nächste Halving ist bei Höhe {height}, in {blocks} Blöcken,'
+    + ' voraussichtlich am {date}.',
+  halvingWatchStopped: 'Halvings werden nicht mehr beobachtet.',
+  mempoolClearWatchStartedClear: 'Der Mempool ist leer. Ich sage dir Bescheid, wenn die'
+    + ' Transaktionen im Mempool nicht mehr in einen einzigen Block passen (kein Platz für'
+    + ' Transaktionen mit niedrigen Gebühren).',
+  mempoolClearWatchStartedNotClear: 'Der Mempool ist nicht leer. Ich sage dir Bescheid, wenn die'
+    + ' Transaktionen im Mempool in einen einzigen Block passen und Platz für Transaktionen mit'
+    + ' niedrigen Gebühren ist.',
+  mempoolClearWatchStopped: 'Das Leeren des Mempools wird nicht mehr beobachtet.',
+  feeRateWatchSyntax: `Syntax: "/watch fee-rate <below|above> <sat/vB>"
+Um z. B. benachrichtigt zu werden, wenn die Gebührenrate für den nächsten Block unter 5 sat/vB\
+ fällt, verwende "/watch fee-rate below 5".`,
+  feeRateWatchInvalid: 'Ungültiger Wert, er muss eine positive Anzahl von sat/vB sein.',
+  feeRateWatchStartedBelow: 'Ich sage dir Bescheid, wenn die Gebührenrate für den nächsten Block'
+    + ' unter {threshold} sat/vB fällt.',
+  feeRateWatchStartedAbove: 'Ich sage dir Bescheid, wenn die Gebührenrate für den nächsten Block'
+    + ' über {threshold} sat/vB steigt.',
+  feeRateCurrent: 'Aktuell liegt sie bei {feeRate} sat/vB.',
+  feeRateUnwatchSyntax: 'Syntax: "/unwatch fee-rate [below|above]"',
+  feeRateWatchStopped: 'Die Gebührenrate wird nicht mehr beobachtet.',
+  whalesWatchSyntax: `Syntax: "/watch whales <amount|fee|fee-rate> <Schwellenwert>"
+Betrag und Gebühr sind in BTC, die Gebührenrate in sat/vB. Um z. B. benachrichtigt zu werden,\
+ wenn eine Transaktion im Mempool mehr als 100 BTC bewegt, verwende "/watch whales amount 100".`,
+  whalesWatchInvalid: 'Ungültiger Wert, er muss ein positiver Betrag in BTC sein, oder in sat/vB'
+    + ' für die Gebührenrate.',
+  whalesWatchStartedAmount: 'Ich sage dir Bescheid, wenn eine Transaktion im Mempool mehr als'
+    + ' 丰{threshold} bewegt.',
+  whalesWatchStartedFee: 'Ich sage dir Bescheid, wenn eine Transaktion im Mempool eine Gebühr von'
+    + ' mehr als 丰{threshold} zahlt.',
+  whalesWatchStartedFeeRate: 'Ich sage dir Bescheid, wenn eine Transaktion im Mempool eine'
+    + ' Gebührenrate von mehr als {threshold} sat/vB zahlt.',
+  whalesRateLimit: 'Damit es nicht zu Spam wird, bekommst du höchstens {maxAlerts} Wal-Alarme pro'
+    + ' Stunde.',
+  whalesUnwatchSyntax: 'Syntax: "/unwatch whales [amount|fee|fee-rate]"',
+  whalesWatchStopped: 'Wale werden nicht mehr beobachtet.',
+  nodeHealthWatchSyntax: `Syntax: "/watch node-health [minimale-peers]"
+Die minimale Anzahl an Peers ist standardmäßig {defaultMinPeers}. Um z. B. benachrichtigt zu\
+ werden, wenn dein Node weniger als 8 Peers hat, verwende "/watch node-health 8".`,
+  nodeHealthWatchStarted: 'Ich sage dir Bescheid, wenn dein Bitcoin-Node weniger als {minPeers}'
+    + ' Peers hat, hinter die Chain zurückfällt, keine neuen Blöcke mehr bekommt oder Warnungen'
+    + ' meldet, und wenn er wieder gesund ist.',
+  nodeHealthWatchStopped: 'Der Zustand deines Bitcoin-Nodes wird nicht mehr beobachtet.',
+  timelocksWatchSyntax: `Syntax: "/watch timelocks height [spitzname:]<höhe> [warn-blöcke]",\
+ "/watch timelocks time [spitzname:]<unix-zeit|jjjj-mm-tt> [warn-blöcke]",\
+ "/watch timelocks csv [spitzname:]<txid>:<vout> <blöcke|dauer> [warn-blöcke]" oder\
+ "/watch timelocks coinbase [spitzname:]<txid>:<vout> [warn-blöcke]"
+z.B. Um benachrichtigt zu werden, wenn ein Output 30 Tage nach seiner Bestätigung ausgegeben\
+ werden kann, verwende "/watch timelocks csv <txid>:0 30d".`,
+  timelocksWatchNicknameTooLong: 'Der Spitzname des Timelocks ist zu lang.',
+  timelocksWatchInvalid: 'Ungültiger Timelock, muss eine Blockhöhe, eine Unix-Zeit oder ein Datum'
+    + ' nach 1985 sein, oder ein Output mit einem relativen Lock von bis zu 65535 Blöcken oder'
+    + ' etwa 388 Tagen.',
+  timelocksWatchOutputMissing: 'Der Output {outpoint} ist entweder schon ausgegeben (auch durch'
+    + ' eine Transaktion im Mempool) oder existiert nicht, also gibt es nichts zu beobachten.',
+  timelocksWatchNotCoinbase: 'Der Output {outpoint} ist kein Output einer Coinbase-Transaktion.',
+  timelocksWatchAlreadyWatched: 'Du beobachtest diesen Timelock schon, oder einen anderen'
+    + ' Timelock mit demselben Spitznamen. Siehe: {command}',
+  timelocksWatchAlreadyMatured: 'Dieser Timelock ist schon abgelaufen, eine Transaktion, die ihn'
+    + ' ausgibt, kann in den nächsten Block aufgenommen werden.',
+  timelocksWatchStarted: 'Der Timelock wird jetzt beobachtet.',
+  timelocksMaturityHeight: 'Er läuft bei Höhe {height} ab, in {blocks} Blöcken.',
+  timelocksMaturityTime: 'Er läuft ab, sobald die Median-Zeit der Blöcke {date} überschreitet, in'
+    + ' etwa {blocks} Blöcken.',
+  timelocksMaturityUnconfirmed: 'Sein Output ist noch unbestätigt, daher weiß ich erst nach der'
+    + ' Bestätigung, wann er abläuft.',
+  timelocksWarning: 'Ich warne dich außerdem {warningBlocks} Blöcke vorher.',
+  timelocksUnwatchNotFound: 'Es wurden keine passenden Timelocks gefunden. Siehe {command}.',
+  timelocksWatchStopped: 'Entfernte Timelock-Beobachtungen: {count}.',
+  lightningChannelsOpenedWatchStarted: 'Das Öffnen neuer Lightning-Kanäle wird jetzt beobachtet.',
+  lightningChannelsOpenedWatchStopped: 'Das Öffnen neuer Lightning-Kanäle wird nicht mehr'
+    + ' beobachtet.',
+  lightningChannelsClosedWatchStarted: 'Das Schließen von Lightning-Kanälen wird jetzt beobachtet.',
+  lightningChannelsClosedWatchStopped: 'Das Schließen von Lightning-Kanälen wird nicht mehr'
+    + ' beobachtet.',
+  lightningForwardsWatchStarted: 'Lightning-Weiterleitungen werden jetzt beobachtet.',
+  lightningForwardsWatchStopped: 'Lightning-Weiterleitungen werden nicht mehr beobachtet.',
+  lightningInvoicesCreatedWatchStarted: 'Das Erstellen von Lightning-Rechnungen wird jetzt'
+    + ' beobachtet.',
+  lightningInvoicesCreatedWatchStopped: 'Das Erstellen von Lightning-Rechnungen wird nicht mehr'
+    + ' beobachtet.',
+  lightningInvoicesPaidWatchStarted: 'Das Bezahlen von Lightning-Rechnungen wird jetzt'
+    + ' beobachtet.',
+  lightningInvoicesPaidWatchStopped: 'Das Bezahlen von Lightning-Rechnungen wird nicht mehr'
+    + ' beobachtet.',
+  lightningLiquidityWatchSyntax: `Syntax: "/watch lightning-liquidity <below|above> <Prozent>\
+ [Kanal-ID]"
+Der Prozentsatz ist die ausgehende Liquidität eines Kanals, gemessen an seiner Kapazität. z.B. Um\
+ benachrichtigt zu werden, wenn ein Kanal weniger als 10% ausgehende Liquidität hat, verwende\
+ "/watch lightning-liquidity below 10".`,
+  lightningLiquidityWatchInvalid: 'Ungültiger Wert, er muss ein Prozentsatz zwischen 0 und 100'
+    + ' sein.',
+  lightningLiquidityUnknownChannel: 'Leider konnte ich den Lightning-Kanal {channelId} nicht'
+    + ' finden.',
+  lightningLiquidityWatchStartedBelow: 'Ich sage dir Bescheid, wenn die ausgehende Liquidität'
+    + ' eines deiner Lightning-Kanäle unter {threshold}% fällt.',
+  lightningLiquidityWatchStartedAbove: 'Ich sage dir Bescheid, wenn die ausgehende Liquidität'
+    + ' eines deiner Lightning-Kanäle über {threshold}% steigt.',
+  lightningLiquidityChannelWatchStartedBelow: 'Ich sage dir Bescheid, wenn die ausgehende'
+    + ' Liquidität von {channel} unter {threshold}% fällt.',
+  lightningLiquidityChannelWatchStartedAbove: 'Ich sage dir Bescheid, wenn die ausgehende'
+    + ' Liquidität von {channel} über {threshold}% steigt.',
+  lightningLiquidityUnwatchSyntax: 'Syntax: "/unwatch lightning-liquidity [below|above]'
+    + ' [Kanal-ID]"',
+  lightningLiquidityWatchStopped: 'Die Liquidität der Lightning-Kanäle wird nicht mehr'
+    + ' beobachtet.',
+  listWatchesReboot: 'Du beobachtest Neustarts des Servers.',
+  listWatchesNewBlocks: 'Du beobachtest neue Blöcke.',
+  listWatchesNewBlocksPools: 'Du beobachtest neue Blöcke, die zu {pools} passen.',
+  listWatchesReorg: 'Du beobachtest Reorganisationen der Blockchain.',
+  listWatchesDifficulty: 'Du beobachtest Anpassungen der Schwierigkeit.',
+  listWatchesHalving: 'Du beobachtest Halvings.',
+  listWatchesPriceChange: 'Du beobachtest Preisänderungen von {delta}.',
+  listWatchesMempoolClear: 'Du beobachtest, ob der Mempool leer wird.',
+  listWatchesFeeRateBelow: 'Du beobachtest, ob die Gebührenrate für den nächsten Block unter'
+    + ' {threshold} sat/vB fällt.',
+  listWatchesFeeRateAbove: 'Du beobachtest, ob die Gebührenrate für den nächsten Block über'
+    + ' {threshold} sat/vB steigt.',
+  listWatchesWhalesAmount: 'Du beobachtest Transaktionen im Mempool, die mehr als 丰{threshold}'
+    + ' bewegen.',
+  listWatchesWhalesFee: 'Du beobachtest Transaktionen im Mempool, die eine Gebühr von mehr als'
+    + ' 丰{threshold} zahlen.',
+  listWatchesWhalesFeeRate: 'Du beobachtest Transaktionen im Mempool, die eine Gebührenrate von'
+    + ' mehr als {threshold} sat/vB zahlen.',
+  listWatchesNodeHealth: 'Du beobachtest den Zustand deines Bitcoin-Nodes, mit mindestens'
+    + ' {minPeers} Peers.',
+  listWatchesLightningChannelsOpened: 'Du beobachtest das Öffnen von Lightning-Kanälen.',
+  listWatchesLightningChannelsClosed: 'Du beobachtest das Schließen von Lightning-Kanälen.',
+  listWatchesLightningForwards: 'Du beobachtest Lightning-Weiterleitungen.',
+  listWatchesLightningInvoicesCreated: 'Du beobachtest das Erstellen von Lightning-Rechnungen.',
+  listWatchesLightningInvoicesPaid: 'Du beobachtest das Bezahlen von Lightning-Rechnungen.',
+  listWatchesLightningLiquidityBelow: 'Du beobachtest, ob die ausgehende Liquidität von'
+    + ' Lightning-Kanälen unter {threshold}% fällt.',
+  listWatchesLightningLiquidityAbove: 'Du beobachtest, ob die ausgehende Liquidität von'
+    + ' Lightning-Kanälen über {threshold}% steigt.',
+  listWatchesLightningChannelLiquidityBelow: 'Du beobachtest, ob die ausgehende Liquidität von'
+    + ' {channel} unter {threshold}% fällt.',
+  listWatchesLightningChannelLiquidityAbove: 'Du beobachtest, ob die ausgehende Liquidität von'
+    + ' {channel} über {threshold}% steigt.',
+  listWatchesTransactions: 'Du beobachtest die folgenden Transaktionen:',
+  listWatchesAddresses: 'Du beobachtest die folgenden Adressen:',
+  listWatchesWallets: 'Du beobachtest die folgenden Wallets:',
+  listWatchesOutpoints: 'Du beobachtest die folgenden Outputs:',
+  listWatchesTimelocks: 'Du beobachtest die folgenden Timelocks:',
+  settingsSingleValue: 'Bitte gib einen einzelnen Wert an.',
+  settingsLanguage: 'Sprache: {language}',
+  settingsLanguageDefault: '{language} (wie deine Telegram-App)',
+  settingsTimeZone: 'Zeitzone: {timeZone}',
+  settingsLocale: 'Gebietsschema: {locale}',
+  settingsNumbers: 'Zahlen: {numberFormat}',
+  settingsNumbersDefault: 'wie das Gebietsschema',
+  settingsDatesExample: 'So sehen Datumsangaben aus: {date}',
+  settingsAmountsExample: 'So sehen Beträge aus: 丰{amount}',
+  settingsInvalidLanguage: 'Bitte gib eines davon an: {languages} oder reset.',
+  settingsLanguageChanged: 'Wuff! Ich spreche jetzt Deutsch mit dir.',
+  settingsInvalidTimeZone: 'Bitte gib den Namen einer IANA-Zeitzone an, wie "/settings timezone'
+    + ' Europe/Berlin".',
+  settingsTimeZoneChanged: 'Wuff! Datumsangaben werden in {timeZone} angezeigt.',
+  settingsInvalidLocale: 'Bitte gib ein unterstütztes Gebietsschema an, wie "/settings locale'
+    + ' de-DE".',
+  settingsLocaleChanged: 'Wuff! Datumsangaben und Beträge werden für das Gebietsschema {locale}'
+    + ' angezeigt.',
+  settingsInvalidNumbers: 'Bitte gib eines davon an: {numberFormats} oder reset.',
+  settingsNumbersChanged: 'Wuff! Beträge sehen jetzt so aus: 丰{amount}.',
+  settingsUnknownAction: 'Unbekannte Aktion, rufe "/settings", "/settings language <language>",'
+    + ' "/settings timezone <timezone>", "/settings locale <locale>" oder "/settings numbers'
+    + ' <comma|period|space>" auf.',
+  'watchDescription.reboot': 'Benachrichtigungen, wenn der Server neu startet.',
+  'watchDescription.transaction': 'Benachrichtigungen, wenn eine Transaktion im Mempool gefunden,'
+    + ' bestätigt, per Gebührenerhöhung (Replace-by-Fee oder Child-Pays-for-Parent) beschleunigt'
+    + ' oder doppelt ausgegeben wird.',
+  'watchDescription.addresses': 'Benachrichtigungen, wenn eine Transaktion an die oder von den'
+    + ' angegebenen Adressen in den Mempool aufgenommen oder bestätigt wird.',
+  'watchDescription.wallets': 'Benachrichtigungen über eingehende und ausgehende Zahlungen einer'
+    + ' Wallet, anhand ihres erweiterten öffentlichen Schlüssels oder Output-Deskriptors. Neue'
+    + ' Adressen werden verfolgt, sobald die Wallet sie verwendet.',
+  'watchDescription.outpoints': 'Benachrichtigungen, sobald eine Transaktion, die die angegebenen'
+    + ' Outputs ausgibt (z.B. Coins im Cold Storage), in den Mempool aufgenommen oder bestätigt'
+    + ' wird.',
+  'watchDescription.timelocks': 'Benachrichtigungen, wenn absolute (CLTV) oder relative (CSV)'
+    + ' Timelocks ablaufen, oder wenn Coinbase-Outputs ausgegeben werden können, mit einer Warnung'
+    + ' einige Blöcke vorher.',
+  'watchDescription.price-change': 'Beobachtet Änderungen des Bitcoin-Preises (in USD).',
+  'watchDescription.new-blocks': 'Benachrichtigungen, wenn neue Blöcke gefunden werden, mit dem'
+    + ' Pool, der sie vermutlich gefunden hat, ihren Gebühren, der Anzahl der Transaktionen und'
+    + ' ihrer Füllung. Sie können nach Mining-Pools, "empty" oder "unknown" gefiltert werden, z.B.'
+    + ' "/watch new-blocks foundryusa empty".',
+  'watchDescription.reorg': 'Benachrichtigungen, wenn Blöcke durch eine Reorganisation der'
+    + ' Blockchain ersetzt werden. Über beobachtete Transaktionen und Adressen, deren Zahlungen'
+    + ' ihre Bestätigungen verlieren, wirst du in jedem Fall benachrichtigt.',
+  'watchDescription.difficulty': 'Ein Countdown zur nächsten Anpassung der Schwierigkeit mit'
+    + ' ihrer erwarteten Änderung, einen Tag und 100 Blöcke vorher, und die tatsächliche Änderung,'
+    + ' sobald sie passiert.',
+  'watchDescription.halving': 'Ein Countdown zum nächsten Halving der Blocksubvention, einen Tag'
+    + ' und 100 Blöcke vorher, und die neue Subvention, sobald es passiert.',
+  'watchDescription.mempool-clear': 'Benachrichtigungen, wenn alle Transaktionen im Mempool in den'
+    + ' nächsten Block passen und noch Platz ist, und wenn der Mempool wieder voll wird.',
+  'watchDescription.fee-rate': 'Benachrichtigungen, wenn die Gebührenrate (in sat/vB), die für'
+    + ' den nächsten Block nötig ist, unter oder über deine Zielwerte geht.',
+  'watchDescription.whales': 'Benachrichtigungen, wenn eine Transaktion im Mempool einen großen'
+    + ' Betrag bewegt oder eine ungewöhnlich hohe Gebühr oder Gebührenrate zahlt.',
+  'watchDescription.node-health': 'Benachrichtigungen, wenn dein Bitcoin-Node weniger Peers hat,'
+    + ' als du möchtest (standardmäßig 4), hinter die Chain zurückfällt, keine neuen Blöcke mehr'
+    + ' bekommt oder Warnungen meldet, und wenn er wieder gesund ist.',
+  'watchDescription.lightning-channels-opened': 'Benachrichtigungen, wenn Lightning-Kanäle'
+    + ' geöffnet werden.',
+  'watchDescription.lightning-channels-closed': 'Benachrichtigungen, wenn Lightning-Kanäle'
+    + ' geschlossen werden.',
+  'watchDescription.lightning-forwards': 'Benachrichtigungen, wenn Lightning-Zahlungen über deinen'
+    + ' Knoten weitergeleitet werden.',
+  'watchDescription.lightning-invoices-created': 'Benachrichtigungen, wenn dein Knoten'
+    + ' Lightning-Rechnungen erstellt.',
+  'watchDescription.lightning-invoices-paid': 'Benachrichtigungen, wenn die Lightning-Rechnungen'
+    + ' deines Knotens bezahlt werden.',
+  'watchDescription.lightning-liquidity': 'Benachrichtigungen, wenn die ausgehende Liquidität'
+    + ' deiner Lightning-Kanäle unter oder über deine Zielwerte geht, in Prozent der'
+    + ' Kanalkapazität.',
+  'watchParametersRequest.transaction': 'Welche Transaktions-ID möchtest du beobachten? Du kannst'
+    + ' nur die ID angeben, wie:'
+    + ' "a1075db55d416d3ca199f55b6084e2115b9345e16c5cf302fc80e9d5fbf5d48d", oder einen Spitznamen'
+    + ' hinzufügen, wie:'
+    + ' "pizza_order:a1075db55d416d3ca199f55b6084e2115b9345e16c5cf302fc80e9d5fbf5d48d". Der'
+    + ' Spitzname darf keine Leerzeichen enthalten. Um statt der üblichen Benachrichtigungen bei'
+    + ' bestimmten Bestätigungszahlen benachrichtigt zu werden, gib sie nach einem Leerzeichen'
+    + ' an, wie:'
+    + ' "pizza_order:a1075db55d416d3ca199f55b6084e2115b9345e16c5cf302fc80e9d5fbf5d48d 1,3,6".',
+  'unwatchParametersRequest.transaction': 'Welche Transaktions-IDs oder Spitznamen von'
+    + ' Transaktionen möchtest du nicht mehr beobachten? Du kannst mehrere Werte mit Leerzeichen'
+    + ' dazwischen angeben. Du kannst auch nur den Anfang mit einem "*" am Ende angeben, wie:'
+    + ' "a1075db55d416d3c*".',
+  'watchParametersRequest.addresses': 'Welche Adressen möchtest du beobachten? Du kannst nur die'
+    + ' Adresse angeben, wie: "17SkEw2md5avVNyYgj6RiXuQKNwkXaxFyQ", oder einen Spitznamen'
+    + ' hinzufügen, wie: "pizza_guy:17SkEw2md5avVNyYgj6RiXuQKNwkXaxFyQ". Du kannst mehrere Werte'
+    + ' mit Leerzeichen dazwischen angeben. Die Spitznamen dürfen keine Leerzeichen enthalten.',
+  'unwatchParametersRequest.addresses': 'Welche Adressen oder Spitznamen von Adressen möchtest du'
+    + ' nicht mehr beobachten? Du kannst mehrere Werte mit Leerzeichen dazwischen angeben. Du'
+    + ' kannst auch nur den Anfang mit einem "*" am Ende angeben, wie: "17SkEw2m*".',
+  'watchParametersRequest.wallets': 'Welche Wallet möchtest du beobachten? Du kannst einen'
+    + ' erweiterten öffentlichen Schlüssel (xpub, ypub oder zpub) oder einen Output-Deskriptor mit'
+    + ' einem Schlüssel angeben, wie: "wpkh([d34db33f/84h/0h/0h]xpub.../<0;1>/*)", und einen'
+    + ' Spitznamen hinzufügen, wie: "savings:zpub...". Der Spitzname darf keine Leerzeichen'
+    + ' enthalten.',
+  'unwatchParametersRequest.wallets': 'Welche Spitznamen oder erweiterten öffentlichen Schlüssel'
+    + ' von Wallets möchtest du nicht mehr beobachten? Du kannst mehrere Werte mit Leerzeichen'
+    + ' dazwischen angeben.',
+  'watchParametersRequest.outpoints': 'Welche Outputs möchtest du beobachten? Du kannst die'
+    + ' Transaktions-ID und den Output-Index angeben, wie:'
+    + ' "a1075db55d416d3ca199f55b6084e2115b9345e16c5cf302fc80e9d5fbf5d48d:0", oder einen'
+    + ' Spitznamen hinzufügen, wie:'
+    + ' "vault:a1075db55d416d3ca199f55b6084e2115b9345e16c5cf302fc80e9d5fbf5d48d:0". Du kannst'
+    + ' mehrere Werte mit Leerzeichen dazwischen angeben. Die Spitznamen dürfen keine Leerzeichen'
+    + ' enthalten.',
+  'unwatchParametersRequest.outpoints': 'Welche Outputs oder Spitznamen von Outputs möchtest du'
+    + ' nicht mehr beobachten? Du kannst mehrere Werte mit Leerzeichen dazwischen angeben.',
+  'watchParametersRequest.timelocks': 'Welchen Timelock möchtest du beobachten? Du kannst eine'
+    + ' Blockhöhe angeben, wie: "height 900000", eine Unix-Zeit oder ein Datum, wie: "time'
+    + ' 2030-01-01", einen Output mit einem relativen Lock in Blöcken oder als Dauer, wie: "csv'
+    + ' <txid>:0 144" oder "csv <txid>:0 30d", oder einen Coinbase-Output, wie: "coinbase'
+    + ' <txid>:0". Du kannst einen Spitznamen hinzufügen, wie: "height erbe:900000", und am Ende'
+    + ' die Anzahl der Blöcke für die Vorwarnung, wie: "height 900000 12".',
+  'unwatchParametersRequest.timelocks': 'Welche Timelocks oder Spitznamen von Timelocks möchtest'
+    + ' du nicht mehr beobachten? Du kannst mehrere Werte mit Leerzeichen dazwischen angeben.',
+  'watchParametersRequest.price-change': 'Welche Preisänderung (in USD) möchtest du beobachten?',
+  'watchParametersRequest.fee-rate': 'Welche Gebührenrate (in sat/vB) möchtest du beobachten?'
+    + ' Gib "below" oder "above" und den Zielwert an, wie: "below 5" oder "above 100".',
+  'watchParametersRequest.whales': 'Welche Wale möchtest du beobachten? Gib "amount" oder "fee"'
+    + ' und den Schwellenwert in BTC an, oder "fee-rate" und den Schwellenwert in sat/vB, wie:'
+    + ' "amount 100", "fee 0.01" oder "fee-rate 500".',
+  'watchParametersRequest.lightning-liquidity': 'Welche ausgehende Liquidität (in Prozent)'
+    + ' möchtest du beobachten? Gib "below" oder "above", den Zielwert und optional eine Kanal-ID'
+    + ' an, wie: "below 10" oder "above 90 800000x1x0".',
+  'commandDescription.start': 'Registriert dich beim Server.',
+  'commandDescription.help': 'Zeigt Hilfe zu den verfügbaren Befehlen.',
+  'commandDescription.watch': 'Startet Benachrichtigungen für Ereignisse.',
+  'commandDescription.unwatch': 'Beendet Benachrichtigungen für Ereignisse.',
+  'commandDescription.links': 'Antworte mit diesem Befehl auf eine Nachricht, um Links zu den'
+    + ' darin erwähnten Blöcken, Adressen und Transaktionen zu bekommen.',
+  'commandDescription.listwatches': 'Listet alle deine Beobachtungen auf.',
+  'commandDescription.balance': 'Listet die bestätigten Guthaben deiner beobachteten Adressen'
+    + ' auf. Rufe "/balance <address-or-nickname> above <btc>" oder "/balance <address-or-nickname>'
+    + ' below <btc>" auf, um benachrichtigt zu werden, wenn ein Guthaben einen Schwellenwert'
+    + ' überschreitet, z. B. "below 0", wenn es auf null fällt, oder "/balance'
+    + ' <address-or-nickname> off", um die Benachrichtigungen zu entfernen.',
+  'commandDescription.webhooks': 'Verwaltet Webhook-URLs, die deine Benachrichtigungen als'
+    + ' signierte JSON-POST-Anfragen erhalten. Rufe "/webhooks add <url>", "/webhooks remove'
+    + ' <url>" oder "/webhooks test" auf.',
+  'commandDescription.nostr': 'Empfange deine Benachrichtigungen auch als verschlüsselte'
+    + ' Nostr-Direktnachrichten. Rufe "/nostr set <npub>", "/nostr remove" oder "/nostr test" auf.',
+  'commandDescription.email': 'Empfange deine Benachrichtigungen auch per E-Mail. Rufe "/email'
+    + ' set <address>", "/email verify <code>", "/email remove" oder "/email test" auf.',
+  'commandDescription.matrix': 'Empfange deine Benachrichtigungen auch in einem'
+    + ' Matrix-Direktchat. Rufe "/matrix set <@user:homeserver>", "/matrix remove" oder "/matrix'
+    + ' test" auf.',
+  'commandDescription.settings': 'Zeigt und ändert die Sprache und die Anzeige von Datum und'
+    + ' Beträgen. Rufe "/settings language <language>", "/settings timezone <timezone>",'
+    + ' "/settings locale <locale>" oder "/settings numbers <comma|period|space>" auf, "reset"'
+    + ' statt eines Werts.',
+  'commandDescription.whoami': 'Antwortet mit deinem Benutzernamen und deinen IDs.',
+  'commandDescription.about': 'Antwortet mit Informationen über den Server.',
+  'commandDescription.quit': 'Meldet dich vom Server ab.',
+  // Notifications
+  blockCountOne: '{count} Block',
+  blockCount: '{count} Blöcke',
+  newBlockCountOne: '{count} neuer Block',
+  newBlockCount: '{count} neue Blöcke',
+  confirmationCountOne: '{count} Bestätigung',
+  confirmationCount: '{count} Bestätigungen',
+  aboutOneHour: 'etwa 1 Stunde',
+  aboutHours: 'etwa {hours} Stunden',
+  aboutDays: 'etwa {days} Tage',
+  linkViewAddress: 'Adresse ansehen',
+  linkViewTransaction: 'Transaktion ansehen',
+  linkViewBlock: 'Block ansehen',
+  unknownBlock: 'unbekannt',
+  channelIdName: 'Kanal-ID {channelId}',
+  transactionInMempool: 'Diese Transaktion ist nur im Mempool (hat null Bestätigungen).',
+  transactionPartiallyConfirmed: 'Diese Transaktion hat erst {confirmations} und ist noch nicht'
+    + ' vollständig bestätigt.',
+  transactionFullyConfirmed: 'Diese Transaktion hat {confirmations} und ist vollständig'
+    + ' bestätigt.',
+  nodeHealthUnreachableLabel: 'nicht erreichbar',
+  nodeHealthFewPeersLabel: 'wenige Peers',
+  nodeHealthSyncingLabel: 'synchronisiert',
+  nodeHealthStaleTipLabel: 'keine neuen Blöcke',
+  nodeHealthWarningsLabel: 'Warnungen',
+  nodeHealthUnreachable: 'er antwortet nicht auf RPC-Aufrufe',
+  nodeHealthFewPeers: 'er ist nur mit {peers} Peers verbunden, weniger als {minPeers}',
+  nodeHealthInitialBlockDownload: 'er ist im ersten Blockdownload, bei Block {blocks} von'
+    + ' {headers}',
+  nodeHealthFellBehind: 'er ist zurückgefallen, bei Block {blocks} von {headers}',
+  nodeHealthStaleTip: 'seit {minutes} Minuten ist kein neuer Block eingetroffen',
+  nodeHealthWarnings: 'er warnt: {warnings}',
+  rebootTitle: 'Server neu gestartet',
+  rebootBody: '⚠️ Wuff! Der Server wurde neu gestartet, und einige Ereignisse könnten verpasst'
+    + ' worden sein. Wenn du Transaktionen oder Adressen beobachtest, solltest du sie manuell'
+    + ' prüfen.',
+  priceApiErrorsTitle: 'Fehler der Preis-API',
+  priceApiErrorsBody: '⚠️ Wuff! Es gibt Probleme bei der Verbindung zur CoinGecko-API, um den'
+    + ' Bitcoin-Preis abzufragen.',
+  priceApiResponsiveTitle: 'Preis-API antwortet wieder',
+  priceApiResponsiveBody: '💸 Wuff! Die CoinGecko-API (für den Bitcoin-Preis) antwortet wieder,'
+    + ' nachdem sie eine Zeit lang nicht erreichbar war.',
+  priceIncreasedTitle: 'Bitcoin-Preis gestiegen',
+  priceDecreasedTitle: 'Bitcoin-Preis gefallen',
+  priceChangeBody: '{emoji} Wuff! Der Bitcoin-Preis auf CoinGecko beträgt {price}. Ich prüfe den'
+    + ' Preis jede Minute und sage dir Bescheid, wenn er unter {min} fällt oder über {max}'
+    + ' steigt.',
+  newBlockTitle: 'Neuer Block',
+  newBlocksTitle: 'Neue Blöcke',
+  newBlockBody: '🧱 Wuff! Ein neuer Block wurde gemined: {blocks}.',
+  newBlocksBody: '🧱 Wuff! Neue Blöcke wurden gemined: {blocks}.',
+  newBlockSummary: 'Block {block} auf Höhe {height} von {pool}: {transactions}, 丰{fees}'
+    + ' Gebühren, zu {fullness}% voll',
+  newBlockUnknownPool: 'einem unbekannten Pool',
+  newBlockEmpty: 'leer',
+  newBlockTransactions: '{transactions} Transaktionen',
+  timelockAtHeight: 'auf Höhe {lock}',
+  timelockAtTime: 'um {time}',
+  timelockOfCoinbaseOutput: 'des Coinbase-Outputs {lock}',
+  timelockOfOutput: 'des Outputs {lock}',
+  timelockMissingTitle: 'Zeitgesperrter Output fehlt',
+  timelockMissingBody: '⚠️ Wuff! Die Zeitsperre {timelock} kann nicht mehr ablaufen, weil ihr'
+    + ' Output ausgegeben wurde oder nicht mehr existiert. Ich beobachte sie nicht mehr.',
+  timelockMaturedTitle: 'Zeitsperre abgelaufen',
+  timelockMaturedBody: '🔓 Wuff! Die Zeitsperre {timelock} ist auf Höhe {height} abgelaufen, eine'
+    + ' Transaktion, die sie ausgibt, kann in den nächsten Block aufgenommen werden.',
+  timelockWarningTitle: 'Zeitsperre läuft bald ab',
+  timelockWarningHeightBody: '⏳ Wuff! Die Zeitsperre {timelock} läuft in {blocks} ab, auf Höhe'
+    + ' {height}.',
+  timelockWarningTimeBody: '⏳ Wuff! Die Zeitsperre {timelock} läuft in etwa {blocks} ab.',
+  reorgTitle: 'Reorganisation der Blockchain',
+  reorgBody: '⛓️ Wuff! Eine Reorganisation der Blockchain hat {disconnectedBlocks} nach Block'
+    + ' {forkBlock} auf Höhe {forkHeight} ersetzt. Die alte Spitze war Block {oldTip} auf Höhe'
+    + ' {oldTipHeight}, und die neue Spitze ist Block {newTip} auf Höhe {newTipHeight}, nach'
+    + ' {connectedBlocks}.',
+  confirmationsLostBody: '⚠️ Wuff! {subject} wurde in einem Block gemined, der durch eine'
+    + ' Reorganisation der Blockchain getrennt wurde, und ist daher nicht mehr bestätigt. Ich sage'
+    + ' dir Bescheid, wenn sie wieder bestätigt ist.',
+  confirmationsLostTransactionTitle: 'Transaktion hat ihre Bestätigungen verloren',
+  confirmationsLostTransaction: 'Transaktion {transaction}',
+  confirmationsLostAddressPaymentTitle: 'Zahlung hat ihre Bestätigungen verloren',
+  confirmationsLostAddressPayment: 'Die Zahlung der Adresse {address} durch Transaktion {txid}',
+  confirmationsLostWalletPaymentTitle: 'Wallet-Zahlung hat ihre Bestätigungen verloren',
+  confirmationsLostWalletPayment: 'Die Zahlung der Wallet {wallet} durch Transaktion {txid}',
+  blocksSkippedTitle: 'Blöcke wurden nicht analysiert',
+  blocksSkippedBody: '⚠️ Wuff! Anscheinend war dein Node eine Zeit lang nicht synchronisiert,'
+    + ' und einige Blöcke wurden nicht analysiert. Du solltest den Status deiner Adressen und'
+    + ' Transaktionen manuell prüfen.',
+  addressPaymentIncomingTitle: 'Eingehende Zahlung',
+  addressPaymentOutgoingTitle: 'Ausgehende Zahlung',
+  addressPaymentBody: 'Wuff! {emoji} {payments} {confirmations}',
+  addressReceived: 'Adresse {address} hat 丰{amount} durch Transaktion {txid} empfangen.',
+  addressReceiving: 'Adresse {address} empfängt 丰{amount} durch Transaktion {txid}.',
+  addressSent: 'Adresse {address} hat 丰{amount} durch Transaktion {txid} gesendet.',
+  addressSending: 'Adresse {address} sendet 丰{amount} durch Transaktion {txid}.',
+  addressMultisigWarning: '⚠️ Beachte, dass einer der Outputs der Transaktion ein altes m-of-n'
+    + ' Nicht-P2SH-Multisig-Skript ist, ein heute selten genutztes Format, sodass womöglich auch'
+    + ' andere Adressen die Mittel ausgeben können.',
+  addressBalanceAboveTitle: 'Adressguthaben über dem Schwellenwert',
+  addressBalanceBelowTitle: 'Adressguthaben unter dem Schwellenwert',
+  addressBalanceAboveBody: '📈 Wuff! Das bestätigte Guthaben der Adresse {address} ist über'
+    + ' 丰{threshold} gestiegen und beträgt jetzt 丰{balance}.',
+  addressBalanceZeroBody: '📉 Wuff! Das bestätigte Guthaben der Adresse {address} ist auf null'
+    + ' gefallen.',
+  addressBalanceBelowBody: '📉 Wuff! Das bestätigte Guthaben der Adresse {address} ist auf'
+    + ' 丰{threshold} oder darunter gefallen und beträgt jetzt 丰{balance}.',
+  walletPaymentIncomingTitle: 'Eingehende Wallet-Zahlung',
+  walletPaymentOutgoingTitle: 'Ausgehende Wallet-Zahlung',
+  walletReceived: 'Wuff! {emoji} Wallet {wallet} hat 丰{amount} durch Transaktion {txid}'
+    + ' empfangen. {confirmations}',
+  walletReceiving: 'Wuff! {emoji} Wallet {wallet} empfängt 丰{amount} durch Transaktion {txid}.'
+    + ' {confirmations}',
+  walletSent: 'Wuff! {emoji} Wallet {wallet} hat 丰{amount} durch Transaktion {txid} gesendet.'
+    + ' {confirmations}',
+  walletSending: 'Wuff! {emoji} Wallet {wallet} sendet 丰{amount} durch Transaktion {txid}.'
+    + ' {confirmations}',
+  outpointSpentTitle: 'Beobachteter Output wurde ausgegeben',
+  outpointSpendingTitle: 'Beobachteter Output wird ausgegeben',
+  outpointSpentBody: '🚨 Wuff! Der Output {outpoint} über 丰{amount} wurde durch Transaktion'
+    + ' {txid} ausgegeben. {confirmations} Ihre Outputs:',
+  outpointSpendingBody: '🚨 Wuff! Der Output {outpoint} über 丰{amount} wird durch Transaktion'
+    + ' {txid} ausgegeben. {confirmations} Ihre Outputs:',
+  nonStandardScript: 'Nicht-Standard-Skript',
+  addressOverloadTitle: 'Adresse überlastet',
+  addressOverloadBody: '⚠️ Wuff! Die Adresse {address} wurde in den letzten Stunden mit'
+    + ' Transaktionen überhäuft. Ich kann nicht jede einzelne verfolgen, bitte beobachte sie'
+    + ' manuell.',
+  mempoolClearTitle: 'Mempool ist leer',
+  mempoolClearBody: '🌚 Wuff! Der Mempool ist leer, und alle seine Transaktionen passen in den'
+    + ' nächsten Block. Jetzt ist ein guter Zeitpunkt, Transaktionen mit niedrigen Gebühren zu'
+    + ' veröffentlichen.',
+  mempoolNotClearTitle: 'Mempool ist nicht mehr leer',
+  mempoolNotClearBody: '🌝 Wuff! Der Mempool ist nicht mehr leer, und es wird mehr als ein Block'
+    + ' benötigt, um alle seine Transaktionen zu bestätigen.',
+  feeRateBelowTitle: 'Gebührensatz unter {threshold} sat/vB gefallen',
+  feeRateAboveTitle: 'Gebührensatz über {threshold} sat/vB gestiegen',
+  feeRateBelowBody: '📉 Wuff! Der Gebührensatz für den nächsten Block beträgt {feeRate} sat/vB,'
+    + ' unter deinem Ziel von {threshold} sat/vB.',
+  feeRateAboveBody: '📈 Wuff! Der Gebührensatz für den nächsten Block beträgt {feeRate} sat/vB,'
+    + ' über deinem Ziel von {threshold} sat/vB.',
+  whaleTitle: 'Wal-Transaktion',
+  whaleBody: '🐋 Wuff! Die Transaktion {txid} im Mempool bewegt 丰{amount} und zahlt eine Gebühr'
+    + ' von 丰{fee} ({feeRate} sat/vB). Sie übersteigt deinen Wal-Alarm, weil {reasons}.',
+  whaleReasonsSeparator: ' und ',
+  whaleAmountReason: 'sie mehr als 丰{amount} bewegt',
+  whaleFeeReason: 'ihre Gebühr mehr als 丰{fee} beträgt',
+  whaleFeeRateReason: 'ihr Gebührensatz mehr als {feeRate} sat/vB beträgt',
+  whalePaused: 'Du hast in der letzten Stunde {count} Wal-Alarme bekommen, daher pausiere ich sie'
+    + ' eine Weile, um dich nicht zu überfluten.',
+  halvingCountdownTitle: 'Halving in {milestone}',
+  halvingCountdownBody: '⏳ Wuff! Das nächste Halving ist auf Höhe {height}, in {blocks}'
+    + ' ({time}). Es wird für {date} erwartet.',
+  difficultyCountdownTitle: 'Schwierigkeitsanpassung in {milestone}',
+  difficultyCountdownBody: '⏳ Wuff! Die nächste Schwierigkeitsanpassung ist auf Höhe {height},'
+    + ' in {blocks} ({time}). Sie wird für {date} erwartet.',
+  difficultyCountdownProjection: 'Die erwartete Änderung der Schwierigkeit beträgt {change}.',
+  difficultyAdjustedTitle: 'Schwierigkeit angepasst',
+  difficultyAdjustedBody: '{emoji} Wuff! Die Schwierigkeit wurde auf Höhe {height} um {change}'
+    + ' angepasst, von {oldDifficulty} auf {newDifficulty}.',
+  halvingTitle: 'Halving',
+  halvingBody: '🎉 Wuff! Die Blocksubvention wurde auf Höhe {height} halbiert und beträgt jetzt'
+    + ' 丰{subsidy} pro Block.',
+  nodeName: 'Dein Bitcoin-Node',
+  nodeNameVersion: 'Dein Bitcoin-Node ({version})',
+  nodeHealthyTitle: 'Bitcoin-Node ist wieder gesund',
+  nodeHealthyBody: '✅ Wuff! {node} ist wieder gesund.',
+  nodeHealthyStatus: 'Er ist mit {peers} Peers verbunden und bis Block {blocks} synchronisiert.',
+  nodeHealthTitle: 'Zustand des Bitcoin-Nodes',
+  nodeHealthBody: '🩺 Wuff! {node} braucht Aufmerksamkeit: {problems}.',
+  nodeHealthResolved: 'Behoben: {problems}.',
+  channelOpenedTitle: 'Lightning-Kanal geöffnet',
+  channelsOpenedTitle: 'Lightning-Kanäle geöffnet',
+  channelOpenedBody: '🤝 Wuff! Ein neuer Lightning-Kanal wurde geöffnet: {channels}',
+  channelsOpenedBody: '🤝 Wuff! Neue Lightning-Kanäle wurden geöffnet: {channels}',
+  channelClosedTitle: 'Lightning-Kanal geschlossen',
+  channelsClosedTitle: 'Lightning-Kanäle geschlossen',
+  channelClosedBody: '🙌 Wuff! Ein Lightning-Kanal wurde geschlossen: {channels}',
+  channelsClosedBody: '🙌 Wuff! Einige Lightning-Kanäle wurden geschlossen: {channels}',
+  forwardsTitle: 'Lightning-Gebühren verdient',
+  forwardsBody: '✨ Wuff! Du hast Lightning-Gebühren verdient: {forwards}',
+  forward: '丰{fee} für die Weiterleitung von 丰{amount} am {date} von {incomingChannel} an'
+    + ' {outgoingChannel}',
+  forwardsTooMany: '✨ Wuff! In derselben Sekunde gab es zu viele Weiterleitungen, um sie hier'
+    + ' anzuzeigen.',
+  invoicePaidTitle: 'Lightning-Zahlung empfangen',
+  invoicePaidBody: `⚡ Wuff! Du hast am {date} eine Lightning-Zahlung über 丰{amount} empfangen
+Erstellungszeit der Rechnung: {createdAt}`,
+  invoiceCreatedTitle: 'Lightning-Rechnung erstellt',
+  invoiceCreatedBody: `🧾 Wuff! Dein Node hat am {date} eine Rechnung über {amount} erstellt
+Ablauf der Rechnung: {expiresAt}`,
+  invoiceAmount: '丰{amount}',
+  invoiceUnknownAmount: 'einen unbekannten Betrag',
+  invoiceDescription: 'Beschreibung der Rechnung:',
+  invoiceDescriptionEmpty: 'Beschreibung der Rechnung: leer',
+  liquidityTitle: 'Liquidität des Lightning-Kanals',
+  liquidityBelowBody: '🪫 Wuff! Die ausgehende Liquidität von {channel} ist unter {threshold}%'
+    + ' gefallen: {ratio}% (丰{balance} von 丰{capacity}) liegen auf deiner Seite.',
+  liquidityAboveBody: '🔋 Wuff! Die ausgehende Liquidität von {channel} ist über {threshold}%'
+    + ' gestiegen: {ratio}% (丰{balance} von 丰{capacity}) liegen auf deiner Seite.',
+  transactionUpdateTitle: 'Neuigkeiten zur Transaktion',
+  transactionMempool: 'Wuff! Die Transaktion {transaction} wurde dem Mempool hinzugefügt.',
+  transactionMined: '⛓️ Wuff! Die Transaktion {transaction} wurde in Block {blocks} der'
+    + ' Blockchain hinzugefügt.',
+  transactionConfirmed: '🚀 Wuff! Die Transaktion {transaction} hat {confirmations} Bestätigungen'
+    + ' und ist jetzt vollständig bestätigt. Sie wurde in Block {blocks} gemined. Ich beobachte'
+    + ' diese Transaktion nicht mehr.',
+  confirmationTargetTitle: 'Bestätigungsziel der Transaktion',
+  confirmationTargetBody: '🎯 Wuff! Die Transaktion {transaction} hat {confirmations} und dein'
+    + ' Ziel von {target} erreicht.',
+  confirmationTargetLast: 'Das war das letzte Ziel, daher beobachte ich diese Transaktion nicht'
+    + ' mehr.',
+  confirmationTargetNext: 'Das nächste Ziel sind {target} Bestätigungen.',
+  feeBumpTitle: 'Gebührenerhöhung der Transaktion',
+  feeBumpBody: '⏫ Wuff! Die Transaktion {transaction} wurde durch {replacingTxid} ersetzt, die'
+    + ' dieselben Outputs mit einer höheren Gebühr bezahlt.',
+  feeBumpHarmless: 'Das ist eine harmlose Replace-by-Fee-Erhöhung.',
+  doubleSpendTitle: 'Double-Spend-Versuch',
+  doubleSpendBody: '🚨 Wuff! Die Transaktion {replacingTxid} gibt dieselben Inputs wie'
+    + ' {transaction} aus, bezahlt aber nicht dieselben Outputs.',
+  doubleSpendRedirect: 'Das ist ein Double-Spend-Versuch, der die Mittel woandershin umleitet.',
+  conflictTitle: 'Widersprüchliche Transaktion',
+  conflictBody: '⚠️ Wuff! Eine neue Transaktion versucht, dieselben Inputs wie {transaction}'
+    + ' auszugeben: {replacingTxid}. Das kann ein Double-Spend-Versuch oder ein legitimes'
+    + ' Replace-by-Fee sein.',
+  feeRateChange: 'Der Gebührensatz hat sich von {oldFeeRate} auf {newFeeRate} sat/vB geändert.',
+  cpfpTitle: 'CPFP-Erhöhung der Transaktion',
+  cpfpBody: '⏫ Wuff! Die Transaktion {childTxid} gibt einen Output von {transaction} aus und zahlt'
+    + ' eine höhere Gebühr für beide (Child-Pays-for-Parent). Der effektive Gebührensatz stieg von'
+    + ' {feeRate} auf {effectiveFeeRate} sat/vB.',
+  evictedTitle: 'Transaktion verdrängt',
+  evictedBody: '🗑️ Wuff! Die Transaktion {transaction} hat den Mempool verlassen, ohne gemined'
+    + ' zu werden.',
+  evictedExpiry: 'Sie blieb länger als die Mempool-Ablaufzeit von zwei Wochen unbestätigt.',
+  evictedMinFee: 'Ihr Gebührensatz von {feeRate} sat/vB liegt unter dem minimalen Gebührensatz'
+    + ' des vollen Mempools, {minFeeRate} sat/vB.',
+  evictedUnknown: 'Der Node hat nicht mitgeteilt, warum sie entfernt wurde.',
+  evictedRebroadcastHex: 'Sie kann noch gemined werden, wenn du ihre Rohtransaktion unten erneut'
+    + ' verbreitest oder sie durch eine mit höherer Gebühr ersetzt.',
+  evictedRebroadcastWallet: 'Sie kann noch gemined werden, wenn du sie aus deiner Wallet erneut'
+    + ' verbreitest oder sie durch eine mit höherer Gebühr ersetzt.',
+  // Command replies
+  whoAmI: 'Du bist @{username}, Telegram-ID {telegramId}, lokale ID {id}',
+  about: `🐶 {appName} v{appVersion}
+Version des Bitcoin-Nodes: {nodeVersion}
+Bitcoin-Chain: {chain}
+{lnd}`,
+  aboutLndVersion: 'LND-Version: {version}',
+  aboutUnknownVersion: 'unbekannt',
+  aboutLndNotConnected: 'LND: nicht verbunden',
+  aboutFailed: 'Die Serverinformationen ({appName} v{appVersion}) konnten nicht abgerufen werden,'
+    + ' der Server startet vielleicht noch.',
+  tooManyParameters: 'Zu viele Parameter',
+  invalidConfirmationTargets: 'Ungültige Bestätigungsziele - erwartet werden bis zu 10 durch'
+    + ' Kommas getrennte Anzahlen wie "1,3,6".',
+  invalidTransactionId: 'Ungültige Transaktions-ID - erwartet werden 64 Hex-Zeichen in'
+    + ' Kleinbuchstaben.',
+  transactionNicknameTooLong: 'Der Spitzname der Transaktion ist zu lang.',
+  transactionNicknameTaken: 'Du hast denselben Spitznamen bereits einer anderen beobachteten'
+    + ' Transaktion gegeben.',
+  transactionAlreadyWatched: 'Du beobachtest diese Transaktion bereits. Siehe:'
+    + ' {listWatchesCommand}',
+  transactionAnalyzing: 'Ich analysiere die Transaktion und suche in den letzten Blöcken nach'
+    + ' Konflikten. Bitte hodl.',
+  transactionNotFound: 'Ich konnte zu dieser Transaktions-ID weder im Mempool noch in der'
+    + ' Blockchain Details finden. Ich sage dir Bescheid, wenn sie gefunden wird.',
+  transactionFoundInMempool: 'Die Transaktion wurde im Mempool gefunden.',
+  transactionHasConfirmations: 'Die Transaktion hat {confirmations}.',
+  transactionMinedInBlock: 'Sie wurde in Block {blocks} gemined.',
+  transactionAlreadyConfirmed: '🚀 Diese Transaktion hat bereits {confirmations} Bestätigungen'
+    + ' und ist vollständig bestätigt.',
+  transactionAlreadyConfirmedUnwatched: '🚀 Diese Transaktion hat bereits {confirmations}'
+    + ' Bestätigungen und ist vollständig bestätigt, daher muss sie nicht mehr beobachtet werden.',
+  transactionPendingTargets: 'Ich sage dir Bescheid, wenn sie {targets} Bestätigungen erreicht.',
+  transactionConflict: '\n🚨 Die folgende Transaktion versucht ebenfalls, dieselben Inputs'
+    + ' auszugeben: {txids}. Das kann ein Double-Spend-Versuch oder ein legitimes Replace-by-Fee'
+    + ' sein.',
+  transactionConflicts: '\n🚨 Die folgenden Transaktionen versuchen ebenfalls, dieselben Inputs'
+    + ' auszugeben: {txids}. Das kann ein Double-Spend-Versuch oder ein legitimes Replace-by-Fee'
+    + ' sein.',
+  transactionNoConflicts: 'Es wurden keine widersprüchlichen Transaktionen gefunden (also keine'
+    + ' Double-Spend-Versuche).',
+  transactionWatchFailed: '⚠️ Wuff! Die Beobachtung der Transaktion konnte nicht gestartet'
+    + ' werden.',
+  noMatchingTransactions: 'Es wurden keine passenden Transaktionen gefunden. Siehe'
+    + ' {listWatchesCommand}.',
+  transactionWatchRemoved: '{count} Transaktionsbeobachtung wurde entfernt.',
+  transactionWatchesRemoved: '{count} Transaktionsbeobachtungen wurden entfernt.',
+  invalidAddress: 'Ungültige Adresse.',
+  addressNicknameTooLong: 'Der Spitzname der Adresse ist zu lang.',
+  addressNicknameTaken: 'Du hast denselben Spitznamen bereits einer anderen beobachteten Adresse'
+    + ' gegeben.',
+  addressAlreadyWatched: 'Du beobachtest diese Adresse bereits. Siehe: {listWatchesCommand}',
+  addressesAlreadyWatched: 'Du beobachtest alle diese Adressen bereits. Siehe:'
+    + ' {listWatchesCommand}',
+  someAddressesAlreadyWatched: 'Du beobachtest einige dieser Adressen bereits. Siehe:'
+    + ' {listWatchesCommand}',
+  addressWatchStarted: 'Die Adresse wird jetzt beobachtet. Ich sage dir Bescheid, wenn eingehende'
+    + ' oder ausgehende Transaktionen dieser Adresse im Mempool und in der Blockchain erscheinen.',
+  addressesWatchStarted: 'Die Adressen werden jetzt beobachtet. Ich sage dir Bescheid, wenn'
+    + ' eingehende oder ausgehende Transaktionen dieser Adressen im Mempool und in der Blockchain'
+    + ' erscheinen.',
+  noMatchingAddresses: 'Es wurden keine passenden Adressen gefunden. Siehe {listWatchesCommand}.',
+  addressWatchRemoved: '{count} Adressbeobachtung wurde entfernt.',
+  addressWatchesRemoved: '{count} Adressbeobachtungen wurden entfernt.',
+  invalidWalletKey: 'Ungültiger erweiterter öffentlicher Schlüssel oder Deskriptor. Nur'
+    + ' Bereichs-Deskriptoren mit einem Schlüssel (pkh, sh(wpkh), wpkh und tr, endend auf'
+    + ' /<0;1>/*) des Netzwerks des Servers werden unterstützt.',
+  walletNicknameTooLong: 'Der Spitzname der Wallet ist zu lang.',
+  walletNicknameTaken: 'Du hast denselben Spitznamen bereits einer anderen beobachteten Wallet'
+    + ' gegeben.',
+  walletAlreadyWatched: 'Du beobachtest diese Wallet bereits. Siehe: {listWatchesCommand}',
+  walletWatchStarted: 'Die Wallet wird jetzt beobachtet. Ich sage dir Bescheid, wenn eingehende'
+    + ' Transaktionen im Mempool und in der Blockchain erscheinen, und wenn ausgehende'
+    + ' Transaktionen in der Blockchain erscheinen. Nur Zahlungen an die ersten unbenutzten'
+    + ' Adressen werden gefunden, wenn die Wallet also schon viele Adressen benutzt hat, könnten'
+    + ' die älteren übersehen werden.',
+  walletsWatchStarted: 'Die Wallets werden jetzt beobachtet. Ich sage dir Bescheid, wenn'
+    + ' eingehende Transaktionen im Mempool und in der Blockchain erscheinen, und wenn ausgehende'
+    + ' Transaktionen in der Blockchain erscheinen. Nur Zahlungen an die ersten unbenutzten'
+    + ' Adressen werden gefunden, wenn eine Wallet also schon viele Adressen benutzt hat, könnten'
+    + ' die älteren übersehen werden.',
+  noMatchingWallets: 'Es wurden keine passenden Wallets gefunden. Siehe {listWatchesCommand}.',
+  walletWatchRemoved: '{count} Wallet-Beobachtung wurde entfernt.',
+  walletWatchesRemoved: '{count} Wallet-Beobachtungen wurden entfernt.',
+  invalidOutpoint: 'Ungültiger Output - erwartet werden eine Transaktions-ID und ein'
+    + ' Output-Index, wie "<txid>:0".',
+  outpointNicknameTooLong: 'Der Spitzname des Outputs ist zu lang.',
+  outpointNicknameTaken: 'Du hast denselben Spitznamen bereits einem anderen beobachteten Output'
+    + ' gegeben.',
+  outpointAlreadyWatched: 'Du beobachtest diesen Output bereits. Siehe: {listWatchesCommand}',
+  outpointUnavailable: 'Der Output {outpoint} ist entweder bereits ausgegeben (auch durch eine'
+    + ' Transaktion im Mempool) oder existiert nicht, es gibt also nichts zu beobachten.',
+  outpointWatchStarted: 'Der Output über 丰{amount} wird jetzt beobachtet. Ich sage dir Bescheid,'
+    + ' sobald eine Transaktion, die ihn ausgibt, im Mempool oder in der Blockchain erscheint.',
+  outpointsWatchStarted: 'Die Outputs über 丰{amount} werden jetzt beobachtet. Ich sage dir'
+    + ' Bescheid, sobald eine Transaktion, die einen von ihnen ausgibt, im Mempool oder in der'
+    + ' Blockchain erscheint.',
+  noMatchingOutpoints: 'Es wurden keine passenden Outputs gefunden. Siehe {listWatchesCommand}.',
+  outpointWatchRemoved: '{count} Output-Beobachtung wurde entfernt.',
+  outpointWatchesRemoved: '{count} Output-Beobachtungen wurden entfernt.',
+  priceChangeWatchSyntax: `Syntax: "/watch price-change <price-delta-in-usd>"
+Um z. B. benachrichtigt zu werden, wenn sich der Preis um $1000 ändert, nutze\
+ "/watch price-change 1000".`,
+  invalidPositiveInteger: 'Ungültiger Wert, er muss eine positive ganze Zahl sein. Verwende nur'
+    + ' Ziffern, ohne Kommas und andere Zeichen.',
+  priceChangeWatchStarted: 'Der aktuelle Preis auf CoinGecko beträgt {price}. Ich prüfe den'
+    + ' Preis jede Minute und sage dir Bescheid, wenn er unter {min} fällt oder über {max}'
+    + ' steigt.',
+  priceChangeWatchPriceUnavailable: 'Die Preisbeobachtung wurde eingerichtet, aber es scheint ein'
+    + ' Problem beim Abrufen des Preises von CoinGecko zu geben.',
+  priceChangeWatchStopped: 'Die Beobachtung von Preisänderungen wurde beendet.',
+  linksNotReply: 'Verwende diesen Befehl als Antwort auf einen vorherigen Befehl.',
+  linksNotFound: 'In dieser Nachricht wurden keine Adressen, Transaktions-IDs oder Block-Hashes'
+    + ' gefunden.',
+  links: `Hier sind die Links zu den Adressen, Transaktionen und Blöcken in dieser Nachricht:
+{links}`,
+  webhooksEmpty: 'Du hast keine Webhooks. Um einen hinzuzufügen, rufe "/webhooks add <url>" auf.',
+  webhooksList: 'Deine Webhooks:',
+  webhookSecret: 'Geheimnis: ',
+  webhookInvalidUrl: 'Bitte gib eine einzelne URL an, die mit http:// oder https:// beginnt',
+  webhookExists: 'Du hast diesen Webhook bereits.',
+  webhooksLimit: 'Du kannst nicht mehr als {count} Webhooks haben.',
+  webhookAdded: 'Wuff! Deine Benachrichtigungen werden auch als JSON-POST-Anfragen an diese URL'
+    + ' gesendet. Jede Anfrage hat einen X-WoofBot-Signature-Header mit dem HMAC-SHA256 von'
+    + ' "<X-WoofBot-Timestamp header>.<raw body>", mit diesem Geheimnis:',
+  webhookTestHint: 'Um ein Testereignis zu senden, rufe "/webhooks test" auf.',
+  webhooksRemoveSyntax: 'Bitte gib die URLs der Webhooks an, die du entfernen möchtest.',
+  webhookRemoved: 'Webhook {urls} wurde entfernt.',
+  webhooksRemoved: 'Webhooks {urls} wurden entfernt.',
+  webhooksTestEmpty: 'Du hast keine Webhooks zum Testen.',
+  webhookTested: 'Wuff! Ein Testereignis wurde an deinen Webhook gesendet.',
+  webhooksTested: 'Wuff! Ein Testereignis wurde an deine Webhooks gesendet.',
+  webhooksUnknownAction: 'Unbekannte Aktion, rufe "/webhooks", "/webhooks add <url>", "/webhooks'
+    + ' remove <url>" oder "/webhooks test" auf.',
+  nostrRelaysWarning: 'Beachte, dass der Bot-Administrator noch keine Nostr-Relays konfiguriert'
+    + ' hat, die Nachrichten warten also, bis er das tut.',
+  nostrEmpty: 'Du hast keinen öffentlichen Nostr-Schlüssel. Um deine Benachrichtigungen als'
+    + ' Nostr-Direktnachrichten zu empfangen, rufe "/nostr set <npub>" auf.',
+  nostrStatus: 'Deine Benachrichtigungen werden auch als mit {encryption} verschlüsselte'
+    + ' Direktnachrichten gesendet an:',
+  nostrFrom: 'Von:',
+  nostrInvalidPublicKey: 'Bitte gib deinen npub (oder öffentlichen Hex-Schlüssel) an, optional'
+    + ' gefolgt von der Verschlüsselung ({encryptions}, standardmäßig {defaultEncryption}).',
+  nostrSet: 'Wuff! Deine Benachrichtigungen werden auch als Nostr-Direktnachrichten gesendet'
+    + ' von:',
+  nostrTestHint: 'Um eine Testnachricht zu senden, rufe "/nostr test" auf.',
+  nostrRemoveEmpty: 'Du hast keinen öffentlichen Nostr-Schlüssel.',
+  nostrRemoved: 'Wuff! Deine Benachrichtigungen werden nicht mehr an Nostr gesendet.',
+  nostrTestEmpty: 'Du hast keinen öffentlichen Nostr-Schlüssel zum Testen.',
+  nostrTested: 'Wuff! Eine Testnachricht wurde an deinen öffentlichen Nostr-Schlüssel gesendet.',
+  nostrUnknownAction: 'Unbekannte Aktion, rufe "/nostr", "/nostr set <npub>", "/nostr remove"'
+    + ' oder "/nostr test" auf.',
+  emailServerWarning: 'Beachte, dass der Bot-Administrator noch keinen E-Mail-Server konfiguriert'
+    + ' hat, die E-Mails warten also, bis er das tut.',
+  emailEmpty: 'Du hast keine E-Mail-Adresse. Um deine Benachrichtigungen per E-Mail zu empfangen,'
+    + ' rufe "/email set <address>" auf.',
+  emailStatus: 'Deine Benachrichtigungen werden auch per E-Mail an {emailAddress} gesendet.',
+  emailInvalidAddress: 'Bitte gib eine einzelne E-Mail-Adresse an.',
+  emailVerificationSent: 'Wuff! Ein Bestätigungscode wurde an {emailAddress} gesendet. Um die'
+    + ' Adresse zu bestätigen, rufe "/email verify <code>" auf.',
+  emailVerifyEmpty: 'Es gibt keine E-Mail-Adresse zu bestätigen, rufe zuerst "/email set'
+    + ' <address>" auf.',
+  emailWrongCode: 'Falscher Bestätigungscode, bitte prüfe die E-Mail, die an {emailAddress}'
+    + ' gesendet wurde.',
+  emailVerificationThrottled: 'Vor Kurzem wurde ein Bestätigungscode gesendet, bitte warte'
+    + ' {minutes} Minuten, bevor du einen neuen anforderst.',
+  emailVerificationExpired: 'Der Bestätigungscode ist abgelaufen, rufe "/email set <address>"'
+    + ' auf, um einen neuen zu bekommen.',
+  emailTooManyWrongCodes: 'Zu viele falsche Bestätigungscodes, rufe "/email set <address>" auf,'
+    + ' um einen neuen zu bekommen.',
+  emailVerified: 'Wuff! Deine Benachrichtigungen werden auch per E-Mail an {emailAddress}'
+    + ' gesendet.',
+  emailRemoveEmpty: 'Du hast keine E-Mail-Adresse.',
+  emailRemoved: 'Wuff! Deine Benachrichtigungen werden nicht mehr per E-Mail gesendet.',
+  emailTestEmpty: 'Du hast keine E-Mail-Adresse zum Testen.',
+  emailTested: 'Wuff! Eine Test-E-Mail wurde an {emailAddress} gesendet.',
+  emailUnknownAction: 'Unbekannte Aktion, rufe "/email", "/email set <address>", "/email verify'
+    + ' <code>", "/email remove" oder "/email test" auf.',
+  matrixEmpty: 'Du hast keinen Matrix-Benutzer. Um deine Benachrichtigungen in einem Matrix-Raum'
+    + ' zu empfangen, rufe "/matrix set <@user:homeserver>" auf.',
+  matrixStatus: 'Deine Benachrichtigungen werden auch an {matrixUserId} im Matrix-Raum'
+    + ' {matrixRoomId} gesendet.',
+  matrixInvalidUserId: 'Bitte gib eine einzelne Matrix-Benutzer-ID an, z. B. @alice:example.org.',
+  matrixNotConfigured: 'Der Bot-Administrator hat noch kein Matrix-Konto konfiguriert.',
+  matrixRoomFailed: 'Es konnte kein Matrix-Raum erstellt und {matrixUserId} eingeladen werden,'
+    + ' bitte versuche es später erneut.',
+  matrixInvited: 'Wuff! {matrixUserId} wurde in einen neuen Matrix-Raum eingeladen, nimm die'
+    + ' Einladung an, um deine Benachrichtigungen dort zu empfangen.',
+  matrixRemoveEmpty: 'Du hast keinen Matrix-Benutzer.',
+  matrixRemoved: 'Wuff! Deine Benachrichtigungen werden nicht mehr an Matrix gesendet.',
+  matrixTestEmpty: 'Du hast keinen Matrix-Raum zum Testen.',
+  matrixTested: 'Wuff! Eine Testnachricht wurde in Matrix an {matrixUserId} gesendet.',
+  matrixUnknownAction: 'Unbekannte Aktion, rufe "/matrix", "/matrix set <@user:homeserver>",'
+    + ' "/matrix remove" oder "/matrix test" auf.',
+  timelockStatusMatured: 'abgelaufen',
+  timelockStatusMaturityHeight: 'läuft auf Höhe {height} ab',
+  timelockStatusMaturityTime: 'läuft am {date} (Median-Zeit) ab',
+  timelockStatusUnconfirmed: 'Output unbestätigt',
+  outpointSpentBy: '(ausgegeben durch {txid})',
+  balanceAlertAbove: 'über 丰{amount}',
+  balanceAlertBelow: 'unter 丰{amount}',
+  balanceNotScanned: 'noch nicht gescannt',
+  balanceUnconfirmed: '({amounts} unbestätigt)',
+  balanceAlerts: ', Alarme {alerts}',
+  balanceNoAddresses: 'Du beobachtest keine Adressen. Siehe: {command}',
+  balanceList: 'Die bestätigten Guthaben deiner beobachteten Adressen:',
+  noMatchingAddress: 'Es wurde keine passende Adresse gefunden. Siehe {listWatchesCommand}.',
+  balanceInvalidThreshold: 'Bitte gib den Schwellenwert in BTC an, z. B. "{command}".',
+  balanceAboveWatchStarted: 'Wuff! Ich sage dir Bescheid, wenn das bestätigte Guthaben von'
+    + ' {address} über 丰{amount} steigt.',
+  balanceBelowWatchStarted: 'Wuff! Ich sage dir Bescheid, wenn das bestätigte Guthaben von'
+    + ' {address} auf 丰{amount} oder darunter fällt.',
+  balanceAlreadyAbove: '⚠️ Beachte, dass das bestätigte Guthaben bereits darüber liegt:'
+    + ' 丰{balance}.',
+  balanceAlreadyBelow: '⚠️ Beachte, dass das bestätigte Guthaben bereits darauf oder darunter'
+    + ' liegt: 丰{balance}.',
+  balanceWatchStopped: 'Wuff! Die Guthaben-Alarme von {address} wurden entfernt.',
+  balanceUnknownAction: 'Unbekannte Aktion, rufe "/balance", "/balance <address-or-nickname>",'
+    + ' "/balance <address-or-nickname> above <btc>", "/balance <address-or-nickname> below <btc>"'
+    + ' oder "/balance <address-or-nickname> off" auf.',
+  goodbye: 'Wuff! Auf Wiedersehen.',
+  messageDelayed: 'Die folgende Nachricht wurde wegen Netzwerkproblemen verzögert gesendet:\n\n',
+};
@@ -0,0 +1,648 @@
+// The messages of the bot in English, the fallback of every other language. Placeholders like
+// {name} are replaced with parameters, and the texts are escaped as MarkdownV2 only after that.
+export const englishMessages = {
+  start: `🐶 Welcome to {appName}, your personal telegram bot that will send you customized\
+ notifications.
+For example, to get a notification whenever the server reboots, call /watch reboot.
+To unset this configuration, call /unwatch reboot.
+For a list of all commands, call /help.`,
+  alreadyRegistered: 'You are already registered. For more information, call /help.',
+  restricted: 'You are restricted from accessing this bot. Please contact the bot administrator'
+    + ' and ask to be added to the users whitelist or to increase the maximal number of users'
+    + ' that the bot is allowed to support.',
+  notFound: 'Woof! Call /start first.',
+  notPermitted: '👮 Sorry you are not allowed to run this command, please contact the bot'
+    + ' administrator to add your user to one of the command\'s permission groups',
+  chatPending: '🐶 Woof! This chat is waiting for the approval of the bot administrator before it'
+    + ' can watch events.',
+  chatApproved: `🐶 Woof! The bot administrator has approved this chat.
+Administrators of this chat can now call /watch here, after they have registered by calling\
+ /start in a private chat with me.`,
+  chatRejected: 'Sorry, the bot administrator has not approved this chat.',
+  chatPrivateCommand: 'Woof! This command is available only in a private chat with me.',
+  chatIssuerNotFound: 'Woof! To manage the watches of this chat, call /start in a private chat'
+    + ' with me first.',
+  chatIssuerNotAdministrator: '👮 Sorry, only the administrators of this chat can manage its'
+    + ' watches.',
+  help: 'Woof! These are the commands that I was trained for:',
+  woof: 'Woof Woof!',
+  unknownCommand: 'Woof! I wasn\'t trained for this command. See /help.',
+  notUnderstood: 'Woof! I could not understand you. See /help.',
+  watchPrompt: 'Which events would you like to get notifications for?',
+  unwatchPrompt: 'Which watches would you like to cancel?',
+  unwatchPromptTruncated: 'Which watches would you like to cancel? Not all of them are listed,'
+    + ' call "{transactionCommand}" or "{addressesCommand}" to cancel the rest.',
+  unrecognizedWatch: 'Unrecognized event-name to watch',
+  unrecognizedUnwatch: 'Unrecognized event-name to unwatch',
+  watchAlreadyRemoved: 'This watch was already removed.',
+  notWatchingAnything: 'You are not watching anything.',
+  lndNotConfigured: 'Sorry, the LND integration is not configured.',
+  rebootWatchStarted: 'Started watching reboots.',
+  rebootWatchStopped: 'Stopped watching reboots.',
+  newBlocksWatchStarted: 'Started watching new blocks. Best block height is: {height}.',
+  newBlocksWatchStartedPools: 'Started watching new blocks that match: {pools}. Best block height'
+    + ' is: {height}.',
+  newBlocksWatchInvalidPool: 'Unknown mining pool "{pool}". Use any of: {pools}, "empty" for'
+    + ' empty blocks or "unknown" for blocks of unrecognized pools.',
+  newBlocksWatchStopped: 'Stopped watching new blocks.',
+  reorgWatchStarted: 'Started watching chain reorganizations.',
+  reorgWatchStopped: 'Stopped watching chain reorganizations.',
+  difficultyWatchStarted: 'Started watching difficulty adjustments.',
+  difficultyCountdown: 'The next adjustment is at height {height}, in {blocks} blocks, estimated'
+    + ' at {date}, with a projected change of {change}.',
+  difficultyWatchStopped: 'Stopped watching difficulty adjustments.',
+  halvingWatchStarted: 'Started watching halvings.',
+  halvingCountdown: 'The next halving is at height {height}, in {blocks} blocks, estimated at'
+    + ' {date}.',
+  halvingWatchStopped: 'Stopped watching halvings.',
+  mempoolClearWatchStartedClear: 'The mempool is clear. I will let you know when the mempool'
+    + ' transactions will no longer fit in a single block (no room for low-fee transactions).',
+  mempoolClearWatchStartedNotClear: 'The mempool is not clear. I will let you know when the'
+    + ' mempool transactions could fit in a single block and there is room for low-fee'
+    + ' transactions.',
+  mempoolClearWatchStopped: 'Stopped watching mempool clearance.',
+  feeRateWatchSyntax: `Syntax: "/watch fee-rate <below|above> <sat/vB>"
+i.e. To get a notification when the next-block fee rate drops below 5 sat/vB, use\
+ "/watch fee-rate below 5".`,
+  feeRateWatchInvalid: 'Invalid value, must be a positive number of sat/vB.',
+  feeRateWatchStartedBelow: 'I will let you know when the fee rate to get into the next block'
+    + ' drops below {threshold} sat/vB.',
+  feeRateWatchStartedAbove: 'I will let you know when the fee rate to get into the next block'
+    + ' rises above {threshold} sat/vB.',
+  feeRateCurrent: 'It is currently {feeRate} sat/vB.',
+  feeRateUnwatchSyntax: 'Syntax: "/unwatch fee-rate [below|above]"',
+  feeRateWatchStopped: 'Stopped watching the fee rate.',
+  whalesWatchSyntax: `Syntax: "/watch whales <amount|fee|fee-rate> <threshold>"
+The amount and the fee are in BTC and the fee rate is in sat/vB. i.e. To get a notification when\
+ a mempool transaction moves more than 100 BTC, use "/watch whales amount 100".`,
+  whalesWatchInvalid: 'Invalid value, must be a positive amount of BTC, or of sat/vB for the fee'
+    + ' rate.',
+  whalesWatchStartedAmount: 'I will let you know when a mempool transaction moves more than'
+    + ' 丰{threshold}.',
+  whalesWatchStartedFee: 'I will let you know when a mempool transaction pays a fee of more than'
+    + ' 丰{threshold}.',
+  whalesWatchStartedFeeRate: 'I will let you know when a mempool transaction pays a fee rate of'
+    + ' more than {threshold} sat/vB.',
+  whalesRateLimit: 'To keep it from turning into spam, you will get at most {maxAlerts} whale'
+    + ' alerts per hour.',
+  whalesUnwatchSyntax: 'Syntax: "/unwatch whales [amount|fee|fee-rate]"',
+  whalesWatchStopped: 'Stopped watching whales.',
+  nodeHealthWatchSyntax: `Syntax: "/watch node-health [minimal-peers]"
+The minimal number of peers is {defaultMinPeers} by default. i.e. To get a notification when your\
+ node has fewer than 8 peers, use "/watch node-health 8".`,
+  nodeHealthWatchStarted: 'I will let you know when your Bitcoin node has fewer than {minPeers}'
+    + ' peers, falls behind the chain, stops getting new blocks or reports warnings, and when it is'
+    + ' healthy again.',
+  nodeHealthWatchStopped: 'Stopped watching the health of your Bitcoin node.',
+  timelocksWatchSyntax: `Syntax: "/watch timelocks height [nickname:]<height> [warning-blocks]",\
+ "/watch timelocks time [nickname:]<unix-time|yyyy-mm-dd> [warning-blocks]",\
+ "/watch timelocks csv [nickname:]<txid>:<vout> <blocks|duration> [warning-blocks]" or\
+ "/watch timelocks coinbase [nickname:]<txid>:<vout> [warning-blocks]"
+i.e. To get a notification when an output becomes spendable 30 days after it was confirmed, use\
+ "/watch timelocks csv <txid>:0 30d".`,
+  timelocksWatchNicknameTooLong: 'The timelock nickname is too long.',
+  timelocksWatchInvalid: 'Invalid timelock, must be a block height, a unix time or a date after'
+    + ' 1985, or an output with a relative lock of up to 65535 blocks or about 388 days.',
+  timelocksWatchOutputMissing: 'The output {outpoint} is either already spent (also by a'
+    + ' transaction in the mempool) or does not exist, so there is nothing to watch.',
+  timelocksWatchNotCoinbase: 'The output {outpoint} is not an output of a coinbase transaction.',
+  timelocksWatchAlreadyWatched: 'You are already watching this timelock, or another timelock with'
+    + ' the same nickname. See: {command}',
+  timelocksWatchAlreadyMatured: 'This timelock has already matured, a transaction that spends it'
+    + ' can be included in the next block.',
+  timelocksWatchStarted: 'Started watching the timelock.',
+  timelocksMaturityHeight: 'It matures at height {height}, in {blocks} blocks.',
+  timelocksMaturityTime: 'It matures once the median time of the blocks passes {date}, in about'
+    + ' {blocks} blocks.',
+  timelocksMaturityUnconfirmed: 'Its output is still unconfirmed, so I will know when it matures'
+    + ' once the output is confirmed.',
+  timelocksWarning: 'I will also warn you {warningBlocks} blocks ahead.',
+  timelocksUnwatchNotFound: 'No matching timelocks were found. See {command}.',
+  timelocksWatchStopped: 'Removed timelock watches: {count}.',
+  lightningChannelsOpenedWatchStarted: 'Started watching for new lightning channels being opened.',
+  lightningChannelsOpenedWatchStopped: 'Stopped watching for new lightning channels being opened.',
+  lightningChannelsClosedWatchStarted: 'Started watching for lightning channels being closed.',
+  lightningChannelsClosedWatchStopped: 'Stopped watching for lightning channels being closed.',
+  lightningForwardsWatchStarted: 'Started watching for lightning forwards.',
+  lightningForwardsWatchStopped: 'Stopped watching for lightning forwards.',
+  lightningInvoicesCreatedWatchStarted: 'Started watching for lightning invoices creation.',
+  lightningInvoicesCreatedWatchStopped: 'Stopped watching for lightning invoices creation.',
+  lightningInvoicesPaidWatchStarted: 'Started watching for lightning invoices being paid.',
+  lightningInvoicesPaidWatchStopped: 'Stopped watching for lightning invoices being paid.',
+  lightningLiquidityWatchSyntax: `Syntax: "/watch lightning-liquidity <below|above> <percent>\
+ [channel-id]"
+The percent is the outbound liquidity of a channel, out of its capacity. i.e. To get a\
+ notification when any channel has less than 10% outbound liquidity, use\
+ "/watch lightning-liquidity below 10".`,
+  lightningLiquidityWatchInvalid: 'Invalid value, must be a percent between 0 and 100.',
+  lightningLiquidityUnknownChannel: 'Sorry, I could not find the lightning channel {channelId}.',
+  lightningLiquidityWatchStartedBelow: 'I will let you know when the outbound liquidity of any of'
+    + ' your lightning channels drops below {threshold}%.',
+  lightningLiquidityWatchStartedAbove: 'I will let you know when the outbound liquidity of any of'
+    + ' your lightning channels rises above {threshold}%.',
+  lightningLiquidityChannelWatchStartedBelow: 'I will let you know when the outbound liquidity of'
+    + ' {channel} drops below {threshold}%.',
+  lightningLiquidityChannelWatchStartedAbove: 'I will let you know when the outbound liquidity of'
+    + ' {channel} rises above {threshold}%.',
+  lightningLiquidityUnwatchSyntax: 'Syntax: "/unwatch lightning-liquidity [below|above]'
+    + ' [channel-id]"',
+  lightningLiquidityWatchStopped: 'Stopped watching the liquidity of lightning channels.',
+  listWatchesReboot: 'You are watching server reboots.',
+  listWatchesNewBlocks: 'You are watching new blocks.',
+  listWatchesNewBlocksPools: 'You are watching new blocks that match: {pools}.',
+  listWatchesReorg: 'You are watching chain reorganizations.',
+  listWatchesDifficulty: 'You are watching difficulty adjustments.',
+  listWatchesHalving: 'You are watching halvings.',
+  listWatchesPriceChange: 'You are watching price changes of {delta}.',
+  listWatchesMempoolClear: 'You are watching mempool becoming clear.',
+  listWatchesFeeRateBelow: 'You are watching the next-block fee rate dropping below'
+    + ' {threshold} sat/vB.',
+  listWatchesFeeRateAbove: 'You are watching the next-block fee rate rising above'
+    + ' {threshold} sat/vB.',
+  listWatchesWhalesAmount: 'You are watching mempool transactions that move more than'
+    + ' 丰{threshold}.',
+  listWatchesWhalesFee: 'You are watching mempool transactions that pay a fee of more than'
+    + ' 丰{threshold}.',
+  listWatchesWhalesFeeRate: 'You are watching mempool transactions that pay a fee rate of more'
+    + ' than {threshold} sat/vB.',
+  listWatchesNodeHealth: 'You are watching the health of your Bitcoin node, with at least'
+    + ' {minPeers} peers.',
+  listWatchesLightningChannelsOpened: 'You are watching lightning channels being opened.',
+  listWatchesLightningChannelsClosed: 'You are watching lightning channels being closed.',
+  listWatchesLightningForwards: 'You are watching lightning forwards.',
+  listWatchesLightningInvoicesCreated: 'You are watching lightning invoices creation.',
+  listWatchesLightningInvoicesPaid: 'You are watching lightning invoices being paid.',
+  listWatchesLightningLiquidityBelow: 'You are watching the outbound liquidity of lightning'
+    + ' channels dropping below {threshold}%.',
+  listWatchesLightningLiquidityAbove: 'You are watching the outbound liquidity of lightning'
+    + ' channels rising above {threshold}%.',
+  listWatchesLightningChannelLiquidityBelow: 'You are watching the outbound liquidity of'
+    + ' {channel} dropping below {threshold}%.',
+  listWatchesLightningChannelLiquidityAbove: 'You are watching the outbound liquidity of'
+    + ' {channel} rising above {threshold}%.',
+  listWatchesTransactions: 'You are watching the following transactions:',
+  listWatchesAddresses: 'You are watching the following addresses:',
+  listWatchesWallets: 'You are watching the following wallets:',
+  listWatchesOutpoints: 'You are watching the following outputs:',
+  listWatchesTimelocks: 'You are watching the following timelocks:',
+  settingsSingleValue: 'Please specify a single value.',
+  settingsLanguage: 'Language: {language}',
+  settingsLanguageDefault: '{language} (as your telegram app)',
+  settingsTimeZone: 'Timezone: {timeZone}',
+  settingsLocale: 'Locale: {locale}',
+  settingsNumbers: 'Numbers: {numberFormat}',
+  settingsNumbersDefault: 'as the locale',
+  settingsDatesExample: 'Dates look like: {date}',
+  settingsAmountsExample: 'Amounts look like: 丰{amount}',
+  settingsInvalidLanguage: 'Please specify one of: {languages} or reset.',
+  settingsLanguageChanged: 'Woof! I will talk to you in English.',
+  settingsInvalidTimeZone: 'Please specify an IANA timezone name, like "/settings timezone'
+    + ' Europe/Berlin".',
+  settingsTimeZoneChanged: 'Woof! Dates will be displayed in {timeZone}.',
+  settingsInvalidLocale: 'Please specify a supported locale, like "/settings locale de-DE".',
+  settingsLocaleChanged: 'Woof! Dates and amounts will be displayed for the {locale} locale.',
+  settingsInvalidNumbers: 'Please specify one of: {numberFormats} or reset.',
+  settingsNumbersChanged: 'Woof! Amounts will look like 丰{amount}.',
+  settingsUnknownAction: 'Unknown action, call "/settings", "/settings language <language>",'
+    + ' "/settings timezone <timezone>", "/settings locale <locale>" or "/settings numbers'
+    + ' <comma|period|space>".',
+  // Notifications
+  blockCountOne: '{count} block',
+  blockCount: '{count} blocks',
+  newBlockCountOne: '{count} new block',
+  newBlockCount: '{count} new blocks',
+  confirmationCountOne: '{count} confirmation',
+  confirmationCount: '{count} confirmations',
+  aboutOneHour: 'about 1 hour',
+  aboutHours: 'about {hours} hours',
+  aboutDays: 'about {days} days',
+  linkViewAddress: 'View address',
+  linkViewTransaction: 'View transaction',
+  linkViewBlock: 'View block',
+  unknownBlock: 'unknown',
+  channelIdName: 'channel-id {channelId}',
+  transactionInMempool: 'This transaction is only in the mempool (has zero confirmations).',
+  transactionPartiallyConfirmed: 'This transaction has only {confirmations} and is not yet fully'
+    + ' confirmed.',
+  transactionFullyConfirmed: 'This transaction has {confirmations} and is fully confirmed.',
+  nodeHealthUnreachableLabel: 'unreachable',
+  nodeHealthFewPeersLabel: 'few peers',
+  nodeHealthSyncingLabel: 'syncing',
+  nodeHealthStaleTipLabel: 'no new blocks',
+  nodeHealthWarningsLabel: 'warnings',
+  nodeHealthUnreachable: 'it does not respond to rpc calls',
+  nodeHealthFewPeers: 'it is connected to only {peers} peers, fewer than {minPeers}',
+  nodeHealthInitialBlockDownload: 'it is in initial block download, at block {blocks} of'
+    + ' {headers}',
+  nodeHealthFellBehind: 'it fell behind, at block {blocks} of {headers}',
+  nodeHealthStaleTip: 'no new block arrived for {minutes} minutes',
+  nodeHealthWarnings: 'it warns: {warnings}',
+  rebootTitle: 'Server rebooted',
+  rebootBody: '⚠️ Woof! The server has rebooted, and some events might have been missed. If you'
+    + ' configured any watches for transactions or addresses, it is recommended to check them'
+    + ' manually.',
+  priceApiErrorsTitle: 'Price api errors',
+  priceApiErrorsBody: '⚠️ Woof! There are problems connecting to CoinGecko Api to get the price of'
+    + ' Bitcoin.',
+  priceApiResponsiveTitle: 'Price api is responsive again',
+  priceApiResponsiveBody: '💸 Woof! CoinGecko Api (to get the price of Bitcoin) is responsive'
+    + ' again after some time that it was not.',
+  priceIncreasedTitle: 'Bitcoin price increased',
+  priceDecreasedTitle: 'Bitcoin price decreased',
+  priceChangeBody: '{emoji} Woof! The price of Bitcoin on CoinGecko is {price}. I will check the'
+    + ' price every minute and let you know when the price goes below {min} or above {max}.',
+  newBlockTitle: 'New block',
+  newBlocksTitle: 'New blocks',
+  newBlockBody: '🧱 Woof! A new block was mined: {blocks}.',
+  newBlocksBody: '🧱 Woof! New blocks were mined: {blocks}.',
+  newBlockSummary: 'Block {block} at height {height} by {pool}: {transactions}, 丰{fees} of fees,'
+    + ' {fullness}% full',
+  newBlockUnknownPool: 'an unknown pool',
+  newBlockEmpty: 'empty',
+  newBlockTransactions: '{transactions} transactions',
+  timelockAtHeight: 'at height {lock}',
+  timelockAtTime: 'at {time}',
+  timelockOfCoinbaseOutput: 'of coinbase output {lock}',
+  timelockOfOutput: 'of output {lock}',
+  timelockMissingTitle: 'Timelocked output is missing',
+  timelockMissingBody: '⚠️ Woof! The timelock {timelock} can no longer mature, because its output'
+    + ' was spent or does not exist anymore. I stopped watching it.',
+  timelockMaturedTitle: 'Timelock matured',
+  timelockMaturedBody: '🔓 Woof! The timelock {timelock} has matured at height {height}, a'
+    + ' transaction that spends it can be included in the next block.',
+  timelockWarningTitle: 'Timelock matures soon',
+  timelockWarningHeightBody: '⏳ Woof! The timelock {timelock} matures in {blocks}, at height'
+    + ' {height}.',
+  timelockWarningTimeBody: '⏳ Woof! The timelock {timelock} matures in about {blocks}.',
+  reorgTitle: 'Chain reorganization',
+  reorgBody: '⛓️ Woof! A chain reorganization replaced {disconnectedBlocks} after block'
+    + ' {forkBlock} at height {forkHeight}. The old tip was block {oldTip} at height'
+    + ' {oldTipHeight}, and the new tip is block {newTip} at height {newTipHeight}, after'
+    + ' {connectedBlocks}.',
+  confirmationsLostBody: '⚠️ Woof! {subject} was mined in a block that was disconnected by a chain'
+    + ' reorganization, so it is no longer confirmed. I will let you know when it is confirmed'
+    + ' again.',
+  confirmationsLostTransactionTitle: 'Transaction lost its confirmations',
+  confirmationsLostTransaction: 'Transaction {transaction}',
+  confirmationsLostAddressPaymentTitle: 'Payment lost its confirmations',
+  confirmationsLostAddressPayment: 'The payment of address {address} by transaction {txid}',
+  confirmationsLostWalletPaymentTitle: 'Wallet payment lost its confirmations',
+  confirmationsLostWalletPayment: 'The payment of wallet {wallet} by transaction {txid}',
+  blocksSkippedTitle: 'Blocks were not analyzed',
+  blocksSkippedBody: '⚠️ Woof! It seems that your node was not synced for some time, and some'
+    + ' blocks were not analyzed. It is recommended to check the status of your addresses and'
+    + ' transactions manually.',
+  addressPaymentIncomingTitle: 'Incoming payment',
+  addressPaymentOutgoingTitle: 'Outgoing payment',
+  addressPaymentBody: 'Woof! {emoji} {payments} {confirmations}',
+  addressReceived: 'Address {address} has received 丰{amount} by transaction {txid}.',
+  addressReceiving: 'Address {address} is receiving 丰{amount} by transaction {txid}.',
+  addressSent: 'Address {address} has sent 丰{amount} by transaction {txid}.',
+  addressSending: 'Address {address} is sending 丰{amount} by transaction {txid}.',
+  addressMultisigWarning: '⚠️ Notice that one of the transaction outputs is an old m-of-n'
+    + ' non-P2SH multisig script, a format that is rarely used today, meaning that different'
+    + ' other addresses might be able to spend the funds.',
+  addressBalanceAboveTitle: 'Address balance above threshold',
+  addressBalanceBelowTitle: 'Address balance below threshold',
+  addressBalanceAboveBody: '📈 Woof! The confirmed balance of address {address} has risen above'
+    + ' 丰{threshold} and is now 丰{balance}.',
+  addressBalanceZeroBody: '📉 Woof! The confirmed balance of address {address} has dropped to'
+    + ' zero.',
+  addressBalanceBelowBody: '📉 Woof! The confirmed balance of address {address} has dropped to'
+    + ' 丰{threshold} or below and is now 丰{balance}.',
+  walletPaymentIncomingTitle: 'Incoming wallet payment',
+  walletPaymentOutgoingTitle: 'Outgoing wallet payment',
+  walletReceived: 'Woof! {emoji} Wallet {wallet} has received 丰{amount} by transaction {txid}.'
+    + ' {confirmations}',
+  walletReceiving: 'Woof! {emoji} Wallet {wallet} is receiving 丰{amount} by transaction {txid}.'
+    + ' {confirmations}',
+  walletSent: 'Woof! {emoji} Wallet {wallet} has sent 丰{amount} by transaction {txid}.'
+    + ' {confirmations}',
+  walletSending: 'Woof! {emoji} Wallet {wallet} is sending 丰{amount} by transaction {txid}.'
+    + ' {confirmations}',
+  outpointSpentTitle: 'Watched output was spent',
+  outpointSpendingTitle: 'Watched output is being spent',
+  outpointSpentBody: '🚨 Woof! The output {outpoint} of 丰{amount} was spent by transaction {txid}.'
+    + ' {confirmations} Its outputs:',
+  outpointSpendingBody: '🚨 Woof! The output {outpoint} of 丰{amount} is being spent by'
+    + ' transaction {txid}. {confirmations} Its outputs:',
+  nonStandardScript: 'non-standard script',
+  addressOverloadTitle: 'Address overload',
+  addressOverloadBody: '⚠️ Woof! Address {address} is being overloaded with transactions in the'
+    + ' last hours. I cannot track each one of them, please watch them manually.',
+  mempoolClearTitle: 'Mempool is clear',
+  mempoolClearBody: '🌚 Woof! The mempool is clear and all of its transactions could fit in the'
+    + ' next block. Now is a good time to publish low-fee transactions.',
+  mempoolNotClearTitle: 'Mempool is no longer clear',
+  mempoolNotClearBody: '🌝 Woof! The mempool is no longer clear and more than one block is needed'
+    + ' to confirm all of its transactions.',
+  feeRateBelowTitle: 'Fee rate dropped below {threshold} sat/vB',
+  feeRateAboveTitle: 'Fee rate rose above {threshold} sat/vB',
+  feeRateBelowBody: '📉 Woof! The fee rate to get into the next block is {feeRate} sat/vB, below'
+    + ' your target of {threshold} sat/vB.',
+  feeRateAboveBody: '📈 Woof! The fee rate to get into the next block is {feeRate} sat/vB, above'
+    + ' your target of {threshold} sat/vB.',
+  whaleTitle: 'Whale transaction',
+  whaleBody: '🐋 Woof! Transaction {txid} in the mempool moves 丰{amount} and pays a fee of'
+    + ' 丰{fee} ({feeRate} sat/vB). It is above your whale alert because {reasons}.',
+  whaleReasonsSeparator: ' and ',
+  whaleAmountReason: 'it moves more than 丰{amount}',
+  whaleFeeReason: 'its fee is more than 丰{fee}',
+  whaleFeeRateReason: 'its fee rate is more than {feeRate} sat/vB',
+  whalePaused: 'You got {count} whale alerts within the last hour, so I will pause them for a'
+    + ' while to avoid spamming you.',
+  halvingCountdownTitle: 'Halving in {milestone}',
+  halvingCountdownBody: '⏳ Woof! The next halving is at height {height}, in {blocks} ({time}).'
+    + ' It is estimated at {date}.',
+  difficultyCountdownTitle: 'Difficulty adjustment in {milestone}',
+  difficultyCountdownBody: '⏳ Woof! The next difficulty adjustment is at height {height}, in'
+    + ' {blocks} ({time}). It is estimated at {date}.',
+  difficultyCountdownProjection: 'The projected difficulty change is {change}.',
+  difficultyAdjustedTitle: 'Difficulty adjusted',
+  difficultyAdjustedBody: '{emoji} Woof! The difficulty was adjusted at height {height} by'
+    + ' {change}, from {oldDifficulty} to {newDifficulty}.',
+  halvingTitle: 'Halving',
+  halvingBody: '🎉 Woof! The block subsidy was halved at height {height}, and is now 丰{subsidy}'
+    + ' per block.',
+  nodeName: 'Your Bitcoin node',
+  nodeNameVersion: 'Your Bitcoin node ({version})',
+  nodeHealthyTitle: 'Bitcoin node is healthy again',
+  nodeHealthyBody: '✅ Woof! {node} is healthy again.',
+  nodeHealthyStatus: 'It is connected to {peers} peers and synced to block {blocks}.',
+  nodeHealthTitle: 'Bitcoin node health',
+  nodeHealthBody: '🩺 Woof! {node} needs attention: {problems}.',
+  nodeHealthResolved: 'Resolved: {problems}.',
+  channelOpenedTitle: 'Lightning channel opened',
+  channelsOpenedTitle: 'Lightning channels opened',
+  channelOpenedBody: '🤝 Woof! A new lightning channel was opened: {channels}',
+  channelsOpenedBody: '🤝 Woof! New lightning channels were opened: {channels}',
+  channelClosedTitle: 'Lightning channel closed',
+  channelsClosedTitle: 'Lightning channels closed',
+  channelClosedBody: '🙌 Woof! A lightning channel was closed: {channels}',
+  channelsClosedBody: '🙌 Woof! Some lightning channels were closed: {channels}',
+  forwardsTitle: 'Lightning fees earned',
+  forwardsBody: '✨ Woof! You have earned lightning fees: {forwards}',
+  forward: '丰{fee} for forwarding 丰{amount} at {date} from {incomingChannel} to'
+    + ' {outgoingChannel}',
+  forwardsTooMany: '✨ Woof! There were too many forwardings at the same second to display here.',
+  invoicePaidTitle: 'Lightning payment received',
+  invoicePaidBody: `⚡ Woof! You have received a lightning payment of 丰{amount} at {date}
+Invoice Creation Time: {createdAt}`,
+  invoiceCreatedTitle: 'Lightning invoice created',
+  invoiceCreatedBody: `🧾 Woof! Your node has created an invoice for {amount} at {date}
+Invoice Expiration: {expiresAt}`,
+  invoiceAmount: '丰{amount}',
+  invoiceUnknownAmount: 'unknown amount',
+  invoiceDescription: 'Invoice Description:',
+  invoiceDescriptionEmpty: 'Invoice Description: empty',
+  liquidityTitle: 'Lightning channel liquidity',
+  liquidityBelowBody: '🪫 Woof! The outbound liquidity of {channel} dropped below {threshold}%:'
+    + ' {ratio}% (丰{balance} of 丰{capacity}) is on your side.',
+  liquidityAboveBody: '🔋 Woof! The outbound liquidity of {channel} rose above {threshold}%:'
+    + ' {ratio}% (丰{balance} of 丰{capacity}) is on your side.',
+  transactionUpdateTitle: 'Transaction update',
+  transactionMempool: 'Woof! Transaction {transaction} has been added to the mempool.',
+  transactionMined: '⛓️ Woof! Transaction {transaction} has been added to the blockchain in block'
+    + ' {blocks}.',
+  transactionConfirmed: '🚀 Woof! Transaction {transaction} has {confirmations} confirmations and'
+    + ' is now fully confirmed. It was mined in block {blocks}. I will no longer watch this'
+    + ' transaction.',
+  confirmationTargetTitle: 'Transaction confirmation target',
+  confirmationTargetBody: '🎯 Woof! Transaction {transaction} has {confirmations} and reached your'
+    + ' target of {target}.',
+  confirmationTargetLast: 'This was the last target, so I will no longer watch this transaction.',
+  confirmationTargetNext: 'The next target is {target} confirmations.',
+  feeBumpTitle: 'Transaction fee bump',
+  feeBumpBody: '⏫ Woof! Transaction {transaction} was replaced by {replacingTxid}, which pays the'
+    + ' same outputs with a higher fee.',
+  feeBumpHarmless: 'This is a harmless replace-by-fee bump.',
+  doubleSpendTitle: 'Double-spend attempt',
+  doubleSpendBody: '🚨 Woof! Transaction {replacingTxid} spends the same inputs of {transaction}'
+    + ' but does not pay the same outputs.',
+  doubleSpendRedirect: 'This is a double-spend attempt that redirects the funds elsewhere.',
+  conflictTitle: 'Conflicting transaction',
+  conflictBody: '⚠️ Woof! A new transaction was found trying to spend the same inputs of'
+    + ' {transaction}: {replacingTxid}. This could either mean a double-spend attempt or a legit'
+    + ' replace-by-fee.',
+  feeRateChange: 'The fee rate changed from {oldFeeRate} to {newFeeRate} sat/vB.',
+  cpfpTitle: 'Transaction CPFP bump',
+  cpfpBody: '⏫ Woof! Transaction {childTxid} spends an output of {transaction} and pays a higher'
+    + ' fee for both of them (child-pays-for-parent). The effective fee rate went from {feeRate}'
+    + ' to {effectiveFeeRate} sat/vB.',
+  evictedTitle: 'Transaction evicted',
+  evictedBody: '🗑️ Woof! Transaction {transaction} left the mempool without being mined.',
+  evictedExpiry: 'It stayed unconfirmed for longer than the mempool expiry of two weeks.',
+  evictedMinFee: 'Its fee rate of {feeRate} sat/vB is below the minimal fee rate of the full'
+    + ' mempool, {minFeeRate} sat/vB.',
+  evictedUnknown: 'The node did not tell why it was removed.',
+  evictedRebroadcastHex: 'It can still be mined if you rebroadcast its raw transaction below, or'
+    + ' replace it with a higher fee.',
+  evictedRebroadcastWallet: 'It can still be mined if you rebroadcast it from your wallet, or'
+    + ' replace it with a higher fee.',
+  // Command replies
+  whoAmI: 'You are @{username}, telegram-id {telegramId}, local-id {id}',
+  about: `🐶 {appName} v{appVersion}
+Bitcoin node version: {nodeVersion}
+Bitcoin chain: {chain}
+{lnd}`,
+  aboutLndVersion: 'LND version: {version}',
+  aboutUnknownVersion: 'unknown',
+  aboutLndNotConnected: 'LND: not connected',
+  aboutFailed: 'Failed to get server info ({appName} v{appVersion}), server might still be'
+    + ' booting.',
+  tooManyParameters: 'Too many parameters',
+  invalidConfirmationTargets: 'Invalid confirmation targets - expected up to 10 comma-separated'
+    + ' counts like "1,3,6".',
+  invalidTransactionId: 'Invalid transaction id - expected 64 hex chars in lowercase.',
+  transactionNicknameTooLong: 'The transaction nickname is too long.',
+  transactionNicknameTaken: 'You have already given the same nickname to another transaction that'
+    + ' you watch.',
+  transactionAlreadyWatched: 'You are already watching this transaction. See:'
+    + ' {listWatchesCommand}',
+  transactionAnalyzing: 'Analyzing the transaction and looking for conflicts in the recent blocks.'
+    + ' Please hodl.',
+  transactionNotFound: 'I could not find any details on this transaction-id in the mempool or on'
+    + ' the blockchain. I will let you know when it is found.',
+  transactionFoundInMempool: 'The transaction was found in the mempool.',
+  transactionHasConfirmations: 'The transaction has {confirmations}.',
+  transactionMinedInBlock: 'It was mined in block {blocks}.',
+  transactionAlreadyConfirmed: '🚀 This transaction already has {confirmations} confirmations and'
+    + ' is fully confirmed.',
+  transactionAlreadyConfirmedUnwatched: '🚀 This transaction already has {confirmations}'
+    + ' confirmations and is fully confirmed, so there is no need to watch it anymore.',
+  transactionPendingTargets: 'I will let you know when it reaches {targets} confirmations.',
+  transactionConflict: '\n🚨 The following transaction was also found trying to spend the same'
+    + ' inputs: {txids}. This could either mean a double-spend attempt or a legit replace-by-fee.',
+  transactionConflicts: '\n🚨 The following transactions were also found trying to spend the same'
+    + ' inputs: {txids}. This could either mean a double-spend attempt or a legit replace-by-fee.',
+  transactionNoConflicts: 'No contradicting transactions were found (i.e. double-spend attempts).',
+  transactionWatchFailed: '⚠️ Woof! Failed to initialize transaction watch.',
+  noMatchingTransactions: 'No matching transactions were found. See {listWatchesCommand}.',
+  transactionWatchRemoved: '{count} transaction-watch was removed.',
+  transactionWatchesRemoved: '{count} transaction-watches were removed.',
+  invalidAddress: 'Invalid address.',
+  addressNicknameTooLong: 'The address nickname is too long.',
+  addressNicknameTaken: 'You have already given the same nickname to another address that you'
+    + ' watch.',
+  addressAlreadyWatched: 'You are already watching this address. See: {listWatchesCommand}',
+  addressesAlreadyWatched: 'You are already watching all of these addresses. See:'
+    + ' {listWatchesCommand}',
+  someAddressesAlreadyWatched: 'You are already watching some of these addresses. See:'
+    + ' {listWatchesCommand}',
+  addressWatchStarted: 'Started watching the address. I will let you know when incoming'
+    + ' transactions to this address or outgoing transactions from this address appear in the'
+    + ' mempool and in the blockchain.',
+  addressesWatchStarted: 'Started watching the addresses. I will let you know when incoming'
+    + ' transactions to these addresses or outgoing transactions from these addresses appear in the'
+    + ' mempool and in the blockchain.',
+  noMatchingAddresses: 'No matching addresses were found. See {listWatchesCommand}.',
+  addressWatchRemoved: '{count} address-watch was removed.',
+  addressWatchesRemoved: '{count} address-watches were removed.',
+  invalidWalletKey: 'Invalid extended public key or descriptor. Only ranged single-key descriptors'
+    + ' (pkh, sh(wpkh), wpkh and tr, ending with /<0;1>/*) of the network of the server are'
+    + ' supported.',
+  walletNicknameTooLong: 'The wallet nickname is too long.',
+  walletNicknameTaken: 'You have already given the same nickname to another wallet that you'
+    + ' watch.',
+  walletAlreadyWatched: 'You are already watching this wallet. See: {listWatchesCommand}',
+  walletWatchStarted: 'Started watching the wallet. I will let you know when incoming transactions'
+    + ' appear in the mempool and in the blockchain, and when outgoing transactions appear in the'
+    + ' blockchain. Only payments to the first unused addresses are found, so if the wallet has'
+    + ' already used many addresses, the older ones might be missed.',
+  walletsWatchStarted: 'Started watching the wallets. I will let you know when incoming'
+    + ' transactions appear in the mempool and in the blockchain, and when outgoing transactions'
+    + ' appear in the blockchain. Only payments to the first unused addresses are found, so if the'
+    + ' wallet has already used many addresses, the older ones might be missed.',
+  noMatchingWallets: 'No matching wallets were found. See {listWatchesCommand}.',
+  walletWatchRemoved: '{count} wallet-watch was removed.',
+  walletWatchesRemoved: '{count} wallet-watches were removed.',
+  invalidOutpoint: 'Invalid output - expected a transaction id and an output index, like'
+    + ' "<txid>:0".',
+  outpointNicknameTooLong: 'The output nickname is too long.',
+  outpointNicknameTaken: 'You have already given the same nickname to another output that you'
+    + ' watch.',
+  outpointAlreadyWatched: 'You are already watching this output. See: {listWatchesCommand}',
+  outpointUnavailable: 'The output {outpoint} is either already spent (also by a transaction in the'
+    + ' mempool) or does not exist, so there is nothing to watch.',
+  outpointWatchStarted: 'Started watching the output of 丰{amount}. I will let you know as soon as'
+    + ' a transaction that spends it appears in the mempool or in the blockchain.',
+  outpointsWatchStarted: 'Started watching the outputs of 丰{amount}. I will let you know as soon'
+    + ' as a transaction that spends any of them appears in the mempool or in the blockchain.',
+  noMatchingOutpoints: 'No matching outputs were found. See {listWatchesCommand}.',
+  outpointWatchRemoved: '{count} output-watch was removed.',
+  outpointWatchesRemoved: '{count} output-watches were removed.',
+  priceChangeWatchSyntax: `Syntax: "/watch price-change <price-delta-in-usd>"
+i.e. To get a notification when the price changes by $1000, use "/watch price-change 1000".`,
+  invalidPositiveInteger: 'Invalid value, must be a positive integer. Try using only digits, and'
+    + ' avoid commas and other symbols.',
+  priceChangeWatchStarted: 'The current price on CoinGecko is {price}. I will check the price'
+    + ' every minute and let you know when the price goes below {min} or above {max}.',
+  priceChangeWatchPriceUnavailable: 'Price watch has been set, but there seems to be a problem'
+    + ' fetching the price from CoinGecko.',
+  priceChangeWatchStopped: 'Stopped watching price changes.',
+  linksNotReply: 'Use this command as a reply to a previous command.',
+  linksNotFound: 'No addresses, transaction-ids or block-hashes were found in that message.',
+  links: `Here are the links to the addresses, transactions and blocks in that message:
+{links}`,
+  webhooksEmpty: 'You have no webhooks. To add one, call "/webhooks add <url>".',
+  webhooksList: 'Your webhooks:',
+  webhookSecret: 'Secret: ',
+  webhookInvalidUrl: 'Please specify a single url that starts with http:// or https://',
+  webhookExists: 'You already have this webhook.',
+  webhooksLimit: 'You cannot have more than {count} webhooks.',
+  webhookAdded: 'Woof! Your notifications will also be sent as JSON POST requests to this url.'
+    + ' Each request has an X-WoofBot-Signature header with the HMAC-SHA256 of'
+    + ' "<X-WoofBot-Timestamp header>.<raw body>", using this secret:',
+  webhookTestHint: 'To send a test event, call "/webhooks test".',
+  webhooksRemoveSyntax: 'Please specify the urls of the webhooks that you want to remove.',
+  webhookRemoved: 'Removed webhook {urls}.',
+  webhooksRemoved: 'Removed webhooks {urls}.',
+  webhooksTestEmpty: 'You have no webhooks to test.',
+  webhookTested: 'Woof! A test event was sent to your webhook.',
+  webhooksTested: 'Woof! A test event was sent to your webhooks.',
+  webhooksUnknownAction: 'Unknown action, call "/webhooks", "/webhooks add <url>", "/webhooks'
+    + ' remove <url>" or "/webhooks test".',
+  nostrRelaysWarning: 'Note that the bot administrator has not configured any Nostr relays yet,'
+    + ' so the messages will wait until they do.',
+  nostrEmpty: 'You have no Nostr public key. To receive your notifications as Nostr direct'
+    + ' messages, call "/nostr set <npub>".',
+  nostrStatus: 'Your notifications are also sent as {encryption} encrypted direct messages to:',
+  nostrFrom: 'From:',
+  nostrInvalidPublicKey: 'Please specify your npub (or hex public key), optionally followed by the'
+    + ' encryption ({encryptions}, the default is {defaultEncryption}).',
+  nostrSet: 'Woof! Your notifications will also be sent as Nostr direct messages from:',
+  nostrTestHint: 'To send a test message, call "/nostr test".',
+  nostrRemoveEmpty: 'You have no Nostr public key.',
+  nostrRemoved: 'Woof! Your notifications will no longer be sent to Nostr.',
+  nostrTestEmpty: 'You have no Nostr public key to test.',
+  nostrTested: 'Woof! A test message was sent to your Nostr public key.',
+  nostrUnknownAction: 'Unknown action, call "/nostr", "/nostr set <npub>", "/nostr remove" or'
+    + ' "/nostr test".',
+  emailServerWarning: 'Note that the bot administrator has not configured an email server yet, so'
+    + ' the emails will wait until they do.',
+  emailEmpty: 'You have no email address. To receive your notifications by email, call "/email'
+    + ' set <address>".',
+  emailStatus: 'Your notifications are also sent by email to {emailAddress}.',
+  emailInvalidAddress: 'Please specify a single email address.',
+  emailVerificationSent: 'Woof! A verification code was sent to {emailAddress}. To confirm the'
+    + ' address, call "/email verify <code>".',
+  emailVerifyEmpty: 'There is no email address to verify, call "/email set <address>" first.',
+  emailWrongCode: 'Wrong verification code, please check the email that was sent to'
+    + ' {emailAddress}.',
+  emailVerificationThrottled: 'A verification code was sent recently, please wait {minutes}'
+    + ' minutes before asking for another one.',
+  emailVerificationExpired: 'The verification code has expired, call "/email set <address>" to'
+    + ' get a new one.',
+  emailTooManyWrongCodes: 'Too many wrong verification codes, call "/email set <address>" to get'
+    + ' a new one.',
+  emailVerified: 'Woof! Your notifications will also be sent by email to {emailAddress}.',
+  emailRemoveEmpty: 'You have no email address.',
+  emailRemoved: 'Woof! Your notifications will no longer be sent by email.',
+  emailTestEmpty: 'You have no email address to test.',
+  emailTested: 'Woof! A test email was sent to {emailAddress}.',
+  emailUnknownAction: 'Unknown action, call "/email", "/email set <address>", "/email verify'
+    + ' <code>", "/email remove" or "/email test".',
+  matrixEmpty: 'You have no Matrix user. To receive your notifications in a Matrix room, call'
+    + ' "/matrix set <@user:homeserver>".',
+  matrixStatus: 'Your notifications are also sent to {matrixUserId} in the Matrix room'
+    + ' {matrixRoomId}.',
+  matrixInvalidUserId: 'Please specify a single Matrix user id, i.e. @alice:example.org.',
+  matrixNotConfigured: 'The bot administrator has not configured a Matrix account yet.',
+  matrixRoomFailed: 'Failed to create a Matrix room and invite {matrixUserId}, please try again'
+    + ' later.',
+  matrixInvited: 'Woof! {matrixUserId} was invited to a new Matrix room, accept the invitation to'
+    + ' receive your notifications there.',
+  matrixRemoveEmpty: 'You have no Matrix user.',
+  matrixRemoved: 'Woof! Your notifications will no longer be sent to Matrix.',
+  matrixTestEmpty: 'You have no Matrix room to test.',
+  matrixTested: 'Woof! A test message was sent to {matrixUserId} in Matrix.',
+  matrixUnknownAction: 'Unknown action, call "/matrix", "/matrix set <@user:homeserver>", "/matrix'
+    + ' remove" or "/matrix test".',
+  timelockStatusMatured: 'matured',
+  timelockStatusMaturityHeight: 'matures at height {height}',
+  timelockStatusMaturityTime: 'matures at {date} median time',
+  timelockStatusUnconfirmed: 'output unconfirmed',
+  outpointSpentBy: '(spent by {txid})',
+  balanceAlertAbove: 'above 丰{amount}',
+  balanceAlertBelow: 'below 丰{amount}',
+  balanceNotScanned: 'not scanned yet',
+  balanceUnconfirmed: '({amounts} unconfirmed)',
+  balanceAlerts: ', alerts {alerts}',
+  balanceNoAddresses: 'You are not watching any addresses. See: {command}',
+  balanceList: 'The confirmed balances of your watched addresses:',
+  noMatchingAddress: 'No matching address was found. See {listWatchesCommand}.',
+  balanceInvalidThreshold: 'Please specify the threshold in BTC, i.e. "{command}".',
+  balanceAboveWatchStarted: 'Woof! I will let you know when the confirmed balance of {address}'
+    + ' rises above 丰{amount}.',
+  balanceBelowWatchStarted: 'Woof! I will let you know when the confirmed balance of {address}'
+    + ' drops to 丰{amount} or below.',
+  balanceAlreadyAbove: '⚠️ Notice that the confirmed balance is already above it: 丰{balance}.',
+  balanceAlreadyBelow: '⚠️ Notice that the confirmed balance is already at or below it:'
+    + ' 丰{balance}.',
+  balanceWatchStopped: 'Woof! The balance alerts of {address} were removed.',
+  balanceUnknownAction: 'Unknown action, call "/balance", "/balance <address-or-nickname>",'
+    + ' "/balance <address-or-nickname> above <btc>", "/balance <address-or-nickname> below <btc>"'
+    + ' or "/balance <address-or-nickname> off".',
+  goodbye: 'Woof! Goodbye.',
+  messageDelayed: 'The following message has been sent with delay due to networking issues:\n\n',
+};
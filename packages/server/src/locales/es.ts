@@ -0,0 +1,795 @@
+import { MessageCatalog } from '../helpers/i18n';
+
+export const spanishMessages: MessageCatalog = {
+  start: `🐶 Bienvenido a {appName}, tu bot personal de telegram que te enviará notificaciones\
+ personalizadas.
+Por ejemplo, para recibir una notificación cada vez que el servidor se reinicie, llama a\
+ /watch reboot.
+Para quitar esta configuración, llama a /unwatch reboot.
+Para ver la lista de todos los comandos, llama a /help.`,
+  alreadyRegistered: 'Ya estás registrado. Para más información, llama a /help.',
+  restricted: 'Tienes restringido el acceso a este bot. Por favor, pide al administrador del bot'
+    + ' que te añada a la lista de usuarios permitidos o que aumente el número máximo de usuarios'
+    + ' que el bot puede atender.',
+  notFound: '¡Guau! Llama primero a /start.',
+  notPermitted: '👮 Lo siento, no tienes permiso para ejecutar este comando. Por favor, pide al'
+    + ' administrador del bot que añada tu usuario a uno de los grupos de permisos del comando.',
+  chatPending: '🐶 ¡Guau! Este chat está esperando la aprobación del administrador del bot antes de'
+    + ' poder vigilar eventos.',
+  chatApproved: `🐶 ¡Guau! El administrador del bot ha aprobado este chat.
+Los administradores de este chat ya pueden llamar a /watch aquí, después de registrarse llamando a\
+ /start en un chat privado conmigo.`,
+  chatRejected: 'Lo siento, el administrador del bot no ha aprobado este chat.',
+  chatPrivateCommand: '¡Guau! Este comando solo está disponible en un chat privado conmigo.',
+  chatIssuerNotFound: '¡Guau! Para gestionar las vigilancias de este chat, llama primero a /start'
+    + ' en un chat privado conmigo.',
+  chatIssuerNotAdministrator: '👮 Lo siento, solo los administradores de este chat pueden'
+    + ' gestionar sus vigilancias.',
+  help: '¡Guau! Estos son los comandos para los que fui entrenado:',
+  woof: '¡Guau Guau!',
+  unknownCommand: '¡Guau! No fui entrenado para este comando. Consulta /help.',
+  notUnderstood: '¡Guau! No te he entendido. Consulta /help.',
+  watchPrompt: '¿De qué eventos te gustaría recibir notificaciones?',
+  unwatchPrompt: '¿Qué vigilancias te gustaría cancelar?',
+  unwatchPromptTruncated: '¿Qué vigilancias te gustaría cancelar? No aparecen todas, llama a'
+    + ' "{transactionCommand}" o "{addressesCommand}" para cancelar el resto.',
+  unrecognizedWatch: 'Nombre de evento a vigilar no reconocido',
+  unrecognizedUnwatch: 'Nombre de evento a dejar de vigilar no reconocido',
+  watchAlreadyRemoved: 'Esta vigilancia ya fue eliminada.',
+  notWatchingAnything: 'No estás vigilando nada.',
+  lndNotConfigured: 'Lo siento, la integración con LND no está configurada.',
+  rebootWatchStarted: 'Empecé a vigilar los reinicios.',
+  rebootWatchStopped: 'Dejé de vigilar los reinicios.',
+  newBlocksWatchStarted: 'Empecé a vigilar los bloques nuevos. La altura del mejor bloque es:'
+    + ' {height}.',
+  newBlocksWatchStartedPools: 'Empecé a vigilar los bloques nuevos que coinciden con: {pools}. La'
+    + ' altura del mejor bloque es: {height}.',
+  newBlocksWatchInvalidPool: 'Pool de minería desconocido "{pool}". Usa cualquiera de: {pools},'
+    + ' "empty" para bloques vacíos o "unknown" para bloques de pools no reconocidos.',
+  newBlocksWatchStopped: 'Dejé de vigilar los bloques nuevos.',
+  reorgWatchStarted: 'Empecé a vigilar las reorganizaciones de la cadena.',
+  reorgWatchStopped: 'Dejé de vigilar las reorganizaciones de la cadena.',
+  difficultyWatchStarted: 'Empecé a vigilar los ajustes de dificultad.',
+  difficultyCountdown: 'El próximo ajuste es en la altura {height}, dentro de {blocks} bloques,'
+    + ' estimado para el {date}, con un cambio proyectado de {change}.',
+  difficultyWatchStopped: 'Dejé de vigilar los ajustes de dificultad.',
+  halvingWatchStarted: 'Empecé a vigilar los halvings.',
+  halvingCountdown: 'El próximo halving es en la altura {height}, dentro de {blocks} bloques,'
+    + ' estimado para el {date}.',
+  halvingWatchStopped: 'Dejé de vigilar los halvings.',
+  mempoolClearWatchStartedClear: 'La mempool está despejada. Te avisaré cuando las transacciones'
+    + ' de la mempool ya no quepan en un solo bloque (sin espacio para transacciones con comisiones'
+    + ' bajas).',
+  mempoolClearWatchStartedNotClear: 'La mempool no está despejada. Te avisaré cuando las'
+    + ' transacciones de la mempool quepan en un solo bloque y haya espacio para transacciones con'
+    + ' comisiones bajas.',
+  mempoolClearWatchStopped: 'Dejé de vigilar el despeje de la mempool.',
+  feeRateWatchSyntax: `Sintaxis: "/watch fee-rate <below|above> <sat/vB>"
+Por ejemplo, para recibir una notificación cuando la tasa de comisión del siguiente bloque baje de\
+ 5 sat/vB, usa "/watch fee-rate below 5".`,
+  feeRateWatchInvalid: 'Valor inválido, debe ser un número positivo de sat/vB.',
+  feeRateWatchStartedBelow: 'Te avisaré cuando la tasa de comisión para entrar en el siguiente'
+    + ' bloque baje de {threshold} sat/vB.',
+  feeRateWatchStartedAbove: 'Te avisaré cuando la tasa de comisión para entrar en el siguiente'
+    + ' bloque suba de {threshold} sat/vB.',
+  feeRateCurrent: 'Ahora mismo es de {feeRate} sat/vB.',
+  feeRateUnwatchSyntax: 'Sintaxis: "/unwatch fee-rate [below|above]"',
+  feeRateWatchStopped: 'Dejé de vigilar la tasa de comisión.',
+  whalesWatchSyntax: `Sintaxis: "/watch whales <amount|fee|fee-rate> <umbral>"
+El monto y la comisión van en BTC y la tasa de comisión en sat/vB. Por ejemplo, para recibir una\
+ notificación cuando una transacción de la mempool mueva más de 100 BTC, usa\
+ "/watch whales amount 100".`,
+  whalesWatchInvalid: 'Valor inválido, debe ser un monto positivo de BTC, o de sat/vB para la tasa'
+    + ' de comisión.',
+  whalesWatchStartedAmount: 'Te avisaré cuando una transacción de la mempool mueva más de'
+    + ' 丰{threshold}.',
+  whalesWatchStartedFee: 'Te avisaré cuando una transacción de la mempool pague una comisión de'
+    + ' más de 丰{threshold}.',
+  whalesWatchStartedFeeRate: 'Te avisaré cuando una transacción de la mempool pague una tasa de'
+    + ' comisión de más de {threshold} sat/vB.',
+  whalesRateLimit: 'Para que no se convierta en spam, recibirás como máximo {maxAlerts} alertas de'
+    + ' ballenas por hora.',
+  whalesUnwatchSyntax: 'Sintaxis: "/unwatch whales [amount|fee|fee-rate]"',
+  whalesWatchStopped: 'Dejé de vigilar las ballenas.',
+  nodeHealthWatchSyntax: `Sintaxis: "/watch node-health [peers-mínimos]"
+El número mínimo de peers es {defaultMinPeers} por defecto. Por ejemplo, para recibir una\
+ notificación cuando tu nodo tenga menos de 8 peers, usa "/watch node-health 8".`,
+  nodeHealthWatchStarted: 'Te avisaré cuando tu nodo Bitcoin tenga menos de {minPeers} peers, se'
+    + ' quede atrás de la cadena, deje de recibir bloques nuevos o reporte advertencias, y cuando'
+    + ' vuelva a estar sano.',
+  nodeHealthWatchStopped: 'Dejé de vigilar la salud de tu nodo Bitcoin.',
+  timelocksWatchSyntax: `Sintaxis: "/watch timelocks height [apodo:]<altura> [bloques-aviso]",\
+ "/watch timelocks time [apodo:]<tiempo-unix|aaaa-mm-dd> [bloques-aviso]",\
+ "/watch timelocks csv [apodo:]<txid>:<vout> <bloques|duración> [bloques-aviso]" o\
+ "/watch timelocks coinbase [apodo:]<txid>:<vout> [bloques-aviso]"
+Por ejemplo, para recibir una notificación cuando una salida se pueda gastar 30 días después de\
+ confirmarse, usa "/watch timelocks csv <txid>:0 30d".`,
+  timelocksWatchNicknameTooLong: 'El apodo del timelock es demasiado largo.',
+  timelocksWatchInvalid: 'Timelock inválido, debe ser una altura de bloque, un tiempo unix o una'
+    + ' fecha posterior a 1985, o una salida con un bloqueo relativo de hasta 65535 bloques o unos'
+    + ' 388 días.',
+  timelocksWatchOutputMissing: 'La salida {outpoint} ya fue gastada (también por una transacción'
+    + ' en el mempool) o no existe, así que no hay nada que vigilar.',
+  timelocksWatchNotCoinbase: 'La salida {outpoint} no es una salida de una transacción coinbase.',
+  timelocksWatchAlreadyWatched: 'Ya estás vigilando este timelock, u otro timelock con el mismo'
+    + ' apodo. Ver: {command}',
+  timelocksWatchAlreadyMatured: 'Este timelock ya maduró, una transacción que lo gaste puede'
+    + ' incluirse en el próximo bloque.',
+  timelocksWatchStarted: 'Empecé a vigilar el timelock.',
+  timelocksMaturityHeight: 'Madura en la altura {height}, dentro de {blocks} bloques.',
+  timelocksMaturityTime: 'Madura cuando el tiempo medio de los bloques pase {date}, dentro de unos'
+    + ' {blocks} bloques.',
+  timelocksMaturityUnconfirmed: 'Su salida aún no está confirmada, así que sabré cuándo madura'
+    + ' una vez que se confirme.',
+  timelocksWarning: 'También te avisaré {warningBlocks} bloques antes.',
+  timelocksUnwatchNotFound: 'No se encontraron timelocks que coincidan. Ver {command}.',
+  timelocksWatchStopped: 'Vigilancias de timelocks eliminadas: {count}.',
+  lightningChannelsOpenedWatchStarted: 'Empecé a vigilar la apertura de nuevos canales lightning.',
+  lightningChannelsOpenedWatchStopped: 'Dejé de vigilar la apertura de nuevos canales lightning.',
+  lightningChannelsClosedWatchStarted: 'Empecé a vigilar el cierre de canales lightning.',
+  lightningChannelsClosedWatchStopped: 'Dejé de vigilar el cierre de canales lightning.',
+  lightningForwardsWatchStarted: 'Empecé a vigilar los reenvíos lightning.',
+  lightningForwardsWatchStopped: 'Dejé de vigilar los reenvíos lightning.',
+  lightningInvoicesCreatedWatchStarted: 'Empecé a vigilar la creación de facturas lightning.',
+  lightningInvoicesCreatedWatchStopped: 'Dejé de vigilar la creación de facturas lightning.',
+  lightningInvoicesPaidWatchStarted: 'Empecé a vigilar el pago de facturas lightning.',
+  lightningInvoicesPaidWatchStopped: 'Dejé de vigilar el pago de facturas lightning.',
+  lightningLiquidityWatchSyntax: `Sintaxis: "/watch lightning-liquidity <below|above> <porcentaje>\
+ [id-de-canal]"
+El porcentaje es la liquidez saliente de un canal, sobre su capacidad. p.ej. Para recibir una\
+ notificación cuando algún canal tenga menos del 10% de liquidez saliente, usa\
+ "/watch lightning-liquidity below 10".`,
+  lightningLiquidityWatchInvalid: 'Valor inválido, debe ser un porcentaje entre 0 y 100.',
+  lightningLiquidityUnknownChannel: 'Lo siento, no encontré el canal lightning {channelId}.',
+  lightningLiquidityWatchStartedBelow: 'Te avisaré cuando la liquidez saliente de alguno de tus'
+    + ' canales lightning baje de {threshold}%.',
+  lightningLiquidityWatchStartedAbove: 'Te avisaré cuando la liquidez saliente de alguno de tus'
+    + ' canales lightning suba de {threshold}%.',
+  lightningLiquidityChannelWatchStartedBelow: 'Te avisaré cuando la liquidez saliente de'
+    + ' {channel} baje de {threshold}%.',
+  lightningLiquidityChannelWatchStartedAbove: 'Te avisaré cuando la liquidez saliente de'
+    + ' {channel} suba de {threshold}%.',
+  lightningLiquidityUnwatchSyntax: 'Sintaxis: "/unwatch lightning-liquidity [below|above]'
+    + ' [id-de-canal]"',
+  lightningLiquidityWatchStopped: 'Dejé de vigilar la liquidez de los canales lightning.',
+  listWatchesReboot: 'Estás vigilando los reinicios del servidor.',
+  listWatchesNewBlocks: 'Estás vigilando los bloques nuevos.',
+  listWatchesNewBlocksPools: 'Estás vigilando los bloques nuevos que coinciden con: {pools}.',
+  listWatchesReorg: 'Estás vigilando las reorganizaciones de la cadena.',
+  listWatchesDifficulty: 'Estás vigilando los ajustes de dificultad.',
+  listWatchesHalving: 'Estás vigilando los halvings.',
+  listWatchesPriceChange: 'Estás vigilando los cambios de precio de {delta}.',
+  listWatchesMempoolClear: 'Estás vigilando que la mempool se despeje.',
+  listWatchesFeeRateBelow: 'Estás vigilando que la tasa de comisión del siguiente bloque baje de'
+    + ' {threshold} sat/vB.',
+  listWatchesFeeRateAbove: 'Estás vigilando que la tasa de comisión del siguiente bloque suba de'
+    + ' {threshold} sat/vB.',
+  listWatchesWhalesAmount: 'Estás vigilando las transacciones de la mempool que mueven más de'
+    + ' 丰{threshold}.',
+  listWatchesWhalesFee: 'Estás vigilando las transacciones de la mempool que pagan una comisión de'
+    + ' más de 丰{threshold}.',
+  listWatchesWhalesFeeRate: 'Estás vigilando las transacciones de la mempool que pagan una tasa de'
+    + ' comisión de más de {threshold} sat/vB.',
+  listWatchesNodeHealth: 'Estás vigilando la salud de tu nodo Bitcoin, con al menos {minPeers}'
+    + ' peers.',
+  listWatchesLightningChannelsOpened: 'Estás vigilando la apertura de canales lightning.',
+  listWatchesLightningChannelsClosed: 'Estás vigilando el cierre de canales lightning.',
+  listWatchesLightningForwards: 'Estás vigilando los reenvíos lightning.',
+  listWatchesLightningInvoicesCreated: 'Estás vigilando la creación de facturas lightning.',
+  listWatchesLightningInvoicesPaid: 'Estás vigilando el pago de facturas lightning.',
+  listWatchesLightningLiquidityBelow: 'Estás vigilando que la liquidez saliente de los canales'
+    + ' lightning baje de {threshold}%.',
+  listWatchesLightningLiquidityAbove: 'Estás vigilando que la liquidez saliente de los canales'
+    + ' lightning suba de {threshold}%.',
+  listWatchesLightningChannelLiquidityBelow: 'Estás vigilando que la liquidez saliente de'
+    + ' {channel} baje de {threshold}%.',
+  listWatchesLightningChannelLiquidityAbove: 'Estás vigilando que la liquidez saliente de'
+    + ' {channel} suba de {threshold}%.',
+  listWatchesTransactions: 'Estás vigilando las siguientes transacciones:',
+  listWatchesAddresses: 'Estás vigilando las siguientes direcciones:',
+  listWatchesWallets: 'Estás vigilando las siguientes billeteras:',
+  listWatchesOutpoints: 'Estás vigilando las siguientes salidas:',
+  listWatchesTimelocks: 'Estás vigilando los siguientes timelocks:',
+  settingsSingleValue: 'Por favor, indica un solo valor.',
+  settingsLanguage: 'Idioma: {language}',
+  settingsLanguageDefault: '{language} (como tu aplicación de telegram)',
+  settingsTimeZone: 'Zona horaria: {timeZone}',
+  settingsLocale: 'Configuración regional: {locale}',
+  settingsNumbers: 'Números: {numberFormat}',
+  settingsNumbersDefault: 'según la configuración regional',
+  settingsDatesExample: 'Las fechas se ven así: {date}',
+  settingsAmountsExample: 'Los importes se ven así: 丰{amount}',
+  settingsInvalidLanguage: 'Por favor, indica uno de: {languages} o reset.',
+  settingsLanguageChanged: '¡Guau! Te hablaré en español.',
+  settingsInvalidTimeZone: 'Por favor, indica el nombre de una zona horaria IANA, como "/settings'
+    + ' timezone Europe/Madrid".',
+  settingsTimeZoneChanged: '¡Guau! Las fechas se mostrarán en {timeZone}.',
+  settingsInvalidLocale: 'Por favor, indica una configuración regional compatible, como'
+    + ' "/settings locale es-ES".',
+  settingsLocaleChanged: '¡Guau! Las fechas y los importes se mostrarán según la configuración'
+    + ' regional {locale}.',
+  settingsInvalidNumbers: 'Por favor, indica uno de: {numberFormats} o reset.',
+  settingsNumbersChanged: '¡Guau! Los importes se verán así: 丰{amount}.',
+  settingsUnknownAction: 'Acción desconocida, llama a "/settings", "/settings language'
+    + ' <language>", "/settings timezone <timezone>", "/settings locale <locale>" o "/settings'
+    + ' numbers <comma|period|space>".',
+  'watchDescription.reboot': 'Recibe notificaciones cuando el servidor se reinicie.',
+  'watchDescription.transaction': 'Recibe notificaciones cuando una transacción aparezca en la'
+    + ' mempool, se confirme, se acelere con una comisión mayor (replace-by-fee o'
+    + ' child-pays-for-parent) o se intente gastar dos veces.',
+  'watchDescription.addresses': 'Recibe notificaciones cuando una transacción que envía a las'
+    + ' direcciones indicadas o que gasta desde ellas se añada a la mempool o se confirme.',
+  'watchDescription.wallets': 'Recibe notificaciones de los pagos entrantes y salientes de una'
+    + ' billetera, por su clave pública extendida o su descriptor de salida. Las direcciones nuevas'
+    + ' se siguen a medida que la billetera las usa.',
+  'watchDescription.outpoints': 'Recibe notificaciones en cuanto una transacción que gasta las'
+    + ' salidas indicadas (por ejemplo, monedas en almacenamiento en frío) se añade al mempool o se'
+    + ' confirma.',
+  'watchDescription.timelocks': 'Recibe notificaciones cuando maduren timelocks absolutos (CLTV)'
+    + ' o relativos (CSV), o cuando se puedan gastar salidas coinbase, con un aviso algunos bloques'
+    + ' antes.',
+  'watchDescription.price-change': 'Vigila los cambios del precio de Bitcoin (en USD).',
+  'watchDescription.new-blocks': 'Recibe notificaciones cuando se minen bloques nuevos, con el'
+    + ' pool que probablemente los minó, sus comisiones, su número de transacciones y qué tan'
+    + ' llenos están. Se pueden filtrar por pools de minería, "empty" o "unknown", por ejemplo'
+    + ' "/watch new-blocks foundryusa empty".',
+  'watchDescription.reorg': 'Recibe notificaciones cuando una reorganización de la cadena'
+    + ' reemplaza bloques. Las transacciones y direcciones vigiladas cuyos pagos pierden sus'
+    + ' confirmaciones se notifican de todos modos.',
+  'watchDescription.difficulty': 'Recibe una cuenta regresiva hasta el próximo ajuste de'
+    + ' dificultad con su cambio proyectado, un día y 100 bloques antes, y el cambio real cuando'
+    + ' ocurra.',
+  'watchDescription.halving': 'Recibe una cuenta regresiva hasta el próximo halving de la'
+    + ' subvención por bloque, un día y 100 bloques antes, y la nueva subvención cuando ocurra.',
+  'watchDescription.mempool-clear': 'Recibe notificaciones cuando todas las transacciones de la'
+    + ' mempool quepan en el siguiente bloque y sobre espacio, y cuando la mempool se vuelva a'
+    + ' llenar.',
+  'watchDescription.fee-rate': 'Recibe notificaciones cuando la tasa de comisión (en sat/vB)'
+    + ' necesaria para entrar en el siguiente bloque baje o suba de tus objetivos.',
+  'watchDescription.whales': 'Recibe notificaciones cuando una transacción de la mempool mueva un'
+    + ' monto grande, o pague una comisión o tasa de comisión inusualmente alta.',
+  'watchDescription.node-health': 'Recibe notificaciones cuando tu nodo Bitcoin tenga menos peers'
+    + ' de los que quieres (4 por defecto), se quede atrás de la cadena, deje de recibir bloques'
+    + ' nuevos o reporte advertencias, y cuando vuelva a estar sano.',
+  'watchDescription.lightning-channels-opened': 'Recibe notificaciones cuando se abran canales'
+    + ' lightning.',
+  'watchDescription.lightning-channels-closed': 'Recibe notificaciones cuando se cierren canales'
+    + ' lightning.',
+  'watchDescription.lightning-forwards': 'Recibe notificaciones cuando se reenvíen pagos lightning'
+    + ' a través de tu nodo.',
+  'watchDescription.lightning-invoices-created': 'Recibe notificaciones cuando tu nodo cree'
+    + ' facturas lightning.',
+  'watchDescription.lightning-invoices-paid': 'Recibe notificaciones cuando se paguen las facturas'
+    + ' lightning de tu nodo.',
+  'watchDescription.lightning-liquidity': 'Recibe notificaciones cuando la liquidez saliente de'
+    + ' tus canales lightning baje o suba de tus objetivos, en porcentaje de la capacidad del'
+    + ' canal.',
+  'watchParametersRequest.transaction': '¿Qué id de transacción quieres vigilar? Puedes indicar'
+    + ' solo el id, como:'
+    + ' "a1075db55d416d3ca199f55b6084e2115b9345e16c5cf302fc80e9d5fbf5d48d", o puedes añadir un'
+    + ' apodo, como:'
+    + ' "pizza_order:a1075db55d416d3ca199f55b6084e2115b9345e16c5cf302fc80e9d5fbf5d48d". El apodo'
+    + ' no debe contener espacios. Para recibir notificaciones en números de confirmaciones'
+    + ' concretos en lugar de los habituales, añádelos después de un espacio, como:'
+    + ' "pizza_order:a1075db55d416d3ca199f55b6084e2115b9345e16c5cf302fc80e9d5fbf5d48d 1,3,6".',
+  'unwatchParametersRequest.transaction': '¿Qué ids o apodos de transacciones ya no quieres'
+    + ' vigilar? Puedes indicar varios valores separados por espacios. También puedes indicar solo'
+    + ' el prefijo, con un "*" al final, como: "a1075db55d416d3c*".',
+  'watchParametersRequest.addresses': '¿Qué direcciones quieres vigilar? Puedes indicar solo la'
+    + ' dirección, como: "17SkEw2md5avVNyYgj6RiXuQKNwkXaxFyQ", o puedes añadir un apodo, como:'
+    + ' "pizza_guy:17SkEw2md5avVNyYgj6RiXuQKNwkXaxFyQ". Puedes indicar varios valores separados'
+    + ' por espacios. Los apodos no deben contener espacios.',
+  'unwatchParametersRequest.addresses': '¿Qué direcciones o apodos de direcciones ya no quieres'
+    + ' vigilar? Puedes indicar varios valores separados por espacios. También puedes indicar solo'
+    + ' el prefijo, con un "*" al final, como: "17SkEw2m*".',
+  'watchParametersRequest.wallets': '¿Qué billetera quieres vigilar? Puedes indicar una clave'
+    + ' pública extendida (xpub, ypub o zpub) o un descriptor de salida de una sola clave, como:'
+    + ' "wpkh([d34db33f/84h/0h/0h]xpub.../<0;1>/*)", y puedes añadir un apodo, como:'
+    + ' "savings:zpub...". El apodo no debe contener espacios.',
+  'unwatchParametersRequest.wallets': '¿Qué apodos o claves públicas extendidas de billeteras ya no'
+    + ' quieres vigilar? Puedes indicar varios valores separados por espacios.',
+  'watchParametersRequest.outpoints': '¿Qué salidas quieres vigilar? Puedes indicar el id de la'
+    + ' transacción y el índice de la salida, como:'
+    + ' "a1075db55d416d3ca199f55b6084e2115b9345e16c5cf302fc80e9d5fbf5d48d:0", o puedes añadir un'
+    + ' apodo, como: "vault:a1075db55d416d3ca199f55b6084e2115b9345e16c5cf302fc80e9d5fbf5d48d:0".'
+    + ' Puedes indicar varios valores separados por espacios. Los apodos no deben contener'
+    + ' espacios.',
+  'unwatchParametersRequest.outpoints': '¿Qué salidas o apodos de salidas ya no quieres vigilar?'
+    + ' Puedes indicar varios valores separados por espacios.',
+  'watchParametersRequest.timelocks': '¿Qué timelock quieres vigilar? Puedes indicar una altura'
+    + ' de bloque, como: "height 900000", un tiempo unix o una fecha, como: "time 2030-01-01", una'
+    + ' salida con un bloqueo relativo en bloques o como duración, como: "csv <txid>:0 144" o "csv'
+    + ' <txid>:0 30d", o una salida coinbase, como: "coinbase <txid>:0". Puedes añadir un apodo,'
+    + ' como: "height herencia:900000", y al final el número de bloques para el aviso, como:'
+    + ' "height 900000 12".',
+  'unwatchParametersRequest.timelocks': '¿Qué timelocks o apodos de timelocks ya no quieres'
+    + ' vigilar? Puedes indicar varios valores separados por espacios.',
+  'watchParametersRequest.price-change': '¿Qué cambio de precio (en USD) quieres vigilar?',
+  'watchParametersRequest.fee-rate': '¿Qué tasa de comisión (en sat/vB) quieres vigilar? Indica'
+    + ' "below" o "above" y el objetivo, como: "below 5" o "above 100".',
+  'watchParametersRequest.whales': '¿Qué ballenas quieres vigilar? Indica "amount" o "fee" y el'
+    + ' umbral en BTC, o "fee-rate" y el umbral en sat/vB, como: "amount 100", "fee 0.01" o'
+    + ' "fee-rate 500".',
+  'watchParametersRequest.lightning-liquidity': '¿Qué liquidez saliente (en porcentaje) quieres'
+    + ' vigilar? Indica "below" o "above", el objetivo y opcionalmente un id de canal, como:'
+    + ' "below 10" o "above 90 800000x1x0".',
+  'commandDescription.start': 'Te registra en el servidor.',
+  'commandDescription.help': 'Muestra ayuda sobre los comandos disponibles.',
+  'commandDescription.watch': 'Empieza a recibir notificaciones de eventos.',
+  'commandDescription.unwatch': 'Deja de recibir notificaciones de eventos.',
+  'commandDescription.links': 'Responde a un mensaje con este comando para recibir enlaces a los'
+    + ' bloques, direcciones y transacciones que se mencionan en ese mensaje.',
+  'commandDescription.listwatches': 'Lista todas tus vigilancias configuradas.',
+  'commandDescription.balance': 'Lista los saldos confirmados de tus direcciones vigiladas.'
+    + ' Llama a "/balance <address-or-nickname> above <btc>" o "/balance <address-or-nickname>'
+    + ' below <btc>" para recibir alertas cuando un saldo cruce un umbral, por ejemplo "below 0"'
+    + ' cuando baje a cero, o a "/balance <address-or-nickname> off" para quitar las alertas.',
+  'commandDescription.webhooks': 'Gestiona las urls de webhooks que reciben tus notificaciones'
+    + ' como peticiones POST de JSON firmadas. Llama a "/webhooks add <url>", "/webhooks remove'
+    + ' <url>" o "/webhooks test".',
+  'commandDescription.nostr': 'Recibe tus notificaciones también como mensajes directos cifrados'
+    + ' de Nostr. Llama a "/nostr set <npub>", "/nostr remove" o "/nostr test".',
+  'commandDescription.email': 'Recibe tus notificaciones también por correo electrónico. Llama a'
+    + ' "/email set <address>", "/email verify <code>", "/email remove" o "/email test".',
+  'commandDescription.matrix': 'Recibe tus notificaciones también en una sala de chat directo de'
+    + ' Matrix. Llama a "/matrix set <@user:homeserver>", "/matrix remove" o "/matrix test".',
+  'commandDescription.settings': 'Muestra y cambia el idioma y cómo se muestran las fechas y los'
+    + ' importes. Llama a "/settings language <language>", "/settings timezone <timezone>",'
+    + ' "/settings locale <locale>" o "/settings numbers <comma|period|space>", o usa "reset" en'
+    + ' lugar de un valor.',
+  'commandDescription.whoami': 'Responde con tu nombre de usuario y tus ids.',
+  'commandDescription.about': 'Responde con información del servidor.',
+  'commandDescription.quit': 'Te da de baja del servidor.',
+  // Notifications
+  blockCountOne: '{count} bloque',
+  blockCount: '{count} bloques',
+  newBlockCountOne: '{count} bloque nuevo',
+  newBlockCount: '{count} bloques nuevos',
+  confirmationCountOne: '{count} confirmación',
+  confirmationCount: '{count} confirmaciones',
+  aboutOneHour: 'aproximadamente 1 hora',
+  aboutHours: 'aproximadamente {hours} horas',
+  aboutDays: 'aproximadamente {days} días',
+  linkViewAddress: 'Ver dirección',
+  linkViewTransaction: 'Ver transacción',
+  linkViewBlock: 'Ver bloque',
+  unknownBlock: 'desconocido',
+  channelIdName: 'canal-id {channelId}',
+  transactionInMempool: 'Esta transacción solo está en la mempool (tiene cero confirmaciones).',
+  transactionPartiallyConfirmed: 'Esta transacción solo tiene {confirmations} y aún no está'
+    + ' completamente confirmada.',
+  transactionFullyConfirmed: 'Esta transacción tiene {confirmations} y está completamente'
+    + ' confirmada.',
+  nodeHealthUnreachableLabel: 'inaccesible',
+  nodeHealthFewPeersLabel: 'pocos peers',
+  nodeHealthSyncingLabel: 'sincronizando',
+  nodeHealthStaleTipLabel: 'sin bloques nuevos',
+  nodeHealthWarningsLabel: 'advertencias',
+  nodeHealthUnreachable: 'no responde a las llamadas rpc',
+  nodeHealthFewPeers: 'solo está conectado a {peers} peers, menos de {minPeers}',
+  nodeHealthInitialBlockDownload: 'está en la descarga inicial de bloques, en el bloque {blocks}'
+    + ' de {headers}',
+  nodeHealthFellBehind: 'se ha quedado atrás, en el bloque {blocks} de {headers}',
+  nodeHealthStaleTip: 'no ha llegado ningún bloque nuevo en {minutes} minutos',
+  nodeHealthWarnings: 'advierte: {warnings}',
+  rebootTitle: 'Servidor reiniciado',
+  rebootBody: '⚠️ ¡Guau! El servidor se ha reiniciado y es posible que se hayan perdido algunos'
+    + ' eventos. Si configuraste vigilancias de transacciones o direcciones, se recomienda'
+    + ' revisarlas manualmente.',
+  priceApiErrorsTitle: 'Errores de la api de precios',
+  priceApiErrorsBody: '⚠️ ¡Guau! Hay problemas al conectar con la Api de CoinGecko para obtener el'
+    + ' precio de Bitcoin.',
+  priceApiResponsiveTitle: 'La api de precios vuelve a responder',
+  priceApiResponsiveBody: '💸 ¡Guau! La Api de CoinGecko (para obtener el precio de Bitcoin)'
+    + ' vuelve a responder después de un tiempo sin hacerlo.',
+  priceIncreasedTitle: 'El precio de Bitcoin subió',
+  priceDecreasedTitle: 'El precio de Bitcoin bajó',
+  priceChangeBody: '{emoji} ¡Guau! El precio de Bitcoin en CoinGecko es {price}. Revisaré el'
+    + ' precio cada minuto y te avisaré cuando baje de {min} o suba de {max}.',
+  newBlockTitle: 'Bloque nuevo',
+  newBlocksTitle: 'Bloques nuevos',
+  newBlockBody: '🧱 ¡Guau! Se minó un bloque nuevo: {blocks}.',
+  newBlocksBody: '🧱 ¡Guau! Se minaron bloques nuevos: {blocks}.',
+  newBlockSummary: 'Bloque {block} a la altura {height} por {pool}: {transactions}, 丰{fees} de'
+    + ' comisiones, {fullness}% lleno',
+  newBlockUnknownPool: 'un pool desconocido',
+  newBlockEmpty: 'vacío',
+  newBlockTransactions: '{transactions} transacciones',
+  timelockAtHeight: 'a la altura {lock}',
+  timelockAtTime: 'a las {time}',
+  timelockOfCoinbaseOutput: 'de la salida coinbase {lock}',
+  timelockOfOutput: 'de la salida {lock}',
+  timelockMissingTitle: 'Falta la salida bloqueada en el tiempo',
+  timelockMissingBody: '⚠️ ¡Guau! El bloqueo temporal {timelock} ya no puede vencer, porque su'
+    + ' salida fue gastada o ya no existe. Dejé de vigilarlo.',
+  timelockMaturedTitle: 'Bloqueo temporal vencido',
+  timelockMaturedBody: '🔓 ¡Guau! El bloqueo temporal {timelock} venció a la altura {height}, una'
+    + ' transacción que lo gaste puede incluirse en el próximo bloque.',
+  timelockWarningTitle: 'El bloqueo temporal vence pronto',
+  timelockWarningHeightBody: '⏳ ¡Guau! El bloqueo temporal {timelock} vence en {blocks}, a la'
+    + ' altura {height}.',
+  timelockWarningTimeBody: '⏳ ¡Guau! El bloqueo temporal {timelock} vence en aproximadamente'
+    + ' {blocks}.',
+  reorgTitle: 'Reorganización de la cadena',
+  reorgBody: '⛓️ ¡Guau! Una reorganización de la cadena reemplazó {disconnectedBlocks} después'
+    + ' del bloque {forkBlock} a la altura {forkHeight}. La punta anterior era el bloque {oldTip}'
+    + ' a la altura {oldTipHeight}, y la nueva punta es el bloque {newTip} a la altura'
+    + ' {newTipHeight}, después de {connectedBlocks}.',
+  confirmationsLostBody: '⚠️ ¡Guau! {subject} se minó en un bloque que fue desconectado por una'
+    + ' reorganización de la cadena, así que ya no está confirmada. Te avisaré cuando vuelva a'
+    + ' estar confirmada.',
+  confirmationsLostTransactionTitle: 'La transacción perdió sus confirmaciones',
+  confirmationsLostTransaction: 'La transacción {transaction}',
+  confirmationsLostAddressPaymentTitle: 'El pago perdió sus confirmaciones',
+  confirmationsLostAddressPayment: 'El pago de la dirección {address} por la transacción {txid}',
+  confirmationsLostWalletPaymentTitle: 'El pago de la billetera perdió sus confirmaciones',
+  confirmationsLostWalletPayment: 'El pago de la billetera {wallet} por la transacción {txid}',
+  blocksSkippedTitle: 'Hay bloques sin analizar',
+  blocksSkippedBody: '⚠️ ¡Guau! Parece que tu nodo no estuvo sincronizado durante un tiempo y'
+    + ' algunos bloques no se analizaron. Se recomienda revisar manualmente el estado de tus'
+    + ' direcciones y transacciones.',
+  addressPaymentIncomingTitle: 'Pago entrante',
+  addressPaymentOutgoingTitle: 'Pago saliente',
+  addressPaymentBody: '¡Guau! {emoji} {payments} {confirmations}',
+  addressReceived: 'La dirección {address} ha recibido 丰{amount} por la transacción {txid}.',
+  addressReceiving: 'La dirección {address} está recibiendo 丰{amount} por la transacción {txid}.',
+  addressSent: 'La dirección {address} ha enviado 丰{amount} por la transacción {txid}.',
+  addressSending: 'La dirección {address} está enviando 丰{amount} por la transacción {txid}.',
+  addressMultisigWarning: '⚠️ Ten en cuenta que una de las salidas de la transacción es un antiguo'
+    + ' script multisig m-de-n no P2SH, un formato poco usado hoy en día, lo que significa que'
+    + ' otras direcciones podrían gastar los fondos.',
+  addressBalanceAboveTitle: 'Saldo de la dirección por encima del umbral',
+  addressBalanceBelowTitle: 'Saldo de la dirección por debajo del umbral',
+  addressBalanceAboveBody: '📈 ¡Guau! El saldo confirmado de la dirección {address} ha subido por'
+    + ' encima de 丰{threshold} y ahora es 丰{balance}.',
+  addressBalanceZeroBody: '📉 ¡Guau! El saldo confirmado de la dirección {address} ha bajado a'
+    + ' cero.',
+  addressBalanceBelowBody: '📉 ¡Guau! El saldo confirmado de la dirección {address} ha bajado a'
+    + ' 丰{threshold} o menos y ahora es 丰{balance}.',
+  walletPaymentIncomingTitle: 'Pago entrante de billetera',
+  walletPaymentOutgoingTitle: 'Pago saliente de billetera',
+  walletReceived: '¡Guau! {emoji} La billetera {wallet} ha recibido 丰{amount} por la transacción'
+    + ' {txid}. {confirmations}',
+  walletReceiving: '¡Guau! {emoji} La billetera {wallet} está recibiendo 丰{amount} por la'
+    + ' transacción {txid}. {confirmations}',
+  walletSent: '¡Guau! {emoji} La billetera {wallet} ha enviado 丰{amount} por la transacción'
+    + ' {txid}. {confirmations}',
+  walletSending: '¡Guau! {emoji} La billetera {wallet} está enviando 丰{amount} por la'
+    + ' transacción {txid}. {confirmations}',
+  outpointSpentTitle: 'La salida vigilada fue gastada',
+  outpointSpendingTitle: 'La salida vigilada se está gastando',
+  outpointSpentBody: '🚨 ¡Guau! La salida {outpoint} de 丰{amount} fue gastada por la transacción'
+    + ' {txid}. {confirmations} Sus salidas:',
+  outpointSpendingBody: '🚨 ¡Guau! La salida {outpoint} de 丰{amount} se está gastando por la'
+    + ' transacción {txid}. {confirmations} Sus salidas:',
+  nonStandardScript: 'script no estándar',
+  addressOverloadTitle: 'Dirección sobrecargada',
+  addressOverloadBody: '⚠️ ¡Guau! La dirección {address} está recibiendo una sobrecarga de'
+    + ' transacciones en las últimas horas. No puedo seguir cada una de ellas, por favor'
+    + ' vigílalas manualmente.',
+  mempoolClearTitle: 'La mempool está despejada',
+  mempoolClearBody: '🌚 ¡Guau! La mempool está despejada y todas sus transacciones cabrían en el'
+    + ' próximo bloque. Ahora es un buen momento para publicar transacciones con comisiones bajas.',
+  mempoolNotClearTitle: 'La mempool ya no está despejada',
+  mempoolNotClearBody: '🌝 ¡Guau! La mempool ya no está despejada y se necesita más de un bloque'
+    + ' para confirmar todas sus transacciones.',
+  feeRateBelowTitle: 'La tasa de comisión bajó de {threshold} sat/vB',
+  feeRateAboveTitle: 'La tasa de comisión superó {threshold} sat/vB',
+  feeRateBelowBody: '📉 ¡Guau! La tasa de comisión para entrar en el próximo bloque es {feeRate}'
+    + ' sat/vB, por debajo de tu objetivo de {threshold} sat/vB.',
+  feeRateAboveBody: '📈 ¡Guau! La tasa de comisión para entrar en el próximo bloque es {feeRate}'
+    + ' sat/vB, por encima de tu objetivo de {threshold} sat/vB.',
+  whaleTitle: 'Transacción de ballena',
+  whaleBody: '🐋 ¡Guau! La transacción {txid} en la mempool mueve 丰{amount} y paga una comisión'
+    + ' de 丰{fee} ({feeRate} sat/vB). Supera tu alerta de ballenas porque {reasons}.',
+  whaleReasonsSeparator: ' y ',
+  whaleAmountReason: 'mueve más de 丰{amount}',
+  whaleFeeReason: 'su comisión es de más de 丰{fee}',
+  whaleFeeRateReason: 'su tasa de comisión es de más de {feeRate} sat/vB',
+  whalePaused: 'Recibiste {count} alertas de ballenas en la última hora, así que las pausaré un'
+    + ' tiempo para no saturarte.',
+  halvingCountdownTitle: 'Halving en {milestone}',
+  halvingCountdownBody: '⏳ ¡Guau! El próximo halving es a la altura {height}, en {blocks}'
+    + ' ({time}). Se estima para el {date}.',
+  difficultyCountdownTitle: 'Ajuste de dificultad en {milestone}',
+  difficultyCountdownBody: '⏳ ¡Guau! El próximo ajuste de dificultad es a la altura {height}, en'
+    + ' {blocks} ({time}). Se estima para el {date}.',
+  difficultyCountdownProjection: 'El cambio de dificultad proyectado es {change}.',
+  difficultyAdjustedTitle: 'Dificultad ajustada',
+  difficultyAdjustedBody: '{emoji} ¡Guau! La dificultad se ajustó a la altura {height} en'
+    + ' {change}, de {oldDifficulty} a {newDifficulty}.',
+  halvingTitle: 'Halving',
+  halvingBody: '🎉 ¡Guau! El subsidio de bloque se redujo a la mitad a la altura {height}, y ahora'
+    + ' es 丰{subsidy} por bloque.',
+  nodeName: 'Tu nodo de Bitcoin',
+  nodeNameVersion: 'Tu nodo de Bitcoin ({version})',
+  nodeHealthyTitle: 'El nodo de Bitcoin vuelve a estar sano',
+  nodeHealthyBody: '✅ ¡Guau! {node} vuelve a estar sano.',
+  nodeHealthyStatus: 'Está conectado a {peers} peers y sincronizado hasta el bloque {blocks}.',
+  nodeHealthTitle: 'Salud del nodo de Bitcoin',
+  nodeHealthBody: '🩺 ¡Guau! {node} necesita atención: {problems}.',
+  nodeHealthResolved: 'Resuelto: {problems}.',
+  channelOpenedTitle: 'Canal lightning abierto',
+  channelsOpenedTitle: 'Canales lightning abiertos',
+  channelOpenedBody: '🤝 ¡Guau! Se abrió un nuevo canal lightning: {channels}',
+  channelsOpenedBody: '🤝 ¡Guau! Se abrieron nuevos canales lightning: {channels}',
+  channelClosedTitle: 'Canal lightning cerrado',
+  channelsClosedTitle: 'Canales lightning cerrados',
+  channelClosedBody: '🙌 ¡Guau! Se cerró un canal lightning: {channels}',
+  channelsClosedBody: '🙌 ¡Guau! Se cerraron algunos canales lightning: {channels}',
+  forwardsTitle: 'Comisiones lightning ganadas',
+  forwardsBody: '✨ ¡Guau! Has ganado comisiones lightning: {forwards}',
+  forward: '丰{fee} por reenviar 丰{amount} el {date} de {incomingChannel} a {outgoingChannel}',
+  forwardsTooMany: '✨ ¡Guau! Hubo demasiados reenvíos en el mismo segundo para mostrarlos aquí.',
+  invoicePaidTitle: 'Pago lightning recibido',
+  invoicePaidBody: `⚡ ¡Guau! Has recibido un pago lightning de 丰{amount} el {date}
+Fecha de creación de la factura: {createdAt}`,
+  invoiceCreatedTitle: 'Factura lightning creada',
+  invoiceCreatedBody: `🧾 ¡Guau! Tu nodo ha creado una factura por {amount} el {date}
+Vencimiento de la factura: {expiresAt}`,
+  invoiceAmount: '丰{amount}',
+  invoiceUnknownAmount: 'un importe desconocido',
+  invoiceDescription: 'Descripción de la factura:',
+  invoiceDescriptionEmpty: 'Descripción de la factura: vacía',
+  liquidityTitle: 'Liquidez del canal lightning',
+  liquidityBelowBody: '🪫 ¡Guau! La liquidez saliente de {channel} bajó de {threshold}%: {ratio}%'
+    + ' (丰{balance} de 丰{capacity}) está de tu lado.',
+  liquidityAboveBody: '🔋 ¡Guau! La liquidez saliente de {channel} subió de {threshold}%: {ratio}%'
+    + ' (丰{balance} de 丰{capacity}) está de tu lado.',
+  transactionUpdateTitle: 'Novedades de la transacción',
+  transactionMempool: '¡Guau! La transacción {transaction} se ha añadido a la mempool.',
+  transactionMined: '⛓️ ¡Guau! La transacción {transaction} se ha añadido a la cadena de bloques'
+    + ' en el bloque {blocks}.',
+  transactionConfirmed: '🚀 ¡Guau! La transacción {transaction} tiene {confirmations}'
+    + ' confirmaciones y ya está completamente confirmada. Se minó en el bloque {blocks}. Ya no'
+    + ' vigilaré esta transacción.',
+  confirmationTargetTitle: 'Objetivo de confirmaciones de la transacción',
+  confirmationTargetBody: '🎯 ¡Guau! La transacción {transaction} tiene {confirmations} y alcanzó'
+    + ' tu objetivo de {target}.',
+  confirmationTargetLast: 'Este era el último objetivo, así que ya no vigilaré esta transacción.',
+  confirmationTargetNext: 'El próximo objetivo es {target} confirmaciones.',
+  feeBumpTitle: 'Aumento de comisión de la transacción',
+  feeBumpBody: '⏫ ¡Guau! La transacción {transaction} fue reemplazada por {replacingTxid}, que'
+    + ' paga las mismas salidas con una comisión más alta.',
+  feeBumpHarmless: 'Es un aumento replace-by-fee inofensivo.',
+  doubleSpendTitle: 'Intento de doble gasto',
+  doubleSpendBody: '🚨 ¡Guau! La transacción {replacingTxid} gasta las mismas entradas que'
+    + ' {transaction} pero no paga las mismas salidas.',
+  doubleSpendRedirect: 'Es un intento de doble gasto que redirige los fondos a otro lugar.',
+  conflictTitle: 'Transacción en conflicto',
+  conflictBody: '⚠️ ¡Guau! Se encontró una nueva transacción que intenta gastar las mismas entradas'
+    + ' que {transaction}: {replacingTxid}. Esto puede ser un intento de doble gasto o un'
+    + ' replace-by-fee legítimo.',
+  feeRateChange: 'La tasa de comisión cambió de {oldFeeRate} a {newFeeRate} sat/vB.',
+  cpfpTitle: 'Aumento CPFP de la transacción',
+  cpfpBody: '⏫ ¡Guau! La transacción {childTxid} gasta una salida de {transaction} y paga una'
+    + ' comisión más alta por ambas (child-pays-for-parent). La tasa de comisión efectiva pasó de'
+    + ' {feeRate} a {effectiveFeeRate} sat/vB.',
+  evictedTitle: 'Transacción expulsada',
+  evictedBody: '🗑️ ¡Guau! La transacción {transaction} salió de la mempool sin ser minada.',
+  evictedExpiry: 'Permaneció sin confirmar más tiempo que la caducidad de la mempool de dos'
+    + ' semanas.',
+  evictedMinFee: 'Su tasa de comisión de {feeRate} sat/vB está por debajo de la tasa de comisión'
+    + ' mínima de la mempool llena, {minFeeRate} sat/vB.',
+  evictedUnknown: 'El nodo no indicó por qué fue eliminada.',
+  evictedRebroadcastHex: 'Todavía puede minarse si vuelves a difundir su transacción en bruto de'
+    + ' abajo, o si la reemplazas con una comisión más alta.',
+  evictedRebroadcastWallet: 'Todavía puede minarse si vuelves a difundirla desde tu billetera, o'
+    + ' si la reemplazas con una comisión más alta.',
+  // Command replies
+  whoAmI: 'Eres @{username}, telegram-id {telegramId}, id local {id}',
+  about: `🐶 {appName} v{appVersion}
+Versión del nodo de Bitcoin: {nodeVersion}
+Cadena de Bitcoin: {chain}
+{lnd}`,
+  aboutLndVersion: 'Versión de LND: {version}',
+  aboutUnknownVersion: 'desconocida',
+  aboutLndNotConnected: 'LND: no conectado',
+  aboutFailed: 'No se pudo obtener la información del servidor ({appName} v{appVersion}), puede'
+    + ' que el servidor aún se esté iniciando.',
+  tooManyParameters: 'Demasiados parámetros',
+  invalidConfirmationTargets: 'Objetivos de confirmación no válidos - se esperan hasta 10'
+    + ' cantidades separadas por comas como "1,3,6".',
+  invalidTransactionId: 'Id de transacción no válido - se esperan 64 caracteres hexadecimales en'
+    + ' minúsculas.',
+  transactionNicknameTooLong: 'El apodo de la transacción es demasiado largo.',
+  transactionNicknameTaken: 'Ya has dado el mismo apodo a otra transacción que vigilas.',
+  transactionAlreadyWatched: 'Ya estás vigilando esta transacción. Consulta:'
+    + ' {listWatchesCommand}',
+  transactionAnalyzing: 'Analizando la transacción y buscando conflictos en los bloques'
+    + ' recientes. Por favor, hodl.',
+  transactionNotFound: 'No encontré detalles de este id de transacción en la mempool ni en la'
+    + ' cadena de bloques. Te avisaré cuando se encuentre.',
+  transactionFoundInMempool: 'La transacción se encontró en la mempool.',
+  transactionHasConfirmations: 'La transacción tiene {confirmations}.',
+  transactionMinedInBlock: 'Se minó en el bloque {blocks}.',
+  transactionAlreadyConfirmed: '🚀 Esta transacción ya tiene {confirmations} confirmaciones y está'
+    + ' completamente confirmada.',
+  transactionAlreadyConfirmedUnwatched: '🚀 Esta transacción ya tiene {confirmations}'
+    + ' confirmaciones y está completamente confirmada, así que ya no hace falta vigilarla.',
+  transactionPendingTargets: 'Te avisaré cuando alcance {targets} confirmaciones.',
+  transactionConflict: '\n🚨 También se encontró la siguiente transacción intentando gastar las'
+    + ' mismas entradas: {txids}. Esto puede ser un intento de doble gasto o un replace-by-fee'
+    + ' legítimo.',
+  transactionConflicts: '\n🚨 También se encontraron las siguientes transacciones intentando'
+    + ' gastar las mismas entradas: {txids}. Esto puede ser un intento de doble gasto o un'
+    + ' replace-by-fee legítimo.',
+  transactionNoConflicts: 'No se encontraron transacciones contradictorias (es decir, intentos de'
+    + ' doble gasto).',
+  transactionWatchFailed: '⚠️ ¡Guau! No se pudo iniciar la vigilancia de la transacción.',
+  noMatchingTransactions: 'No se encontraron transacciones coincidentes. Consulta'
+    + ' {listWatchesCommand}.',
+  transactionWatchRemoved: 'Se eliminó {count} vigilancia de transacción.',
+  transactionWatchesRemoved: 'Se eliminaron {count} vigilancias de transacciones.',
+  invalidAddress: 'Dirección no válida.',
+  addressNicknameTooLong: 'El apodo de la dirección es demasiado largo.',
+  addressNicknameTaken: 'Ya has dado el mismo apodo a otra dirección que vigilas.',
+  addressAlreadyWatched: 'Ya estás vigilando esta dirección. Consulta: {listWatchesCommand}',
+  addressesAlreadyWatched: 'Ya estás vigilando todas estas direcciones. Consulta:'
+    + ' {listWatchesCommand}',
+  someAddressesAlreadyWatched: 'Ya estás vigilando algunas de estas direcciones. Consulta:'
+    + ' {listWatchesCommand}',
+  addressWatchStarted: 'Empecé a vigilar la dirección. Te avisaré cuando aparezcan en la mempool'
+    + ' y en la cadena de bloques transacciones entrantes o salientes de esta dirección.',
+  addressesWatchStarted: 'Empecé a vigilar las direcciones. Te avisaré cuando aparezcan en la'
+    + ' mempool y en la cadena de bloques transacciones entrantes o salientes de estas'
+    + ' direcciones.',
+  noMatchingAddresses: 'No se encontraron direcciones coincidentes. Consulta'
+    + ' {listWatchesCommand}.',
+  addressWatchRemoved: 'Se eliminó {count} vigilancia de dirección.',
+  addressWatchesRemoved: 'Se eliminaron {count} vigilancias de direcciones.',
+  invalidWalletKey: 'Clave pública extendida o descriptor no válido. Solo se admiten descriptores'
+    + ' con rango de una sola clave (pkh, sh(wpkh), wpkh y tr, terminados en /<0;1>/*) de la red'
+    + ' del servidor.',
+  walletNicknameTooLong: 'El apodo de la billetera es demasiado largo.',
+  walletNicknameTaken: 'Ya has dado el mismo apodo a otra billetera que vigilas.',
+  walletAlreadyWatched: 'Ya estás vigilando esta billetera. Consulta: {listWatchesCommand}',
+  walletWatchStarted: 'Empecé a vigilar la billetera. Te avisaré cuando aparezcan transacciones'
+    + ' entrantes en la mempool y en la cadena de bloques, y cuando aparezcan transacciones'
+    + ' salientes en la cadena de bloques. Solo se encuentran los pagos a las primeras direcciones'
+    + ' sin usar, así que si la billetera ya ha usado muchas direcciones, las más antiguas podrían'
+    + ' pasarse por alto.',
+  walletsWatchStarted: 'Empecé a vigilar las billeteras. Te avisaré cuando aparezcan'
+    + ' transacciones entrantes en la mempool y en la cadena de bloques, y cuando aparezcan'
+    + ' transacciones salientes en la cadena de bloques. Solo se encuentran los pagos a las'
+    + ' primeras direcciones sin usar, así que si una billetera ya ha usado muchas direcciones, las'
+    + ' más antiguas podrían pasarse por alto.',
+  noMatchingWallets: 'No se encontraron billeteras coincidentes. Consulta {listWatchesCommand}.',
+  walletWatchRemoved: 'Se eliminó {count} vigilancia de billetera.',
+  walletWatchesRemoved: 'Se eliminaron {count} vigilancias de billeteras.',
+  invalidOutpoint: 'Salida no válida - se esperan un id de transacción y un índice de salida, como'
+    + ' "<txid>:0".',
+  outpointNicknameTooLong: 'El apodo de la salida es demasiado largo.',
+  outpointNicknameTaken: 'Ya has dado el mismo apodo a otra salida que vigilas.',
+  outpointAlreadyWatched: 'Ya estás vigilando esta salida. Consulta: {listWatchesCommand}',
+  outpointUnavailable: 'La salida {outpoint} ya está gastada (también por una transacción en la'
+    + ' mempool) o no existe, así que no hay nada que vigilar.',
+  outpointWatchStarted: 'Empecé a vigilar la salida de 丰{amount}. Te avisaré en cuanto aparezca'
+    + ' en la mempool o en la cadena de bloques una transacción que la gaste.',
+  outpointsWatchStarted: 'Empecé a vigilar las salidas de 丰{amount}. Te avisaré en cuanto'
+    + ' aparezca en la mempool o en la cadena de bloques una transacción que gaste alguna de'
+    + ' ellas.',
+  noMatchingOutpoints: 'No se encontraron salidas coincidentes. Consulta {listWatchesCommand}.',
+  outpointWatchRemoved: 'Se eliminó {count} vigilancia de salida.',
+  outpointWatchesRemoved: 'Se eliminaron {count} vigilancias de salidas.',
+  priceChangeWatchSyntax: `Sintaxis: "/watch price-change <price-delta-in-usd>"
+Por ejemplo, para recibir una notificación cuando el precio cambie en $1000, usa\
+ "/watch price-change 1000".`,
+  invalidPositiveInteger: 'Valor no válido, debe ser un entero positivo. Usa solo dígitos y evita'
+    + ' las comas y otros símbolos.',
+  priceChangeWatchStarted: 'El precio actual en CoinGecko es {price}. Revisaré el precio cada'
+    + ' minuto y te avisaré cuando baje de {min} o suba de {max}.',
+  priceChangeWatchPriceUnavailable: 'La vigilancia del precio se ha configurado, pero parece que'
+    + ' hay un problema al obtener el precio de CoinGecko.',
+  priceChangeWatchStopped: 'Dejé de vigilar los cambios de precio.',
+  linksNotReply: 'Usa este comando como respuesta a un comando anterior.',
+  linksNotFound: 'No se encontraron direcciones, ids de transacción ni hashes de bloque en ese'
+    + ' mensaje.',
+  links: `Estos son los enlaces a las direcciones, transacciones y bloques de ese mensaje:
+{links}`,
+  webhooksEmpty: 'No tienes webhooks. Para añadir uno, llama a "/webhooks add <url>".',
+  webhooksList: 'Tus webhooks:',
+  webhookSecret: 'Secreto: ',
+  webhookInvalidUrl: 'Por favor, indica una sola url que empiece por http:// o https://',
+  webhookExists: 'Ya tienes este webhook.',
+  webhooksLimit: 'No puedes tener más de {count} webhooks.',
+  webhookAdded: '¡Guau! Tus notificaciones también se enviarán como peticiones JSON POST a esta'
+    + ' url. Cada petición tiene una cabecera X-WoofBot-Signature con el HMAC-SHA256 de'
+    + ' "<X-WoofBot-Timestamp header>.<raw body>", usando este secreto:',
+  webhookTestHint: 'Para enviar un evento de prueba, llama a "/webhooks test".',
+  webhooksRemoveSyntax: 'Por favor, indica las urls de los webhooks que quieres eliminar.',
+  webhookRemoved: 'Se eliminó el webhook {urls}.',
+  webhooksRemoved: 'Se eliminaron los webhooks {urls}.',
+  webhooksTestEmpty: 'No tienes webhooks que probar.',
+  webhookTested: '¡Guau! Se envió un evento de prueba a tu webhook.',
+  webhooksTested: '¡Guau! Se envió un evento de prueba a tus webhooks.',
+  webhooksUnknownAction: 'Acción desconocida, llama a "/webhooks", "/webhooks add <url>",'
+    + ' "/webhooks remove <url>" o "/webhooks test".',
+  nostrRelaysWarning: 'Ten en cuenta que el administrador del bot aún no ha configurado ningún'
+    + ' relay de Nostr, así que los mensajes esperarán hasta que lo haga.',
+  nostrEmpty: 'No tienes una clave pública de Nostr. Para recibir tus notificaciones como mensajes'
+    + ' directos de Nostr, llama a "/nostr set <npub>".',
+  nostrStatus: 'Tus notificaciones también se envían como mensajes directos cifrados con'
+    + ' {encryption} a:',
+  nostrFrom: 'Desde:',
+  nostrInvalidPublicKey: 'Por favor, indica tu npub (o clave pública hexadecimal), seguido'
+    + ' opcionalmente del cifrado ({encryptions}, por defecto {defaultEncryption}).',
+  nostrSet: '¡Guau! Tus notificaciones también se enviarán como mensajes directos de Nostr desde:',
+  nostrTestHint: 'Para enviar un mensaje de prueba, llama a "/nostr test".',
+  nostrRemoveEmpty: 'No tienes una clave pública de Nostr.',
+  nostrRemoved: '¡Guau! Tus notificaciones ya no se enviarán a Nostr.',
+  nostrTestEmpty: 'No tienes una clave pública de Nostr que probar.',
+  nostrTested: '¡Guau! Se envió un mensaje de prueba a tu clave pública de Nostr.',
+  nostrUnknownAction: 'Acción desconocida, llama a "/nostr", "/nostr set <npub>", "/nostr remove"'
+    + ' o "/nostr test".',
+  emailServerWarning: 'Ten en cuenta que el administrador del bot aún no ha configurado un'
+    + ' servidor de correo, así que los correos esperarán hasta que lo haga.',
+  emailEmpty: 'No tienes una dirección de correo. Para recibir tus notificaciones por correo,'
+    + ' llama a "/email set <address>".',
+  emailStatus: 'Tus notificaciones también se envían por correo a {emailAddress}.',
+  emailInvalidAddress: 'Por favor, indica una sola dirección de correo.',
+  emailVerificationSent: '¡Guau! Se envió un código de verificación a {emailAddress}. Para'
+    + ' confirmar la dirección, llama a "/email verify <code>".',
+  emailVerifyEmpty: 'No hay ninguna dirección de correo que verificar, llama primero a "/email'
+    + ' set <address>".',
+  emailWrongCode: 'Código de verificación incorrecto, por favor revisa el correo que se envió a'
+    + ' {emailAddress}.',
+  emailVerificationThrottled: 'Se envió un código de verificación hace poco, por favor espera'
+    + ' {minutes} minutos antes de pedir otro.',
+  emailVerificationExpired: 'El código de verificación ha caducado, llama a "/email set <address>"'
+    + ' para obtener uno nuevo.',
+  emailTooManyWrongCodes: 'Demasiados códigos de verificación incorrectos, llama a "/email set'
+    + ' <address>" para obtener uno nuevo.',
+  emailVerified: '¡Guau! Tus notificaciones también se enviarán por correo a {emailAddress}.',
+  emailRemoveEmpty: 'No tienes una dirección de correo.',
+  emailRemoved: '¡Guau! Tus notificaciones ya no se enviarán por correo.',
+  emailTestEmpty: 'No tienes una dirección de correo que probar.',
+  emailTested: '¡Guau! Se envió un correo de prueba a {emailAddress}.',
+  emailUnknownAction: 'Acción desconocida, llama a "/email", "/email set <address>", "/email'
+    + ' verify <code>", "/email remove" o "/email test".',
+  matrixEmpty: 'No tienes un usuario de Matrix. Para recibir tus notificaciones en una sala de'
+    + ' Matrix, llama a "/matrix set <@user:homeserver>".',
+  matrixStatus: 'Tus notificaciones también se envían a {matrixUserId} en la sala de Matrix'
+    + ' {matrixRoomId}.',
+  matrixInvalidUserId: 'Por favor, indica un solo id de usuario de Matrix, p. ej.'
+    + ' @alice:example.org.',
+  matrixNotConfigured: 'El administrador del bot aún no ha configurado una cuenta de Matrix.',
+  matrixRoomFailed: 'No se pudo crear una sala de Matrix e invitar a {matrixUserId}, por favor'
+    + ' inténtalo más tarde.',
+  matrixInvited: '¡Guau! {matrixUserId} fue invitado a una nueva sala de Matrix, acepta la'
+    + ' invitación para recibir tus notificaciones allí.',
+  matrixRemoveEmpty: 'No tienes un usuario de Matrix.',
+  matrixRemoved: '¡Guau! Tus notificaciones ya no se enviarán a Matrix.',
+  matrixTestEmpty: 'No tienes una sala de Matrix que probar.',
+  matrixTested: '¡Guau! Se envió un mensaje de prueba a {matrixUserId} en Matrix.',
+  matrixUnknownAction: 'Acción desconocida, llama a "/matrix", "/matrix set <@user:homeserver>",'
+    + ' "/matrix remove" o "/matrix test".',
+  timelockStatusMatured: 'vencido',
+  timelockStatusMaturityHeight: 'vence a la altura {height}',
+  timelockStatusMaturityTime: 'vence el {date} (tiempo mediano)',
+  timelockStatusUnconfirmed: 'salida sin confirmar',
+  outpointSpentBy: '(gastada por {txid})',
+  balanceAlertAbove: 'por encima de 丰{amount}',
+  balanceAlertBelow: 'por debajo de 丰{amount}',
+  balanceNotScanned: 'aún sin escanear',
+  balanceUnconfirmed: '({amounts} sin confirmar)',
+  balanceAlerts: ', alertas {alerts}',
+  balanceNoAddresses: 'No estás vigilando ninguna dirección. Consulta: {command}',
+  balanceList: 'Los saldos confirmados de tus direcciones vigiladas:',
+  noMatchingAddress: 'No se encontró ninguna dirección coincidente. Consulta'
+    + ' {listWatchesCommand}.',
+  balanceInvalidThreshold: 'Por favor, indica el umbral en BTC, p. ej. "{command}".',
+  balanceAboveWatchStarted: '¡Guau! Te avisaré cuando el saldo confirmado de {address} suba por'
+    + ' encima de 丰{amount}.',
+  balanceBelowWatchStarted: '¡Guau! Te avisaré cuando el saldo confirmado de {address} baje a'
+    + ' 丰{amount} o menos.',
+  balanceAlreadyAbove: '⚠️ Ten en cuenta que el saldo confirmado ya está por encima: 丰{balance}.',
+  balanceAlreadyBelow: '⚠️ Ten en cuenta que el saldo confirmado ya está en ese valor o por'
+    + ' debajo: 丰{balance}.',
+  balanceWatchStopped: '¡Guau! Se eliminaron las alertas de saldo de {address}.',
+  balanceUnknownAction: 'Acción desconocida, llama a "/balance", "/balance'
+    + ' <address-or-nickname>", "/balance <address-or-nickname> above <btc>", "/balance'
+    + ' <address-or-nickname> below <btc>" o "/balance <address-or-nickname> off".',
+  goodbye: '¡Guau! Adiós.',
+  messageDelayed: 'El siguiente mensaje se ha enviado con retraso por problemas de red:\n\n',
+};
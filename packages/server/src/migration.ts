@@ -2,7 +2,7 @@ import { PermissionKey } from '@woofbot/common';
 
 import logger from './helpers/logger';
 import { zeroObjectId } from './helpers/mongo';
-import { SettingsModel } from './models/settings';
+import { defaultNostrRelays, SettingsModel } from './models/settings';
 import { UsersModel } from './models/users';
 
 async function migrateV0(): Promise<void> {
@@ -182,9 +182,136 @@ async function migrateV8(): Promise<void> {
   );
 }
 
+async function migrateV9(): Promise<void> {
+  await SettingsModel.updateOne(
+    {
+      _id: zeroObjectId,
+    },
+    {
+      $set: {
+        [`commandsPermissionGroups.${PermissionKey.Webhooks}`]: [],
+      },
+    },
+  );
+}
+
+async function migrateV10(): Promise<void> {
+  await SettingsModel.updateOne(
+    {
+      _id: zeroObjectId,
+    },
+    {
+      $set: {
+        nostrRelays: defaultNostrRelays,
+      },
+    },
+  );
+}
+
+async function migrateV11(): Promise<void> {
+  await UsersModel.updateMany(
+    {
+      watchReorg: {
+        $exists: false,
+      },
+    },
+    {
+      $set: {
+        watchReorg: false,
+      },
+    },
+  );
+}
+
+async function migrateV12(): Promise<void> {
+  await UsersModel.updateMany(
+    {
+      watchDifficulty: {
+        $exists: false,
+      },
+    },
+    {
+      $set: {
+        watchDifficulty: false,
+        watchHalving: false,
+      },
+    },
+  );
+}
+
+async function migrateV13(): Promise<void> {
+  await UsersModel.updateMany(
+    {
+      watchNewBlocksPools: {
+        $exists: false,
+      },
+    },
+    {
+      $set: {
+        watchNewBlocksPools: [],
+      },
+    },
+  );
+}
+
+async function migrateV14(): Promise<void> {
+  await UsersModel.updateMany(
+    {
+      watchLightningChannelsLiquidity: {
+        $exists: false,
+      },
+    },
+    {
+      $set: {
+        watchLightningChannelsLiquidity: [],
+      },
+    },
+  );
+}
+
+async function migrateV15(): Promise<void> {
+  await SettingsModel.updateOne(
+    {
+      _id: zeroObjectId,
+    },
+    {
+      $set: {
+        [`commandsPermissionGroups.${PermissionKey.WatchLightningLiquidity}`]: [],
+      },
+    },
+  );
+}
+
+async function migrateV16(): Promise<void> {
+  await SettingsModel.updateOne(
+    {
+      _id: zeroObjectId,
+    },
+    {
+      $set: {
+        [`commandsPermissionGroups.${PermissionKey.WatchNodeHealth}`]: [],
+      },
+    },
+  );
+}
+
+async function migrateV17(): Promise<void> {
+  await SettingsModel.updateOne(
+    {
+      _id: zeroObjectId,
+    },
+    {
+      $set: {
+        [`commandsPermissionGroups.${PermissionKey.Email}`]: [],
+      },
+    },
+  );
+}
+
 const migrations = [
   migrateV0, migrateV1, migrateV2, migrateV3, migrateV4, migrateV5, migrateV6, migrateV7,
-  migrateV8,
+  migrateV8, migrateV9, migrateV10, migrateV11, migrateV12, migrateV13, migrateV14, migrateV15,
+  migrateV16, migrateV17,
 ];
 
 export const migrationsLength = migrations.length;
@@ -0,0 +1,50 @@
+import { Schema, model, HydratedDocument } from 'mongoose';
+
+import { TimeFields } from '../helpers/mongo';
+
+export enum OutboxTransport {
+  Telegram = 'telegram',
+  Webhook = 'webhook',
+  Nostr = 'nostr',
+  Email = 'email',
+  Matrix = 'matrix',
+}
+
+export enum OutboxStatus {
+  Pending = 'pending',
+  Sent = 'sent',
+  Failed = 'failed',
+}
+
+export interface OutboxMessageFields {
+  transport: OutboxTransport;
+  destination: string;
+  payload: string;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  expireAt?: Date;
+}
+
+const schema = new Schema<OutboxMessageFields & TimeFields>({
+  transport: { type: String, enum: Object.values(OutboxTransport), required: true },
+  destination: { type: String, required: true },
+  payload: { type: String, required: true },
+  status: { type: String, enum: Object.values(OutboxStatus), required: true },
+  attempts: { type: Number, required: true },
+  nextAttemptAt: { type: Date, required: true },
+  lastError: { type: String, required: false },
+  // Delivered and failed messages are kept for a while and then removed by mongodb
+  expireAt: { type: Date, required: false, expires: 0 },
+}, { timestamps: true });
+
+schema.index({ status: 1, transport: 1, nextAttemptAt: 1 });
+// The pending messages of a destination, in the order they are delivered
+schema.index({
+  status: 1, transport: 1, destination: 1, createdAt: 1,
+});
+
+export const NotificationOutboxModel = model('notification_outbox', schema);
+
+export type OutboxMessageDocument = HydratedDocument<OutboxMessageFields & TimeFields>;
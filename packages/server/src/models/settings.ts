@@ -11,6 +11,23 @@ export interface LndChannelInformation {
   partnerName?: string;
 }
 
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start of the connection, otherwise STARTTLS when supported
+  username?: string;
+  password?: string;
+  fromAddress: string;
+}
+
+export interface MatrixSettings {
+  homeserverUrl: string;
+  accessToken: string;
+  userId: string; // Of the bot account, as returned by the homeserver for the access token
+  rooms: string[]; // Room ids that receive the notifications about server-wide events
+  roomEvents: string[]; // The server-wide notification events that are posted to the rooms
+}
+
 interface SettingsFields {
   migrationVersion: number;
   adminPasswordHash?: string;
@@ -19,11 +36,19 @@ interface SettingsFields {
   usersWhitelist?: string[];
   bestBlockHeight: number;
   analyzedBlockHashes: string[];
+  // `${name}:${targetHeight}:${label}` of the chain countdown milestones that were reported
+  reportedChainMilestones?: string[];
+  // The heights of the last difficulty adjustment and halving that were reported
+  reportedDifficultyAdjustmentHeight?: number;
+  reportedHalvingHeight?: number;
   mempoolUrlPrefix: string;
   commandsPermissionGroups: CommandsPermissionGroupsMap;
   lndChannels?: LndChannelInformation[];
   lndLastForwardAt?: Date;
   lndLastForwardCount?: number;
+  nostrRelays: string[];
+  smtp?: SmtpSettings;
+  matrix?: MatrixSettings;
 }
 
 const commandsPermissionGroupsSchema = new Schema<CommandsPermissionGroupsMap>(
@@ -49,6 +74,33 @@ const lndChannelSchema = new Schema<LndChannelInformation>(
   },
 );
 
+const smtpSchema = new Schema<SmtpSettings>(
+  {
+    host: { type: String, required: true },
+    port: { type: Number, required: true },
+    secure: { type: Boolean, required: true },
+    username: { type: String, required: false },
+    password: { type: String, required: false },
+    fromAddress: { type: String, required: true },
+  },
+  {
+    _id: false,
+  },
+);
+
+const matrixSchema = new Schema<MatrixSettings>(
+  {
+    homeserverUrl: { type: String, required: true },
+    accessToken: { type: String, required: true },
+    userId: { type: String, required: true },
+    rooms: { type: [String], required: true },
+    roomEvents: { type: [String], required: true },
+  },
+  {
+    _id: false,
+  },
+);
+
 const schema = new Schema<SettingsFields & TimeFields>({
   migrationVersion: { type: Number, required: true },
   adminPasswordHash: { type: String, required: false },
@@ -57,25 +109,42 @@ const schema = new Schema<SettingsFields & TimeFields>({
   usersWhitelist: { type: [String], required: false, default: undefined },
   bestBlockHeight: { type: Number, required: true },
   analyzedBlockHashes: { type: [String], required: true },
+  reportedChainMilestones: { type: [String], required: false, default: undefined },
+  reportedDifficultyAdjustmentHeight: { type: Number, required: false },
+  reportedHalvingHeight: { type: Number, required: false },
   mempoolUrlPrefix: { type: String, required: true },
   commandsPermissionGroups: { type: commandsPermissionGroupsSchema, required: true },
   lndChannels: { type: [lndChannelSchema], required: false, default: undefined },
   lndLastForwardAt: { type: Date, required: false },
   lndLastForwardCount: { type: Number, required: false },
+  nostrRelays: { type: [String], required: true },
+  smtp: { type: smtpSchema, required: false },
+  matrix: { type: matrixSchema, required: false },
 }, { timestamps: true });
 
+export const defaultNostrRelays = [
+  'wss://relay.damus.io',
+  'wss://nos.lol',
+  'wss://relay.primal.net',
+];
+
 export const defaultSettings: Omit<SettingsFields, 'migrationVersion'> = {
   maxUsers: 10,
   bestBlockHeight: 0,
   analyzedBlockHashes: [],
   mempoolUrlPrefix: 'https://mempool.space',
+  nostrRelays: defaultNostrRelays,
   commandsPermissionGroups: {
     // Commands that by default not allowed to anyone
+    [PermissionKey.WatchNodeHealth]: [],
     [PermissionKey.WatchLightningChannelsOpened]: [],
     [PermissionKey.WatchLightningChannelsClosed]: [],
     [PermissionKey.WatchLightningForwards]: [],
     [PermissionKey.WatchLightningInvoicesCreated]: [],
     [PermissionKey.WatchLightningInvoicesPaid]: [],
+    [PermissionKey.WatchLightningLiquidity]: [],
+    [PermissionKey.Webhooks]: [],
+    [PermissionKey.Email]: [],
   },
 };
 
@@ -0,0 +1,42 @@
+import {
+  Schema, model, ObjectId, Types, HydratedDocument,
+} from 'mongoose';
+
+import { TimeFields } from '../helpers/mongo';
+
+export enum TelegramChatType {
+  Group = 'group',
+  Supergroup = 'supergroup',
+  Channel = 'channel',
+}
+
+export enum TelegramChatStatus {
+  Pending = 'pending',
+  Approved = 'approved',
+  Rejected = 'rejected',
+}
+
+interface TelegramChatFields {
+  telegramChatId: number;
+  type: TelegramChatType;
+  title: string;
+  status: TelegramChatStatus;
+  // The telegram user that added the bot to the chat. Its permission groups apply to commands
+  // that have no known sender, i.e. posts in channels and messages of anonymous group admins.
+  addedByFromId?: number;
+  // The users document that holds the chat's watches, exists only while the chat is approved
+  subscriberId?: ObjectId;
+}
+
+const schema = new Schema<TelegramChatFields & TimeFields>({
+  telegramChatId: { type: Number, required: true, unique: true },
+  type: { type: String, enum: Object.values(TelegramChatType), required: true },
+  title: { type: String, required: true },
+  status: { type: String, enum: Object.values(TelegramChatStatus), required: true },
+  addedByFromId: { type: Number, required: false },
+  subscriberId: { type: Types.ObjectId, required: false, ref: 'users' },
+}, { timestamps: true });
+
+export const TelegramChatsModel = model('telegram_chats', schema);
+
+export type TelegramChatDocument = HydratedDocument<TelegramChatFields & TimeFields>;
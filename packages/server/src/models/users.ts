@@ -1,37 +1,140 @@
+import { NumberFormat } from '@woofbot/common';
 import { Schema, model, HydratedDocument } from 'mongoose';
 
+import { WhaleThreshold } from '../helpers/bitcoind-watcher';
+import { Language } from '../helpers/i18n';
+import { ChannelLiquidityThresholds, LiquidityDirection } from '../helpers/lnd-watcher';
 import { TimeFields } from '../helpers/mongo';
+import { TelegramChatType } from './telegram-chats';
+
+export enum NostrEncryption {
+  // Kind 4 direct messages, supported by most of the clients but leaks metadata.
+  Nip04 = 'nip04',
+  // NIP-17 private direct messages, sealed and gift-wrapped with NIP-44 encryption.
+  Nip44 = 'nip44',
+}
+
+export const whaleThresholdUserFields = {
+  [WhaleThreshold.Amount]: 'watchWhaleAmountSats',
+  [WhaleThreshold.Fee]: 'watchWhaleFeeSats',
+  [WhaleThreshold.FeeRate]: 'watchWhaleFeeRate',
+} as const;
+
+export const liquidityThresholdUserFields = {
+  [LiquidityDirection.Below]: 'watchLightningLiquidityBelow',
+  [LiquidityDirection.Above]: 'watchLightningLiquidityAbove',
+} as const;
 
 export interface UserFields {
+  // For the subscribers of groups and channels, the telegram ids are the chat's id (negative,
+  // so it never collides with ids of telegram users) and the username is the chat's title.
   telegramFromId: number;
   telegramUsername: string;
   telegramChatId: number;
   watchReboot: boolean;
   watchNewBlocks: boolean;
+  // Mining pool slugs and NewBlocksFilter values, all of the new blocks are reported if empty
+  watchNewBlocksPools: string[];
+  watchReorg: boolean;
+  watchDifficulty: boolean;
+  watchHalving: boolean;
   watchPriceChange?: number;
   watchMempoolClear: boolean;
+  // Next-block fee rate targets in sat/vB
+  watchFeeRateBelow?: number;
+  watchFeeRateAbove?: number;
+  // Alerts of mempool transactions that exceed these thresholds
+  watchWhaleAmountSats?: number;
+  watchWhaleFeeSats?: number;
+  watchWhaleFeeRate?: number; // sat/vB
+  watchNodeHealth?: number; // minimal peers
   watchLightningChannelsOpened: boolean;
   watchLightningChannelsClosed: boolean;
   watchLightningForwards: boolean;
   watchLightningInvoicesCreated: boolean;
   watchLightningInvoicesPaid: boolean;
+  // Percents of outbound liquidity, for every lightning channel
+  watchLightningLiquidityBelow?: number;
+  watchLightningLiquidityAbove?: number;
+  // Thresholds of specific channels, that override the ones of every channel
+  watchLightningChannelsLiquidity: ChannelLiquidityThresholds[];
   permissionGroups: string[];
+  nostrPublicKey?: string; // hex
+  nostrEncryption?: NostrEncryption;
+  emailAddress?: string;
+  // Waits for the user to confirm the verification code that was sent to it
+  pendingEmailAddress?: string;
+  // When the last verification code was sent, kept after the verification to limit the emails
+  pendingEmailSentAt?: Date;
+  // Wrong verification codes of the pending email address
+  pendingEmailAttempts?: number;
+  matrixUserId?: string;
+  // The direct chat room that the bot created and invited the Matrix user to
+  matrixRoomId?: string;
+  // Set only for the subscribers of groups and channels, see TelegramChatsModel
+  telegramChatType?: TelegramChatType;
+  // The language of the bot's replies, defaults to the language of the user's telegram app
+  language?: Language;
+  // The language of the user's telegram app, the default language of its notifications
+  telegramLanguage?: Language;
+  // How dates and amounts are rendered for the user, defaults to UTC and en-US
+  timeZone?: string; // IANA timezone name
+  locale?: string;
+  numberFormat?: NumberFormat;
 }
 
+const channelLiquidityThresholdsSchema = new Schema<ChannelLiquidityThresholds>(
+  {
+    channelId: { type: String, required: true },
+    below: { type: Number, required: false },
+    above: { type: Number, required: false },
+  },
+  {
+    _id: false,
+  },
+);
+
 const schema = new Schema<UserFields & TimeFields>({
   telegramFromId: { type: Number, required: true, unique: true },
   telegramUsername: { type: String, required: true },
   telegramChatId: { type: Number, required: true },
   watchReboot: { type: Boolean, required: true, index: true },
   watchNewBlocks: { type: Boolean, required: true, index: true },
+  watchNewBlocksPools: { type: [String], required: true },
+  watchReorg: { type: Boolean, required: true, index: true },
+  watchDifficulty: { type: Boolean, required: true, index: true },
+  watchHalving: { type: Boolean, required: true, index: true },
   watchPriceChange: { type: Number, required: false, index: true },
   watchMempoolClear: { type: Boolean, required: true, index: true },
+  watchFeeRateBelow: { type: Number, required: false, index: true },
+  watchFeeRateAbove: { type: Number, required: false, index: true },
+  watchWhaleAmountSats: { type: Number, required: false, index: true },
+  watchWhaleFeeSats: { type: Number, required: false, index: true },
+  watchWhaleFeeRate: { type: Number, required: false, index: true },
+  watchNodeHealth: { type: Number, required: false, index: true },
   watchLightningChannelsOpened: { type: Boolean, required: true, index: true },
   watchLightningChannelsClosed: { type: Boolean, required: true, index: true },
   watchLightningForwards: { type: Boolean, required: true, index: true },
   watchLightningInvoicesCreated: { type: Boolean, required: true, index: true },
   watchLightningInvoicesPaid: { type: Boolean, required: true, index: true },
+  watchLightningLiquidityBelow: { type: Number, required: false, index: true },
+  watchLightningLiquidityAbove: { type: Number, required: false, index: true },
+  watchLightningChannelsLiquidity: { type: [channelLiquidityThresholdsSchema], required: true },
   permissionGroups: { type: [String], required: true, index: true },
+  nostrPublicKey: { type: String, required: false },
+  nostrEncryption: { type: String, enum: Object.values(NostrEncryption), required: false },
+  emailAddress: { type: String, required: false },
+  pendingEmailAddress: { type: String, required: false },
+  pendingEmailSentAt: { type: Date, required: false },
+  pendingEmailAttempts: { type: Number, required: false },
+  matrixUserId: { type: String, required: false },
+  matrixRoomId: { type: String, required: false },
+  telegramChatType: { type: String, enum: Object.values(TelegramChatType), required: false },
+  language: { type: String, enum: Object.values(Language), required: false },
+  telegramLanguage: { type: String, enum: Object.values(Language), required: false },
+  timeZone: { type: String, required: false },
+  locale: { type: String, required: false },
+  numberFormat: { type: String, enum: Object.values(NumberFormat), required: false },
 }, { timestamps: true });
 
 schema.index({ createdAt: 1 });
@@ -41,12 +144,17 @@ export const defaultUserProperties: Omit<
 > = {
   watchReboot: false,
   watchNewBlocks: false,
+  watchNewBlocksPools: [],
+  watchReorg: false,
+  watchDifficulty: false,
+  watchHalving: false,
   watchMempoolClear: false,
   watchLightningChannelsOpened: false,
   watchLightningChannelsClosed: false,
   watchLightningForwards: false,
   watchLightningInvoicesCreated: false,
   watchLightningInvoicesPaid: false,
+  watchLightningChannelsLiquidity: [],
   permissionGroups: [],
 };
 
@@ -1,19 +1,66 @@
 import {
-  Schema, model, ObjectId, Types,
+  Schema, model, ObjectId, Types, HydratedDocument,
 } from 'mongoose';
 
 import { TimeFields } from '../helpers/mongo';
 
+export interface MempoolIncome {
+  txid: string;
+  incomeSats: number;
+}
+
+export interface MempoolOutcome {
+  txid: string;
+  outcomeSats: number;
+}
+
 interface WatchedAddressFields {
   userId: ObjectId;
   address: string;
   nickname?: string;
+  // Undefined until the first scan of the utxo set
+  confirmedBalanceSats?: number;
+  balanceUpdatedAt?: Date;
+  // Payments to and from the address that are still in the mempool
+  mempoolIncomes: MempoolIncome[];
+  mempoolOutcomes: MempoolOutcome[];
+  // Alerts when the confirmed balance crosses these thresholds
+  balanceAboveSats?: number;
+  balanceBelowSats?: number;
 }
 
+const mempoolIncomeSchema = new Schema<MempoolIncome>(
+  {
+    txid: { type: String, required: true },
+    incomeSats: { type: Number, required: true },
+  },
+  {
+    _id: false,
+  },
+);
+
+const mempoolOutcomeSchema = new Schema<MempoolOutcome>(
+  {
+    txid: { type: String, required: true },
+    outcomeSats: { type: Number, required: true },
+  },
+  {
+    _id: false,
+  },
+);
+
 const schema = new Schema<WatchedAddressFields & TimeFields>({
   userId: { type: Types.ObjectId, required: true, ref: 'users' },
   address: { type: String, required: true, index: true },
   nickname: { type: String, required: false },
+  confirmedBalanceSats: { type: Number, required: false },
+  balanceUpdatedAt: { type: Date, required: false },
+  mempoolIncomes: { type: [mempoolIncomeSchema], required: false },
+  mempoolOutcomes: { type: [mempoolOutcomeSchema], required: false },
+  balanceAboveSats: { type: Number, required: false },
+  balanceBelowSats: { type: Number, required: false },
 }, { timestamps: true });
 
 export const WatchedAddressesModel = model('watched_addresses', schema);
+
+export type WatchedAddressDocument = HydratedDocument<WatchedAddressFields & TimeFields>;
@@ -0,0 +1,24 @@
+import {
+  Schema, model, ObjectId, Types,
+} from 'mongoose';
+
+import { TimeFields } from '../helpers/mongo';
+
+interface WatchedOutpointFields {
+  userId: ObjectId;
+  outpoint: string; // `${txid}:${vout}`
+  nickname?: string;
+  valueSats: number;
+  // Set once the output is spent by a transaction in a block, the watch is kept until removed
+  spendingTxid?: string;
+}
+
+const schema = new Schema<WatchedOutpointFields & TimeFields>({
+  userId: { type: Types.ObjectId, required: true, ref: 'users' },
+  outpoint: { type: String, required: true, index: true },
+  nickname: { type: String, required: false },
+  valueSats: { type: Number, required: true },
+  spendingTxid: { type: String, required: false },
+}, { timestamps: true });
+
+export const WatchedOutpointsModel = model('watched_outpoints', schema);
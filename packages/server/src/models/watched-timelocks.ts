@@ -0,0 +1,48 @@
+import {
+  Schema, model, ObjectId, Types, HydratedDocument,
+} from 'mongoose';
+
+import { TimeFields } from '../helpers/mongo';
+
+export enum TimelockType {
+  Height = 'height', // absolute CLTV lock by block height
+  Time = 'time', // absolute CLTV lock by median-time-past
+  Csv = 'csv', // relative lock of an output, in blocks or seconds
+  Coinbase = 'coinbase', // coinbase outputs mature after 100 blocks
+}
+
+interface WatchedTimelockFields {
+  userId: ObjectId;
+  type: TimelockType;
+  // The lock as the user gave it: a height, a unix time, or an outpoint `${txid}:${vout}`
+  lock: string;
+  nickname?: string;
+  // Relative locks of csv outputs, only one of them is set
+  relativeBlocks?: number;
+  relativeSeconds?: number;
+  // The lock matures once the best block reaches maturityHeight, or its median-time-past reaches
+  // maturityTime (unix seconds). Relative locks are resolved only after their output confirms.
+  maturityHeight?: number;
+  maturityTime?: number;
+  warningBlocks: number;
+  warned: boolean;
+  matured: boolean;
+}
+
+const schema = new Schema<WatchedTimelockFields & TimeFields>({
+  userId: { type: Types.ObjectId, required: true, ref: 'users' },
+  type: { type: String, enum: Object.values(TimelockType), required: true },
+  lock: { type: String, required: true },
+  nickname: { type: String, required: false },
+  relativeBlocks: { type: Number, required: false },
+  relativeSeconds: { type: Number, required: false },
+  maturityHeight: { type: Number, required: false },
+  maturityTime: { type: Number, required: false },
+  warningBlocks: { type: Number, required: true },
+  warned: { type: Boolean, required: true },
+  matured: { type: Boolean, required: true, index: true },
+}, { timestamps: true });
+
+export const WatchedTimelocksModel = model('watched_timelocks', schema);
+
+export type WatchedTimelockDocument = HydratedDocument<WatchedTimelockFields & TimeFields>;
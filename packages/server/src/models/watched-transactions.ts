@@ -21,6 +21,9 @@ interface WatchedTransactionFields {
   conflictingTransactions?: string[];
   transactionInputKeys?: string[];
   rawTransaction?: string;
+  // Confirmation counts to notify at, in ascending order, instead of the default status updates
+  confirmationTargets: number[];
+  notifiedConfirmations?: number;
 }
 
 const schema = new Schema<WatchedTransactionFields & TimeFields>({
@@ -33,6 +36,8 @@ const schema = new Schema<WatchedTransactionFields & TimeFields>({
   conflictingTransactions: { type: [String], required: false },
   transactionInputKeys: { type: [String], required: false },
   rawTransaction: { type: String, required: false },
+  confirmationTargets: { type: [Number], required: false },
+  notifiedConfirmations: { type: Number, required: false },
 }, { timestamps: true });
 
 export const WatchedTransactionsModel = model('watched_transactions', schema);
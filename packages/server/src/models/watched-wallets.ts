@@ -0,0 +1,36 @@
+import {
+  Schema, model, ObjectId, Types, HydratedDocument,
+} from 'mongoose';
+
+import { TimeFields } from '../helpers/mongo';
+
+export enum WalletScriptType {
+  P2pkh = 'p2pkh',
+  P2shP2wpkh = 'p2sh-p2wpkh',
+  P2wpkh = 'p2wpkh',
+  P2tr = 'p2tr',
+}
+
+export interface WatchedWalletFields {
+  userId: ObjectId;
+  extendedKey: string; // xpub, ypub, zpub or their testnet versions, as given by the user
+  scriptType: WalletScriptType;
+  nickname?: string;
+  // The derived addresses of the receive (0) and change (1) branches, by their index. Each branch
+  // is extended to keep a gap-limit of unused addresses after the last used one.
+  receiveAddresses: string[];
+  changeAddresses: string[];
+}
+
+const schema = new Schema<WatchedWalletFields & TimeFields>({
+  userId: { type: Types.ObjectId, required: true, ref: 'users' },
+  extendedKey: { type: String, required: true },
+  scriptType: { type: String, enum: Object.values(WalletScriptType), required: true },
+  nickname: { type: String, required: false },
+  receiveAddresses: { type: [String], required: true, index: true },
+  changeAddresses: { type: [String], required: true, index: true },
+}, { timestamps: true });
+
+export const WatchedWalletsModel = model('watched_wallets', schema);
+
+export type WatchedWalletDocument = HydratedDocument<WatchedWalletFields & TimeFields>;
@@ -0,0 +1,22 @@
+import {
+  Schema, model, ObjectId, Types, HydratedDocument,
+} from 'mongoose';
+
+import { TimeFields } from '../helpers/mongo';
+
+interface WebhookFields {
+  // Webhooks without a user were added by the admin, and receive all the raw events.
+  userId?: ObjectId;
+  url: string;
+}
+
+const schema = new Schema<WebhookFields & TimeFields>({
+  userId: {
+    type: Types.ObjectId, required: false, ref: 'users', index: true,
+  },
+  url: { type: String, required: true },
+}, { timestamps: true });
+
+export const WebhooksModel = model('webhooks', schema);
+
+export type WebhookDocument = HydratedDocument<WebhookFields & TimeFields>;
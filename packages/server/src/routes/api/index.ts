@@ -9,6 +9,8 @@ import apiAuthRouter from './auth';
 import apiAuthLogoutRouter from './auth/logout';
 import apiSettingsRouter from './settings';
 import apiUsersRouter from './users';
+import apiWebhooksRouter from './webhooks';
+import apiTelegramChatsRouter from './telegram-chats';
 
 const rebootAt = new Date();
 
@@ -77,6 +79,10 @@ apiRouter.get('/stats', asyncHandler(async (req, res) => {
 
 apiRouter.use('/users', apiUsersRouter);
 
+apiRouter.use('/webhooks', apiWebhooksRouter);
+
+apiRouter.use('/telegram-chats', apiTelegramChatsRouter);
+
 apiRouter.use((req, res) => {
   res.status(404).json({
     error: 'Api not found',
@@ -4,10 +4,23 @@ import { Router } from 'express';
 import { asyncHandler } from '../../helpers/express';
 import { SettingsModel } from '../../models/settings';
 import { bitcoindWatcher } from '../../helpers/bitcoind-watcher';
-import { isSafeNonNegativeInteger, isShortString } from '../../helpers/validations';
+import {
+  isEmailAddress, isMatrixRoom, isNostrRelayUrl, isSafeNonNegativeInteger, isShortString,
+  isWebhookUrl,
+} from '../../helpers/validations';
 import telegramManager from '../../helpers/telegram';
 import { zeroObjectId } from '../../helpers/mongo';
 import { UsersModel } from '../../models/users';
+import { TelegramChatsModel, TelegramChatStatus } from '../../models/telegram-chats';
+import { OutboxTransport } from '../../models/notification-outbox';
+import { clearPendingMessages, countPendingMessages } from '../../controllers/notification-outbox';
+import { maxNostrRelays, nostrManager, nostrNpub } from '../../helpers/nostr';
+import { EmailManager, emailManager } from '../../helpers/email';
+import {
+  MatrixManager, matrixJoinRoom, matrixManager, matrixWhoAmI, maxMatrixRooms,
+} from '../../helpers/matrix';
+import { serverWideNotificationEvents } from '../../helpers/notifier';
+import { errorString } from '../../helpers/error';
 
 const apiSettingsRouter = Router();
 
@@ -22,6 +35,7 @@ apiSettingsRouter.get('/general', asyncHandler(async (req, res) => {
     bestBlockHeight: settings.bestBlockHeight,
     bestBlockId: settings.analyzedBlockHashes.slice(-1)[0] ?? '',
     bitcoindWatcherTasks: bitcoindWatcher.countTasks(),
+    pendingNotifications: await countPendingMessages(),
     mempoolWeight: bitcoindWatcher.getMempoolWeight(),
     mempoolUrlPrefix: settings.mempoolUrlPrefix,
   });
@@ -91,11 +105,17 @@ apiSettingsRouter.post('/general', asyncHandler(async (req, res) => {
 }));
 
 apiSettingsRouter.get('/telegram', asyncHandler(async (req, res) => {
-  const numberOfUsers = await UsersModel.countDocuments({});
+  const numberOfUsers = await UsersModel.countDocuments({
+    telegramChatType: { $exists: false },
+  });
+  const numberOfChats = await TelegramChatsModel.countDocuments({
+    status: TelegramChatStatus.Approved,
+  });
   const botInfo = telegramManager.bot?.botInfo;
   res.json({
     status: telegramManager.status,
     numberOfUsers,
+    numberOfChats,
     botUsername: botInfo?.username,
     botName: [
       botInfo?.first_name, botInfo?.last_name,
@@ -136,9 +156,9 @@ apiSettingsRouter.post('/telegram', asyncHandler(async (req, res) => {
       if (await UsersModel.findOne({})) {
         res.status(409).json({
           error: token
-            ? `Please remove all existing users before changing the Telegram token to a
+            ? `Please remove all existing users and chats before changing the Telegram token to a
             different bot.`
-            : 'Please remove all existing users before unsetting the Telegram token.',
+            : 'Please remove all existing users and chats before unsetting the Telegram token.',
         });
         return;
       }
@@ -146,7 +166,9 @@ apiSettingsRouter.post('/telegram', asyncHandler(async (req, res) => {
 
     await telegramManager.optimisticStopBot();
     if (isNewBot) {
-      telegramManager.clearMessageQueue();
+      await clearPendingMessages(OutboxTransport.Telegram);
+      // Approved chats have subscribers, so only pending and rejected chats are left here
+      await TelegramChatsModel.deleteMany({});
     }
 
     if (isNewBot && await UsersModel.findOne({}, {})) {
@@ -182,6 +204,282 @@ apiSettingsRouter.post('/telegram', asyncHandler(async (req, res) => {
   }
 }));
 
+apiSettingsRouter.get('/nostr', asyncHandler(async (req, res) => {
+  const settings = await SettingsModel.findById(zeroObjectId);
+  if (!settings) {
+    throw new Error('Could not find settings document');
+  }
+  const numberOfUsers = await UsersModel.countDocuments({
+    nostrPublicKey: { $exists: true },
+  });
+  res.json({
+    npub: nostrNpub,
+    relays: settings.nostrRelays,
+    numberOfUsers,
+  });
+}));
+
+apiSettingsRouter.post('/nostr', asyncHandler(async (req, res) => {
+  // No patches - just replace all.
+  const { relays } = req.body ?? {};
+  if (
+    !Array.isArray(relays) || (relays.length > maxNostrRelays)
+    || (new Set(relays).size !== relays.length)
+    || relays.some((relay) => !isNostrRelayUrl(relay))
+  ) {
+    res.status(400).json({
+      error: `Invalid relays, must be an array of up to ${maxNostrRelays} unique urls that begin`
+        + ' with wss:// or ws://',
+    });
+    return;
+  }
+  await SettingsModel.updateOne(
+    { _id: zeroObjectId },
+    {
+      $set: {
+        nostrRelays: relays,
+      },
+    },
+  );
+  nostrManager.setRelays(relays);
+  res.json({
+    ok: true,
+  });
+}));
+
+apiSettingsRouter.get('/smtp', asyncHandler(async (req, res) => {
+  const settings = await SettingsModel.findById(zeroObjectId);
+  if (!settings) {
+    throw new Error('Could not find settings document');
+  }
+  const numberOfUsers = await UsersModel.countDocuments({
+    emailAddress: { $exists: true },
+  });
+  const { smtp } = settings;
+  res.json({
+    ...smtp && {
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      username: smtp.username,
+      // The password is never sent back to the client
+      hasPassword: Boolean(smtp.password),
+      fromAddress: smtp.fromAddress,
+    },
+    numberOfUsers,
+  });
+}));
+
+apiSettingsRouter.post('/smtp', asyncHandler(async (req, res) => {
+  // No patches - just replace all, except for a missing password that keeps the existing one
+  // when the username was not changed. Without a host, the SMTP settings are removed.
+  const {
+    host, port, secure, username, password, fromAddress,
+  } = req.body ?? {};
+  if (host === undefined) {
+    await SettingsModel.updateOne(
+      { _id: zeroObjectId },
+      {
+        $unset: {
+          smtp: 1,
+        },
+      },
+    );
+    emailManager.configure(undefined);
+    res.json({
+      ok: true,
+    });
+    return;
+  }
+  if (
+    !isShortString(host) || (host.length === 0)
+    || !isSafeNonNegativeInteger(port) || (port === 0) || (port > 65535)
+    || (typeof secure !== 'boolean')
+    || ((username !== undefined) && !isShortString(username))
+    || ((password !== undefined) && !isShortString(password))
+    || !isEmailAddress(fromAddress)
+  ) {
+    res.status(400).json({
+      error: 'Invalid body',
+    });
+    return;
+  }
+  const settings = await SettingsModel.findById(zeroObjectId);
+  if (!settings) {
+    throw new Error('Could not load settings');
+  }
+  const smtp = {
+    host,
+    port,
+    secure,
+    ...username && {
+      username,
+      password: password ?? (
+        (settings.smtp?.username === username) ? settings.smtp?.password : undefined
+      ),
+    },
+    fromAddress,
+  };
+  await SettingsModel.updateOne(
+    { _id: zeroObjectId },
+    {
+      $set: {
+        smtp,
+      },
+    },
+  );
+  emailManager.configure(smtp);
+  res.json({
+    ok: true,
+  });
+}));
+
+apiSettingsRouter.post('/smtp/test', asyncHandler(async (req, res) => {
+  const { emailAddress } = req.body ?? {};
+  if (!isEmailAddress(emailAddress)) {
+    res.status(400).json({
+      error: 'Invalid email address',
+    });
+    return;
+  }
+  if (!emailManager.isConfigured) {
+    res.status(409).json({
+      error: 'SMTP is not configured',
+    });
+    return;
+  }
+  await EmailManager.test(emailAddress);
+  res.json({
+    ok: true,
+  });
+}));
+
+apiSettingsRouter.get('/matrix', asyncHandler(async (req, res) => {
+  const settings = await SettingsModel.findById(zeroObjectId);
+  if (!settings) {
+    throw new Error('Could not find settings document');
+  }
+  const numberOfUsers = await UsersModel.countDocuments({
+    matrixRoomId: { $exists: true },
+  });
+  const { matrix } = settings;
+  res.json({
+    ...matrix && {
+      homeserverUrl: matrix.homeserverUrl,
+      // The access token is never sent back to the client
+      userId: matrix.userId,
+      rooms: matrix.rooms,
+      roomEvents: matrix.roomEvents,
+    },
+    availableRoomEvents: serverWideNotificationEvents,
+    numberOfUsers,
+  });
+}));
+
+apiSettingsRouter.post('/matrix', asyncHandler(async (req, res) => {
+  // No patches - just replace all, except for a missing access token that keeps the existing one
+  // when the homeserver was not changed. Without a homeserver, the Matrix settings are removed.
+  const {
+    homeserverUrl, accessToken, rooms, roomEvents,
+  } = req.body ?? {};
+  if (homeserverUrl === undefined) {
+    await SettingsModel.updateOne(
+      { _id: zeroObjectId },
+      {
+        $unset: {
+          matrix: 1,
+        },
+      },
+    );
+    matrixManager.configure(undefined);
+    res.json({
+      ok: true,
+    });
+    return;
+  }
+  if (
+    !isWebhookUrl(homeserverUrl)
+    || ((accessToken !== undefined) && ((typeof accessToken !== 'string') || !accessToken))
+    || !Array.isArray(rooms) || (rooms.length > maxMatrixRooms)
+    || rooms.some((room) => !isMatrixRoom(room))
+    || !Array.isArray(roomEvents)
+    || roomEvents.some((roomEvent) => !serverWideNotificationEvents.includes(roomEvent))
+  ) {
+    res.status(400).json({
+      error: 'Invalid body',
+    });
+    return;
+  }
+  const settings = await SettingsModel.findById(zeroObjectId);
+  if (!settings) {
+    throw new Error('Could not load settings');
+  }
+  const matrixAccessToken: string | undefined = accessToken ?? (
+    (settings.matrix?.homeserverUrl === homeserverUrl) ? settings.matrix?.accessToken : undefined
+  );
+  if (!matrixAccessToken) {
+    res.status(400).json({
+      error: 'Missing access token',
+    });
+    return;
+  }
+  let userId: string;
+  try {
+    userId = await matrixWhoAmI(homeserverUrl, matrixAccessToken);
+  } catch (error) {
+    res.status(400).json({
+      error: `Could not log in to the homeserver: ${errorString(error)}`,
+    });
+    return;
+  }
+  // Room aliases are resolved to room ids by joining them
+  const roomIds: string[] = [];
+  for await (const room of rooms) {
+    try {
+      roomIds.push(await matrixJoinRoom(homeserverUrl, matrixAccessToken, room));
+    } catch (error) {
+      res.status(400).json({
+        error: `Could not join room ${room}: ${errorString(error)}`,
+      });
+      return;
+    }
+  }
+  const matrix = {
+    homeserverUrl,
+    accessToken: matrixAccessToken,
+    userId,
+    rooms: [...new Set(roomIds)],
+    roomEvents: [...new Set(roomEvents)],
+  };
+  await SettingsModel.updateOne(
+    { _id: zeroObjectId },
+    {
+      $set: {
+        matrix,
+      },
+    },
+  );
+  matrixManager.configure(matrix);
+  res.json({
+    ok: true,
+  });
+}));
+
+apiSettingsRouter.post('/matrix/test', asyncHandler(async (req, res) => {
+  if (!matrixManager.isConfigured) {
+    res.status(409).json({
+      error: 'Matrix is not configured',
+    });
+    return;
+  }
+  for await (const roomId of matrixManager.rooms) {
+    await MatrixManager.test(roomId);
+  }
+  res.json({
+    ok: true,
+  });
+}));
+
 apiSettingsRouter.get('/commands-permission-groups', asyncHandler(async (req, res) => {
   const settings = await SettingsModel.findById(zeroObjectId);
   if (!settings) {
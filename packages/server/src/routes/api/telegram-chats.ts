@@ -0,0 +1,115 @@
+import { Router } from 'express';
+import { Types } from 'mongoose';
+
+import { asyncHandler } from '../../helpers/express';
+import { errorString } from '../../helpers/error';
+import logger from '../../helpers/logger';
+import telegramManager, { chatApprovedMessage, TelegrafManager } from '../../helpers/telegram';
+import {
+  approveTelegramChat, deleteTelegramChat, rejectTelegramChat,
+} from '../../controllers/telegram-chats';
+import {
+  TelegramChatDocument, TelegramChatsModel, TelegramChatStatus,
+} from '../../models/telegram-chats';
+
+const apiTelegramChatsRouter = Router();
+
+function telegramChatData(chat: TelegramChatDocument) {
+  return {
+    type: 'telegram-chats',
+    id: chat.id,
+    attributes: {
+      telegramChatId: chat.telegramChatId,
+      type: chat.type,
+      title: chat.title,
+      status: chat.status,
+      addedByFromId: chat.addedByFromId,
+      ...chat.subscriberId && { subscriberId: `${chat.subscriberId}` },
+      createdAt: chat.createdAt,
+      updatedAt: chat.updatedAt,
+    },
+  };
+}
+
+apiTelegramChatsRouter.get('/', asyncHandler(async (req, res) => {
+  const chats = await TelegramChatsModel.find({}).sort([
+    ['createdAt', 1],
+    ['_id', 1],
+  ]);
+  res.json({
+    data: chats.map(telegramChatData),
+  });
+}));
+
+apiTelegramChatsRouter.patch('/:chatId([0-9a-f]{24})', asyncHandler(async (req, res) => {
+  const { chatId } = req.params;
+  const data = req.body?.data;
+  if (!data || data.type !== 'telegram-chats' || data.id !== chatId || data.relationships) {
+    res.status(400).json({
+      error: 'Invalid body',
+    });
+    return;
+  }
+  const { attributes } = data;
+  if (!attributes || Array.isArray(attributes) || typeof attributes !== 'object') {
+    res.status(400).json({
+      error: 'Invalid attributes field',
+    });
+    return;
+  }
+  const { status, ...leftover } = attributes;
+  if (Object.keys(leftover).length > 0) {
+    res.status(403).json({
+      error: 'Not allowed to change one or more attributes',
+    });
+    return;
+  }
+  if (![TelegramChatStatus.Approved, TelegramChatStatus.Rejected].includes(status)) {
+    res.status(400).json({
+      error: 'Status must be either approved or rejected',
+    });
+    return;
+  }
+  const chat = await TelegramChatsModel.findById(chatId);
+  if (!chat) {
+    res.status(404).json({
+      error: 'Chat not found',
+    });
+    return;
+  }
+  if (chat.status === status) {
+    res.json({ ok: true });
+    return;
+  }
+  const updatedChat = (status === TelegramChatStatus.Approved)
+    ? await approveTelegramChat(chat)
+    : await rejectTelegramChat(chat);
+  if (updatedChat?.status === TelegramChatStatus.Approved) {
+    TelegrafManager.sendMessage({
+      text: chatApprovedMessage,
+      chatId: chat.telegramChatId,
+    });
+  }
+  res.json({ ok: true });
+}));
+
+apiTelegramChatsRouter.delete('/:chatId([0-9a-f]{24})', asyncHandler(async (req, res) => {
+  const chat = await deleteTelegramChat({
+    _id: new Types.ObjectId(req.params.chatId),
+  });
+  if (!chat) {
+    res.status(404).json({
+      error: 'Chat not found',
+    });
+    return;
+  }
+  try {
+    // Otherwise the chat would be registered again with its next command
+    await telegramManager.bot?.telegram.leaveChat(chat.telegramChatId);
+  } catch (error) {
+    logger.error(`Failed to leave deleted chat ${chat.telegramChatId}: ${errorString(error)}`);
+  }
+  res.json({ ok: true });
+}));
+
+export default apiTelegramChatsRouter;
@@ -5,11 +5,14 @@ import { permissionGroupNameRegex } from '@woofbot/common';
 import { asyncHandler } from '../../helpers/express';
 import { UsersModel } from '../../models/users';
 import { WatchedAddressesModel } from '../../models/watched-addresses';
+import { WatchedOutpointsModel } from '../../models/watched-outpoints';
+import { WatchedTimelocksModel } from '../../models/watched-timelocks';
 import { WatchedTransactionsModel } from '../../models/watched-transactions';
+import { WatchedWalletsModel } from '../../models/watched-wallets';
 import { deleteUser } from '../../controllers/users';
 import logger from '../../helpers/logger';
 import { errorString } from '../../helpers/error';
-import telegramManager, { escapeMarkdown } from '../../helpers/telegram';
+import { escapeMarkdown, TelegrafManager } from '../../helpers/telegram';
 
 const maxLimit = 200;
 
@@ -19,14 +22,36 @@ const listAttributes = [
   'telegramChatId',
   'watchReboot',
   'watchNewBlocks',
+  'watchNewBlocksPools',
+  'watchReorg',
+  'watchDifficulty',
+  'watchHalving',
   'watchPriceChange',
   'watchMempoolClear',
+  'watchFeeRateBelow',
+  'watchFeeRateAbove',
+  'watchWhaleAmountSats',
+  'watchWhaleFeeSats',
+  'watchWhaleFeeRate',
+  'watchNodeHealth',
   'watchLightningChannelsOpened',
   'watchLightningChannelsClosed',
   'watchLightningForwards',
   'watchLightningInvoicesCreated',
   'watchLightningInvoicesPaid',
+  'watchLightningLiquidityBelow',
+  'watchLightningLiquidityAbove',
+  'watchLightningChannelsLiquidity',
   'permissionGroups',
+  'nostrPublicKey',
+  'nostrEncryption',
+  'emailAddress',
+  'matrixUserId',
+  'telegramChatType',
+  'language',
+  'timeZone',
+  'locale',
+  'numberFormat',
   'updatedAt',
   'createdAt',
 ];
@@ -71,6 +96,8 @@ apiUsersRouter.get('/', asyncHandler(async (req, res) => {
   );
   const cursorDate = cursorTimestamp && new Date(Number(cursorTimestamp));
   const users = await UsersModel.find({
+    // The subscribers of groups and channels are listed with the telegram chats
+    telegramChatType: { $exists: false },
     ...Boolean(cursor) && {
       $or: [
         {
@@ -125,7 +152,7 @@ apiUsersRouter.delete('/:userId([0-9a-f]{24})', asyncHandler(async (req, res) =>
     return;
   }
   try {
-    telegramManager.sendMessage({
+    TelegrafManager.sendMessage({
       text: escapeMarkdown('Woof! You have been removed by the bot administrator. Goodbye!'),
       chatId: user.telegramChatId,
     });
@@ -151,6 +178,15 @@ apiUsersRouter.get('/:userId([0-9a-f]{24})', asyncHandler(async (req, res) => {
   const watchedTransactions = await WatchedTransactionsModel.find({
     userId: user._id,
   });
+  const watchedWallets = await WatchedWalletsModel.find({
+    userId: user._id,
+  });
+  const watchedOutpoints = await WatchedOutpointsModel.find({
+    userId: user._id,
+  });
+  const watchedTimelocks = await WatchedTimelocksModel.find({
+    userId: user._id,
+  });
   res.json({
     data: {
       type: 'users',
@@ -171,6 +207,24 @@ apiUsersRouter.get('/:userId([0-9a-f]{24})', asyncHandler(async (req, res) => {
             id: doc.id,
           })),
         },
+        watchedWallets: {
+          data: watchedWallets.map((doc) => ({
+            type: 'watched-wallets',
+            id: doc.id,
+          })),
+        },
+        watchedOutpoints: {
+          data: watchedOutpoints.map((doc) => ({
+            type: 'watched-outpoints',
+            id: doc.id,
+          })),
+        },
+        watchedTimelocks: {
+          data: watchedTimelocks.map((doc) => ({
+            type: 'watched-timelocks',
+            id: doc.id,
+          })),
+        },
       },
     },
     included: [
@@ -180,6 +234,9 @@ apiUsersRouter.get('/:userId([0-9a-f]{24})', asyncHandler(async (req, res) => {
         attributes: Object.fromEntries([
           'address',
           'nickname',
+          'confirmedBalanceSats',
+          'balanceAboveSats',
+          'balanceBelowSats',
           'createdAt',
           'updatedAt',
         ].map((key) => [key, doc[key]])),
@@ -194,6 +251,50 @@ apiUsersRouter.get('/:userId([0-9a-f]{24})', asyncHandler(async (req, res) => {
           'blockHashes',
           'confirmations',
           'conflictingTransactions',
+          'confirmationTargets',
+          'createdAt',
+          'updatedAt',
+        ].map((key) => [key, doc[key]])),
+      })),
+      ...watchedWallets.map((doc) => ({
+        type: 'watched-wallets',
+        id: doc.id,
+        attributes: {
+          ...Object.fromEntries([
+            'extendedKey',
+            'scriptType',
+            'nickname',
+            'createdAt',
+            'updatedAt',
+          ].map((key) => [key, doc[key]])),
+          derivedAddresses: doc.receiveAddresses.length + doc.changeAddresses.length,
+        },
+      })),
+      ...watchedOutpoints.map((doc) => ({
+        type: 'watched-outpoints',
+        id: doc.id,
+        attributes: Object.fromEntries([
+          'outpoint',
+          'nickname',
+          'valueSats',
+          'spendingTxid',
+          'createdAt',
+          'updatedAt',
+        ].map((key) => [key, doc[key]])),
+      })),
+      ...watchedTimelocks.map((doc) => ({
+        type: 'watched-timelocks',
+        id: doc.id,
+        attributes: Object.fromEntries([
+          'type',
+          'lock',
+          'nickname',
+          'relativeBlocks',
+          'relativeSeconds',
+          'maturityHeight',
+          'maturityTime',
+          'warningBlocks',
+          'matured',
           'createdAt',
           'updatedAt',
         ].map((key) => [key, doc[key]])),
@@ -0,0 +1,103 @@
+import { Router } from 'express';
+import { Types } from 'mongoose';
+
+import { asyncHandler } from '../../helpers/express';
+import { isWebhookUrl } from '../../helpers/validations';
+import { maxAdminWebhooks, webhookSecret, WebhooksManager } from '../../helpers/webhooks';
+import { UsersModel } from '../../models/users';
+import { WebhookDocument, WebhooksModel } from '../../models/webhooks';
+
+const apiWebhooksRouter = Router();
+
+function webhookData(webhook: WebhookDocument, telegramUsername?: string) {
+  return {
+    type: 'webhooks',
+    id: webhook.id,
+    attributes: {
+      url: webhook.url,
+      ...webhook.userId ? {
+        userId: `${webhook.userId}`,
+        telegramUsername,
+      } : {
+        // Users see the secrets of their own webhooks in the bot
+        secret: webhookSecret(webhook.id),
+      },
+      createdAt: webhook.createdAt,
+      updatedAt: webhook.updatedAt,
+    },
+  };
+}
+
+apiWebhooksRouter.get('/', asyncHandler(async (req, res) => {
+  const webhooks = await WebhooksModel.find({}).sort([
+    ['createdAt', 1],
+    ['_id', 1],
+  ]);
+  const users = await UsersModel.find({
+    _id: {
+      $in: webhooks.flatMap(({ userId }) => (userId ? [userId] : [])),
+    },
+  });
+  const usernameById = new Map(users.map((user) => [user.id, user.telegramUsername]));
+  res.json({
+    data: webhooks.map(
+      (webhook) => webhookData(webhook, usernameById.get(`${webhook.userId}`)),
+    ),
+  });
+}));
+
+apiWebhooksRouter.post('/', asyncHandler(async (req, res) => {
+  const { url } = req.body ?? {};
+  if (!isWebhookUrl(url)) {
+    res.status(400).json({
+      error: 'Webhook url must begin with http:// or https:// and contain no spaces',
+    });
+    return;
+  }
+  const adminWebhooks = await WebhooksModel.find({ userId: { $exists: false } });
+  if (adminWebhooks.some((webhook) => webhook.url === url)) {
+    res.status(409).json({
+      error: 'Webhook already exists',
+    });
+    return;
+  }
+  if (adminWebhooks.length >= maxAdminWebhooks) {
+    res.status(400).json({
+      error: `Cannot have more than ${maxAdminWebhooks} webhooks`,
+    });
+    return;
+  }
+  const webhook = await WebhooksModel.create({ url });
+  res.json({
+    data: webhookData(webhook),
+  });
+}));
+
+apiWebhooksRouter.delete('/:webhookId([0-9a-f]{24})', asyncHandler(async (req, res) => {
+  const webhook = await WebhooksModel.findOneAndDelete({
+    _id: new Types.ObjectId(req.params.webhookId),
+  });
+  if (!webhook) {
+    res.status(404).json({
+      error: 'Webhook not found',
+    });
+    return;
+  }
+  res.json({ ok: true });
+}));
+
+apiWebhooksRouter.post('/:webhookId([0-9a-f]{24})/test', asyncHandler(async (req, res) => {
+  const webhook = await WebhooksModel.findOne({
+    _id: new Types.ObjectId(req.params.webhookId),
+  });
+  if (!webhook) {
+    res.status(404).json({
+      error: 'Webhook not found',
+    });
+    return;
+  }
+  await WebhooksManager.test([webhook]);
+  res.json({ ok: true });
+}));
+
+export default apiWebhooksRouter;